@@ -0,0 +1 @@
+ALTER TABLE "voice_dna_profiles" ADD COLUMN "glossary" jsonb DEFAULT '[]'::jsonb;
\ No newline at end of file
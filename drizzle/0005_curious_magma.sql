@@ -0,0 +1 @@
+ALTER TABLE "voice_sessions" ADD COLUMN "owner_speaker" text;
\ No newline at end of file
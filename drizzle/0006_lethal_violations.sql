@@ -0,0 +1,2 @@
+CREATE TYPE "public"."session_source" AS ENUM('recording', 'import');--> statement-breakpoint
+ALTER TABLE "voice_sessions" ADD COLUMN "source" "session_source" DEFAULT 'recording' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "user" ADD COLUMN "retain_audio" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "voice_sessions" ADD COLUMN "audio_url" text;
\ No newline at end of file
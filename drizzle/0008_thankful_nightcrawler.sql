@@ -0,0 +1 @@
+ALTER TABLE "voice_sessions" ADD COLUMN "acoustic_features" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "voice_sessions" ADD COLUMN "audio_retained" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE "voice_sessions" SET "audio_retained" = true WHERE "audio_url" IS NOT NULL;
\ No newline at end of file
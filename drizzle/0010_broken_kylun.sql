@@ -0,0 +1,2 @@
+ALTER TABLE "voice_dna_profiles" ADD COLUMN "spoken_patterns_by_language" jsonb DEFAULT '{}'::jsonb;--> statement-breakpoint
+ALTER TABLE "voice_sessions" ADD COLUMN "language" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "generated_content" ADD COLUMN "language" text;--> statement-breakpoint
+UPDATE "generated_content" SET "language" = "voice_sessions"."language" FROM "voice_sessions" WHERE "generated_content"."session_id" = "voice_sessions"."id";
\ No newline at end of file
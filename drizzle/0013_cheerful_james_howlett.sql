@@ -0,0 +1,12 @@
+CREATE TABLE "session_transitions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"from_status" "session_status",
+	"to_status" "session_status" NOT NULL,
+	"actor" text NOT NULL,
+	"reason" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_transitions" ADD CONSTRAINT "session_transitions_session_id_voice_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."voice_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "session_transitions_session_id_idx" ON "session_transitions" USING btree ("session_id","created_at");
\ No newline at end of file
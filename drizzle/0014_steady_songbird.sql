@@ -0,0 +1,3 @@
+ALTER TABLE "generated_content" ADD COLUMN "translation_of" uuid;--> statement-breakpoint
+CREATE INDEX "generated_content_translation_of_idx" ON "generated_content" USING btree ("translation_of");--> statement-breakpoint
+UPDATE "generated_content" SET "translation_of" = "voice_sessions"."generated_content_id" FROM "voice_sessions" WHERE "generated_content"."session_id" = "voice_sessions"."id" AND "generated_content"."parent_version_id" IS NULL AND "generated_content"."id" <> "voice_sessions"."generated_content_id";
@@ -0,0 +1,17 @@
+CREATE TABLE "content_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"sections" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"min_words" integer,
+	"max_words" integer,
+	"instructions" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generated_content" ADD COLUMN "custom_template_id" uuid;--> statement-breakpoint
+ALTER TABLE "content_templates" ADD CONSTRAINT "content_templates_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "content_templates_user_id_idx" ON "content_templates" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "generated_content" ADD CONSTRAINT "generated_content_custom_template_id_content_templates_id_fk" FOREIGN KEY ("custom_template_id") REFERENCES "public"."content_templates"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
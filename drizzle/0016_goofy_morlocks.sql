@@ -0,0 +1,5 @@
+CREATE TYPE "public"."content_format" AS ENUM('article', 'linkedin_post', 'x_thread', 'newsletter_blurb', 'video_script');--> statement-breakpoint
+ALTER TYPE "public"."job_type" ADD VALUE 'repurpose_content';--> statement-breakpoint
+ALTER TABLE "generated_content" ADD COLUMN "format" "content_format" DEFAULT 'article' NOT NULL;--> statement-breakpoint
+ALTER TABLE "generated_content" ADD COLUMN "repurposed_from" uuid;--> statement-breakpoint
+CREATE INDEX "generated_content_repurposed_from_idx" ON "generated_content" USING btree ("repurposed_from");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "generated_content" ADD COLUMN "restored_from" uuid;--> statement-breakpoint
+CREATE INDEX "generated_content_parent_version_id_idx" ON "generated_content" USING btree ("parent_version_id");
\ No newline at end of file
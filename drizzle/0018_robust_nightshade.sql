@@ -0,0 +1,18 @@
+CREATE TYPE "public"."learned_rule_type" AS ENUM('prefer', 'avoid', 'adjust');--> statement-breakpoint
+CREATE TYPE "public"."rule_proposal_status" AS ENUM('pending', 'confirmed', 'dismissed');--> statement-breakpoint
+ALTER TYPE "public"."job_type" ADD VALUE 'learn_from_refinement';--> statement-breakpoint
+CREATE TABLE "learned_rule_proposals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"type" "learned_rule_type" NOT NULL,
+	"content" text NOT NULL,
+	"piece_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"examples" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" "rule_proposal_status" DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "learned_rule_proposals" ADD CONSTRAINT "learned_rule_proposals_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "learned_rule_proposals_user_id_idx" ON "learned_rule_proposals" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "learned_rule_proposals_status_idx" ON "learned_rule_proposals" USING btree ("status");
\ No newline at end of file
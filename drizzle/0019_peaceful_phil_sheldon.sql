@@ -0,0 +1 @@
+ALTER TYPE "public"."job_type" ADD VALUE 'learn_from_edits';
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "generated_content" ADD COLUMN "generated_text" text;
\ No newline at end of file
@@ -0,0 +1,28 @@
+#!/usr/bin/env npx tsx
+/**
+ * Background job worker: transcription, analysis, follow-up questions and
+ * content generation (see src/lib/jobs).
+ * Usage: pnpm worker
+ *
+ * Run one or more alongside the app. Stops after the current job on
+ * SIGINT/SIGTERM.
+ */
+
+import { runWorker } from "../src/lib/jobs/worker";
+
+async function main() {
+  const controller = new AbortController();
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+      console.log("⏳ Finishing the current job before stopping...");
+      controller.abort();
+    });
+  }
+
+  console.log("👷 Worker started, waiting for jobs");
+  await runWorker(controller.signal);
+  console.log("✅ Worker stopped");
+  process.exit(0);
+}
+
+main();
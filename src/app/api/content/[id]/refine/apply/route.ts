@@ -0,0 +1,164 @@
+/**
+ * Refinement Apply API Route
+ *
+ * POST /api/content/[id]/refine/apply
+ *
+ * Stores the hunks of a refinement's change set the user accepted as a new
+ * version. Rejected hunks are left out, and the text outside the accepted
+ * ones is kept exactly as it was. The instruction and accepted hunks are then
+ * mined for voice preferences in the background (see lib/analysis/ruleLearning.ts).
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { applyHunks, resolveAcceptedHunks } from "@/lib/content/changeSet";
+import { describeChanges, diffContent } from "@/lib/content/diff";
+import { processGeneratedContent } from "@/lib/content/postProcessor";
+import { db } from "@/lib/db";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { generatedContent } from "@/lib/schema";
+import { isValidUUID } from "@/lib/validation";
+
+const MODEL = process.env.OPENROUTER_MODEL || "anthropic/claude-sonnet-4";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface ApplyRequest {
+  hunks?: unknown;
+  instruction?: unknown;
+}
+
+/**
+ * POST /api/content/[id]/refine/apply
+ *
+ * Request body:
+ * - hunks: Array of { start, end, before, after }, the accepted hunks of a
+ *   change set from POST /api/content/[id]/refine for this version
+ * - instruction: (optional) The refinement's instruction, to learn from
+ *
+ * Response:
+ * - contentId: UUID of the new version
+ * - content: Refined markdown content
+ * - wordCount: Word count
+ * - readTimeMinutes: Estimated read time
+ * - version: New version number
+ * - changes: Array of change descriptions
+ *
+ * Response (409): The content changed since the hunks were proposed
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: "Invalid content ID format" },
+        { status: 400 }
+      );
+    }
+
+    const body = (await request.json()) as ApplyRequest;
+
+    // Fetch existing content
+    const [existingContent] = await db
+      .select()
+      .from(generatedContent)
+      .where(eq(generatedContent.id, id))
+      .limit(1);
+
+    if (!existingContent) {
+      return NextResponse.json({ error: "Content not found" }, { status: 404 });
+    }
+
+    // Verify ownership
+    if (existingContent.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const accepted = resolveAcceptedHunks(existingContent.content, body.hunks);
+    if ("error" in accepted) {
+      return NextResponse.json({ error: accepted.error }, { status: accepted.status });
+    }
+
+    const processed = processGeneratedContent(
+      applyHunks(existingContent.content, accepted.hunks)
+    );
+    const changes = describeChanges(diffContent(existingContent.content, processed.content));
+
+    // Create new version
+    const newVersion = existingContent.version + 1;
+
+    const [newContent] = await db
+      .insert(generatedContent)
+      .values({
+        userId: session.user.id,
+        sessionId: existingContent.sessionId,
+        title: processed.title || existingContent.title,
+        content: processed.content,
+        wordCount: processed.wordCount,
+        readTimeMinutes: processed.readTimeMinutes,
+        status: "draft",
+        voiceDNASnapshot: existingContent.voiceDNASnapshot,
+        referentInfluencesUsed: existingContent.referentInfluencesUsed,
+        version: newVersion,
+        parentVersionId: existingContent.id,
+        modelUsed: MODEL,
+        template: existingContent.template,
+        customTemplateId: existingContent.customTemplateId,
+        language: existingContent.language,
+        translationOf: existingContent.translationOf,
+        format: existingContent.format,
+        repurposedFrom: existingContent.repurposedFrom,
+      })
+      .returning();
+
+    if (!newContent) {
+      throw new Error("Failed to store refined content");
+    }
+
+    // What the user asked for and kept says something about their voice
+    if (typeof body.instruction === "string" && body.instruction.trim()) {
+      await enqueueJob("learn_from_refinement", {
+        userId: session.user.id,
+        sessionId: existingContent.sessionId,
+        payload: {
+          contentId: newContent.id,
+          instruction: body.instruction.trim(),
+          edits: accepted.hunks.map(({ before, after }) => ({ before, after })),
+        },
+        idempotencyKey: `learn_from_refinement:${newContent.id}`,
+      });
+    }
+
+    return NextResponse.json({
+      contentId: newContent.id,
+      title: newContent.title,
+      content: newContent.content,
+      wordCount: newContent.wordCount,
+      readTimeMinutes: newContent.readTimeMinutes,
+      version: newVersion,
+      parentVersionId: existingContent.id,
+      changes,
+    });
+  } catch (error) {
+    console.error("Error applying refinement:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to apply refinement",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
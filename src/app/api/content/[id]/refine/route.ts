@@ -4,7 +4,10 @@
  * POST /api/content/[id]/refine
  *
  * Refines content based on voice or text instructions.
- * Creates a new version while preserving the original.
+ * Proposes the changes as a change set of hunks for the user to accept or
+ * reject (see lib/content/changeSet.ts); POST /api/content/[id]/refine/apply
+ * stores the accepted ones as a new version.
+ * A range limits the refinement to one passage (see lib/content/selection.ts).
  */
 
 import { headers } from "next/headers";
@@ -13,13 +16,23 @@ import { openrouter } from "@openrouter/ai-sdk-provider";
 import { generateText } from "ai";
 import { eq } from "drizzle-orm";
 import { auth } from "@/lib/auth";
+import { buildHunks, type ProposedHunk } from "@/lib/content/changeSet";
+import { describeChanges, diffContent } from "@/lib/content/diff";
 import {
-  processGeneratedContent,
   cleanupContent,
+  cleanupPassage,
+  processGeneratedContent,
 } from "@/lib/content/postProcessor";
+import {
+  passageContext,
+  resolveRefineRange,
+  splicePassage,
+  type TextRange,
+} from "@/lib/content/selection";
 import { db } from "@/lib/db";
 import { generatedContent } from "@/lib/schema";
 import { isValidUUID } from "@/lib/validation";
+import type { RefineChangeSet, RefineRange } from "@/types/content";
 
 const MODEL = process.env.OPENROUTER_MODEL || "anthropic/claude-sonnet-4";
 
@@ -30,6 +43,7 @@ interface RouteParams {
 interface RefineRequest {
   refinementType: "voice" | "text";
   instruction: string;
+  range?: RefineRange;
 }
 
 /**
@@ -48,6 +62,7 @@ DO:
 - Preserve the author's unique phrases and expressions
 - Maintain the existing structure unless asked to change it
 - Make minimal changes to achieve the requested improvement
+- Keep the content in the language it is written in, even if the instruction is in another language
 
 Return ONLY the refined content in markdown format. Do not include explanations or commentary.`;
 
@@ -57,14 +72,15 @@ Return ONLY the refined content in markdown format. Do not include explanations
  * Request body:
  * - refinementType: "voice" | "text" (how the instruction was given)
  * - instruction: The refinement instruction (already transcribed if voice)
+ * - range: (optional) { unit: "character" | "paragraph", start, end } to
+ *   refine only that passage; the rest of the content is kept as it is
  *
- * Response:
- * - contentId: UUID of the new version
- * - content: Refined markdown content
- * - wordCount: Word count
- * - readTimeMinutes: Estimated read time
- * - version: New version number
- * - changes: Array of change descriptions
+ * Response (nothing is stored yet):
+ * - contentId, version: The version the changes apply to
+ * - instruction, refinementType: As requested
+ * - hunks: Array of { id, start, end, before, after, rationale }, each a
+ *   change to accept or reject
+ * - changes: Array of change descriptions for all hunks together
  */
 export async function POST(request: Request, { params }: RouteParams) {
   try {
@@ -118,12 +134,24 @@ export async function POST(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    let range: TextRange | null = null;
+    if (body.range !== undefined) {
+      const resolved = resolveRefineRange(existingContent.content, body.range);
+      if ("error" in resolved) {
+        return NextResponse.json({ error: resolved.error }, { status: 400 });
+      }
+      range = resolved.range;
+    }
+
     // Build refinement prompt
-    const refinementPrompt = buildRefinementPrompt(
-      existingContent.content,
-      instruction.trim(),
-      refinementType
-    );
+    const refinementPrompt = range
+      ? buildPassageRefinementPrompt(
+          existingContent.content,
+          range,
+          instruction.trim(),
+          refinementType
+        )
+      : buildRefinementPrompt(existingContent.content, instruction.trim(), refinementType);
 
     // Generate refined content
     const { text: rawContent } = await generateText({
@@ -134,48 +162,34 @@ export async function POST(request: Request, { params }: RouteParams) {
       temperature: 0.5, // Lower temperature for more faithful refinement
     });
 
-    // Clean up and process the content
-    const cleanedContent = cleanupContent(rawContent);
-    const processed = processGeneratedContent(cleanedContent);
-
-    // Detect changes
-    const changes = detectChanges(existingContent.content, processed.content);
-
-    // Create new version
-    const newVersion = existingContent.version + 1;
-
-    const [newContent] = await db
-      .insert(generatedContent)
-      .values({
-        userId: session.user.id,
-        sessionId: existingContent.sessionId,
-        title: processed.title || existingContent.title,
-        content: processed.content,
-        wordCount: processed.wordCount,
-        readTimeMinutes: processed.readTimeMinutes,
-        status: "draft",
-        voiceDNASnapshot: existingContent.voiceDNASnapshot,
-        referentInfluencesUsed: existingContent.referentInfluencesUsed,
-        version: newVersion,
-        parentVersionId: existingContent.id,
-        modelUsed: MODEL,
-      })
-      .returning();
-
-    if (!newContent) {
-      throw new Error("Failed to store refined content");
+    // Clean up the refined text
+    let refined: string;
+    if (range) {
+      const passage = cleanupPassage(rawContent);
+      if (!passage) {
+        throw new Error("The refined passage came back empty");
+      }
+
+      // Only the passage changes; everything around it is copied as it was
+      refined = splicePassage(existingContent.content, range, passage).content;
+    } else {
+      refined = processGeneratedContent(cleanupContent(rawContent)).content;
     }
 
-    return NextResponse.json({
-      contentId: newContent.id,
-      title: newContent.title,
-      content: newContent.content,
-      wordCount: newContent.wordCount,
-      readTimeMinutes: newContent.readTimeMinutes,
-      version: newVersion,
-      parentVersionId: existingContent.id,
-      changes,
-    });
+    // Propose the changes hunk by hunk; nothing is stored until some are accepted
+    const hunks = buildHunks(existingContent.content, refined);
+    const rationales = await explainHunks(instruction.trim(), hunks);
+
+    const changeSet: RefineChangeSet = {
+      contentId: existingContent.id,
+      version: existingContent.version,
+      instruction: instruction.trim(),
+      refinementType,
+      hunks: hunks.map((hunk, i) => ({ ...hunk, rationale: rationales[i] ?? describeHunk(hunk) })),
+      changes: describeChanges(diffContent(existingContent.content, refined)),
+    };
+
+    return NextResponse.json(changeSet);
   } catch (error) {
     console.error("Error refining content:", error);
     return NextResponse.json(
@@ -217,46 +231,108 @@ Return the complete refined content in markdown format.`;
 }
 
 /**
- * Detect and describe changes between old and new content
+ * Build the prompt for refining one passage, with the text around it as context
  */
-function detectChanges(oldContent: string, newContent: string): string[] {
-  const changes: string[] = [];
+function buildPassageRefinementPrompt(
+  content: string,
+  range: TextRange,
+  instruction: string,
+  refinementType: "voice" | "text"
+): string {
+  const { before, after } = passageContext(content, range);
+  const instructionContext =
+    refinementType === "voice"
+      ? "The author gave this feedback by speaking (transcribed below)"
+      : "The author gave this written feedback";
 
-  // Word count change
-  const oldWords = oldContent.split(/\s+/).length;
-  const newWords = newContent.split(/\s+/).length;
-  const wordDiff = newWords - oldWords;
+  return `## TEXT BEFORE THE PASSAGE (context only)
+"""
+${before.trim() || "(start of the content)"}
+"""
 
-  if (Math.abs(wordDiff) > 10) {
-    if (wordDiff > 0) {
-      changes.push(`Added approximately ${wordDiff} words`);
-    } else {
-      changes.push(`Removed approximately ${Math.abs(wordDiff)} words`);
-    }
-  }
+## PASSAGE TO REFINE
+"""
+${content.slice(range.start, range.end).trim()}
+"""
+
+## TEXT AFTER THE PASSAGE (context only)
+"""
+${after.trim() || "(end of the content)"}
+"""
+
+## REFINEMENT REQUEST
+${instructionContext}:
+"${instruction}"
+
+## TASK
+Apply the requested changes to the passage only. The text before and after it stays as it is, so the rewritten passage must still read naturally between them: if the passage starts or ends mid-sentence, so does your rewrite.
+
+Return ONLY the rewritten passage in markdown format, without the surrounding text.`;
+}
 
-  // Title change
-  const oldTitle = oldContent.match(/^#\s+(.+?)(?:\n|$)/m)?.[1];
-  const newTitle = newContent.match(/^#\s+(.+?)(?:\n|$)/m)?.[1];
-  if (oldTitle !== newTitle && newTitle) {
-    changes.push("Title updated");
+/**
+ * System prompt for explaining the changes of a refinement
+ */
+const RATIONALE_SYSTEM_PROMPT = `You explain edits to their author. For each numbered change, say in one short sentence (at most 15 words) what it does and how it serves the author's request.
+
+Write in the language of the content. Respond with ONLY a JSON array of strings, one per change, in order.`;
+
+// Longest excerpt of each side of a hunk shown when explaining it
+const RATIONALE_EXCERPT_LENGTH = 600;
+
+/**
+ * A plain description of a hunk, when there's no better rationale
+ */
+function describeHunk(hunk: ProposedHunk): string {
+  if (!hunk.before) return "Adds new text";
+  if (!hunk.after) return "Removes this text";
+  return "Rewords this passage";
+}
+
+/**
+ * One short reason per hunk, for the user deciding whether to accept it.
+ * Falls back to describing the edit when the model's answer can't be used.
+ */
+async function explainHunks(instruction: string, hunks: ProposedHunk[]): Promise<string[]> {
+  const fallback = hunks.map(describeHunk);
+  if (hunks.length === 0) {
+    return fallback;
   }
 
-  // Section changes
-  const oldSections = oldContent.match(/^##\s+.+$/gm) || [];
-  const newSections = newContent.match(/^##\s+.+$/gm) || [];
-  if (oldSections.length !== newSections.length) {
-    if (newSections.length > oldSections.length) {
-      changes.push("Added new sections");
-    } else {
-      changes.push("Removed sections");
+  const excerpt = (text: string) =>
+    text.length > RATIONALE_EXCERPT_LENGTH
+      ? `${text.slice(0, RATIONALE_EXCERPT_LENGTH)}...`
+      : text || "(nothing)";
+
+  const changes = hunks
+    .map(
+      (hunk, i) =>
+        `### Change ${i + 1}\nBEFORE:\n${excerpt(hunk.before)}\n\nAFTER:\n${excerpt(hunk.after)}`
+    )
+    .join("\n\n");
+
+  try {
+    const { text } = await generateText({
+      model: openrouter(MODEL),
+      system: RATIONALE_SYSTEM_PROMPT,
+      prompt: `## AUTHOR'S REQUEST\n"${instruction}"\n\n## CHANGES\n\n${changes}`,
+      maxOutputTokens: 1000,
+      temperature: 0.3,
+    });
+
+    const jsonMatch = text.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      console.error("Failed to extract rationales from response:", text);
+      return fallback;
     }
-  }
 
-  // If no specific changes detected, add a generic message
-  if (changes.length === 0) {
-    changes.push("Content refined based on feedback");
+    const parsed = JSON.parse(jsonMatch[0]) as unknown[];
+    return fallback.map((description, i) => {
+      const rationale = parsed[i];
+      return typeof rationale === "string" && rationale.trim() ? rationale.trim() : description;
+    });
+  } catch (error) {
+    console.error("Failed to explain refinement changes:", error);
+    return fallback;
   }
-
-  return changes;
 }
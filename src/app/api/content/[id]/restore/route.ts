@@ -0,0 +1,96 @@
+/**
+ * Content Restore API Route
+ *
+ * POST /api/content/[id]/restore
+ *
+ * Brings back an older version by storing a copy of it as the newest
+ * version. Nothing is deleted: the versions in between stay in the history.
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { findLatestVersion, findOriginalVersion, restoreVersion } from "@/lib/content/versions";
+import { db } from "@/lib/db";
+import { generatedContent } from "@/lib/schema";
+import { isValidUUID } from "@/lib/validation";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/content/[id]/restore
+ *
+ * Response (201):
+ * - contentId: UUID of the new version
+ * - version: New version number
+ * - parentVersionId: UUID of the version it was stored on top of
+ * - restoredFrom: UUID of the restored version
+ *
+ * Response (409): The version is already the latest one
+ */
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: "Invalid content ID format" },
+        { status: 400 }
+      );
+    }
+
+    const [content] = await db
+      .select()
+      .from(generatedContent)
+      .where(eq(generatedContent.id, id))
+      .limit(1);
+
+    if (!content) {
+      return NextResponse.json({ error: "Content not found" }, { status: 404 });
+    }
+
+    // Verify ownership
+    if (content.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const latest = await findLatestVersion(await findOriginalVersion(content));
+    if (latest.id === content.id) {
+      return NextResponse.json(
+        { error: "This is already the latest version" },
+        { status: 409 }
+      );
+    }
+
+    const restored = await restoreVersion(content);
+
+    return NextResponse.json(
+      {
+        contentId: restored.id,
+        version: restored.version,
+        parentVersionId: restored.parentVersionId,
+        restoredFrom: restored.restoredFrom,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error restoring content version:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to restore version",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
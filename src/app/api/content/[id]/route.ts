@@ -8,13 +8,14 @@
 
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import {
   calculateWordCount,
   calculateReadTime,
 } from "@/lib/content/postProcessor";
 import { db } from "@/lib/db";
+import { enqueueJob } from "@/lib/jobs/queue";
 import { generatedContent, voiceSessions } from "@/lib/schema";
 import { isValidUUID } from "@/lib/validation";
 import type { ContentStatus } from "@/types/content";
@@ -91,10 +92,17 @@ export async function GET(_request: Request, { params }: RouteParams) {
       status: content.status,
       version: content.version,
       parentVersionId: content.parentVersionId,
+      restoredFrom: content.restoredFrom,
       voiceDNASnapshot: content.voiceDNASnapshot,
       referentInfluencesUsed: content.referentInfluencesUsed,
       modelUsed: content.modelUsed,
       generationTimeMs: content.generationTimeMs,
+      template: content.template,
+      customTemplateId: content.customTemplateId,
+      language: content.language,
+      translationOf: content.translationOf,
+      format: content.format,
+      repurposedFrom: content.repurposedFrom,
       createdAt: content.createdAt,
       updatedAt: content.updatedAt,
       session: voiceSession || null,
@@ -119,7 +127,10 @@ export async function GET(_request: Request, { params }: RouteParams) {
  * - content: (optional) Update content (will recalculate word count and read time)
  * - status: (optional) Update status (draft, final, published)
  *
- * Response: Updated content object
+ * Response:
+ * - content: Updated content object
+ * - learningJobId: Set when the content was edited; the job (learn_from_edits)
+ *   reports what the edit taught about the user's voice
  */
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
@@ -180,6 +191,8 @@ export async function PATCH(request: Request, { params }: RouteParams) {
         );
       }
       updateData.content = body.content;
+      // Keep what the model wrote, to learn from everything the user changed since
+      updateData.generatedText = existingContent.generatedText ?? existingContent.content;
       // Recalculate word count and read time
       updateData.wordCount = calculateWordCount(body.content);
       updateData.readTimeMinutes = calculateReadTime(updateData.wordCount);
@@ -211,9 +224,33 @@ export async function PATCH(request: Request, { params }: RouteParams) {
         .where(eq(voiceSessions.id, existingContent.sessionId));
     }
 
+    // How the user rewrites a draft by hand is the clearest sign of their voice.
+    // Each save is compared with the draft as generated, so an edit that was
+    // later undone teaches nothing.
+    let learningJobId: string | null = null;
+    if (
+      updatedContent?.generatedText &&
+      body.content !== undefined &&
+      body.content !== existingContent.content &&
+      body.content !== updatedContent.generatedText
+    ) {
+      const job = await enqueueJob("learn_from_edits", {
+        userId: session.user.id,
+        sessionId: existingContent.sessionId,
+        payload: {
+          contentId: id,
+          before: updatedContent.generatedText,
+          after: body.content,
+        },
+        idempotencyKey: `learn_from_edits:${id}:${updatedContent.updatedAt.getTime()}`,
+      });
+      learningJobId = job.id;
+    }
+
     return NextResponse.json({
       success: true,
       content: updatedContent,
+      learningJobId,
     });
   } catch (error) {
     console.error("Error updating content:", error);
@@ -266,11 +303,16 @@ export async function DELETE(_request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Clear the reference from the session first
+    // Clear the reference from the session first, if this is its content
     await db
       .update(voiceSessions)
       .set({ generatedContentId: null, updatedAt: new Date() })
-      .where(eq(voiceSessions.id, existingContent.sessionId));
+      .where(
+        and(
+          eq(voiceSessions.id, existingContent.sessionId),
+          eq(voiceSessions.generatedContentId, id)
+        )
+      );
 
     // Delete the content
     await db.delete(generatedContent).where(eq(generatedContent.id, id));
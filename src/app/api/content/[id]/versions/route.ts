@@ -0,0 +1,94 @@
+/**
+ * Content Versions API Route
+ *
+ * GET /api/content/[id]/versions
+ *
+ * Lists every version of a piece of content, from the original through its
+ * refinements and restores, so any two can be compared.
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { findLatestVersion, listVersions } from "@/lib/content/versions";
+import { db } from "@/lib/db";
+import { generatedContent } from "@/lib/schema";
+import { isValidUUID } from "@/lib/validation";
+import type { VersionHistoryEntry } from "@/types/content";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/content/[id]/versions
+ *
+ * Response:
+ * - versions: Array of { id, version, title, content, wordCount, status,
+ *   parentVersionId, restoredFrom, createdAt }, oldest first
+ * - latestId: UUID of the version new refinements and restores build on
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: "Invalid content ID format" },
+        { status: 400 }
+      );
+    }
+
+    const [content] = await db
+      .select()
+      .from(generatedContent)
+      .where(eq(generatedContent.id, id))
+      .limit(1);
+
+    if (!content) {
+      return NextResponse.json({ error: "Content not found" }, { status: 404 });
+    }
+
+    // Verify ownership
+    if (content.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const versions = await listVersions(content);
+    const latest = await findLatestVersion(versions[0] ?? content);
+
+    return NextResponse.json({
+      versions: versions.map(
+        (v): VersionHistoryEntry => ({
+          id: v.id,
+          version: v.version,
+          title: v.title,
+          content: v.content,
+          wordCount: v.wordCount,
+          status: v.status,
+          parentVersionId: v.parentVersionId,
+          restoredFrom: v.restoredFrom,
+          createdAt: v.createdAt.toISOString(),
+        })
+      ),
+      latestId: latest.id,
+    });
+  } catch (error) {
+    console.error("Error listing content versions:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to list versions",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
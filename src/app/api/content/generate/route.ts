@@ -3,37 +3,40 @@
  *
  * POST /api/content/generate
  *
- * Generates blog content from a voice session using Voice DNA.
+ * Queues generation of blog content from a voice session using Voice DNA, in
+ * the language it was spoken or translated into another (see
+ * lib/content/generator.ts). Every request writes another version of the
+ * session's content, unless it translates an existing one.
  */
 
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
-import { openrouter } from "@openrouter/ai-sdk-provider";
-import { generateText } from "ai";
 import { eq } from "drizzle-orm";
-import { getVoiceDNAProfile } from "@/lib/analysis/voiceDNABuilder";
 import { auth } from "@/lib/auth";
-import {
-  processGeneratedContent,
-  cleanupContent,
-} from "@/lib/content/postProcessor";
-import {
-  buildGenerationPrompt,
-  getGenerationSystemPrompt,
-  type GenerationContext,
-} from "@/lib/content/promptComposer";
+import { findTranslation } from "@/lib/content/generator";
+import { isGenerationModel } from "@/lib/content/models";
+import { getCustomTemplate } from "@/lib/content/templates";
 import { db } from "@/lib/db";
-import { voiceSessions, generatedContent } from "@/lib/schema";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { normalizeLanguage } from "@/lib/languages";
+import { sanitizeReferentInfluences } from "@/lib/referents/influences";
+import { generatedContent, voiceSessions } from "@/lib/schema";
+import { canTransition, transitionSession } from "@/lib/sessionTransitions";
 import { isValidUUID } from "@/lib/validation";
 import type { ContentTemplate } from "@/types/content";
-
-const MODEL = process.env.OPENROUTER_MODEL || "anthropic/claude-sonnet-4";
+import type { GenerateContentJobPayload } from "@/types/job";
+import type { ReferentInfluences } from "@/types/voiceDNA";
 
 const VALID_TEMPLATES: ContentTemplate[] = ["blog_post", "listicle", "narrative"];
 
 interface GenerateRequest {
   sessionId: string;
   template?: ContentTemplate;
+  customTemplateId?: string | null;
+  language?: string;
+  model?: string;
+  referentInfluences?: unknown;
+  translationOf?: string;
 }
 
 /**
@@ -41,17 +44,34 @@ interface GenerateRequest {
  *
  * Request body:
  * - sessionId: UUID of the voice session to generate content from
+ * - template: (optional) "blog_post" | "listicle" | "narrative"
+ * - customTemplateId: (optional) UUID of one of the user's own templates,
+ *   used in place of `template`
+ * - language: (optional) ISO-639-1 code to write in, defaults to the language
+ *   the session was spoken in
+ * - model: (optional) One of GENERATION_MODELS, defaults to OPENROUTER_MODEL
+ * - referentInfluences: (optional) Referent blend for this version, defaults
+ *   to the user's saved blend
+ * - translationOf: (optional) UUID of a generation of this session to
+ *   translate into `language`, with its template, model and blend; the other
+ *   options are ignored
  *
- * Response:
+ * Response (200, translation that already exists):
  * - contentId: UUID of the generated content
  * - title: Generated title
  * - content: Markdown content
  * - wordCount: Word count
  * - readTimeMinutes: Estimated read time
+ * - language: Language the content is written in
+ *
+ * Response (202):
+ * - jobId: Poll /api/jobs/[id] for the generated content. The article streams
+ *   to /api/session/[id]/events as it's written, and is only saved once
+ *   finished; DELETE /api/jobs/[id] cancels it midway.
+ *
+ * Response (409): The session isn't ready to generate from (still analyzing)
  */
 export async function POST(request: Request) {
-  const startTime = Date.now();
-
   try {
     const session = await auth.api.getSession({ headers: await headers() });
 
@@ -78,6 +98,47 @@ export async function POST(request: Request) {
       );
     }
 
+    // Validate target language
+    const targetLanguage =
+      body.language === undefined ? undefined : normalizeLanguage(body.language);
+    if (targetLanguage === null) {
+      return NextResponse.json(
+        { error: "Invalid language. Must be an ISO-639-1 code" },
+        { status: 400 }
+      );
+    }
+
+    // Validate model
+    if (body.model !== undefined && !isGenerationModel(body.model)) {
+      return NextResponse.json({ error: "Unsupported model" }, { status: 400 });
+    }
+
+    // Validate referent blend
+    let referentInfluences: ReferentInfluences | undefined;
+    if (body.referentInfluences !== undefined) {
+      const sanitized = sanitizeReferentInfluences(body.referentInfluences);
+      if ("error" in sanitized) {
+        return NextResponse.json({ error: sanitized.error }, { status: 400 });
+      }
+      referentInfluences = sanitized.influences;
+    }
+
+    // Validate custom template
+    const customTemplateId = body.customTemplateId ?? undefined;
+    if (customTemplateId !== undefined && !isValidUUID(customTemplateId)) {
+      return NextResponse.json(
+        { error: "Invalid customTemplateId format" },
+        { status: 400 }
+      );
+    }
+
+    if (body.translationOf !== undefined && !isValidUUID(body.translationOf)) {
+      return NextResponse.json(
+        { error: "Invalid translationOf format" },
+        { status: 400 }
+      );
+    }
+
     // Fetch the voice session
     const [voiceSession] = await db
       .select()
@@ -105,15 +166,32 @@ export async function POST(request: Request) {
       );
     }
 
-    // Check if content was already generated
-    if (voiceSession.generatedContentId) {
-      // Return existing content
-      const [existingContent] = await db
+    const language = targetLanguage ?? voiceSession.language;
+
+    let payload: GenerateContentJobPayload;
+    let idempotencyKey: string;
+
+    if (body.translationOf) {
+      const [generation] = await db
         .select()
         .from(generatedContent)
-        .where(eq(generatedContent.id, voiceSession.generatedContentId))
+        .where(eq(generatedContent.id, body.translationOf))
         .limit(1);
 
+      if (
+        !generation ||
+        generation.sessionId !== sessionId ||
+        generation.parentVersionId ||
+        generation.translationOf ||
+        generation.format !== "article"
+      ) {
+        return NextResponse.json(
+          { error: "translationOf must be one of the session's generations" },
+          { status: 400 }
+        );
+      }
+
+      const existingContent = await findTranslation(generation.id, language);
       if (existingContent) {
         return NextResponse.json({
           contentId: existingContent.id,
@@ -121,137 +199,71 @@ export async function POST(request: Request) {
           content: existingContent.content,
           wordCount: existingContent.wordCount,
           readTimeMinutes: existingContent.readTimeMinutes,
+          language: existingContent.language,
           alreadyGenerated: true,
         });
       }
-    }
-
-    // Update session status to generating
-    await db
-      .update(voiceSessions)
-      .set({ status: "generating", updatedAt: new Date() })
-      .where(eq(voiceSessions.id, sessionId));
-
-    // Fetch user's Voice DNA profile
-    const { profile: voiceDNA } = await getVoiceDNAProfile(session.user.id);
 
-    // Build generation context
-    const followUpQuestions = voiceSession.followUpQuestions?.map((q) => ({
-      id: q.id,
-      question: q.question,
-    }));
-
-    const generationContext: GenerationContext = {
-      voiceDNA: voiceDNA || {
-        spokenPatterns: null,
-        writtenPatterns: null,
-        tonalAttributes: null,
-        referentInfluences: null,
-        learnedRules: [],
-        calibrationScore: 0,
-      },
-      originalTranscript: voiceSession.transcript,
-      enthusiasmAnalysis: voiceSession.enthusiasmAnalysis,
-      contentOutline: voiceSession.contentOutline,
-      followUpResponses: voiceSession.followUpResponses || [],
-      ...(followUpQuestions && { followUpQuestions }),
-      template,
-    };
-
-    // Build the prompt
-    const prompt = buildGenerationPrompt(generationContext);
-    const systemPrompt = getGenerationSystemPrompt();
+      payload = {
+        sessionId,
+        template: generation.template,
+        ...(generation.customTemplateId && { customTemplateId: generation.customTemplateId }),
+        language,
+        translationOf: generation.id,
+        ...(generation.modelUsed && { model: generation.modelUsed }),
+        ...(generation.referentInfluencesUsed && {
+          referentInfluences: generation.referentInfluencesUsed,
+        }),
+      };
+      // A translation that was generated and then deleted can be generated again
+      idempotencyKey = `generate_content:${generation.id}:${language ?? "spoken"}`;
+    } else {
+      if (customTemplateId && !(await getCustomTemplate(session.user.id, customTemplateId))) {
+        return NextResponse.json({ error: "Template not found" }, { status: 404 });
+      }
 
-    // Estimate target word count based on transcript length
-    const transcriptWords = voiceSession.transcript.split(/\s+/).length;
-    const followUpWords = (voiceSession.followUpResponses || [])
-      .map((r) => r.content?.split(/\s+/).length || 0)
-      .reduce((a, b) => a + b, 0);
-    const totalInputWords = transcriptWords + followUpWords;
+      payload = {
+        sessionId,
+        template,
+        ...(customTemplateId && { customTemplateId }),
+        language,
+        ...(body.model && { model: body.model }),
+        ...(referentInfluences && { referentInfluences }),
+      };
+      // The first generation is deduplicated; later requests each add a version
+      idempotencyKey = voiceSession.generatedContentId
+        ? `generate_content:${sessionId}:${crypto.randomUUID()}`
+        : `generate_content:${sessionId}:${language ?? "spoken"}:${customTemplateId ?? template}`;
+    }
 
-    // Target 70-100% of input word count for output (structured content is often slightly shorter)
-    const targetWordCount = Math.max(300, Math.round(totalInputWords * 0.85));
+    // The session's first content completes it; later ones are other versions or translations
+    const updatesSessionStatus = !voiceSession.generatedContentId;
+    if (updatesSessionStatus && !canTransition(voiceSession.status, "generating")) {
+      return NextResponse.json(
+        { error: `Session can't generate content while ${voiceSession.status}` },
+        { status: 409 }
+      );
+    }
 
-    // Generate content
-    const { text: rawContent } = await generateText({
-      model: openrouter(MODEL),
-      system: systemPrompt,
-      prompt: `${prompt}\n\nTarget approximately ${targetWordCount} words.`,
-      maxOutputTokens: 4000,
-      temperature: 0.7, // Some creativity but stay faithful
+    const job = await enqueueJob("generate_content", {
+      userId: session.user.id,
+      sessionId,
+      payload,
+      idempotencyKey,
+      rerunSucceeded: true,
     });
 
-    // Clean up and process the content
-    const cleanedContent = cleanupContent(rawContent);
-    const processed = processGeneratedContent(cleanedContent);
-
-    const generationTimeMs = Date.now() - startTime;
-
-    // Store the generated content
-    const [newContent] = await db
-      .insert(generatedContent)
-      .values({
-        userId: session.user.id,
-        sessionId: sessionId,
-        title: processed.title,
-        content: processed.content,
-        wordCount: processed.wordCount,
-        readTimeMinutes: processed.readTimeMinutes,
-        status: "draft",
-        voiceDNASnapshot: voiceDNA,
-        referentInfluencesUsed: voiceDNA?.referentInfluences || null,
-        version: 1,
-        modelUsed: MODEL,
-        generationTimeMs,
-        template,
-      })
-      .returning();
-
-    if (!newContent) {
-      throw new Error("Failed to store generated content");
+    if (job.status === "queued" && updatesSessionStatus) {
+      await transitionSession(sessionId, "generating", {
+        actor: "user",
+        reason: "Generation requested",
+      });
     }
 
-    // Update session with generated content ID and status
-    await db
-      .update(voiceSessions)
-      .set({
-        status: "complete",
-        generatedContentId: newContent.id,
-        title: processed.title,
-        updatedAt: new Date(),
-      })
-      .where(eq(voiceSessions.id, sessionId));
-
-    return NextResponse.json({
-      contentId: newContent.id,
-      title: processed.title,
-      content: processed.content,
-      wordCount: processed.wordCount,
-      readTimeMinutes: processed.readTimeMinutes,
-      generationTimeMs,
-      alreadyGenerated: false,
-    });
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
   } catch (error) {
     console.error("Error generating content:", error);
 
-    // Update session status to error if we have a sessionId
-    try {
-      const body = await request.clone().json();
-      if (body.sessionId && isValidUUID(body.sessionId)) {
-        await db
-          .update(voiceSessions)
-          .set({
-            status: "error",
-            errorMessage:
-              error instanceof Error ? error.message : "Content generation failed",
-            updatedAt: new Date(),
-          })
-          .where(eq(voiceSessions.id, body.sessionId));
-      }
-    } catch {
-      // Ignore error handling errors
-    }
-
     return NextResponse.json(
       {
         error: "Failed to generate content",
@@ -0,0 +1,189 @@
+/**
+ * Content Repurposing API Route
+ *
+ * POST /api/content/repurpose
+ *
+ * Turns an article into platform-specific pieces (LinkedIn post, X thread,
+ * newsletter blurb, video script), one background job per format. Each is
+ * stored as its own content, linked to the article (see
+ * lib/content/repurposer.ts).
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { and, eq, isNull } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { findLatestVersion, findOriginalVersion } from "@/lib/content/versions";
+import { db } from "@/lib/db";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { generatedContent, voiceSessions } from "@/lib/schema";
+import { isValidUUID } from "@/lib/validation";
+import { REPURPOSE_FORMATS, type RepurposeFormat } from "@/types/content";
+
+interface RepurposeRequest {
+  contentId?: string;
+  sessionId?: string;
+  formats?: unknown;
+  regenerate?: boolean;
+}
+
+/**
+ * POST /api/content/repurpose
+ *
+ * Request body (one of contentId or sessionId):
+ * - contentId: UUID of the article to repurpose, as it reads in this version
+ * - sessionId: UUID of a session whose article (latest version) to repurpose
+ * - formats: Array of "linkedin_post" | "x_thread" | "newsletter_blurb" | "video_script"
+ * - regenerate: (optional) Write formats the article was already repurposed
+ *   into again, rather than returning the existing ones
+ *
+ * Response (202 if any job was queued, otherwise 200):
+ * - jobs: Array of { format, jobId }. Poll /api/jobs/[id] for each one's
+ *   { contentId, format, title, wordCount }.
+ * - existing: Array of { format, contentId } already repurposed
+ *
+ * Response (409): The session has no content to repurpose yet
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as RepurposeRequest;
+    const { contentId, sessionId, regenerate = false } = body;
+
+    if (!contentId === !sessionId) {
+      return NextResponse.json(
+        { error: "Provide either contentId or sessionId" },
+        { status: 400 }
+      );
+    }
+
+    if ((contentId && !isValidUUID(contentId)) || (sessionId && !isValidUUID(sessionId))) {
+      return NextResponse.json({ error: "Invalid ID format" }, { status: 400 });
+    }
+
+    // Validate formats
+    if (
+      !Array.isArray(body.formats) ||
+      body.formats.length === 0 ||
+      !body.formats.every((f) => REPURPOSE_FORMATS.includes(f as RepurposeFormat))
+    ) {
+      return NextResponse.json(
+        { error: `formats must list one or more of ${REPURPOSE_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const formats = [...new Set(body.formats as RepurposeFormat[])];
+
+    let article: typeof generatedContent.$inferSelect | undefined;
+
+    if (contentId) {
+      [article] = await db
+        .select()
+        .from(generatedContent)
+        .where(eq(generatedContent.id, contentId))
+        .limit(1);
+
+      if (!article) {
+        return NextResponse.json({ error: "Content not found" }, { status: 404 });
+      }
+
+      // Verify ownership
+      if (article.userId !== session.user.id) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      if (article.format !== "article") {
+        return NextResponse.json(
+          { error: "Only articles can be repurposed" },
+          { status: 400 }
+        );
+      }
+    } else {
+      const [voiceSession] = await db
+        .select()
+        .from(voiceSessions)
+        .where(eq(voiceSessions.id, sessionId as string))
+        .limit(1);
+
+      if (!voiceSession) {
+        return NextResponse.json({ error: "Session not found" }, { status: 404 });
+      }
+
+      // Verify ownership
+      if (voiceSession.userId !== session.user.id) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      if (voiceSession.generatedContentId) {
+        const [generated] = await db
+          .select()
+          .from(generatedContent)
+          .where(eq(generatedContent.id, voiceSession.generatedContentId))
+          .limit(1);
+        article = generated && (await findLatestVersion(generated));
+      }
+
+      if (!article) {
+        return NextResponse.json(
+          { error: "Generate the session's content before repurposing it" },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Outputs are linked to the article's original version, so refining
+    // the article keeps them together
+    const original = await findOriginalVersion(article);
+
+    const existing: Array<{ format: RepurposeFormat; contentId: string }> = [];
+    if (!regenerate) {
+      const outputs = await db
+        .select({ id: generatedContent.id, format: generatedContent.format })
+        .from(generatedContent)
+        .where(
+          and(
+            eq(generatedContent.repurposedFrom, original.id),
+            isNull(generatedContent.parentVersionId)
+          )
+        );
+
+      for (const format of formats) {
+        const output = outputs.find((o) => o.format === format);
+        if (output) existing.push({ format, contentId: output.id });
+      }
+    }
+
+    const jobs: Array<{ format: RepurposeFormat; jobId: string }> = [];
+    for (const format of formats) {
+      if (existing.some((e) => e.format === format)) continue;
+
+      const job = await enqueueJob("repurpose_content", {
+        userId: session.user.id,
+        sessionId: article.sessionId,
+        payload: { contentId: article.id, repurposedFrom: original.id, format },
+        // An output that was deleted, or is being regenerated, can be written again
+        idempotencyKey: regenerate
+          ? `repurpose_content:${original.id}:${format}:${crypto.randomUUID()}`
+          : `repurpose_content:${original.id}:${format}`,
+        rerunSucceeded: true,
+      });
+      jobs.push({ format, jobId: job.id });
+    }
+
+    return NextResponse.json({ jobs, existing }, { status: jobs.length > 0 ? 202 : 200 });
+  } catch (error) {
+    console.error("Error repurposing content:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to repurpose content",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -60,6 +60,8 @@ export async function GET(request: Request) {
         wordCount: generatedContent.wordCount,
         readTimeMinutes: generatedContent.readTimeMinutes,
         status: generatedContent.status,
+        language: generatedContent.language,
+        format: generatedContent.format,
         createdAt: generatedContent.createdAt,
         updatedAt: generatedContent.updatedAt,
       })
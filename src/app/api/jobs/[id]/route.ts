@@ -0,0 +1,132 @@
+/**
+ * Job Status API Route
+ *
+ * GET /api/jobs/[id] - Report a job's progress and, once it has succeeded, its result
+ * DELETE /api/jobs/[id] - Cancel a job that hasn't finished
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getJobHandler } from "@/lib/jobs/handlers";
+import { cancelJob, getJob } from "@/lib/jobs/queue";
+import { isValidUUID } from "@/lib/validation";
+import type { JobView } from "@/types/job";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/jobs/[id]
+ *
+ * Response: JobView. `error` is set once the job has failed for good; a job
+ * between retries stays "queued".
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid job ID format" }, { status: 400 });
+    }
+
+    const job = await getJob(id);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    // Verify ownership
+    if (job.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const failed = job.status === "failed";
+    const jobView: JobView = {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      sessionId: job.sessionId,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      result: job.status === "succeeded" ? job.result : null,
+      error: failed ? job.errorMessage || "Job failed" : null,
+      errorCode: failed ? job.errorCode : null,
+      createdAt: job.createdAt.toISOString(),
+      updatedAt: job.updatedAt.toISOString(),
+    };
+
+    return NextResponse.json(jobView);
+  } catch (error) {
+    console.error("Error fetching job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch job",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/jobs/[id]
+ *
+ * A queued job never runs; a running one is aborted by its worker within a
+ * few seconds, without storing a result. Whoever is waiting on the job sees
+ * it fail with errorCode "cancelled".
+ */
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid job ID format" }, { status: 400 });
+    }
+
+    const job = await getJob(id);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    // Verify ownership
+    if (job.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const cancelled = await cancelJob(id);
+    if (!cancelled) {
+      return NextResponse.json({ error: "Job has already finished" }, { status: 409 });
+    }
+
+    const { handler, payload } = getJobHandler(cancelled);
+    await handler.onCancelled?.(payload);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error cancelling job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to cancel job",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -9,19 +9,21 @@
 
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
-import { eq } from "drizzle-orm";
 import { generateFollowUpQuestions } from "@/lib/analysis/questionGenerator";
 import { buildVoiceDNA } from "@/lib/analysis/voiceDNABuilder";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { updateUserOnboardingStatus } from "@/lib/db/users";
+import { normalizeLanguage } from "@/lib/languages";
 import { voiceSessions } from "@/lib/schema";
+import { recordInitialStatus, transitionSession } from "@/lib/sessionTransitions";
 import type { WordTimestamp } from "@/types/voice";
 
 interface IntroRequest {
   transcript: string;
   wordTimestamps: WordTimestamp[];
   durationSeconds: number;
+  language?: unknown; // Detected by /api/voice/transcribe
 }
 
 export async function POST(request: Request) {
@@ -34,6 +36,7 @@ export async function POST(request: Request) {
 
     const body = (await request.json()) as IntroRequest;
     const { transcript, wordTimestamps, durationSeconds } = body;
+    const language = normalizeLanguage(body.language);
 
     if (!transcript || transcript.length < 50) {
       return NextResponse.json(
@@ -52,6 +55,7 @@ export async function POST(request: Request) {
         transcript,
         wordTimestamps,
         durationSeconds,
+        language,
         title: "Onboarding Introduction",
       })
       .returning();
@@ -59,6 +63,7 @@ export async function POST(request: Request) {
     if (!voiceSession) {
       throw new Error("Failed to create voice session");
     }
+    await recordInitialStatus(voiceSession.id, "analyzing", "Onboarding introduction recorded");
 
     try {
       // Build initial Voice DNA from the intro
@@ -67,6 +72,7 @@ export async function POST(request: Request) {
         transcript,
         wordTimestamps: wordTimestamps || [],
         sessionId: voiceSession.id,
+        language,
       });
 
       // Generate follow-up questions based on the transcript and enthusiasm analysis
@@ -74,13 +80,14 @@ export async function POST(request: Request) {
         transcript,
         enthusiasmAnalysis: analysisResult.enthusiasmAnalysis,
         context: "onboarding",
+        language,
       });
 
       // Update session with analysis results
-      await db
-        .update(voiceSessions)
-        .set({
-          status: "follow_ups",
+      await transitionSession(voiceSession.id, "follow_ups", {
+        actor: "user",
+        reason: "Onboarding introduction analyzed",
+        changes: {
           enthusiasmAnalysis: analysisResult.enthusiasmAnalysis,
           followUpQuestions: followUpQuestions.map((q, i) => ({
             id: `q-${i}`,
@@ -88,9 +95,8 @@ export async function POST(request: Request) {
             questionType: "expand" as const,
             context: "Generated during onboarding introduction",
           })),
-          updatedAt: new Date(),
-        })
-        .where(eq(voiceSessions.id, voiceSession.id));
+        },
+      });
 
       // Update user onboarding status
       await updateUserOnboardingStatus(session.user.id, "voice_intro");
@@ -104,17 +110,13 @@ export async function POST(request: Request) {
       });
     } catch (analysisError) {
       // Update session to error state
-      await db
-        .update(voiceSessions)
-        .set({
-          status: "error",
-          errorMessage:
-            analysisError instanceof Error
-              ? analysisError.message
-              : "Analysis failed",
-          updatedAt: new Date(),
-        })
-        .where(eq(voiceSessions.id, voiceSession.id));
+      const errorMessage =
+        analysisError instanceof Error ? analysisError.message : "Analysis failed";
+      await transitionSession(voiceSession.id, "error", {
+        actor: "user",
+        reason: "Onboarding introduction analysis failed",
+        errorMessage,
+      });
 
       throw analysisError;
     }
@@ -0,0 +1,130 @@
+/**
+ * Session Audio API Route
+ *
+ * GET /api/session/[id]/audio
+ *
+ * Streams a session's retained recording to its owner. Recordings are kept in
+ * private storage, so this route is the only way to play them back.
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { readSessionAudio } from "@/lib/audio/retention";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { voiceSessions } from "@/lib/schema";
+import { isValidUUID } from "@/lib/validation";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Parse a single "bytes=start-end" range against a file size
+ *
+ * @returns The inclusive byte range, or null if the header is unsatisfiable
+ */
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  return start <= end && start < size ? { start, end } : null;
+}
+
+/**
+ * GET /api/session/[id]/audio
+ *
+ * Supports Range requests so the player can seek.
+ *
+ * Response: The recording, or 404 if the session has none
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid session ID format" }, { status: 400 });
+    }
+
+    const [voiceSession] = await db
+      .select({
+        userId: voiceSessions.userId,
+        audioUrl: voiceSessions.audioUrl,
+        audioRetained: voiceSessions.audioRetained,
+      })
+      .from(voiceSessions)
+      .where(eq(voiceSessions.id, id))
+      .limit(1);
+
+    if (!voiceSession) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    // Verify ownership
+    if (voiceSession.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Recordings only kept for analysis aren't played back
+    const audio =
+      voiceSession.audioUrl && voiceSession.audioRetained
+        ? await readSessionAudio(voiceSession.audioUrl)
+        : null;
+    if (!audio) {
+      return NextResponse.json({ error: "No recording for this session" }, { status: 404 });
+    }
+
+    const { buffer, contentType } = audio;
+    const baseHeaders = {
+      "Content-Type": contentType,
+      "Accept-Ranges": "bytes",
+      "Cache-Control": "private, no-store",
+    };
+
+    const rangeHeader = request.headers.get("range");
+    if (rangeHeader) {
+      const range = parseRange(rangeHeader, buffer.length);
+      if (!range) {
+        return new NextResponse(null, {
+          status: 416,
+          headers: { ...baseHeaders, "Content-Range": `bytes */${buffer.length}` },
+        });
+      }
+
+      return new NextResponse(new Uint8Array(buffer.subarray(range.start, range.end + 1)), {
+        status: 206,
+        headers: {
+          ...baseHeaders,
+          "Content-Range": `bytes ${range.start}-${range.end}/${buffer.length}`,
+          "Content-Length": String(range.end - range.start + 1),
+        },
+      });
+    }
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: { ...baseHeaders, "Content-Length": String(buffer.length) },
+    });
+  } catch (error) {
+    console.error("Error fetching session audio:", error);
+    return NextResponse.json({ error: "Failed to fetch session audio" }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Session Events API Route
+ *
+ * GET /api/session/[id]/events
+ *
+ * Streams a session's status transitions and progress as server-sent events
+ * (see lib/sessionEvents.ts), so clients don't have to poll the session.
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { voiceSessions } from "@/lib/schema";
+import { subscribeSessionEvents } from "@/lib/sessionEvents";
+import { isValidUUID } from "@/lib/validation";
+import type { SessionEvent } from "@/types/session";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Keeps proxies from closing an idle stream between steps
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * GET /api/session/[id]/events
+ *
+ * Events are named by SessionEvent type, with the rest of the event as data.
+ * The stream opens with a status event for the session's current status.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid session ID format" }, { status: 400 });
+    }
+
+    const [voiceSession] = await db
+      .select({ userId: voiceSessions.userId })
+      .from(voiceSessions)
+      .where(eq(voiceSessions.id, id))
+      .limit(1);
+
+    if (!voiceSession) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    // Verify ownership
+    if (voiceSession.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let closed = false;
+
+        const send = (event: SessionEvent) => {
+          if (closed) return;
+          const { type, ...data } = event;
+          controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          cleanup();
+          controller.close();
+        };
+
+        // Subscribe before reading the snapshot so no transition falls between them
+        const unsubscribe = await subscribeSessionEvents(id, send);
+
+        const heartbeat = setInterval(() => {
+          if (!closed) controller.enqueue(encoder.encode(": heartbeat\n\n"));
+        }, HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        };
+
+        if (request.signal.aborted) {
+          close();
+          return;
+        }
+        request.signal.addEventListener("abort", close);
+
+        const [snapshot] = await db
+          .select({ status: voiceSessions.status, errorMessage: voiceSessions.errorMessage })
+          .from(voiceSessions)
+          .where(eq(voiceSessions.id, id))
+          .limit(1);
+
+        if (snapshot) {
+          send({ type: "status", status: snapshot.status, errorMessage: snapshot.errorMessage });
+        }
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    console.error("Error streaming session events:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to stream session events",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
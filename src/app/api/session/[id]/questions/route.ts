@@ -10,9 +10,9 @@
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
 import { eq } from "drizzle-orm";
-import { generateFollowUpQuestions } from "@/lib/ai/prompts/followUp";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { enqueueJob } from "@/lib/jobs/queue";
 import { voiceSessions } from "@/lib/schema";
 import { isValidUUID } from "@/lib/validation";
 
@@ -27,9 +27,12 @@ interface RouteParams {
  *
  * Request body: None required (uses session data)
  *
- * Response:
+ * Response (200, questions already exist):
  * - questions: Array of FollowUpQuestion objects
- * - sessionStatus: Updated session status
+ * - sessionStatus: Current session status
+ *
+ * Response (202):
+ * - jobId: Poll /api/jobs/[id] for the questions
  */
 export async function POST(_request: Request, { params }: RouteParams) {
   try {
@@ -84,33 +87,14 @@ export async function POST(_request: Request, { params }: RouteParams) {
       });
     }
 
-    // Generate follow-up questions
-    const questions = await generateFollowUpQuestions(
-      voiceSession.transcript,
-      voiceSession.enthusiasmAnalysis,
-      voiceSession.mode
-    );
-
-    // Update session with questions and set status to follow_ups
-    const [updatedSession] = await db
-      .update(voiceSessions)
-      .set({
-        followUpQuestions: questions,
-        status: "follow_ups",
-        updatedAt: new Date(),
-      })
-      .where(eq(voiceSessions.id, id))
-      .returning({
-        status: voiceSessions.status,
-        followUpQuestions: voiceSessions.followUpQuestions,
-      });
-
-    return NextResponse.json({
-      success: true,
-      questions: updatedSession?.followUpQuestions || questions,
-      sessionStatus: updatedSession?.status || "follow_ups",
-      questionsGenerated: questions.length,
+    const job = await enqueueJob("generate_questions", {
+      userId: session.user.id,
+      sessionId: id,
+      payload: { sessionId: id },
+      idempotencyKey: `generate_questions:${id}`,
     });
+
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
   } catch (error) {
     console.error("Error generating follow-up questions:", error);
     return NextResponse.json(
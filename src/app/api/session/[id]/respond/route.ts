@@ -149,15 +149,11 @@ export async function POST(request: Request, { params }: RouteParams) {
     // Check if all questions are answered
     const allAnswered = updatedResponses.length >= questions.length;
 
-    // Determine new status
-    const newStatus = allAnswered ? "generating" : "follow_ups";
-
-    // Update session
+    // Update session. It stays in follow_ups until generation is requested.
     await db
       .update(voiceSessions)
       .set({
         followUpResponses: updatedResponses,
-        status: newStatus,
         updatedAt: new Date(),
       })
       .where(eq(voiceSessions.id, id));
@@ -174,7 +170,7 @@ export async function POST(request: Request, { params }: RouteParams) {
       allAnswered,
       answeredCount: updatedResponses.length,
       totalQuestions: questions.length,
-      sessionStatus: newStatus,
+      sessionStatus: voiceSession.status,
     });
   } catch (error) {
     console.error("Error submitting response:", error);
@@ -0,0 +1,136 @@
+/**
+ * Session Retry API Route
+ *
+ * POST /api/session/[id]/retry
+ *
+ * Picks a failed session up from its last good step: content generation is
+ * queued again if that's what failed, an unanalyzed transcript is analyzed,
+ * and an analyzed session goes back to its follow-up questions.
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { and, desc, eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { enqueueJob, type Job } from "@/lib/jobs/queue";
+import { jobs, voiceSessions } from "@/lib/schema";
+import { getFailedStatus, transitionSession } from "@/lib/sessionTransitions";
+import { isValidUUID } from "@/lib/validation";
+import type { GenerateContentJobPayload } from "@/types/job";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/session/[id]/retry
+ *
+ * Response:
+ * - sessionStatus: The status the session was moved back to
+ * - jobId: Job running the retried step, or null when the session went back
+ *   to follow-up questions. Progress arrives on /api/session/[id]/events.
+ *
+ * Response (409): The session hasn't failed, or has no transcript to retry from
+ */
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid session ID format" }, { status: 400 });
+    }
+
+    const [voiceSession] = await db
+      .select()
+      .from(voiceSessions)
+      .where(eq(voiceSessions.id, id))
+      .limit(1);
+
+    if (!voiceSession) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    // Verify ownership
+    if (voiceSession.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (voiceSession.status !== "error") {
+      return NextResponse.json(
+        { error: "Only failed sessions can be retried", currentStatus: voiceSession.status },
+        { status: 409 }
+      );
+    }
+
+    if (!voiceSession.transcript) {
+      return NextResponse.json(
+        { error: "Session has no transcript to retry from. Record it again." },
+        { status: 409 }
+      );
+    }
+
+    // Generation is retried with the same format and language as before
+    let lastGeneration: Job | undefined;
+    if ((await getFailedStatus(id)) === "generating") {
+      [lastGeneration] = await db
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.sessionId, id), eq(jobs.type, "generate_content")))
+        .orderBy(desc(jobs.createdAt))
+        .limit(1);
+    }
+
+    if (lastGeneration) {
+      const job = await enqueueJob("generate_content", {
+        userId: session.user.id,
+        sessionId: id,
+        payload: lastGeneration.payload as unknown as GenerateContentJobPayload,
+        idempotencyKey: lastGeneration.idempotencyKey,
+        rerunSucceeded: true,
+      });
+      await transitionSession(id, "generating", {
+        actor: "user",
+        reason: "Generation retried",
+      });
+      return NextResponse.json({ sessionStatus: "generating", jobId: job.id });
+    }
+
+    if (!voiceSession.enthusiasmAnalysis) {
+      const job = await enqueueJob("analyze_session", {
+        userId: session.user.id,
+        sessionId: id,
+        payload: { sessionId: id },
+        idempotencyKey: `analyze_session:${id}`,
+      });
+      await transitionSession(id, "analyzing", {
+        actor: "user",
+        reason: "Analysis retried",
+      });
+      return NextResponse.json({ sessionStatus: "analyzing", jobId: job.id });
+    }
+
+    // Questions are generated again if they were never stored
+    await transitionSession(id, "follow_ups", {
+      actor: "user",
+      reason: "Resumed at follow-up questions",
+    });
+    return NextResponse.json({ sessionStatus: "follow_ups", jobId: null });
+  } catch (error) {
+    console.error("Error retrying session:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to retry session",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
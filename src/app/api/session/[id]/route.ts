@@ -10,11 +10,20 @@
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
 import { eq } from "drizzle-orm";
+import { getSessionAudioUrl } from "@/lib/audio/retention";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { voiceSessions } from "@/lib/schema";
+import {
+  canTransition,
+  getSessionTransitions,
+  InvalidTransitionError,
+  transitionSession,
+} from "@/lib/sessionTransitions";
+import { applyWordCorrections, isValidWordCorrection } from "@/lib/transcription/corrections";
 import { isValidUUID } from "@/lib/validation";
 import type { SessionStatus } from "@/types/session";
+import type { WordCorrection } from "@/types/voice";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -24,13 +33,26 @@ interface PatchRequest {
   status?: SessionStatus;
   title?: string;
   transcript?: string;
+  wordCorrections?: unknown;
+  ownerSpeaker?: string | null;
   errorMessage?: string;
 }
 
+/**
+ * Transcript corrections and speaker selection are only accepted until the
+ * transcript has been analyzed or turned into content. Sessions created with a
+ * transcript skip straight to a working status, so this is based on what has
+ * been produced rather than on status.
+ */
+function isTranscriptEditable(voiceSession: typeof voiceSessions.$inferSelect): boolean {
+  return !voiceSession.enthusiasmAnalysis && !voiceSession.generatedContentId;
+}
+
 /**
  * GET /api/session/[id]
  *
- * Response: Full session object with current status
+ * Response: Full session object with current status, and the history of
+ * how it got there (transitions)
  */
 export async function GET(_request: Request, { params }: RouteParams) {
   try {
@@ -73,9 +95,17 @@ export async function GET(_request: Request, { params }: RouteParams) {
       id: voiceSession.id,
       userId: voiceSession.userId,
       mode: voiceSession.mode,
+      source: voiceSession.source,
       status: voiceSession.status,
       title: voiceSession.title,
       transcript: voiceSession.transcript,
+      wordTimestamps: voiceSession.wordTimestamps,
+      ownerSpeaker: voiceSession.ownerSpeaker,
+      language: voiceSession.language,
+      audioUrl:
+        voiceSession.audioUrl && voiceSession.audioRetained
+          ? getSessionAudioUrl(voiceSession.id)
+          : null,
       durationSeconds: voiceSession.durationSeconds,
       enthusiasmAnalysis: voiceSession.enthusiasmAnalysis,
       contentOutline: voiceSession.contentOutline,
@@ -85,6 +115,7 @@ export async function GET(_request: Request, { params }: RouteParams) {
       errorMessage: voiceSession.errorMessage,
       createdAt: voiceSession.createdAt,
       updatedAt: voiceSession.updatedAt,
+      transitions: await getSessionTransitions(voiceSession.id),
       // Progress info for UI
       progress: {
         answeredQuestions,
@@ -111,12 +142,16 @@ export async function GET(_request: Request, { params }: RouteParams) {
  * PATCH /api/session/[id]
  *
  * Request body:
- * - status: (optional) New status
+ * - status: (optional) New status; must be a legal move from the current one
  * - title: (optional) Update title
  * - transcript: (optional) Update transcript
+ * - wordCorrections: (optional) Corrected single words by index; only before analysis/generation
+ * - ownerSpeaker: (optional) Which diarized speaker is the user; only before analysis/generation
  * - errorMessage: (optional) Set error message
  *
  * Response: Updated session object
+ *
+ * Response (409): The status change isn't allowed from the session's current status
  */
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
@@ -151,12 +186,9 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Build update object
-    const updateData: Partial<typeof voiceSessions.$inferInsert> = {
-      updatedAt: new Date(),
-    };
-
-    if (body.status) {
+    // Status changes go through the session's state machine
+    let newStatus: SessionStatus | null = null;
+    if (body.status && body.status !== existingSession.status) {
       const validStatuses: SessionStatus[] = [
         "recording",
         "transcribing",
@@ -167,10 +199,21 @@ export async function PATCH(request: Request, { params }: RouteParams) {
         "error",
       ];
       if (validStatuses.includes(body.status)) {
-        updateData.status = body.status;
+        if (!canTransition(existingSession.status, body.status)) {
+          return NextResponse.json(
+            { error: `Session can't move from ${existingSession.status} to ${body.status}` },
+            { status: 409 }
+          );
+        }
+        newStatus = body.status;
       }
     }
 
+    // Build update object
+    const updateData: Partial<typeof voiceSessions.$inferInsert> = {
+      updatedAt: new Date(),
+    };
+
     if (body.title !== undefined) {
       updateData.title = body.title;
     }
@@ -179,22 +222,98 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       updateData.transcript = body.transcript;
     }
 
+    if (body.wordCorrections !== undefined) {
+      if (
+        !Array.isArray(body.wordCorrections) ||
+        !body.wordCorrections.every(isValidWordCorrection)
+      ) {
+        return NextResponse.json(
+          { error: "wordCorrections must be an array of { index, word } with single-word replacements" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const wordCorrections = (body.wordCorrections as WordCorrection[] | undefined) ?? [];
+
+    if (wordCorrections.length > 0) {
+      if (!isTranscriptEditable(existingSession)) {
+        return NextResponse.json(
+          { error: "Transcript can only be corrected before analysis starts" },
+          { status: 409 }
+        );
+      }
+
+      if (!existingSession.wordTimestamps || existingSession.wordTimestamps.length === 0) {
+        return NextResponse.json(
+          { error: "Session has no word timestamps to correct" },
+          { status: 400 }
+        );
+      }
+
+      const corrected = applyWordCorrections(
+        updateData.transcript ?? existingSession.transcript ?? "",
+        existingSession.wordTimestamps,
+        wordCorrections
+      );
+      updateData.transcript = corrected.transcript;
+      updateData.wordTimestamps = corrected.wordTimestamps;
+    }
+
+    if (body.ownerSpeaker !== undefined) {
+      if (!isTranscriptEditable(existingSession)) {
+        return NextResponse.json(
+          { error: "Speaker can only be changed before analysis starts" },
+          { status: 409 }
+        );
+      }
+
+      const speakers = new Set(
+        (existingSession.wordTimestamps || []).map((w) => w.speaker).filter(Boolean)
+      );
+      if (body.ownerSpeaker !== null && !speakers.has(body.ownerSpeaker)) {
+        return NextResponse.json(
+          { error: "Unknown speaker for this session" },
+          { status: 400 }
+        );
+      }
+
+      updateData.ownerSpeaker = body.ownerSpeaker;
+    }
+
     if (body.errorMessage !== undefined) {
       updateData.errorMessage = body.errorMessage;
     }
 
     // Update session
+    if (newStatus) {
+      const { errorMessage, ...changes } = updateData;
+      await transitionSession(id, newStatus, {
+        actor: "user",
+        reason: "Status updated",
+        changes,
+        ...(errorMessage && { errorMessage }),
+      });
+    } else {
+      await db.update(voiceSessions).set(updateData).where(eq(voiceSessions.id, id));
+    }
+
     const [updatedSession] = await db
-      .update(voiceSessions)
-      .set(updateData)
+      .select()
+      .from(voiceSessions)
       .where(eq(voiceSessions.id, id))
-      .returning();
+      .limit(1);
 
     return NextResponse.json({
       success: true,
       session: updatedSession,
     });
   } catch (error) {
+    // The session moved on while the request was being handled
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     console.error("Error updating session:", error);
     return NextResponse.json(
       {
@@ -8,16 +8,21 @@
 
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
-import { sql } from "drizzle-orm";
+import { eq, sql } from "drizzle-orm";
+import { attachHeldAudio, isRecordingKey } from "@/lib/audio/retention";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
-import type { SessionMode, SessionStatus } from "@/types/session";
+import { normalizeLanguage } from "@/lib/languages";
+import { voiceSessions } from "@/lib/schema";
+import { recordInitialStatus } from "@/lib/sessionTransitions";
+import type { SessionMode, SessionSource, SessionStatus } from "@/types/session";
 
 interface WordTimestamp {
   word: string;
   start: number;
   end: number;
   confidence: number;
+  speaker?: string;
 }
 
 interface CreateSessionRequest {
@@ -27,19 +32,36 @@ interface CreateSessionRequest {
   transcript?: string;
   durationSeconds?: number;
   wordTimestamps?: WordTimestamp[];
+  // Optional: Diarization label of the user in multi-speaker recordings
+  ownerSpeaker?: string;
+  // Optional: Where the audio came from (defaults to "recording")
+  source?: SessionSource;
+  // Optional: Recording keys returned by /api/voice/transcribe, in playback order
+  recordingKeys?: unknown;
+  // Optional: Language detected by /api/voice/transcribe
+  language?: unknown;
 }
 
+// Guided sessions attach one recording per round
+const MAX_RECORDINGS = 20;
+
 /**
  * POST /api/session/create
  *
  * Request body:
  * - mode: "quick" | "guided" - Recording mode
  * - title: (optional) Initial title for the session
+ * - ownerSpeaker: (optional) Which diarized speaker is the user
+ * - source: (optional) "recording" | "import" - Imported files go through analysis and follow-ups
+ * - recordingKeys: (optional) Held recordings to keep for playback (and, for
+ *   imports, analysis), joined in order
+ * - language: (optional) Detected language of the transcript; "und" or
+ *   unrecognized values are stored as unknown
  *
  * Response:
  * - sessionId: UUID of the created session
  * - mode: The session mode
- * - status: Initial status ("recording")
+ * - status: Initial status ("recording" without a transcript)
  */
 export async function POST(request: Request) {
   try {
@@ -50,7 +72,17 @@ export async function POST(request: Request) {
     }
 
     const body = (await request.json()) as CreateSessionRequest;
-    const { mode, title: _title, transcript, durationSeconds, wordTimestamps } = body;
+    const {
+      mode,
+      title: _title,
+      transcript,
+      durationSeconds,
+      wordTimestamps,
+      ownerSpeaker,
+      source = "recording",
+      recordingKeys = [],
+      language,
+    } = body;
 
     // Validate mode
     if (!mode || !["quick", "guided"].includes(mode)) {
@@ -60,10 +92,37 @@ export async function POST(request: Request) {
       );
     }
 
+    // Validate source
+    if (!["recording", "import"].includes(source)) {
+      return NextResponse.json(
+        { error: "Invalid source. Must be 'recording' or 'import'" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(recordingKeys) ||
+      recordingKeys.length > MAX_RECORDINGS ||
+      !recordingKeys.every(isRecordingKey)
+    ) {
+      return NextResponse.json(
+        { error: "Invalid recordingKeys" },
+        { status: 400 }
+      );
+    }
+
     // Determine initial status based on whether transcript is provided
-    // If transcript is provided (quick capture), skip to generating status
+    // If transcript is provided, quick captures skip to generating status and
+    // guided sessions to analyzing. Imports stay at "transcribing" until the
+    // analyze route picks them up. Both continue through follow-up questions.
     const hasTranscript = !!transcript && transcript.trim().length > 0;
-    const initialStatus: SessionStatus = hasTranscript ? "generating" : "recording";
+    const initialStatus: SessionStatus = !hasTranscript
+      ? "recording"
+      : source === "import"
+        ? "transcribing"
+        : mode === "quick"
+          ? "generating"
+          : "analyzing";
 
     // Use raw SQL for better control over JSONB serialization
     // This avoids issues with how postgres.js/Drizzle serialize complex objects
@@ -85,14 +144,20 @@ export async function POST(request: Request) {
           status,
           transcript,
           duration_seconds,
-          word_timestamps
+          word_timestamps,
+          owner_speaker,
+          source,
+          language
         ) VALUES (
           ${session.user.id},
           ${mode}::"session_mode",
           ${initialStatus}::"session_status",
           ${transcript ?? null},
           ${typeof durationSeconds === "number" ? Math.round(durationSeconds) : null},
-          ${wordTimestampsJson}::jsonb
+          ${wordTimestampsJson}::jsonb,
+          ${typeof ownerSpeaker === "string" && ownerSpeaker ? ownerSpeaker : null},
+          ${source}::"session_source",
+          ${normalizeLanguage(language)}
         )
         RETURNING id, mode, status, created_at
       `);
@@ -120,6 +185,32 @@ export async function POST(request: Request) {
       throw dbError;
     }
 
+    if (newSession) {
+      await recordInitialStatus(newSession.id, newSession.status, "Session created");
+    }
+
+    // Keep the recording under the session's name if the user opted in, or
+    // until analysis has measured it for sessions that will be analyzed.
+    // Both are optional - don't fail session creation over them.
+    if (newSession && recordingKeys.length > 0) {
+      try {
+        const audio = await attachHeldAudio(
+          session.user.id,
+          newSession.id,
+          recordingKeys,
+          source === "import" || initialStatus === "analyzing"
+        );
+        if (audio) {
+          await db
+            .update(voiceSessions)
+            .set({ audioUrl: audio.pathname, audioRetained: audio.retained })
+            .where(eq(voiceSessions.id, newSession.id));
+        }
+      } catch (audioError) {
+        console.error(`Failed to retain audio for session ${newSession.id}:`, audioError);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       sessionId: newSession?.id,
@@ -0,0 +1,105 @@
+/**
+ * Content Template Individual API
+ *
+ * PATCH - Replace a template's definition
+ * DELETE - Remove a template
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import {
+  deleteCustomTemplate,
+  sanitizeTemplateInput,
+  updateCustomTemplate,
+} from "@/lib/content/templates";
+import { isValidUUID } from "@/lib/validation";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH - Replace a template's definition
+ *
+ * Takes the same body as POST /api/templates. Content already generated
+ * with the template is unchanged.
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid template ID format" }, { status: 400 });
+    }
+
+    const result = sanitizeTemplateInput(await request.json());
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const template = await updateCustomTemplate(session.user.id, id, result.template);
+
+    if (!template) {
+      return NextResponse.json(
+        { error: "Template not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error("Error updating template:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update template",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Remove a template
+ */
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid template ID format" }, { status: 400 });
+    }
+
+    const deleted = await deleteCustomTemplate(session.user.id, id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Template not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting template:", error);
+    return NextResponse.json(
+      { error: "Failed to delete template" },
+      { status: 500 }
+    );
+  }
+}
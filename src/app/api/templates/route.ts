@@ -0,0 +1,75 @@
+/**
+ * Content Templates API
+ *
+ * GET - List the user's own content templates
+ * POST - Define a new template
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import {
+  createCustomTemplate,
+  listCustomTemplates,
+  sanitizeTemplateInput,
+} from "@/lib/content/templates";
+
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const templates = await listCustomTemplates(session.user.id);
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("Error fetching templates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch templates" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/templates
+ *
+ * Request body:
+ * - name: Template name
+ * - description: (optional) Shown when picking a template
+ * - sections: Array of { heading, instructions }, in the order they're written
+ * - minWords / maxWords: (optional) Length target
+ * - instructions: (optional) Guidance for the whole piece
+ *
+ * A template needs at least one section or some instructions.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = sanitizeTemplateInput(await request.json());
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const template = await createCustomTemplate(session.user.id, result.template);
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error("Error creating template:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to create template",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * User Preferences API Routes
+ *
+ * GET /api/user/preferences - Get the current user's preferences
+ * PATCH /api/user/preferences - Update preferences (audio retention)
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { getAudioRetention, setAudioRetention } from "@/lib/audio/retention";
+import { auth } from "@/lib/auth";
+
+/**
+ * GET /api/user/preferences
+ *
+ * Response:
+ * - retainAudio: Whether session recordings are kept after transcription
+ */
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const retainAudio = await getAudioRetention(session.user.id);
+
+    return NextResponse.json({ retainAudio });
+  } catch (error) {
+    console.error("Error fetching preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/user/preferences
+ *
+ * Request body:
+ * - retainAudio: (optional) Keep session recordings for playback
+ */
+export async function PATCH(request: Request) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as { retainAudio?: unknown };
+
+    if (body.retainAudio !== undefined) {
+      if (typeof body.retainAudio !== "boolean") {
+        return NextResponse.json(
+          { error: "retainAudio must be a boolean" },
+          { status: 400 }
+        );
+      }
+      await setAudioRetention(session.user.id, body.retainAudio);
+    }
+
+    const retainAudio = await getAudioRetention(session.user.id);
+
+    return NextResponse.json({ success: true, retainAudio });
+  } catch (error) {
+    console.error("Error updating preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to update preferences" },
+      { status: 500 }
+    );
+  }
+}
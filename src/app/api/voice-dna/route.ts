@@ -2,7 +2,7 @@
  * Voice DNA API Routes
  *
  * GET /api/voice-dna - Get current user's Voice DNA profile
- * PATCH /api/voice-dna - Update Voice DNA settings (referent selections, learned rules)
+ * PATCH /api/voice-dna - Update Voice DNA settings (referent selections, learned rules, glossary)
  */
 
 import { headers } from "next/headers";
@@ -12,9 +12,51 @@ import {
   getVoiceDNASummary,
   updateReferentInfluences,
   addLearnedRule,
+  getGlossary,
+  updateGlossary,
 } from "@/lib/analysis/voiceDNABuilder";
 import { auth } from "@/lib/auth";
-import type { ReferentInfluences, LearnedRule } from "@/types/voiceDNA";
+import { sanitizeReferentInfluences } from "@/lib/referents/influences";
+import type { ReferentInfluences, LearnedRule, GlossaryTerm } from "@/types/voiceDNA";
+
+const MAX_GLOSSARY_TERMS = 100;
+const MAX_TERM_LENGTH = 100;
+
+/**
+ * Validate and normalize a glossary payload.
+ * Returns an error message, or the cleaned glossary.
+ */
+function sanitizeGlossary(
+  glossary: unknown
+): { error: string } | { glossary: GlossaryTerm[] } {
+  if (!Array.isArray(glossary)) {
+    return { error: "glossary must be an array" };
+  }
+
+  if (glossary.length > MAX_GLOSSARY_TERMS) {
+    return { error: `glossary can have at most ${MAX_GLOSSARY_TERMS} terms` };
+  }
+
+  const cleaned: GlossaryTerm[] = [];
+
+  for (const entry of glossary as Partial<GlossaryTerm>[]) {
+    const term = typeof entry?.term === "string" ? entry.term.trim() : "";
+    if (!term || term.length > MAX_TERM_LENGTH) {
+      return { error: `Each glossary term must be 1-${MAX_TERM_LENGTH} characters` };
+    }
+
+    const misspellings = Array.isArray(entry.misspellings)
+      ? entry.misspellings
+          .filter((m): m is string => typeof m === "string")
+          .map((m) => m.trim())
+          .filter((m) => m.length > 0 && m.length <= MAX_TERM_LENGTH && m !== term)
+      : [];
+
+    cleaned.push({ term, misspellings: [...new Set(misspellings)] });
+  }
+
+  return { glossary: cleaned };
+}
 
 /**
  * GET /api/voice-dna
@@ -29,13 +71,19 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const {
-      profile,
-      voiceSessionsAnalyzed,
-      writingSamplesAnalyzed,
-      calibrationRoundsCompleted,
-      calibrationScore,
-    } = await getVoiceDNAProfile(session.user.id);
+    const [
+      {
+        profile,
+        voiceSessionsAnalyzed,
+        writingSamplesAnalyzed,
+        calibrationRoundsCompleted,
+        calibrationScore,
+      },
+      glossary,
+    ] = await Promise.all([
+      getVoiceDNAProfile(session.user.id),
+      getGlossary(session.user.id),
+    ]);
 
     // If no profile exists, return empty state
     if (!profile) {
@@ -43,6 +91,7 @@ export async function GET() {
         hasProfile: false,
         voiceDNA: null,
         summary: null,
+        glossary,
         stats: {
           voiceSessionsAnalyzed: 0,
           writingSamplesAnalyzed: 0,
@@ -59,6 +108,7 @@ export async function GET() {
       hasProfile: true,
       voiceDNA: profile,
       summary,
+      glossary,
       stats: {
         voiceSessionsAnalyzed,
         writingSamplesAnalyzed,
@@ -81,6 +131,7 @@ export async function GET() {
  * Update Voice DNA settings:
  * - referentInfluences: Update selected referents and weights
  * - learnedRule: Add a new learned rule
+ * - glossary: Replace the transcription glossary
  */
 export async function PATCH(request: Request) {
   try {
@@ -91,48 +142,20 @@ export async function PATCH(request: Request) {
     }
 
     const body = await request.json();
-    const { referentInfluences, learnedRule } = body as {
+    const { referentInfluences, learnedRule, glossary } = body as {
       referentInfluences?: ReferentInfluences;
       learnedRule?: LearnedRule;
+      glossary?: unknown;
     };
 
     // Update referent influences if provided
     if (referentInfluences) {
-      // Validate referent influences
-      if (typeof referentInfluences.userWeight !== "number") {
-        return NextResponse.json(
-          { error: "userWeight must be a number" },
-          { status: 400 }
-        );
-      }
-
-      if (referentInfluences.userWeight < 50) {
-        return NextResponse.json(
-          { error: "userWeight must be at least 50" },
-          { status: 400 }
-        );
-      }
-
-      if (!Array.isArray(referentInfluences.referents)) {
-        return NextResponse.json(
-          { error: "referents must be an array" },
-          { status: 400 }
-        );
-      }
-
-      // Ensure total weight equals 100
-      const totalWeight =
-        referentInfluences.userWeight +
-        referentInfluences.referents.reduce((sum, r) => sum + r.weight, 0);
-
-      if (Math.abs(totalWeight - 100) > 0.01) {
-        return NextResponse.json(
-          { error: "Total weight must equal 100" },
-          { status: 400 }
-        );
+      const sanitized = sanitizeReferentInfluences(referentInfluences);
+      if ("error" in sanitized) {
+        return NextResponse.json({ error: sanitized.error }, { status: 400 });
       }
 
-      await updateReferentInfluences(session.user.id, referentInfluences);
+      await updateReferentInfluences(session.user.id, sanitized.influences);
     }
 
     // Add learned rule if provided
@@ -172,14 +195,30 @@ export async function PATCH(request: Request) {
       });
     }
 
+    // Replace glossary if provided
+    if (glossary !== undefined) {
+      const sanitized = sanitizeGlossary(glossary);
+      if ("error" in sanitized) {
+        return NextResponse.json({ error: sanitized.error }, { status: 400 });
+      }
+
+      await updateGlossary(session.user.id, sanitized.glossary);
+    }
+
     // Return updated profile
-    const {
-      profile,
-      voiceSessionsAnalyzed,
-      writingSamplesAnalyzed,
-      calibrationRoundsCompleted,
-      calibrationScore,
-    } = await getVoiceDNAProfile(session.user.id);
+    const [
+      {
+        profile,
+        voiceSessionsAnalyzed,
+        writingSamplesAnalyzed,
+        calibrationRoundsCompleted,
+        calibrationScore,
+      },
+      updatedGlossary,
+    ] = await Promise.all([
+      getVoiceDNAProfile(session.user.id),
+      getGlossary(session.user.id),
+    ]);
 
     const summary = profile ? getVoiceDNASummary(profile) : null;
 
@@ -187,6 +226,7 @@ export async function PATCH(request: Request) {
       success: true,
       voiceDNA: profile,
       summary,
+      glossary: updatedGlossary,
       stats: {
         voiceSessionsAnalyzed,
         writingSamplesAnalyzed,
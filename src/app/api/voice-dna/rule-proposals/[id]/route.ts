@@ -0,0 +1,70 @@
+/**
+ * Voice DNA Rule Proposal API
+ *
+ * PATCH /api/voice-dna/rule-proposals/[id] - Confirm or dismiss a learned rule
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { decideRuleProposal } from "@/lib/analysis/ruleLearning";
+import { auth } from "@/lib/auth";
+import { isValidUUID } from "@/lib/validation";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/voice-dna/rule-proposals/[id]
+ *
+ * Request body:
+ * - action: "confirm" to add the rule to the Voice DNA, or "dismiss"
+ *
+ * Response:
+ * - proposal: The updated LearnedRuleProposal
+ *
+ * Response (409): Dismissing a rule that was already confirmed
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: "Invalid proposal ID format" },
+        { status: 400 }
+      );
+    }
+
+    const { action } = (await request.json()) as { action?: unknown };
+    if (action !== "confirm" && action !== "dismiss") {
+      return NextResponse.json(
+        { error: "action must be 'confirm' or 'dismiss'" },
+        { status: 400 }
+      );
+    }
+
+    const result = await decideRuleProposal(session.user.id, id, action);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ proposal: result.proposal });
+  } catch (error) {
+    console.error("Error updating rule proposal:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update rule proposal",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
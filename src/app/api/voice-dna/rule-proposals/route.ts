@@ -0,0 +1,37 @@
+/**
+ * Voice DNA Rule Proposals API
+ *
+ * GET /api/voice-dna/rule-proposals - List the rules learned from the user's
+ * refinements, for review
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { listRuleProposals } from "@/lib/analysis/ruleLearning";
+import { auth } from "@/lib/auth";
+
+/**
+ * GET /api/voice-dna/rule-proposals
+ *
+ * Response:
+ * - proposals: Array of LearnedRuleProposal, pending ones first
+ */
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const proposals = await listRuleProposals(session.user.id);
+
+    return NextResponse.json({ proposals });
+  } catch (error) {
+    console.error("Error fetching rule proposals:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rule proposals" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,20 +3,19 @@
  *
  * POST /api/voice/analyze
  *
- * Analyzes a transcript and updates the user's Voice DNA profile.
- * This is typically called after transcription completes.
+ * Queues analysis of a session's transcript, which updates the user's Voice
+ * DNA profile (see lib/analysis/sessionAnalysis.ts). This is typically
+ * called after transcription completes.
  */
 
 import { headers } from "next/headers";
 import { NextResponse } from "next/server";
 import { eq } from "drizzle-orm";
-import {
-  buildVoiceDNA,
-  getVoiceDNASummary,
-} from "@/lib/analysis/voiceDNABuilder";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { enqueueJob } from "@/lib/jobs/queue";
 import { voiceSessions } from "@/lib/schema";
+import { canTransition, transitionSession } from "@/lib/sessionTransitions";
 import type { WordTimestamp } from "@/types/voice";
 
 interface AnalyzeRequest {
@@ -33,11 +32,11 @@ interface AnalyzeRequest {
  * - transcript: (optional) Transcript text if not fetching from session
  * - wordTimestamps: (optional) Word timestamps if not fetching from session
  *
- * Response:
- * - voiceDNA: Updated Voice DNA profile
- * - summary: Human-readable summary
- * - enthusiasmAnalysis: Detected enthusiasm patterns
- * - calibrationScoreChange: How much calibration improved
+ * Response (202):
+ * - jobId: Poll /api/jobs/[id] for the analysis (summary, enthusiasmAnalysis,
+ *   isNewProfile, calibrationScoreChange)
+ *
+ * Response (409): The session has moved past analysis
  */
 export async function POST(request: Request) {
   try {
@@ -59,7 +58,11 @@ export async function POST(request: Request) {
 
     // Fetch session data
     const [voiceSession] = await db
-      .select()
+      .select({
+        userId: voiceSessions.userId,
+        status: voiceSessions.status,
+        transcript: voiceSessions.transcript,
+      })
       .from(voiceSessions)
       .where(eq(voiceSessions.id, sessionId))
       .limit(1);
@@ -76,69 +79,41 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Get transcript and timestamps from session or direct input
-    const transcript = directTranscript || voiceSession.transcript;
-    const wordTimestamps = directTimestamps || voiceSession.wordTimestamps;
-
-    if (!transcript) {
+    if (!directTranscript && !voiceSession.transcript) {
       return NextResponse.json(
         { error: "No transcript available for analysis" },
         { status: 400 }
       );
     }
 
-    // Update session status to analyzing
-    await db
-      .update(voiceSessions)
-      .set({ status: "analyzing", updatedAt: new Date() })
-      .where(eq(voiceSessions.id, sessionId));
+    if (!canTransition(voiceSession.status, "analyzing")) {
+      return NextResponse.json(
+        { error: `Session can't be analyzed while ${voiceSession.status}` },
+        { status: 409 }
+      );
+    }
 
-    try {
-      // Build/update Voice DNA
-      const result = await buildVoiceDNA({
-        userId: session.user.id,
-        transcript,
-        wordTimestamps: wordTimestamps || [],
+    // A session is analyzed once, so repeated requests get the same job;
+    // retrying a failed analysis queues it again
+    const job = await enqueueJob("analyze_session", {
+      userId: session.user.id,
+      sessionId,
+      payload: {
         sessionId,
-      });
-
-      // Update session with enthusiasm analysis
-      await db
-        .update(voiceSessions)
-        .set({
-          enthusiasmAnalysis: result.enthusiasmAnalysis,
-          status: "follow_ups", // Ready for follow-up questions
-          updatedAt: new Date(),
-        })
-        .where(eq(voiceSessions.id, sessionId));
-
-      const summary = getVoiceDNASummary(result.voiceDNA);
+        ...(directTranscript && { transcript: directTranscript }),
+        ...(directTimestamps && { wordTimestamps: directTimestamps }),
+      },
+      idempotencyKey: `analyze_session:${sessionId}`,
+    });
 
-      return NextResponse.json({
-        success: true,
-        voiceDNA: result.voiceDNA,
-        summary,
-        enthusiasmAnalysis: result.enthusiasmAnalysis,
-        isNewProfile: result.isNewProfile,
-        calibrationScoreChange: result.calibrationScoreChange,
-        sessionStatus: "follow_ups",
+    if (job.status === "queued") {
+      await transitionSession(sessionId, "analyzing", {
+        actor: "user",
+        reason: "Analysis requested",
       });
-    } catch (analysisError) {
-      // Update session to error state
-      await db
-        .update(voiceSessions)
-        .set({
-          status: "error",
-          errorMessage:
-            analysisError instanceof Error
-              ? analysisError.message
-              : "Analysis failed",
-          updatedAt: new Date(),
-        })
-        .where(eq(voiceSessions.id, sessionId));
-
-      throw analysisError;
     }
+
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
   } catch (error) {
     console.error("Error analyzing voice:", error);
     return NextResponse.json(
@@ -0,0 +1,158 @@
+/**
+ * Recording Import API Route
+ *
+ * POST /api/voice/import
+ *
+ * Accepts a pre-recorded audio or video file (voice memo, podcast episode,
+ * meeting export), extracts its audio track, and stores it for transcription.
+ * The response matches /api/voice/upload, so the result feeds straight into
+ * /api/voice/transcribe.
+ */
+
+import { headers } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { extractAudioTrack, probeDurationSeconds, probeHasAudio } from "@/lib/audio/ffmpeg";
+import { getUploadPathname } from "@/lib/audio/uploads";
+import { auth } from "@/lib/auth";
+import { uploadPrivate } from "@/lib/storage";
+
+// Maximum import size: 500MB (video files carry a lot of data we throw away)
+const MAX_IMPORT_SIZE = 500 * 1024 * 1024;
+
+// Maximum size of the extracted audio: matches /api/voice/upload
+const MAX_AUDIO_SIZE = 200 * 1024 * 1024;
+
+const ALLOWED_TYPES = [
+  // Audio
+  "audio/webm",
+  "audio/mp4",
+  "audio/mpeg",
+  "audio/wav",
+  "audio/x-wav",
+  "audio/ogg",
+  "audio/m4a",
+  "audio/x-m4a",
+  "audio/aac",
+  "audio/flac",
+  "audio/x-flac",
+  // Video
+  "video/mp4",
+  "video/webm",
+  "video/quicktime",
+  "video/x-matroska",
+];
+
+// Browsers often send an empty or generic type for these, so fall back to the extension
+const ALLOWED_EXTENSIONS = [
+  "webm",
+  "mp4",
+  "mp3",
+  "wav",
+  "ogg",
+  "m4a",
+  "aac",
+  "flac",
+  "mov",
+  "mkv",
+];
+
+interface ImportResponse {
+  uploadId: string;
+  status: "uploaded";
+  durationSeconds: number;
+  fileSizeBytes: number;
+  url: string;
+}
+
+/**
+ * POST /api/voice/import
+ *
+ * Form fields:
+ * - file: The audio or video file to import
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    const baseType = file.type.split(";")[0]?.trim() ?? file.type;
+    const extension = file.name.includes(".")
+      ? (file.name.split(".").pop()?.toLowerCase() ?? "")
+      : "";
+    if (!ALLOWED_TYPES.includes(baseType) && !ALLOWED_EXTENSIONS.includes(extension)) {
+      return NextResponse.json(
+        { error: `Unsupported file type. Allowed: ${ALLOWED_EXTENSIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_IMPORT_SIZE) {
+      return NextResponse.json(
+        { error: `File too large. Maximum size: ${MAX_IMPORT_SIZE / 1024 / 1024}MB` },
+        { status: 400 }
+      );
+    }
+
+    const uploadId = crypto.randomUUID();
+    const workDir = await mkdtemp(join(tmpdir(), "ouno-import-"));
+
+    try {
+      const inputPath = join(workDir, `source${extension ? `.${extension}` : ""}`);
+      const outputPath = join(workDir, `${uploadId}.mp3`);
+      await writeFile(inputPath, Buffer.from(await file.arrayBuffer()));
+
+      if (!(await probeHasAudio(inputPath))) {
+        return NextResponse.json(
+          { error: "This file has no audio track" },
+          { status: 400 }
+        );
+      }
+
+      await extractAudioTrack(inputPath, outputPath);
+      const durationSeconds = await probeDurationSeconds(outputPath);
+      const audioBuffer = await readFile(outputPath);
+
+      const pathname = getUploadPathname(session.user.id, uploadId, "mp3");
+      await uploadPrivate(audioBuffer, pathname, { maxSize: MAX_AUDIO_SIZE });
+
+      const response: ImportResponse = {
+        uploadId,
+        status: "uploaded",
+        durationSeconds,
+        fileSizeBytes: audioBuffer.length,
+        url: pathname,
+      };
+
+      return NextResponse.json(response);
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  } catch (error) {
+    console.error("Import error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to import recording",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
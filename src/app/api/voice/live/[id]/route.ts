@@ -0,0 +1,183 @@
+/**
+ * Live Transcription Stream API Route
+ *
+ * GET /api/voice/live/[id] - Stream the transcript so far (server-sent events)
+ * POST /api/voice/live/[id] - Add a window of audio
+ * DELETE /api/voice/live/[id] - End the stream
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import {
+  appendLiveWindow,
+  closeLiveStream,
+  MAX_WINDOW_BYTES,
+  subscribeLiveStream,
+  type LiveStreamEvent,
+} from "@/lib/transcription/live";
+import { isValidUUID } from "@/lib/validation";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Keeps proxies from closing an idle stream between windows
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * GET /api/voice/live/[id]
+ *
+ * Events:
+ * - partial: LiveTranscript with everything transcribed so far
+ * - error: { error } when a window couldn't be transcribed
+ * - end: the stream was closed
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const session = await auth.api.getSession({ headers: await headers() });
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: "Invalid stream ID format" }, { status: 400 });
+  }
+
+  const userId = session.user.id;
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      const send = (event: LiveStreamEvent) => {
+        if (closed) return;
+        const { type, ...data } = event;
+        const payload = "transcript" in data ? data.transcript : data;
+        controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`));
+        if (type === "end") close();
+      };
+
+      const unsubscribe = subscribeLiveStream(id, userId, send);
+      if (!unsubscribe) {
+        // Expired, closed, or held by another server instance
+        send({ type: "end" });
+        return;
+      }
+
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": heartbeat\n\n"));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * POST /api/voice/live/[id]
+ *
+ * Form fields:
+ * - audio: A self-contained recording of the window
+ * - offset: Seconds into the recording the window starts at
+ *
+ * The window is transcribed in the background; the result arrives as a
+ * partial event on the stream.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid stream ID format" }, { status: 400 });
+    }
+
+    const formData = await request.formData();
+    const audio = formData.get("audio");
+    const offset = Number(formData.get("offset"));
+
+    if (!(audio instanceof File) || audio.size === 0 || !Number.isFinite(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: "Live windows require audio and a non-negative offset" },
+        { status: 400 }
+      );
+    }
+
+    if (audio.size > MAX_WINDOW_BYTES) {
+      return NextResponse.json(
+        { error: `Window too large. Maximum size: ${MAX_WINDOW_BYTES / 1024 / 1024}MB` },
+        { status: 400 }
+      );
+    }
+
+    if (!appendLiveWindow(id, session.user.id, audio, offset)) {
+      return NextResponse.json({ error: "Live transcription stream not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ status: "queued" }, { status: 202 });
+  } catch (error) {
+    console.error("Error adding live transcription window:", error);
+    return NextResponse.json({ error: "Failed to add live transcription window" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/voice/live/[id]
+ */
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid stream ID format" }, { status: 400 });
+    }
+
+    if (!closeLiveStream(id, session.user.id)) {
+      return NextResponse.json({ error: "Live transcription stream not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error closing live transcription:", error);
+    return NextResponse.json({ error: "Failed to close live transcription" }, { status: 500 });
+  }
+}
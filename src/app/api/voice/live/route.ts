@@ -0,0 +1,46 @@
+/**
+ * Live Transcription API Route
+ *
+ * POST /api/voice/live
+ *
+ * Starts a live transcription stream for a recording in progress. Windows of
+ * audio are posted to /api/voice/live/[id] and the transcript so far is
+ * streamed back from the same URL.
+ */
+
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { getGlossary } from "@/lib/analysis/voiceDNABuilder";
+import { auth } from "@/lib/auth";
+import { buildGlossaryPrompt } from "@/lib/transcription/glossary";
+import { createLiveStream } from "@/lib/transcription/live";
+import { getTranscriptionProvider } from "@/lib/transcription/provider";
+
+/**
+ * POST /api/voice/live
+ *
+ * Response:
+ * - streamId: ID of the live transcription stream
+ */
+export async function POST() {
+  try {
+    const configurationError = getTranscriptionProvider().getConfigurationError();
+    if (configurationError) {
+      return NextResponse.json({ error: configurationError }, { status: 503 });
+    }
+
+    const session = await auth.api.getSession({ headers: await headers() });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const glossary = await getGlossary(session.user.id);
+    const streamId = createLiveStream(session.user.id, glossary, buildGlossaryPrompt(glossary));
+
+    return NextResponse.json({ streamId });
+  } catch (error) {
+    console.error("Error starting live transcription:", error);
+    return NextResponse.json({ error: "Failed to start live transcription" }, { status: 500 });
+  }
+}
@@ -1,75 +1,40 @@
 import { headers } from "next/headers";
 import { NextRequest, NextResponse } from "next/server";
-import { existsSync } from "fs";
-import { readFile } from "fs/promises";
-import { join } from "path";
+import { eq } from "drizzle-orm";
+import { resolveUpload } from "@/lib/audio/uploads";
 import { auth } from "@/lib/auth";
-import { deleteFile } from "@/lib/storage";
-import { transcribeAudio } from "@/lib/transcription/whisper";
-import type { TranscribeResponse } from "@/types/voice";
-
-/**
- * Fetch audio file from either local filesystem or remote URL
- */
-async function fetchAudioFile(audioUrl: string): Promise<{ buffer: Buffer; contentType: string } | null> {
-  // Check if it's a local file (relative URL starting with /uploads/)
-  if (audioUrl.startsWith("/uploads/")) {
-    const filepath = join(process.cwd(), "public", audioUrl);
-
-    if (!existsSync(filepath)) {
-      return null;
-    }
-
-    const buffer = await readFile(filepath);
-    // Determine content type from extension
-    const ext = audioUrl.split(".").pop()?.toLowerCase() || "webm";
-    const mimeTypes: Record<string, string> = {
-      webm: "audio/webm",
-      mp4: "audio/mp4",
-      mp3: "audio/mpeg",
-      wav: "audio/wav",
-      ogg: "audio/ogg",
-      m4a: "audio/m4a",
-    };
-    const contentType = mimeTypes[ext] || "audio/webm";
-
-    return { buffer, contentType };
-  }
-
-  // Remote URL - use fetch
-  const response = await fetch(audioUrl);
-  if (!response.ok) {
-    return null;
-  }
-
-  const arrayBuffer = await response.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
-  const contentType = response.headers.get("content-type") || "audio/webm";
-
-  return { buffer, contentType };
-}
+import { db } from "@/lib/db";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { voiceSessions } from "@/lib/schema";
+import { getTranscriptionProvider } from "@/lib/transcription/provider";
+import { isValidUUID } from "@/lib/validation";
 
 interface TranscribeRequest {
   uploadId: string;
-  audioUrl: string;
-  sessionId?: string;
+  audioUrl: string; // As returned for the upload; names the file, which is looked up by uploadId
+  sessionId?: string; // Session to report transcription progress to
+  diarize?: boolean; // Label speakers for multi-person recordings
+  attachToSession?: boolean; // Caller will attach the audio to a session (kept if the user opted in)
+  analyzeAudio?: boolean; // The session will be analyzed, which measures how the audio sounds
 }
 
 /**
  * POST /api/voice/transcribe
  *
- * Transcribe an uploaded audio file using OpenAI Whisper.
- * The audio file is deleted after successful transcription for privacy.
+ * Queue transcription of an uploaded audio file (see
+ * lib/transcription/uploadTranscription.ts) and return immediately.
+ *
+ * Response (202):
+ * - jobId: Poll /api/jobs/[id] for the TranscribeResponse. A job that fails
+ *   with errorCode "audio_gone" needs the recording uploaded again.
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
-    // Early validation: Check for required API key before any processing
-    if (!process.env.OPENAI_API_KEY) {
-      console.error("OPENAI_API_KEY is not configured");
-      return NextResponse.json(
-        { error: "Transcription service is not configured. Please set OPENAI_API_KEY." },
-        { status: 503 }
-      );
+    // Early validation: Check the transcription provider is configured before any processing
+    const configurationError = getTranscriptionProvider().getConfigurationError();
+    if (configurationError) {
+      console.error(configurationError);
+      return NextResponse.json({ error: configurationError }, { status: 503 });
     }
 
     // Authenticate the request
@@ -91,7 +56,14 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         { status: 400 }
       );
     }
-    const { uploadId, audioUrl, sessionId: _sessionId } = body;
+    const {
+      uploadId,
+      audioUrl,
+      diarize = false,
+      attachToSession = false,
+      analyzeAudio = false,
+      sessionId = null,
+    } = body;
 
     if (!uploadId || !audioUrl) {
       return NextResponse.json(
@@ -100,47 +72,47 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    // Fetch the audio file (handles both local files and remote URLs)
-    const audioData = await fetchAudioFile(audioUrl);
-    if (!audioData) {
+    if (
+      typeof uploadId !== "string" ||
+      typeof audioUrl !== "string" ||
+      !isValidUUID(uploadId) ||
+      !resolveUpload(session.user.id, uploadId, audioUrl)
+    ) {
       return NextResponse.json(
-        { error: "Failed to fetch audio file" },
+        { error: "audioUrl must be the URL returned for this upload" },
         { status: 400 }
       );
     }
 
-    const { buffer, contentType } = audioData;
-
-    // Determine file extension from content type
-    const extension = contentType.split("/")[1]?.split(";")[0] || "webm";
-    const filename = `${uploadId}.${extension}`;
+    if (sessionId) {
+      if (!isValidUUID(sessionId)) {
+        return NextResponse.json({ error: "Invalid session ID format" }, { status: 400 });
+      }
 
-    // Convert Buffer to Uint8Array for File constructor compatibility
-    const uint8Array = new Uint8Array(buffer);
+      const [voiceSession] = await db
+        .select({ userId: voiceSessions.userId })
+        .from(voiceSessions)
+        .where(eq(voiceSessions.id, sessionId))
+        .limit(1);
 
-    // Convert to File for Whisper API
-    const audioFile = new File([uint8Array], filename, { type: contentType });
+      if (!voiceSession) {
+        return NextResponse.json({ error: "Session not found" }, { status: 404 });
+      }
 
-    // Transcribe the audio
-    const startTime = Date.now();
-
-    const transcription: TranscribeResponse = await transcribeAudio(audioFile);
-
-    const transcriptionTime = Date.now() - startTime;
-    // Performance logging for monitoring
-    if (process.env.NODE_ENV === "development") {
-      console.warn(`[Transcription] ${uploadId}: completed in ${transcriptionTime}ms`);
+      if (voiceSession.userId !== session.user.id) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
     }
 
-    // Delete the audio file for privacy
-    try {
-      await deleteFile(audioUrl);
-    } catch (deleteError) {
-      // Log but don't fail the request - file cleanup is non-critical
-      console.error(`Failed to delete audio file ${uploadId}:`, deleteError);
-    }
+    // Uploads are deleted once transcribed, so each one is transcribed once
+    const job = await enqueueJob("transcribe", {
+      userId: session.user.id,
+      sessionId,
+      payload: { uploadId, audioUrl, diarize, attachToSession, analyzeAudio, sessionId },
+      idempotencyKey: `transcribe:${session.user.id}:${uploadId}:${diarize ? "diarized" : "plain"}`,
+    });
 
-    return NextResponse.json(transcription);
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
   } catch (error) {
     console.error("Transcription error:", error);
 
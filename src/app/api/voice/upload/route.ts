@@ -1,10 +1,21 @@
 import { headers } from "next/headers";
 import { NextRequest, NextResponse } from "next/server";
+import {
+  assembleUploadParts,
+  deleteUploadParts,
+  storeUploadPart,
+} from "@/lib/audio/uploadAssembly";
+import { getUploadPathname } from "@/lib/audio/uploads";
 import { auth } from "@/lib/auth";
-import { upload } from "@/lib/storage";
+import { deletePrivate, uploadPrivate } from "@/lib/storage";
+import { isValidUUID } from "@/lib/validation";
 
-// Maximum file size: 25MB (Whisper limit)
-const MAX_FILE_SIZE = 25 * 1024 * 1024;
+// Maximum file size: 200MB. Files over the 25MB Whisper limit are
+// transcribed in overlapping chunks (see lib/transcription/chunking.ts)
+const MAX_FILE_SIZE = 200 * 1024 * 1024;
+
+// Maximum size of a single part in a chunked upload
+const MAX_PART_SIZE = 10 * 1024 * 1024;
 
 // Allowed audio types
 const ALLOWED_TYPES = [
@@ -22,14 +33,195 @@ interface UploadResponse {
   status: "uploaded";
   durationSeconds?: number;
   fileSizeBytes: number;
-  url: string;
+  url: string; // Private storage pathname, passed to /api/voice/transcribe as audioUrl
+}
+
+interface UploadAbortResponse {
+  uploadId: string;
+  status: "aborted";
+}
+
+interface UploadPartResponse {
+  uploadId: string;
+  status: "part_received";
+  segment: number;
+  part: number;
+}
+
+/**
+ * Strip MIME parameters (e.g. "audio/webm;codecs=opus" -> "audio/webm")
+ */
+function getBaseType(mimeType: string): string {
+  return mimeType.split(";")[0]?.trim() ?? mimeType;
+}
+
+function parsePartNumber(value: FormDataEntryValue | null): number | null {
+  if (typeof value !== "string") return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Handle one part of a chunked upload.
+ *
+ * Form fields: uploadId, segment, part, audio
+ */
+async function handleUploadPart(
+  userId: string,
+  uploadId: string,
+  formData: FormData
+): Promise<NextResponse> {
+  const segment = parsePartNumber(formData.get("segment"));
+  const part = parsePartNumber(formData.get("part"));
+  const chunk = formData.get("audio") as File | null;
+
+  if (segment === null || part === null || !chunk) {
+    return NextResponse.json(
+      { error: "Chunked uploads require segment, part, and audio" },
+      { status: 400 }
+    );
+  }
+
+  const baseType = getBaseType(chunk.type);
+  if (!ALLOWED_TYPES.includes(baseType)) {
+    return NextResponse.json(
+      { error: `Invalid file type: ${chunk.type}. Allowed: ${ALLOWED_TYPES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  if (chunk.size > MAX_PART_SIZE) {
+    return NextResponse.json(
+      { error: `Part too large. Maximum size: ${MAX_PART_SIZE / 1024 / 1024}MB` },
+      { status: 400 }
+    );
+  }
+
+  const extension = baseType.split("/")[1] ?? "webm";
+  await storeUploadPart(
+    userId,
+    uploadId,
+    segment,
+    part,
+    extension,
+    Buffer.from(await chunk.arrayBuffer()),
+    MAX_PART_SIZE
+  );
+
+  const response: UploadPartResponse = { uploadId, status: "part_received", segment, part };
+  return NextResponse.json(response);
+}
+
+/**
+ * Join the parts of a chunked upload into the final audio file.
+ *
+ * Form fields: uploadId, complete=true, mimeType, segments (JSON array with
+ * the number of parts in each segment)
+ */
+async function handleUploadComplete(
+  userId: string,
+  uploadId: string,
+  formData: FormData
+): Promise<NextResponse> {
+  const mimeType = formData.get("mimeType");
+  const baseType = typeof mimeType === "string" ? getBaseType(mimeType) : "";
+  if (!ALLOWED_TYPES.includes(baseType)) {
+    return NextResponse.json(
+      { error: `Invalid file type: ${mimeType}. Allowed: ${ALLOWED_TYPES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  let partCounts: number[];
+  try {
+    partCounts = JSON.parse(String(formData.get("segments")));
+  } catch {
+    partCounts = [];
+  }
+  if (
+    !Array.isArray(partCounts) ||
+    partCounts.length === 0 ||
+    !partCounts.every((count) => Number.isInteger(count) && count >= 0)
+  ) {
+    return NextResponse.json(
+      { error: "segments must be a non-empty array of part counts" },
+      { status: 400 }
+    );
+  }
+
+  const extension = baseType.split("/")[1] ?? "webm";
+
+  let audioBuffer: Buffer;
+  try {
+    audioBuffer = await assembleUploadParts(
+      userId,
+      uploadId,
+      partCounts,
+      extension,
+      MAX_FILE_SIZE
+    );
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to assemble upload" },
+      { status: 400 }
+    );
+  }
+
+  const pathname = getUploadPathname(userId, uploadId, extension);
+  await uploadPrivate(audioBuffer, pathname, { maxSize: MAX_FILE_SIZE });
+
+  try {
+    await deleteUploadParts(userId, uploadId);
+  } catch (error) {
+    console.error(`Failed to delete upload parts ${uploadId}:`, error);
+  }
+
+  const response: UploadResponse = {
+    uploadId,
+    status: "uploaded",
+    fileSizeBytes: audioBuffer.length,
+    url: pathname,
+  };
+
+  return NextResponse.json(response);
+}
+
+/**
+ * Throw away a chunked upload the user discarded: its parts and, if it was
+ * already assembled, the joined file.
+ *
+ * Form fields: uploadId, abort=true, mimeType (optional, to find the joined file)
+ */
+async function handleUploadAbort(
+  userId: string,
+  uploadId: string,
+  formData: FormData
+): Promise<NextResponse> {
+  await deleteUploadParts(userId, uploadId);
+
+  const mimeType = formData.get("mimeType");
+  const baseType = typeof mimeType === "string" ? getBaseType(mimeType) : "";
+  if (ALLOWED_TYPES.includes(baseType)) {
+    const extension = baseType.split("/")[1] ?? "webm";
+    await deletePrivate(getUploadPathname(userId, uploadId, extension));
+  }
+
+  const response: UploadAbortResponse = { uploadId, status: "aborted" };
+  return NextResponse.json(response);
 }
 
 /**
  * POST /api/voice/upload
  *
  * Upload an audio file for transcription.
- * The file is stored temporarily and will be deleted after transcription.
+ * The file is stored privately (never reachable by URL) and will be deleted
+ * after transcription.
+ *
+ * Recordings can also be sent in parts while they're being captured: pass a
+ * client-generated uploadId with each part, then a final request with
+ * complete=true to assemble them. The response to that final request matches
+ * a single-shot upload. Sending abort=true instead deletes everything stored
+ * for the upload.
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
@@ -44,6 +236,26 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     // Parse the form data
     const formData = await request.formData();
+
+    // Chunked upload: store a part or assemble the finished recording
+    const chunkedUploadId = formData.get("uploadId");
+    if (typeof chunkedUploadId === "string") {
+      if (!isValidUUID(chunkedUploadId)) {
+        return NextResponse.json(
+          { error: "Invalid upload ID format" },
+          { status: 400 }
+        );
+      }
+
+      if (formData.get("abort") === "true") {
+        return await handleUploadAbort(session.user.id, chunkedUploadId, formData);
+      }
+
+      return formData.get("complete") === "true"
+        ? await handleUploadComplete(session.user.id, chunkedUploadId, formData)
+        : await handleUploadPart(session.user.id, chunkedUploadId, formData);
+    }
+
     const audioFile = formData.get("audio") as File | null;
 
     if (!audioFile) {
@@ -54,7 +266,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     // Validate file type (handle MIME types with parameters like "audio/webm;codecs=opus")
-    const baseType = audioFile.type.split(";")[0]?.trim() ?? audioFile.type;
+    const baseType = getBaseType(audioFile.type);
     if (!ALLOWED_TYPES.includes(baseType)) {
       return NextResponse.json(
         { error: `Invalid file type: ${audioFile.type}. Allowed: ${ALLOWED_TYPES.join(", ")}` },
@@ -74,17 +286,17 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const uploadId = crypto.randomUUID();
     // Extract extension from base MIME type (e.g., "audio/webm" -> "webm")
     const extension = baseType.split("/")[1] ?? "webm";
-    const filename = `${uploadId}.${extension}`;
+    const pathname = getUploadPathname(session.user.id, uploadId, extension);
 
-    // Upload to storage (temporary folder)
+    // Store privately until transcribed
     const audioBuffer = Buffer.from(await audioFile.arrayBuffer());
-    const uploadResult = await upload(audioBuffer, filename, "voice-uploads");
+    await uploadPrivate(audioBuffer, pathname, { maxSize: MAX_FILE_SIZE });
 
     const response: UploadResponse = {
       uploadId,
       status: "uploaded",
       fileSizeBytes: audioFile.size,
-      url: uploadResult.url,
+      url: pathname,
     };
 
     return NextResponse.json(response);
@@ -3,14 +3,35 @@
 import { useState, useCallback } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { ArrowLeft, Mic, MessageSquare, Sparkles } from "lucide-react";
+import { ArrowLeft, Columns2, History, Mic, MessageSquare, Sparkles } from "lucide-react";
+import { toast } from "sonner";
 import { ContentActions } from "@/components/content/ContentActions";
 import { ContentEditor } from "@/components/content/ContentEditor";
-import { RefineChat } from "@/components/content/RefineChat";
+import { FormatTabs, type ContentFormatTab } from "@/components/content/FormatTabs";
+import { GenerateVersionDialog } from "@/components/content/GenerateVersionDialog";
+import { RefineChat, type RefineSelection } from "@/components/content/RefineChat";
+import { RepurposeDialog } from "@/components/content/RepurposeDialog";
+import { TrackedChanges } from "@/components/content/TrackedChanges";
+import {
+  TranslationMenu,
+  type ContentTranslation,
+} from "@/components/content/TranslationMenu";
+import { VersionHistory } from "@/components/content/VersionHistory";
 import { VoiceRefine } from "@/components/content/VoiceRefine";
+import { SessionAudioPlayer } from "@/components/session/SessionAudioPlayer";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import type { ContentStatus } from "@/types/content";
+import { waitForJob } from "@/lib/api-client";
+import type {
+  ContentFormat,
+  ContentStatus,
+  ContentTemplate,
+  RefineChangeSet,
+  RepurposeFormat,
+} from "@/types/content";
+import type { LearnFromEditsJobResult } from "@/types/job";
+import type { EnthusiasmSegment } from "@/types/session";
+import type { WordTimestamp } from "@/types/voice";
 
 interface SerializedContent {
   id: string;
@@ -24,6 +45,11 @@ interface SerializedContent {
   version: number;
   parentVersionId: string | null;
   modelUsed: string | null;
+  template: ContentTemplate;
+  customTemplateId: string | null;
+  language: string | null;
+  translationOf: string | null;
+  format: ContentFormat;
   createdAt: string;
   updatedAt: string;
 }
@@ -32,21 +58,53 @@ interface SerializedSession {
   id: string;
   mode: "quick" | "guided";
   durationSeconds: number | null;
+  transcript: string | null;
+  wordTimestamps: WordTimestamp[] | null;
+  audioUrl: string | null;
+  enthusiasmSegments: EnthusiasmSegment[];
   createdAt: string;
 }
 
 interface ContentPageClientProps {
   content: SerializedContent;
   voiceSession: SerializedSession | null;
+  /** The generation this content belongs to (see the content page) */
+  generationId: string;
+  /** How many versions the session's content has been generated in */
+  generationCount: number;
+  translations: ContentTranslation[];
+  /** The article and the pieces repurposed from it (see the content page) */
+  formatTabs: ContentFormatTab[];
+}
+
+/**
+ * Tell the user what a hand edit taught their Voice DNA, if anything
+ */
+function reportEditLearning({ rules, writtenPatterns }: LearnFromEditsJobResult) {
+  const learned = rules.filter((r) => r.status !== "dismissed").map((r) => r.content);
+  if (Object.keys(writtenPatterns).length > 0) {
+    learned.push("your written patterns were updated");
+  }
+  if (learned.length === 0) return;
+
+  const shown = learned.slice(0, 3).join("; ");
+  const more = learned.length > 3 ? ` and ${learned.length - 3} more` : "";
+  toast.info(`Learned from your edits: ${shown}${more}. Review in Ouno Core settings.`);
 }
 
 export function ContentPageClient({
   content: initialContent,
   voiceSession,
+  generationId,
+  generationCount,
+  translations,
+  formatTabs,
 }: ContentPageClientProps) {
   const router = useRouter();
   const [content, setContent] = useState(initialContent);
-  const [activeTab, setActiveTab] = useState<"view" | "voice" | "text">("view");
+  const [activeTab, setActiveTab] = useState<"view" | "voice" | "text" | "history">("view");
+  const [selection, setSelection] = useState<RefineSelection | null>(null);
+  const [changeSet, setChangeSet] = useState<RefineChangeSet | null>(null);
 
   const handleSave = useCallback(
     async (title: string, newContent: string) => {
@@ -60,7 +118,10 @@ export function ContentPageClient({
         throw new Error("Failed to save content");
       }
 
-      const { content: updatedContent } = await response.json();
+      const { content: updatedContent, learningJobId } = await response.json();
+
+      // A passage picked for refining may have moved
+      setSelection(null);
 
       setContent((prev) => ({
         ...prev,
@@ -70,6 +131,12 @@ export function ContentPageClient({
         readTimeMinutes: updatedContent.readTimeMinutes,
         updatedAt: updatedContent.updatedAt,
       }));
+
+      if (learningJobId) {
+        waitForJob<LearnFromEditsJobResult>(learningJobId)
+          .then(reportEditLearning)
+          .catch((err) => console.error("Learning from edits failed:", err));
+      }
     },
     [content.id]
   );
@@ -103,10 +170,26 @@ export function ContentPageClient({
     router.push("/content/library");
   }, [content.id, router]);
 
-  const handleRefineComplete = useCallback(
-    (result: { contentId: string; content: string; changes: string[] }) => {
+  const handleRefineSelection = useCallback((passage: RefineSelection) => {
+    setSelection(passage);
+    setActiveTab("text");
+  }, []);
+
+  const handleRefineComplete = useCallback((proposed: RefineChangeSet) => {
+    if (proposed.hunks.length === 0) {
+      toast.info("The refinement didn't change anything");
+      return;
+    }
+
+    // Review the changes in place before any are stored
+    setChangeSet(proposed);
+    setActiveTab("view");
+  }, []);
+
+  const handleChangesApplied = useCallback(
+    (contentId: string) => {
       // Navigate to the new version
-      router.push(`/content/${result.contentId}`);
+      router.push(`/content/${contentId}`);
     },
     [router]
   );
@@ -142,7 +225,40 @@ export function ContentPageClient({
             onStatusChange={handleStatusChange}
             onDelete={handleDelete}
           />
+          {content.format === "article" && (
+            <div className="flex items-center gap-2">
+              {generationCount > 1 && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/session/${content.sessionId}/versions?left=${generationId}`}>
+                    <Columns2 className="h-4 w-4 mr-2" />
+                    Compare versions
+                  </Link>
+                </Button>
+              )}
+              <GenerateVersionDialog
+                sessionId={content.sessionId}
+                template={{
+                  template: content.template,
+                  customTemplateId: content.customTemplateId,
+                }}
+              />
+              <TranslationMenu
+                sessionId={content.sessionId}
+                generationId={generationId}
+                language={content.language}
+                translations={translations}
+              />
+              <RepurposeDialog
+                contentId={content.id}
+                existingFormats={formatTabs
+                  .map((tab) => tab.format)
+                  .filter((format): format is RepurposeFormat => format !== "article")}
+              />
+            </div>
+          )}
         </div>
+
+        <FormatTabs format={content.format} tabs={formatTabs} />
       </div>
 
       {/* Main content with tabs */}
@@ -163,20 +279,48 @@ export function ContentPageClient({
             <MessageSquare className="h-4 w-4" />
             Text Refine
           </TabsTrigger>
+          <TabsTrigger value="history" className="gap-2">
+            <History className="h-4 w-4" />
+            History
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="view" className="mt-0">
-          <ContentEditor
-            contentId={content.id}
-            initialTitle={content.title}
-            initialContent={content.content}
-            wordCount={content.wordCount}
-            readTimeMinutes={content.readTimeMinutes}
-            status={content.status}
-            createdAt={new Date(content.createdAt)}
-            version={content.version}
-            onSave={handleSave}
-          />
+          {changeSet ? (
+            <TrackedChanges
+              content={content.content}
+              changeSet={changeSet}
+              onApplied={handleChangesApplied}
+              onDiscard={() => setChangeSet(null)}
+            />
+          ) : (
+            <ContentEditor
+              contentId={content.id}
+              initialTitle={content.title}
+              initialContent={content.content}
+              wordCount={content.wordCount}
+              readTimeMinutes={content.readTimeMinutes}
+              status={content.status}
+              createdAt={new Date(content.createdAt)}
+              version={content.version}
+              onSave={handleSave}
+              onRefineSelection={handleRefineSelection}
+            />
+          )}
+
+          {/* Source recording, when the user kept it */}
+          {voiceSession?.audioUrl &&
+            voiceSession.wordTimestamps &&
+            voiceSession.wordTimestamps.length > 0 && (
+              <SessionAudioPlayer
+                audioUrl={voiceSession.audioUrl}
+                wordTimestamps={voiceSession.wordTimestamps}
+                transcript={voiceSession.transcript}
+                enthusiasmSegments={voiceSession.enthusiasmSegments}
+                durationSeconds={voiceSession.durationSeconds}
+                className="mt-6"
+              />
+            )}
         </TabsContent>
 
         <TabsContent value="voice" className="mt-0">
@@ -191,7 +335,7 @@ export function ContentPageClient({
                 <li>Click &quot;Start Recording&quot;</li>
                 <li>Describe the changes you want (up to 60 seconds)</li>
                 <li>We&apos;ll transcribe your feedback and apply it</li>
-                <li>A new version will be created with your changes</li>
+                <li>Accept or reject each proposed change; the accepted ones become a new version</li>
               </ol>
               <p className="mt-4 text-xs">
                 Your original version is always preserved.
@@ -204,6 +348,8 @@ export function ContentPageClient({
           <div className="grid gap-6 md:grid-cols-2">
             <RefineChat
               contentId={content.id}
+              selection={selection}
+              onClearSelection={() => setSelection(null)}
               onRefineComplete={handleRefineComplete}
             />
             <div className="text-sm text-muted-foreground p-4 bg-muted/50 rounded-lg">
@@ -229,6 +375,10 @@ export function ContentPageClient({
             </div>
           </div>
         </TabsContent>
+
+        <TabsContent value="history" className="mt-0">
+          <VersionHistory contentId={content.id} />
+        </TabsContent>
       </Tabs>
 
       {/* Version info */}
@@ -6,16 +6,63 @@
 
 import { headers } from "next/headers";
 import { notFound, redirect } from "next/navigation";
-import { eq } from "drizzle-orm";
+import { and, asc, eq, isNull, or } from "drizzle-orm";
+import { getSessionAudioUrl } from "@/lib/audio/retention";
 import { auth } from "@/lib/auth";
+import { findLatestVersion, findOriginalVersion } from "@/lib/content/versions";
 import { db } from "@/lib/db";
 import { generatedContent, voiceSessions } from "@/lib/schema";
+import { REPURPOSE_FORMATS, type ContentFormat } from "@/types/content";
 import { ContentPageClient } from "./content-page-client";
 
 interface ContentPageProps {
   params: Promise<{ id: string }>;
 }
 
+type Content = typeof generatedContent.$inferSelect;
+
+/**
+ * The article and the platform pieces repurposed from it, one per format.
+ * The content being viewed stands in for its own format.
+ */
+async function findFormatTabs(
+  content: Content,
+  original: Content
+): Promise<Array<{ format: ContentFormat; contentId: string }>> {
+  const articleId = content.format === "article" ? original.id : content.repurposedFrom;
+  if (!articleId) {
+    return [{ format: content.format, contentId: content.id }];
+  }
+
+  const tabs = new Map<ContentFormat, string>();
+
+  if (content.format === "article") {
+    tabs.set("article", content.id);
+  } else {
+    const [article] = await db
+      .select()
+      .from(generatedContent)
+      .where(eq(generatedContent.id, articleId))
+      .limit(1);
+    if (article) tabs.set("article", (await findLatestVersion(article)).id);
+  }
+
+  // Latest output (or refinement of one) per format
+  const outputs = await db
+    .select({ id: generatedContent.id, format: generatedContent.format })
+    .from(generatedContent)
+    .where(eq(generatedContent.repurposedFrom, articleId))
+    .orderBy(asc(generatedContent.createdAt));
+  for (const output of outputs) {
+    tabs.set(output.format, output.id);
+  }
+  tabs.set(content.format, content.id);
+
+  return (["article", ...REPURPOSE_FORMATS] as ContentFormat[])
+    .filter((format) => tabs.has(format))
+    .map((format) => ({ format, contentId: tabs.get(format) as string }));
+}
+
 export default async function ContentPage({ params }: ContentPageProps) {
   const session = await auth.api.getSession({ headers: await headers() });
 
@@ -53,12 +100,51 @@ export default async function ContentPage({ params }: ContentPageProps) {
       id: voiceSessions.id,
       mode: voiceSessions.mode,
       durationSeconds: voiceSessions.durationSeconds,
+      transcript: voiceSessions.transcript,
+      wordTimestamps: voiceSessions.wordTimestamps,
+      audioUrl: voiceSessions.audioUrl,
+      audioRetained: voiceSessions.audioRetained,
+      enthusiasmAnalysis: voiceSessions.enthusiasmAnalysis,
       createdAt: voiceSessions.createdAt,
     })
     .from(voiceSessions)
     .where(eq(voiceSessions.id, content.sessionId))
     .limit(1);
 
+  // This generation's content in other languages (original versions only)
+  const original = await findOriginalVersion(content);
+  const generationId = original.translationOf ?? original.id;
+  const translations = await db
+    .select({ contentId: generatedContent.id, language: generatedContent.language })
+    .from(generatedContent)
+    .where(
+      and(
+        or(
+          eq(generatedContent.id, generationId),
+          eq(generatedContent.translationOf, generationId)
+        ),
+        eq(generatedContent.userId, session.user.id),
+        isNull(generatedContent.parentVersionId)
+      )
+    )
+    .orderBy(asc(generatedContent.createdAt));
+
+  // Other versions of the session's content, for comparison
+  const generations = await db
+    .select({ id: generatedContent.id })
+    .from(generatedContent)
+    .where(
+      and(
+        eq(generatedContent.sessionId, content.sessionId),
+        eq(generatedContent.userId, session.user.id),
+        isNull(generatedContent.parentVersionId),
+        isNull(generatedContent.translationOf),
+        eq(generatedContent.format, "article")
+      )
+    );
+
+  const formatTabs = await findFormatTabs(content, original);
+
   // Serialize dates for client component
   const serializedContent = {
     id: content.id,
@@ -72,6 +158,11 @@ export default async function ContentPage({ params }: ContentPageProps) {
     version: content.version,
     parentVersionId: content.parentVersionId,
     modelUsed: content.modelUsed,
+    template: content.template,
+    customTemplateId: content.customTemplateId,
+    language: content.language,
+    translationOf: content.translationOf,
+    format: content.format,
     createdAt: content.createdAt.toISOString(),
     updatedAt: content.updatedAt.toISOString(),
   };
@@ -81,6 +172,13 @@ export default async function ContentPage({ params }: ContentPageProps) {
         id: voiceSession.id,
         mode: voiceSession.mode,
         durationSeconds: voiceSession.durationSeconds,
+        transcript: voiceSession.transcript,
+        wordTimestamps: voiceSession.wordTimestamps,
+        audioUrl:
+          voiceSession.audioUrl && voiceSession.audioRetained
+            ? getSessionAudioUrl(voiceSession.id)
+            : null,
+        enthusiasmSegments: voiceSession.enthusiasmAnalysis?.segments ?? [],
         createdAt: voiceSession.createdAt.toISOString(),
       }
     : null;
@@ -89,6 +187,10 @@ export default async function ContentPage({ params }: ContentPageProps) {
     <ContentPageClient
       content={serializedContent}
       voiceSession={serializedSession}
+      generationId={generationId}
+      generationCount={generations.length}
+      translations={translations}
+      formatTabs={formatTabs}
     />
   );
 }
@@ -8,7 +8,11 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { VoiceRecorder, TranscriptPreview } from "@/components/voice";
+import { VoiceRecorder, TranscriptPreview, RecordingRecovery } from "@/components/voice";
+import { JobFailedError, requestJob } from "@/lib/api-client";
+import { reuploadRecording } from "@/lib/voice/chunkedUploader";
+import { deleteRecording, type StoredRecording } from "@/lib/voice/recordingStore";
+import type { TranscribeResponse, UploadedAudio, WordTimestamp } from "@/types/voice";
 
 type GuidedStage =
   | "intro"
@@ -18,22 +22,13 @@ type GuidedStage =
   | "follow_up"
   | "complete";
 
-interface TranscriptionResult {
-  transcript: string;
-  durationSeconds: number;
-  wordTimestamps: Array<{
-    word: string;
-    start: number;
-    end: number;
-    confidence: number;
-  }>;
-  language?: string;
-}
-
 interface RecordingRound {
   prompt: string;
   transcript: string;
   duration: number;
+  wordTimestamps: WordTimestamp[];
+  recordingKey?: string | undefined; // Held audio, kept for analysis and, if opted in, playback
+  language: string; // Detected by transcription, "und" if unknown
 }
 
 // Initial prompts to get the user started
@@ -63,7 +58,8 @@ export default function DeepDivePage() {
   const [error, setError] = useState<string | null>(null);
   const [rounds, setRounds] = useState<RecordingRound[]>([]);
   const [currentPrompt, setCurrentPrompt] = useState("");
-  const [currentTranscript, setCurrentTranscript] = useState<TranscriptionResult | null>(null);
+  const [currentTranscript, setCurrentTranscript] = useState<TranscribeResponse | null>(null);
+  const [resumeRecording, setResumeRecording] = useState<StoredRecording | null>(null);
 
   const maxRounds = 3;
   const currentRound = rounds.length + 1;
@@ -71,6 +67,25 @@ export default function DeepDivePage() {
   // Get combined transcript from all rounds
   const fullTranscript = rounds.map((r) => r.transcript).join("\n\n");
   const totalDuration = rounds.reduce((sum, r) => sum + r.duration, 0);
+
+  // Rounds are joined back to back, so shift each round's words by the
+  // duration of the rounds before it
+  const roundOffsets = rounds.map((_, index) =>
+    rounds.slice(0, index).reduce((sum, r) => sum + r.duration, 0)
+  );
+  const fullWordTimestamps = rounds.flatMap((r, index) =>
+    r.wordTimestamps.map((w) => ({
+      ...w,
+      start: w.start + (roundOffsets[index] ?? 0),
+      end: w.end + (roundOffsets[index] ?? 0),
+    }))
+  );
+  // Playback only lines up with the words if every round's audio was kept
+  const recordingKeys = rounds.every((r) => r.recordingKey)
+    ? rounds.map((r) => r.recordingKey as string)
+    : [];
+  // Rounds are answered in one language; take the first one that was detected
+  const language = rounds.find((r) => r.language !== "und")?.language;
   const totalWords = rounds.reduce(
     (sum, r) => sum + r.transcript.split(/\s+/).filter(Boolean).length,
     0
@@ -86,32 +101,36 @@ export default function DeepDivePage() {
     setStage("recording");
   }, []);
 
-  const handleRecordingComplete = async (audioBlob: Blob, _duration: number) => {
-    setError(null);
+  const uploadRecording = async (audioBlob: Blob): Promise<UploadedAudio> => {
     setStage("uploading");
 
-    try {
-      // Step 1: Upload the audio file
-      const formData = new FormData();
-      formData.append("audio", audioBlob, "recording.webm");
-      formData.append("mode", "guided");
+    const formData = new FormData();
+    formData.append("audio", audioBlob, "recording.webm");
+    formData.append("mode", "guided");
 
-      const uploadResponse = await fetch("/api/voice/upload", {
-        method: "POST",
-        body: formData,
-      });
+    const uploadResponse = await fetch("/api/voice/upload", {
+      method: "POST",
+      body: formData,
+    });
 
-      if (!uploadResponse.ok) {
-        const uploadError = await uploadResponse.json();
-        throw new Error(uploadError.error || "Failed to upload audio");
-      }
+    if (!uploadResponse.ok) {
+      const uploadError = await uploadResponse.json();
+      throw new Error(uploadError.error || "Failed to upload audio");
+    }
 
-      const uploadResult = await uploadResponse.json();
+    return (await uploadResponse.json()) as UploadedAudio;
+  };
 
-      // Step 2: Transcribe the audio
-      setStage("transcribing");
+  const transcribeRound = async (
+    uploadResult: UploadedAudio,
+    prompt: string,
+    isRetry = false
+  ): Promise<void> => {
+    setStage("transcribing");
 
-      const transcribeResponse = await fetch("/api/voice/transcribe", {
+    let transcriptionResult: TranscribeResponse;
+    try {
+      transcriptionResult = await requestJob<TranscribeResponse>("/api/voice/transcribe", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -119,31 +138,81 @@ export default function DeepDivePage() {
         body: JSON.stringify({
           uploadId: uploadResult.uploadId,
           audioUrl: uploadResult.url,
+          attachToSession: true,
+          analyzeAudio: true,
         }),
       });
-
-      if (!transcribeResponse.ok) {
-        const transcribeError = await transcribeResponse.json();
-        throw new Error(transcribeError.error || "Failed to transcribe audio");
+    } catch (err) {
+      // The uploaded file is gone; send the saved recording again
+      const reupload =
+        err instanceof JobFailedError && err.code === "audio_gone" && !isRetry
+          ? await reuploadRecording(uploadResult.uploadId)
+          : null;
+      if (reupload) {
+        return transcribeRound(reupload, prompt, true);
       }
+      throw err;
+    }
+    setCurrentTranscript(transcriptionResult);
+
+    // Transcribed safely - the local crash-recovery copy is no longer needed
+    deleteRecording(uploadResult.uploadId).catch((err) => {
+      console.error("Failed to clear saved recording:", err);
+    });
+
+    // Add to rounds
+    const newRound: RecordingRound = {
+      prompt,
+      transcript: transcriptionResult.transcript,
+      duration: transcriptionResult.durationSeconds,
+      wordTimestamps: transcriptionResult.wordTimestamps,
+      recordingKey: transcriptionResult.recordingKey,
+      language: transcriptionResult.language,
+    };
+    setRounds((prev) => [...prev, newRound]);
+
+    // Decide next step
+    if (currentRound >= maxRounds) {
+      setStage("complete");
+    } else {
+      setStage("follow_up");
+    }
+  };
 
-      const transcriptionResult: TranscriptionResult = await transcribeResponse.json();
-      setCurrentTranscript(transcriptionResult);
-
-      // Add to rounds
-      const newRound: RecordingRound = {
-        prompt: currentPrompt,
-        transcript: transcriptionResult.transcript,
-        duration: transcriptionResult.durationSeconds,
-      };
-      setRounds((prev) => [...prev, newRound]);
-
-      // Decide next step
-      if (currentRound >= maxRounds) {
-        setStage("complete");
-      } else {
-        setStage("follow_up");
-      }
+  const handleRecordingComplete = async (
+    audioBlob: Blob,
+    _duration: number,
+    upload?: UploadedAudio
+  ) => {
+    setError(null);
+    setResumeRecording(null);
+
+    try {
+      // Step 1: Upload the audio file (already done in the background for resumable recordings)
+      const uploadResult = upload ?? (await uploadRecording(audioBlob));
+
+      // Step 2: Transcribe the audio
+      await transcribeRound(uploadResult, currentPrompt);
+    } catch (err) {
+      console.error("Recording processing error:", err);
+      setError(err instanceof Error ? err.message : "An error occurred");
+      setStage("recording");
+    }
+  };
+
+  // Recovered recordings carry the prompt they were answering
+  const handleResumeRecording = (recording: StoredRecording) => {
+    setCurrentPrompt(recording.prompt ?? INITIAL_PROMPTS[0] ?? "");
+    setResumeRecording(recording);
+    setStage("recording");
+  };
+
+  const handleRecoveredUpload = async (upload: UploadedAudio, recording: StoredRecording) => {
+    setError(null);
+    setCurrentPrompt(recording.prompt ?? "");
+
+    try {
+      await transcribeRound(upload, recording.prompt ?? "");
     } catch (err) {
       console.error("Recording processing error:", err);
       setError(err instanceof Error ? err.message : "An error occurred");
@@ -197,6 +266,9 @@ export default function DeepDivePage() {
           mode: "guided",
           transcript: fullTranscript,
           durationSeconds: totalDuration,
+          ...(fullWordTimestamps.length > 0 && { wordTimestamps: fullWordTimestamps }),
+          ...(recordingKeys.length > 0 && { recordingKeys }),
+          ...(language && { language }),
         }),
       });
 
@@ -207,7 +279,15 @@ export default function DeepDivePage() {
 
       const { sessionId } = await response.json();
 
-      // Navigate to session page for content generation
+      // Analysis runs in the background; the session page follows it and
+      // offers a retry if it doesn't finish
+      await fetch("/api/voice/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId }),
+      });
+
+      // Navigate to session page for follow-up questions and generation
       router.push(`/session/${sessionId}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to generate content");
@@ -239,6 +319,13 @@ export default function DeepDivePage() {
             </div>
           </div>
 
+          {/* Recovery for a recording interrupted by a crash or navigation */}
+          <RecordingRecovery
+            mode="guided"
+            onResume={handleResumeRecording}
+            onUploaded={handleRecoveredUpload}
+          />
+
           {/* Intro Card */}
           <Card>
             <CardHeader>
@@ -419,9 +506,13 @@ export default function DeepDivePage() {
 
         {/* Voice Recorder with prompt */}
         <VoiceRecorder
+          key={resumeRecording?.id ?? `round-${currentRound}`}
           mode="guided"
           maxDuration={120} // 2 minutes per round, total 5-6 minutes
           prompt={currentPrompt}
+          resumable
+          resumeFrom={resumeRecording}
+          liveTranscription
           onComplete={handleRecordingComplete}
           onCancel={handleCancel}
         />
@@ -0,0 +1,356 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Loader2, ArrowLeft, ArrowRight, FileAudio, Upload } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { TranscriptPreview, SpeakerSelector } from "@/components/voice";
+import { requestJob, safeParseJSON } from "@/lib/api-client";
+import { applyWordCorrections } from "@/lib/transcription/corrections";
+import { getSpeakers } from "@/lib/transcription/speakers";
+import type { TranscribeResponse, UploadedAudio, WordCorrection } from "@/types/voice";
+
+type ImportStage = "select" | "importing" | "transcribing" | "review" | "creating_session" | "analyzing";
+
+// Keep in sync with /api/voice/import
+const MAX_IMPORT_SIZE = 500 * 1024 * 1024;
+const ACCEPTED_FILES = "audio/*,video/*,.m4a,.mov,.mkv,.flac";
+
+/**
+ * Import Recording Page
+ *
+ * Turns an existing audio or video file (voice memo, podcast episode, meeting
+ * export) into a session. The audio track is extracted server-side, then the
+ * session runs through the usual analyze, follow-up, and generate steps.
+ */
+export default function ImportRecordingPage() {
+  const router = useRouter();
+  const [stage, setStage] = useState<ImportStage>("select");
+  const [error, setError] = useState<string | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [isConversation, setIsConversation] = useState(false);
+  const [transcription, setTranscription] = useState<TranscribeResponse | null>(null);
+  const [ownerSpeaker, setOwnerSpeaker] = useState<string | null>(null);
+
+  const speakers = transcription ? getSpeakers(transcription.wordTimestamps) : [];
+  const needsSpeakerSelection = speakers.length > 1 && !ownerSpeaker;
+
+  const handleFileChange = (selected: File | null) => {
+    setError(null);
+    if (selected && selected.size > MAX_IMPORT_SIZE) {
+      setError(`File too large. Maximum size: ${MAX_IMPORT_SIZE / 1024 / 1024}MB`);
+      setFile(null);
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setError(null);
+    setStage("importing");
+
+    try {
+      // Step 1: Upload the file and extract its audio track
+      const formData = new FormData();
+      formData.append("file", file, file.name);
+
+      const importResponse = await fetch("/api/voice/import", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!importResponse.ok) {
+        const errorData = await safeParseJSON(importResponse);
+        throw new Error(errorData?.error || `Import failed (${importResponse.status})`);
+      }
+
+      const importResult: UploadedAudio = await importResponse.json();
+
+      // Step 2: Transcribe the extracted audio
+      setStage("transcribing");
+
+      const transcriptionResult = await requestJob<TranscribeResponse>("/api/voice/transcribe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          uploadId: importResult.uploadId,
+          audioUrl: importResult.url,
+          diarize: isConversation,
+          attachToSession: true,
+          analyzeAudio: true,
+        }),
+      });
+      setTranscription(transcriptionResult);
+      setOwnerSpeaker(null);
+      setStage("review");
+    } catch (err) {
+      console.error("Import processing error:", err);
+      setError(err instanceof Error ? err.message : "An error occurred");
+      setStage("select");
+    }
+  };
+
+  const handleCorrectWord = (correction: WordCorrection) => {
+    setTranscription((prev) =>
+      prev
+        ? {
+            ...prev,
+            ...applyWordCorrections(prev.transcript, prev.wordTimestamps, [correction]),
+          }
+        : prev
+    );
+  };
+
+  const handleStartOver = () => {
+    setTranscription(null);
+    setOwnerSpeaker(null);
+    setFile(null);
+    setError(null);
+    setStage("select");
+  };
+
+  const handleContinue = async () => {
+    if (!transcription) return;
+
+    setError(null);
+    setStage("creating_session");
+
+    let sessionId: string;
+    try {
+      // Step 3: Create the session from the transcript
+      const sessionResponse = await fetch("/api/session/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mode: "guided",
+          source: "import",
+          transcript: transcription.transcript,
+          durationSeconds: transcription.durationSeconds,
+          wordTimestamps: transcription.wordTimestamps,
+          ...(ownerSpeaker && { ownerSpeaker }),
+          ...(transcription.recordingKey && { recordingKeys: [transcription.recordingKey] }),
+          language: transcription.language,
+        }),
+      });
+
+      if (!sessionResponse.ok) {
+        const errorData = await safeParseJSON(sessionResponse);
+        const errorDetails = errorData?.details ? `: ${errorData.details}` : "";
+        throw new Error((errorData?.error || "Failed to create session") + errorDetails);
+      }
+
+      ({ sessionId } = await sessionResponse.json());
+    } catch (err) {
+      console.error("Session creation error:", err);
+      setError(err instanceof Error ? err.message : "Failed to create session");
+      setStage("review");
+      return;
+    }
+
+    // Step 4: Analyze the transcript. The session page offers a retry for
+    // imports whose analysis failed, so continue there either way.
+    setStage("analyzing");
+    try {
+      await requestJob("/api/voice/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId }),
+      });
+    } catch (err) {
+      console.error("Analysis error:", err);
+    }
+
+    router.push(`/session/${sessionId}`);
+  };
+
+  // Processing states
+  if (
+    stage === "importing" ||
+    stage === "transcribing" ||
+    stage === "creating_session" ||
+    stage === "analyzing"
+  ) {
+    const messages: Record<string, { title: string; description: string }> = {
+      importing: {
+        title: "Importing...",
+        description: "Uploading your file and extracting the audio",
+      },
+      transcribing: {
+        title: "Transcribing...",
+        description: "Converting the recording to text. Long files can take a few minutes.",
+      },
+      creating_session: {
+        title: "Preparing...",
+        description: "Setting up your content session",
+      },
+      analyzing: {
+        title: "Analyzing...",
+        description: "Finding the key ideas and energy in your recording",
+      },
+    };
+
+    const message = messages[stage];
+
+    return (
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="max-w-md mx-auto">
+          <div className="text-center space-y-6 py-12">
+            <Loader2 className="h-12 w-12 animate-spin text-primary mx-auto" />
+            <div className="space-y-2">
+              <h2 className="text-xl font-semibold">{message?.title ?? "Processing..."}</h2>
+              <p className="text-muted-foreground">{message?.description ?? "Please wait"}</p>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  // Review state with transcript
+  if (stage === "review" && transcription) {
+    return (
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={handleStartOver}>
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back</span>
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Recording Imported</h1>
+              <p className="text-muted-foreground">
+                Review the transcript, then we&apos;ll ask a few follow-up questions
+              </p>
+            </div>
+          </div>
+
+          {/* Error Alert */}
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {/* Transcript Preview */}
+          <TranscriptPreview
+            transcript={transcription.transcript}
+            duration={transcription.durationSeconds}
+            wordCount={transcription.wordTimestamps.length}
+            wordTimestamps={transcription.wordTimestamps}
+            onCorrectWord={handleCorrectWord}
+          />
+
+          {/* Speaker Selection (multi-person recordings) */}
+          {speakers.length > 1 && (
+            <SpeakerSelector
+              speakers={speakers}
+              value={ownerSpeaker}
+              onChange={setOwnerSpeaker}
+            />
+          )}
+
+          {/* Actions */}
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Button
+              onClick={handleContinue}
+              disabled={needsSpeakerSelection}
+              className="flex-1 gap-2"
+            >
+              Continue
+              <ArrowRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleStartOver}
+              className="flex-1"
+            >
+              Import Another File
+            </Button>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  // File selection state
+  return (
+    <main className="flex-1 container mx-auto px-4 py-8">
+      <div className="max-w-lg mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/record">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back</span>
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Import Recording</h1>
+            <p className="text-muted-foreground">
+              Turn a voice memo, podcast, or meeting recording into content
+            </p>
+          </div>
+        </div>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-primary/10">
+                <FileAudio className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle>Choose a file</CardTitle>
+                <CardDescription>
+                  Audio or video, up to {MAX_IMPORT_SIZE / 1024 / 1024}MB. Only the audio is kept.
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              type="file"
+              accept={ACCEPTED_FILES}
+              onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+            />
+
+            {file && (
+              <p className="text-sm text-muted-foreground">
+                {file.name} ({(file.size / 1024 / 1024).toFixed(1)}MB)
+              </p>
+            )}
+
+            {/* Conversation toggle */}
+            <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isConversation}
+                onChange={(e) => setIsConversation(e.target.checked)}
+                className="h-4 w-4 accent-primary"
+              />
+              This recording has more than one speaker
+            </label>
+
+            <Button onClick={handleImport} disabled={!file} className="w-full gap-2">
+              <Upload className="h-4 w-4" />
+              Import and Transcribe
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
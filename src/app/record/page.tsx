@@ -1,7 +1,7 @@
 import { headers } from "next/headers";
 import Link from "next/link";
 import { redirect } from "next/navigation";
-import { Mic, Zap, MessageSquare, Clock, ArrowRight } from "lucide-react";
+import { Mic, Zap, MessageSquare, Clock, ArrowRight, FileAudio } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { auth } from "@/lib/auth";
@@ -9,7 +9,8 @@ import { auth } from "@/lib/auth";
 /**
  * Recording Mode Selection Page
  *
- * Users choose between Thought Stream (2 min) and Deep Dive (5 min) recording modes.
+ * Users choose between Thought Stream (2 min) and Deep Dive (5 min) recording modes,
+ * or import an existing recording.
  */
 export default async function RecordPage() {
   const session = await auth.api.getSession({
@@ -128,6 +129,27 @@ export default async function RecordPage() {
           </Card>
         </div>
 
+        {/* Import existing recording */}
+        <Card>
+          <CardContent className="flex flex-col sm:flex-row items-center gap-4 pt-6">
+            <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-primary/10 shrink-0">
+              <FileAudio className="h-5 w-5 text-primary" />
+            </div>
+            <div className="flex-1 text-center sm:text-left">
+              <p className="font-medium">Already have a recording?</p>
+              <p className="text-sm text-muted-foreground">
+                Import a voice memo, podcast episode, or meeting recording (audio or video).
+              </p>
+            </div>
+            <Button asChild variant="outline" className="gap-2">
+              <Link href="/record/import">
+                Import Recording
+                <ArrowRight className="h-4 w-4" />
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Tips */}
         <div className="text-center text-sm text-muted-foreground">
           <p>
@@ -1,48 +1,39 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Loader2, ArrowLeft, Sparkles } from "lucide-react";
+import { LanguageSelector } from "@/components/content/LanguageSelector";
+import { StreamingDraft } from "@/components/content/StreamingDraft";
 import { TemplateSelector } from "@/components/content/TemplateSelector";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
-import { VoiceRecorder, TranscriptPreview } from "@/components/voice";
-import type { ContentTemplate } from "@/types/content";
+import {
+  VoiceRecorder,
+  TranscriptPreview,
+  SpeakerSelector,
+  RecordingRecovery,
+} from "@/components/voice";
+import { useSessionEvents } from "@/hooks/useSessionEvents";
+import { JobFailedError, requestJob, safeParseJSON } from "@/lib/api-client";
+import { applyWordCorrections } from "@/lib/transcription/corrections";
+import { getSpeakers } from "@/lib/transcription/speakers";
+import { reuploadRecording } from "@/lib/voice/chunkedUploader";
+import { deleteRecording, type StoredRecording } from "@/lib/voice/recordingStore";
+import type { TemplateChoice } from "@/types/content";
+import type { GenerateContentJobResult } from "@/types/job";
+import type { SessionEvent } from "@/types/session";
+import type {
+  LiveTranscript,
+  TranscribeResponse,
+  UploadedAudio,
+  WordCorrection,
+} from "@/types/voice";
 
 type RecordingStage = "recording" | "uploading" | "transcribing" | "complete" | "creating_session" | "generating";
 
-/**
- * Safely parse JSON from a Response, returning null if parsing fails.
- * Handles cases where server returns HTML error pages instead of JSON.
- */
-async function safeParseJSON(response: Response): Promise<{ error?: string; details?: string; hint?: string } | null> {
-  try {
-    const text = await response.text();
-    // Check if response looks like HTML (error page)
-    if (text.startsWith("<!DOCTYPE") || text.startsWith("<html")) {
-      console.error("Received HTML instead of JSON:", text.substring(0, 200));
-      return null;
-    }
-    return JSON.parse(text);
-  } catch {
-    return null;
-  }
-}
-
-interface TranscriptionResult {
-  transcript: string;
-  durationSeconds: number;
-  wordTimestamps: Array<{
-    word: string;
-    start: number;
-    end: number;
-    confidence: number;
-  }>;
-  language?: string;
-}
-
 /**
  * Thought Stream Page
  *
@@ -53,35 +44,59 @@ export default function ThoughtStreamPage() {
   const router = useRouter();
   const [stage, setStage] = useState<RecordingStage>("recording");
   const [error, setError] = useState<string | null>(null);
-  const [transcription, setTranscription] = useState<TranscriptionResult | null>(null);
-  const [selectedTemplate, setSelectedTemplate] = useState<ContentTemplate>("blog_post");
+  const [transcription, setTranscription] = useState<TranscribeResponse | null>(null);
+  const [liveTranscript, setLiveTranscript] = useState<LiveTranscript | null>(null);
+  const [selectedTemplate, setSelectedTemplate] = useState<TemplateChoice>({
+    template: "blog_post",
+    customTemplateId: null,
+  });
+  const [targetLanguage, setTargetLanguage] = useState<string | null>(null);
+  const [isConversation, setIsConversation] = useState(false);
+  const [ownerSpeaker, setOwnerSpeaker] = useState<string | null>(null);
+  const [resumeRecording, setResumeRecording] = useState<StoredRecording | null>(null);
+  const [generatingSessionId, setGeneratingSessionId] = useState<string | null>(null);
+  const [generationPreview, setGenerationPreview] = useState("");
+
+  // Show the article as it's written
+  const handleSessionEvent = useCallback((event: SessionEvent) => {
+    if (event.type === "generation_delta") {
+      setGenerationPreview((prev) => prev + event.text);
+    }
+  }, []);
+  useSessionEvents(generatingSessionId, handleSessionEvent);
 
-  const handleRecordingComplete = async (audioBlob: Blob, _duration: number) => {
-    setError(null);
+  const speakers = transcription ? getSpeakers(transcription.wordTimestamps) : [];
+  const needsSpeakerSelection = speakers.length > 1 && !ownerSpeaker;
+
+  const uploadRecording = async (audioBlob: Blob): Promise<UploadedAudio> => {
     setStage("uploading");
 
-    try {
-      // Step 1: Upload the audio file
-      const formData = new FormData();
-      formData.append("audio", audioBlob, "recording.webm");
-      formData.append("mode", "quick");
+    const formData = new FormData();
+    formData.append("audio", audioBlob, "recording.webm");
+    formData.append("mode", "quick");
 
-      const uploadResponse = await fetch("/api/voice/upload", {
-        method: "POST",
-        body: formData,
-      });
+    const uploadResponse = await fetch("/api/voice/upload", {
+      method: "POST",
+      body: formData,
+    });
 
-      if (!uploadResponse.ok) {
-        const errorData = await safeParseJSON(uploadResponse);
-        throw new Error(errorData?.error || `Upload failed (${uploadResponse.status})`);
-      }
+    if (!uploadResponse.ok) {
+      const errorData = await safeParseJSON(uploadResponse);
+      throw new Error(errorData?.error || `Upload failed (${uploadResponse.status})`);
+    }
 
-      const uploadResult = await uploadResponse.json();
+    return (await uploadResponse.json()) as UploadedAudio;
+  };
 
-      // Step 2: Transcribe the audio
-      setStage("transcribing");
+  const transcribeUpload = async (
+    uploadResult: UploadedAudio,
+    isRetry = false
+  ): Promise<void> => {
+    setStage("transcribing");
 
-      const transcribeResponse = await fetch("/api/voice/transcribe", {
+    let transcriptionResult: TranscribeResponse;
+    try {
+      transcriptionResult = await requestJob<TranscribeResponse>("/api/voice/transcribe", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -89,17 +104,61 @@ export default function ThoughtStreamPage() {
         body: JSON.stringify({
           uploadId: uploadResult.uploadId,
           audioUrl: uploadResult.url,
+          diarize: isConversation,
+          attachToSession: true,
         }),
       });
-
-      if (!transcribeResponse.ok) {
-        const errorData = await safeParseJSON(transcribeResponse);
-        throw new Error(errorData?.error || `Transcription failed (${transcribeResponse.status})`);
+    } catch (err) {
+      // The uploaded file is gone; send the saved recording again
+      const reupload =
+        err instanceof JobFailedError && err.code === "audio_gone" && !isRetry
+          ? await reuploadRecording(uploadResult.uploadId)
+          : null;
+      if (reupload) {
+        return transcribeUpload(reupload, true);
       }
+      throw err;
+    }
+
+    // Transcribed safely - the local crash-recovery copy is no longer needed
+    deleteRecording(uploadResult.uploadId).catch((err) => {
+      console.error("Failed to clear saved recording:", err);
+    });
+
+    // The full pass replaces the live preview
+    setTranscription(transcriptionResult);
+    setLiveTranscript(null);
+    setOwnerSpeaker(null);
+    setStage("complete");
+  };
+
+  const handleRecordingComplete = async (
+    audioBlob: Blob,
+    _duration: number,
+    upload?: UploadedAudio
+  ) => {
+    setError(null);
+    setResumeRecording(null);
 
-      const transcriptionResult: TranscriptionResult = await transcribeResponse.json();
-      setTranscription(transcriptionResult);
-      setStage("complete");
+    try {
+      // Step 1: Upload the audio file (already done in the background for resumable recordings)
+      const uploadResult = upload ?? (await uploadRecording(audioBlob));
+
+      // Step 2: Transcribe the audio
+      await transcribeUpload(uploadResult);
+    } catch (err) {
+      console.error("Recording processing error:", err);
+      setError(err instanceof Error ? err.message : "An error occurred");
+      setLiveTranscript(null);
+      setStage("recording");
+    }
+  };
+
+  const handleRecoveredUpload = async (upload: UploadedAudio) => {
+    setError(null);
+
+    try {
+      await transcribeUpload(upload);
     } catch (err) {
       console.error("Recording processing error:", err);
       setError(err instanceof Error ? err.message : "An error occurred");
@@ -111,8 +170,21 @@ export default function ThoughtStreamPage() {
     router.push("/record");
   };
 
+  const handleCorrectWord = (correction: WordCorrection) => {
+    setTranscription((prev) =>
+      prev
+        ? {
+            ...prev,
+            ...applyWordCorrections(prev.transcript, prev.wordTimestamps, [correction]),
+          }
+        : prev
+    );
+  };
+
   const handleStartOver = () => {
     setTranscription(null);
+    setLiveTranscript(null);
+    setOwnerSpeaker(null);
     setError(null);
     setStage("recording");
   };
@@ -133,6 +205,9 @@ export default function ThoughtStreamPage() {
           transcript: transcription.transcript,
           durationSeconds: transcription.durationSeconds,
           wordTimestamps: transcription.wordTimestamps,
+          ...(ownerSpeaker && { ownerSpeaker }),
+          ...(transcription.recordingKey && { recordingKeys: [transcription.recordingKey] }),
+          language: transcription.language,
         }),
       });
 
@@ -148,29 +223,37 @@ export default function ThoughtStreamPage() {
 
       // Step 2: Generate content from the session
       setStage("generating");
+      setGenerationPreview("");
+      setGeneratingSessionId(sessionId);
 
-      const generateResponse = await fetch("/api/content/generate", {
+      const contentData = await requestJob<GenerateContentJobResult>("/api/content/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ sessionId, template: selectedTemplate }),
+        body: JSON.stringify({
+          sessionId,
+          ...selectedTemplate,
+          ...(targetLanguage && { language: targetLanguage }),
+        }),
       });
 
-      if (!generateResponse.ok) {
-        const errorData = await safeParseJSON(generateResponse);
-        throw new Error(errorData?.error || "Failed to generate content");
-      }
-
-      const contentData = await generateResponse.json();
-
       // Navigate to the generated content
       router.push(`/content/${contentData.contentId}`);
     } catch (err) {
       console.error("Content generation error:", err);
       setError(err instanceof Error ? err.message : "Failed to generate content");
       setStage("complete"); // Return to complete state so user can retry
+      setGeneratingSessionId(null);
     }
   };
 
+  if (stage === "generating" && generationPreview) {
+    return (
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <StreamingDraft markdown={generationPreview} />
+      </main>
+    );
+  }
+
   // Processing states
   if (stage === "uploading" || stage === "transcribing" || stage === "creating_session" || stage === "generating") {
     const messages: Record<string, { title: string; description: string }> = {
@@ -204,6 +287,16 @@ export default function ThoughtStreamPage() {
               <p className="text-muted-foreground">{message?.description ?? "Please wait"}</p>
             </div>
           </div>
+
+          {/* What was heard so far, until the full transcription replaces it */}
+          {(stage === "uploading" || stage === "transcribing") && liveTranscript?.transcript && (
+            <TranscriptPreview
+              transcript={liveTranscript.transcript}
+              duration={liveTranscript.durationSeconds}
+              wordCount={liveTranscript.wordTimestamps.length}
+              live
+            />
+          )}
         </div>
       </main>
     );
@@ -235,8 +328,19 @@ export default function ThoughtStreamPage() {
             transcript={transcription.transcript}
             duration={transcription.durationSeconds}
             wordCount={transcription.wordTimestamps.length}
+            wordTimestamps={transcription.wordTimestamps}
+            onCorrectWord={handleCorrectWord}
           />
 
+          {/* Speaker Selection (multi-person recordings) */}
+          {speakers.length > 1 && (
+            <SpeakerSelector
+              speakers={speakers}
+              value={ownerSpeaker}
+              onChange={setOwnerSpeaker}
+            />
+          )}
+
           {/* Template Selection */}
           <div className="space-y-3">
             <Label className="text-base font-medium">Choose a format</Label>
@@ -246,9 +350,23 @@ export default function ThoughtStreamPage() {
             />
           </div>
 
+          {/* Language Selection */}
+          <div className="space-y-3">
+            <Label className="text-base font-medium">Publish in</Label>
+            <LanguageSelector
+              value={targetLanguage}
+              onChange={setTargetLanguage}
+              spokenLanguage={transcription.language === "und" ? null : transcription.language}
+            />
+          </div>
+
           {/* Actions */}
           <div className="flex flex-col sm:flex-row gap-3">
-            <Button onClick={handleGenerateContent} className="flex-1 gap-2">
+            <Button
+              onClick={handleGenerateContent}
+              disabled={needsSpeakerSelection}
+              className="flex-1 gap-2"
+            >
               <Sparkles className="h-4 w-4" />
               Generate Content
             </Button>
@@ -284,14 +402,39 @@ export default function ThoughtStreamPage() {
           </Alert>
         )}
 
+        {/* Recovery for a recording interrupted by a crash or navigation */}
+        {!resumeRecording && (
+          <RecordingRecovery
+            mode="quick"
+            onResume={setResumeRecording}
+            onUploaded={handleRecoveredUpload}
+          />
+        )}
+
         {/* Voice Recorder */}
         <VoiceRecorder
+          key={resumeRecording?.id ?? "new"}
           mode="quick"
           maxDuration={120} // 2 minutes
+          resumable
+          resumeFrom={resumeRecording}
+          liveTranscription
+          onLiveTranscript={setLiveTranscript}
           onComplete={handleRecordingComplete}
           onCancel={handleCancel}
         />
 
+        {/* Conversation toggle */}
+        <label className="flex items-center justify-center gap-2 text-sm text-muted-foreground cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isConversation}
+            onChange={(e) => setIsConversation(e.target.checked)}
+            className="h-4 w-4 accent-primary"
+          />
+          Recording a conversation with someone else
+        </label>
+
         {/* Tips */}
         <div className="text-center text-sm text-muted-foreground">
           <p>Tip: Speak naturally as if explaining to a friend.</p>
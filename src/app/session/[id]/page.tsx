@@ -1,19 +1,27 @@
 "use client";
 
-import { useEffect, useState, useCallback, use } from "react";
+import { useEffect, useState, useCallback, useRef, use } from "react";
 import { useRouter } from "next/navigation";
 import { AlertCircle, ArrowLeft, Loader2, Sparkles } from "lucide-react";
+import { LanguageSelector } from "@/components/content/LanguageSelector";
+import { StreamingDraft } from "@/components/content/StreamingDraft";
 import { TemplateSelector } from "@/components/content/TemplateSelector";
 import { FollowUpQuestion } from "@/components/session/FollowUpQuestion";
+import { SessionAudioPlayer } from "@/components/session/SessionAudioPlayer";
 import { SessionProgress } from "@/components/session/SessionProgress";
 import { TextResponse } from "@/components/session/TextResponse";
 import { VoiceResponse } from "@/components/session/VoiceResponse";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
-import type { ContentTemplate } from "@/types/content";
+import { useSessionEvents } from "@/hooks/useSessionEvents";
+import { cancelJob, JobFailedError, requestJob } from "@/lib/api-client";
+import type { TemplateChoice } from "@/types/content";
+import type { GenerateContentJobResult } from "@/types/job";
 import type {
   FollowUpQuestion as FollowUpQuestionType,
+  SessionEvent,
+  SessionStatus,
   VoiceSession,
 } from "@/types/session";
 
@@ -23,6 +31,10 @@ interface SessionPageProps {
 
 type ResponseMode = "question" | "voice" | "text" | null;
 
+// An "analyzing" session untouched for this long may never have had its
+// analysis queued; retrying rejoins the queued job if there is one
+const ANALYSIS_STALE_MS = 3 * 60 * 1000;
+
 interface SessionData extends VoiceSession {
   progress: {
     answeredQuestions: number;
@@ -34,6 +46,23 @@ interface SessionData extends VoiceSession {
   };
 }
 
+/**
+ * Imports are analyzed by the import page before it navigates here. If that
+ * request never ran or was cut off, the session is left without an analysis
+ * and can be retried from this page. Failed sessions are retried with
+ * /api/session/[id]/retry instead.
+ */
+function needsAnalysisRetry(session: SessionData, now: number): boolean {
+  if (session.source !== "import") return false;
+  if (!session.progress.hasTranscript || session.progress.hasAnalysis) return false;
+
+  return (
+    session.status === "transcribing" ||
+    (session.status === "analyzing" &&
+      now - new Date(session.updatedAt).getTime() > ANALYSIS_STALE_MS)
+  );
+}
+
 /**
  * Session Page
  *
@@ -51,8 +80,20 @@ export default function SessionPage({ params }: SessionPageProps) {
   const [currentQuestion, setCurrentQuestion] =
     useState<FollowUpQuestionType | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [selectedTemplate, setSelectedTemplate] = useState<ContentTemplate>("blog_post");
+  const [selectedTemplate, setSelectedTemplate] = useState<TemplateChoice>({
+    template: "blog_post",
+    customTemplateId: null,
+  });
+  const [targetLanguage, setTargetLanguage] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isRetryingAnalysis, setIsRetryingAnalysis] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [transcriptionPercent, setTranscriptionPercent] = useState<number | null>(null);
+  const [generationPreview, setGenerationPreview] = useState("");
+  const [generationJobId, setGenerationJobId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  // Status of the last fetched session, to tell which events are news
+  const fetchedStatusRef = useRef<SessionStatus | null>(null);
 
   // Fetch session data
   const fetchSession = useCallback(async () => {
@@ -64,6 +105,7 @@ export default function SessionPage({ params }: SessionPageProps) {
       }
       const data = await response.json();
       setSession(data);
+      fetchedStatusRef.current = data.status;
       setError(null);
 
       // If we're in follow_ups status, find the current question
@@ -92,13 +134,9 @@ export default function SessionPage({ params }: SessionPageProps) {
   // Generate follow-up questions if needed
   const generateQuestions = useCallback(async () => {
     try {
-      const response = await fetch(`/api/session/${sessionId}/questions`, {
+      await requestJob(`/api/session/${sessionId}/questions`, {
         method: "POST",
       });
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || "Failed to generate questions");
-      }
       // Refetch session to get updated data
       await fetchSession();
     } catch (err) {
@@ -123,46 +161,41 @@ export default function SessionPage({ params }: SessionPageProps) {
     }
   }, [session?.status, session?.followUpQuestions, generateQuestions]);
 
+  // Live updates: refetch the session when its status moves on, and show
+  // progress within a step as it arrives
+  const handleSessionEvent = useCallback(
+    (event: SessionEvent) => {
+      switch (event.type) {
+        case "status":
+          if (event.status !== fetchedStatusRef.current) {
+            fetchedStatusRef.current = event.status;
+            setTranscriptionPercent(null);
+            if (event.status === "generating") setGenerationPreview("");
+            fetchSession();
+          }
+          break;
+        case "transcription_progress":
+          setTranscriptionPercent(event.percent);
+          break;
+        case "questions_ready":
+          fetchSession();
+          break;
+        case "generation_delta":
+          setGenerationPreview((prev) => prev + event.text);
+          break;
+      }
+    },
+    [fetchSession]
+  );
+
+  useSessionEvents(sessionId, handleSessionEvent);
+
   // Handle status changes
   useEffect(() => {
     if (session?.status === "complete" && session.generatedContentId) {
       router.push(`/content/${session.generatedContentId}`);
-      return;
     }
-
-    if (session?.status === "generating") {
-      // Track mounted state to prevent state updates after unmount
-      let mounted = true;
-      let intervalId: NodeJS.Timeout | null = null;
-
-      const pollForCompletion = async () => {
-        if (!mounted) return;
-
-        const data = await fetchSession();
-
-        // Check if still mounted before processing result
-        if (!mounted) return;
-
-        if (data?.status === "complete" || data?.status === "error") {
-          if (intervalId) {
-            clearInterval(intervalId);
-            intervalId = null;
-          }
-        }
-      };
-
-      // Start polling
-      intervalId = setInterval(pollForCompletion, 2000);
-
-      return () => {
-        mounted = false;
-        if (intervalId) {
-          clearInterval(intervalId);
-        }
-      };
-    }
-    return;
-  }, [session?.status, session?.generatedContentId, router, fetchSession]);
+  }, [session?.status, session?.generatedContentId, router]);
 
   // Submit a response to a question
   const submitResponse = async (
@@ -193,7 +226,7 @@ export default function SessionPage({ params }: SessionPageProps) {
 
       // Update local state
       if (data.allAnswered) {
-        // All questions answered, session will move to generating
+        // All questions answered, ready to choose a format
         setResponseMode(null);
         setCurrentQuestion(null);
       } else if (data.nextQuestion) {
@@ -233,34 +266,88 @@ export default function SessionPage({ params }: SessionPageProps) {
     await submitResponse(currentQuestion.id, "skip");
   };
 
-  // Handle content generation with template
-  const handleGenerateContent = async () => {
-    if (!session) return;
-
-    setIsGenerating(true);
+  // Re-run analysis for an import that never finished it
+  const handleRetryAnalysis = async () => {
+    setIsRetryingAnalysis(true);
     setError(null);
 
     try {
-      const generateResponse = await fetch("/api/content/generate", {
+      await requestJob("/api/voice/analyze", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          sessionId,
-          template: selectedTemplate,
-        }),
+        body: JSON.stringify({ sessionId }),
       });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to analyze session");
+    } finally {
+      await fetchSession();
+      setIsRetryingAnalysis(false);
+    }
+  };
+
+  // Pick a failed session up from its last good step
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    setError(null);
 
-      if (!generateResponse.ok) {
-        const errorData = await generateResponse.json();
-        throw new Error(errorData?.error || "Failed to generate content");
+    try {
+      const response = await fetch(`/api/session/${sessionId}/retry`, { method: "POST" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to retry session");
       }
+      await fetchSession();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to retry session");
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  // Handle content generation with template
+  const handleGenerateContent = async () => {
+    if (!session) return;
 
-      const contentData = await generateResponse.json();
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const contentData = await requestJob<GenerateContentJobResult>(
+        "/api/content/generate",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            sessionId,
+            ...selectedTemplate,
+            ...(targetLanguage && { language: targetLanguage }),
+          }),
+        },
+        { onQueued: setGenerationJobId }
+      );
       router.push(`/content/${contentData.contentId}`);
     } catch (err) {
-      console.error("Content generation error:", err);
-      setError(err instanceof Error ? err.message : "Failed to generate content");
+      if (!(err instanceof JobFailedError && err.code === "cancelled")) {
+        console.error("Content generation error:", err);
+        setError(err instanceof Error ? err.message : "Failed to generate content");
+      }
       setIsGenerating(false);
+    } finally {
+      setGenerationJobId(null);
+      setIsCancelling(false);
+    }
+  };
+
+  // Stop a generation in progress; the session goes back to choosing a format
+  const handleCancelGeneration = async () => {
+    if (!generationJobId) return;
+
+    setIsCancelling(true);
+    try {
+      await cancelJob(generationJobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel generation");
+      setIsCancelling(false);
     }
   };
 
@@ -297,6 +384,7 @@ export default function SessionPage({ params }: SessionPageProps) {
 
   if (!session) return null;
 
+  const canRetryAnalysis = !isRetryingAnalysis && needsAnalysisRetry(session, Date.now());
   const questionsLength = session.followUpQuestions?.length || 0;
   const answeredLength = session.followUpResponses?.length || 0;
   const currentQuestionIndex =
@@ -319,7 +407,11 @@ export default function SessionPage({ params }: SessionPageProps) {
               Dashboard
             </Button>
             <span className="text-sm text-muted-foreground">
-              {session.mode === "quick" ? "Quick Capture" : "Guided Session"}
+              {session.source === "import"
+                ? "Imported Recording"
+                : session.mode === "quick"
+                  ? "Quick Capture"
+                  : "Guided Session"}
             </span>
           </div>
         </div>
@@ -347,7 +439,7 @@ export default function SessionPage({ params }: SessionPageProps) {
         )}
 
         {/* Status-based content */}
-        {session.status === "error" && (
+        {session.status === "error" && !isRetryingAnalysis && (
           <div className="flex flex-col items-center gap-4 py-12">
             <AlertCircle className="h-16 w-16 text-destructive" />
             <h2 className="text-xl font-semibold">Something went wrong</h2>
@@ -355,9 +447,15 @@ export default function SessionPage({ params }: SessionPageProps) {
               {session.errorMessage ||
                 "An error occurred while processing your session."}
             </p>
-            <Button onClick={() => router.push("/record")}>
-              Start a new session
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleRetry} disabled={isRetrying}>
+                {isRetrying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Retry
+              </Button>
+              <Button onClick={() => router.push("/record")}>
+                Start a new session
+              </Button>
+            </div>
           </div>
         )}
 
@@ -368,14 +466,24 @@ export default function SessionPage({ params }: SessionPageProps) {
           </div>
         )}
 
-        {session.status === "transcribing" && (
+        {(session.status === "transcribing" || session.status === "analyzing") &&
+          canRetryAnalysis && (
+            <div className="flex flex-col items-center gap-4 py-12">
+              <p className="text-muted-foreground text-center max-w-md">
+                Your recording was transcribed, but its analysis didn&apos;t finish.
+              </p>
+              <Button onClick={handleRetryAnalysis}>Analyze recording</Button>
+            </div>
+          )}
+
+        {session.status === "transcribing" && !canRetryAnalysis && !isRetryingAnalysis && (
           <div className="flex flex-col items-center gap-4 py-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
             <p className="text-muted-foreground">Transcribing your audio...</p>
           </div>
         )}
 
-        {session.status === "analyzing" && (
+        {((session.status === "analyzing" && !canRetryAnalysis) || isRetryingAnalysis) && (
           <div className="flex flex-col items-center gap-4 py-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
             <p className="text-muted-foreground">
@@ -391,7 +499,10 @@ export default function SessionPage({ params }: SessionPageProps) {
                 question={currentQuestion}
                 questionNumber={currentQuestionIndex + 1}
                 totalQuestions={questionsLength}
-                onVoiceResponse={() => setResponseMode("voice")}
+                onVoiceResponse={() => {
+                  setTranscriptionPercent(null);
+                  setResponseMode("voice");
+                }}
                 onTextResponse={() => setResponseMode("text")}
                 onSkip={handleSkip}
                 disabled={isSubmitting}
@@ -402,6 +513,7 @@ export default function SessionPage({ params }: SessionPageProps) {
               <VoiceResponse
                 question={currentQuestion}
                 sessionId={sessionId}
+                transcriptionPercent={transcriptionPercent}
                 onComplete={handleVoiceComplete}
                 onCancel={() => setResponseMode("question")}
               />
@@ -435,6 +547,16 @@ export default function SessionPage({ params }: SessionPageProps) {
                     />
                   </div>
 
+                  <div className="space-y-3">
+                    <Label className="text-base font-medium">Publish in</Label>
+                    <LanguageSelector
+                      value={targetLanguage}
+                      onChange={setTargetLanguage}
+                      spokenLanguage={session.language}
+                      disabled={isGenerating}
+                    />
+                  </div>
+
                   <Button
                     onClick={handleGenerateContent}
                     disabled={isGenerating}
@@ -458,7 +580,7 @@ export default function SessionPage({ params }: SessionPageProps) {
           </>
         )}
 
-        {session.status === "generating" && (
+        {session.status === "generating" && !generationPreview && (
           <div className="flex flex-col items-center gap-4 py-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
             <h2 className="text-xl font-semibold">Creating your content</h2>
@@ -466,9 +588,26 @@ export default function SessionPage({ params }: SessionPageProps) {
               We&apos;re using your voice patterns and responses to generate
               authentic content that sounds like you.
             </p>
+            {generationJobId && (
+              <Button
+                variant="outline"
+                onClick={handleCancelGeneration}
+                disabled={isCancelling}
+              >
+                {isCancelling ? "Stopping..." : "Cancel"}
+              </Button>
+            )}
           </div>
         )}
 
+        {session.status === "generating" && generationPreview && (
+          <StreamingDraft
+            markdown={generationPreview}
+            onCancel={generationJobId ? handleCancelGeneration : undefined}
+            isCancelling={isCancelling}
+          />
+        )}
+
         {session.status === "complete" && !session.generatedContentId && (
           <div className="flex flex-col items-center gap-4 py-12">
             <p className="text-muted-foreground">Session complete!</p>
@@ -477,6 +616,18 @@ export default function SessionPage({ params }: SessionPageProps) {
             </Button>
           </div>
         )}
+
+        {/* Retained recording with synced transcript */}
+        {session.audioUrl && session.wordTimestamps && session.wordTimestamps.length > 0 && (
+          <SessionAudioPlayer
+            audioUrl={session.audioUrl}
+            wordTimestamps={session.wordTimestamps}
+            transcript={session.transcript}
+            enthusiasmSegments={session.enthusiasmAnalysis?.segments ?? []}
+            durationSeconds={session.durationSeconds}
+            className="max-w-2xl mx-auto mt-8"
+          />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,103 @@
+/**
+ * Session Versions Page
+ *
+ * Compares the versions a session's content was generated in side by side.
+ */
+
+import { headers } from "next/headers";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { ArrowLeft } from "lucide-react";
+import { VersionComparison } from "@/components/content/VersionComparison";
+import { Button } from "@/components/ui/button";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { contentTemplates, generatedContent } from "@/lib/schema";
+import { isValidUUID } from "@/lib/validation";
+
+interface VersionsPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ left?: string; right?: string }>;
+}
+
+export default async function VersionsPage({ params, searchParams }: VersionsPageProps) {
+  const session = await auth.api.getSession({ headers: await headers() });
+
+  if (!session?.user?.id) {
+    redirect("/login");
+  }
+
+  const { id } = await params;
+
+  // Validate UUID format
+  if (!isValidUUID(id)) {
+    notFound();
+  }
+
+  // The session's generations; translations and refinements are versions of these
+  const rows = await db
+    .select({ generation: generatedContent, customTemplateName: contentTemplates.name })
+    .from(generatedContent)
+    .leftJoin(contentTemplates, eq(generatedContent.customTemplateId, contentTemplates.id))
+    .where(
+      and(
+        eq(generatedContent.sessionId, id),
+        eq(generatedContent.userId, session.user.id),
+        isNull(generatedContent.parentVersionId),
+        isNull(generatedContent.translationOf),
+        eq(generatedContent.format, "article")
+      )
+    )
+    .orderBy(asc(generatedContent.createdAt));
+  const generations = rows.map((row) => row.generation);
+
+  const first = generations[0];
+  if (!first) {
+    notFound();
+  }
+
+  // Default to the requested version against the latest other one
+  const { left, right } = await searchParams;
+  const leftId = generations.some((g) => g.id === left) ? (left as string) : first.id;
+  const rightId = generations.some((g) => g.id === right)
+    ? (right as string)
+    : ([...generations].reverse().find((g) => g.id !== leftId)?.id ?? leftId);
+
+  const versions = rows.map(({ generation, customTemplateName }) => ({
+    id: generation.id,
+    title: generation.title,
+    content: generation.content,
+    wordCount: generation.wordCount,
+    readTimeMinutes: generation.readTimeMinutes,
+    status: generation.status,
+    template: generation.template,
+    customTemplateName,
+    modelUsed: generation.modelUsed,
+    referentInfluencesUsed: generation.referentInfluencesUsed,
+    createdAt: generation.createdAt.toISOString(),
+  }));
+
+  return (
+    <div className="container max-w-7xl py-8 px-4 pb-24 md:pb-8">
+      <div className="mb-8 space-y-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href={`/content/${leftId}`}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to content
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold">Compare versions</h1>
+          <p className="text-muted-foreground">
+            {generations.length === 1
+              ? "This recording has one version so far. Generate another to compare them."
+              : `This recording has ${generations.length} versions.`}
+          </p>
+        </div>
+      </div>
+
+      <VersionComparison versions={versions} leftId={leftId} rightId={rightId} />
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  AlertCircle,
+  ChevronLeft,
+  LayoutTemplate,
+  Lock,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { UserProfile } from "@/components/auth/user-profile";
+import { TemplateEditor } from "@/components/content/TemplateEditor";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useSessionContext } from "@/contexts/session-context";
+import { CUSTOM_TEMPLATES_QUERY_KEY, useCustomTemplates } from "@/hooks/useCustomTemplates";
+import type { CustomTemplate } from "@/types/content";
+
+function describeLength(template: CustomTemplate): string | null {
+  const { minWords, maxWords } = template;
+  if (minWords && maxWords) return `${minWords}-${maxWords} words`;
+  if (minWords) return `${minWords}+ words`;
+  if (maxWords) return `Up to ${maxWords} words`;
+  return null;
+}
+
+export default function TemplateSettingsPage() {
+  const { data: session, isPending: sessionPending } = useSessionContext();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+
+  // The template being edited, or "new" while one is being created
+  const [editing, setEditing] = useState<CustomTemplate | "new" | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<CustomTemplate | null>(null);
+
+  const { data: templates = [], isLoading: loading, error } = useCustomTemplates();
+
+  const deleteMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const response = await fetch(`/api/templates/${templateId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to delete template");
+      }
+    },
+    onSuccess: () => {
+      toast.success("Template deleted");
+      setPendingDelete(null);
+      queryClient.invalidateQueries({ queryKey: CUSTOM_TEMPLATES_QUERY_KEY });
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to delete template");
+    },
+  });
+
+  if (sessionPending) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-3xl mx-auto text-center">
+          <div className="mb-8">
+            <Lock className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <h1 className="text-2xl font-bold mb-2">Sign In Required</h1>
+            <p className="text-muted-foreground mb-6">
+              Please sign in to manage your content templates
+            </p>
+          </div>
+          <UserProfile />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 pb-24 md:pb-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header with back button */}
+        <div className="mb-8">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mb-4"
+            onClick={() => router.push("/dashboard")}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Back to Dashboard
+          </Button>
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold flex items-center gap-3">
+                <LayoutTemplate className="h-8 w-8 text-primary" />
+                Content Templates
+              </h1>
+              <p className="text-muted-foreground mt-2">
+                Define your own formats to generate content in
+              </p>
+            </div>
+            {!editing && (
+              <Button onClick={() => setEditing("new")}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Template
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Error state */}
+        {error && (
+          <Card className="mb-6 border-destructive">
+            <CardContent className="flex items-center gap-3 py-4">
+              <AlertCircle className="h-5 w-5 text-destructive" />
+              <div>
+                <p className="font-medium">Failed to load templates</p>
+                <p className="text-sm text-muted-foreground">
+                  {error instanceof Error ? error.message : "An error occurred"}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Loading state */}
+        {loading && (
+          <div className="space-y-4">
+            <Skeleton className="h-[120px] w-full" />
+            <Skeleton className="h-[120px] w-full" />
+          </div>
+        )}
+
+        {/* Editor */}
+        {editing && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>{editing === "new" ? "New Template" : `Edit ${editing.name}`}</CardTitle>
+              <CardDescription>
+                Your voice, outline and follow-up answers still shape the content;
+                the template decides its format.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TemplateEditor
+                key={editing === "new" ? "new" : editing.id}
+                {...(editing !== "new" && { template: editing })}
+                onSaved={() => setEditing(null)}
+                onCancel={() => setEditing(null)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Templates */}
+        {!loading && templates.length === 0 && !editing && (
+          <Card className="bg-primary/5 border-primary/20">
+            <CardContent className="py-4">
+              <p className="text-sm">
+                <strong>No templates yet.</strong> Create one for formats you write
+                often, like a changelog post, a LinkedIn carousel script or a case
+                study. It shows up next to the built-in templates when you generate.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="space-y-4">
+          {templates.map((template) => {
+            const length = describeLength(template);
+            return (
+              <Card key={template.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <CardTitle>{template.name}</CardTitle>
+                      {template.description && (
+                        <CardDescription>{template.description}</CardDescription>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditing(template)}
+                        disabled={!!editing}
+                      >
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit template</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground hover:text-destructive"
+                        onClick={() => setPendingDelete(template)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete template</span>
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-2">
+                  {template.sections.map((section, index) => (
+                    <Badge key={index} variant="secondary">
+                      {section.heading}
+                    </Badge>
+                  ))}
+                  {length && <Badge variant="outline">{length}</Badge>}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Delete confirmation dialog */}
+      <AlertDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this template?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{pendingDelete?.name}&quot; won&apos;t be available for new content.
+              Content already generated with it is kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
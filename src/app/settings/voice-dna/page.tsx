@@ -11,6 +11,9 @@ import {
   AlertCircle,
   Trash2,
   FileText,
+  BookOpen,
+  Headphones,
+  Sparkles,
 } from "lucide-react";
 import { UserProfile } from "@/components/auth/user-profile";
 import { WritingSamplesSection } from "@/components/samples";
@@ -24,10 +27,13 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import { AudioRetentionSetting } from "@/components/voice-dna/AudioRetentionSetting";
 import { CalibrationFlow } from "@/components/voice-dna/CalibrationFlow";
+import { GlossaryEditor } from "@/components/voice-dna/GlossaryEditor";
+import { RuleProposals } from "@/components/voice-dna/RuleProposals";
 import { StrengthIndicator } from "@/components/voice-dna/StrengthIndicator";
 import { useSessionContext } from "@/contexts/session-context";
-import type { VoiceDNA, LearnedRule } from "@/types/voiceDNA";
+import type { VoiceDNA, LearnedRule, GlossaryTerm } from "@/types/voiceDNA";
 
 interface VoiceDNAResponse {
   hasProfile: boolean;
@@ -37,6 +43,7 @@ interface VoiceDNAResponse {
     characteristics: string[];
     calibrationLevel: "low" | "medium" | "high";
   } | null;
+  glossary: GlossaryTerm[];
   stats: {
     voiceSessionsAnalyzed: number;
     writingSamplesAnalyzed: number;
@@ -306,6 +313,60 @@ export default function VoiceDNASettingsPage() {
               </CardContent>
             </Card>
 
+            {/* Transcription Glossary */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BookOpen className="h-5 w-5" />
+                  Glossary
+                </CardTitle>
+                <CardDescription>
+                  Teach transcription your product names and jargon so they
+                  come out spelled correctly
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <GlossaryEditor
+                  key={JSON.stringify(data.glossary)}
+                  glossary={data.glossary ?? []}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Recording Storage */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Headphones className="h-5 w-5" />
+                  Recordings
+                </CardTitle>
+                <CardDescription>
+                  Choose whether to keep session audio for playback alongside
+                  the transcript
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AudioRetentionSetting />
+              </CardContent>
+            </Card>
+
+            {/* Rules learned from refinements, awaiting review */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Sparkles className="h-5 w-5" />
+                  Suggested Rules
+                </CardTitle>
+                <CardDescription>
+                  Preferences picked up from how you refine and edit content. Confirm
+                  the ones that fit your voice
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RuleProposals />
+              </CardContent>
+            </Card>
+
             {/* Learned Rules */}
             {data.voiceDNA?.learnedRules &&
               data.voiceDNA.learnedRules.length > 0 && (
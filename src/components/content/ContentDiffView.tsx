@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import type { ContentDiff, ParagraphDiff } from "@/lib/content/diff";
+import { cn } from "@/lib/utils";
+
+interface ContentDiffViewProps {
+  diff: ContentDiff;
+  className?: string;
+}
+
+// Unchanged paragraphs kept around each change for context
+const CONTEXT_PARAGRAPHS = 1;
+
+type Block =
+  | { kind: "paragraph"; paragraph: ParagraphDiff }
+  | { kind: "collapsed"; paragraphs: ParagraphDiff[] };
+
+/**
+ * Long stretches of unchanged paragraphs fold away, keeping a little context
+ */
+function toBlocks(paragraphs: ParagraphDiff[]): Block[] {
+  const changed = paragraphs.map((p) => p.op !== "equal");
+  const visible = paragraphs.map((_, i) => {
+    for (let k = i - CONTEXT_PARAGRAPHS; k <= i + CONTEXT_PARAGRAPHS; k++) {
+      if (changed[k]) return true;
+    }
+    return false;
+  });
+
+  const blocks: Block[] = [];
+  paragraphs.forEach((paragraph, i) => {
+    if (visible[i]) {
+      blocks.push({ kind: "paragraph", paragraph });
+      return;
+    }
+    const last = blocks[blocks.length - 1];
+    if (last?.kind === "collapsed") {
+      last.paragraphs.push(paragraph);
+    } else {
+      blocks.push({ kind: "collapsed", paragraphs: [paragraph] });
+    }
+  });
+
+  return blocks;
+}
+
+function CollapsedParagraphs({ paragraphs }: { paragraphs: ParagraphDiff[] }) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (expanded) {
+    return (
+      <>
+        {paragraphs.map((p, i) => (
+          <p key={i} className="text-muted-foreground whitespace-pre-wrap">
+            {p.after}
+          </p>
+        ))}
+      </>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => setExpanded(true)}
+      className="w-full rounded border border-dashed py-1 text-xs text-muted-foreground hover:bg-muted/50"
+    >
+      {paragraphs.length} unchanged paragraph{paragraphs.length === 1 ? "" : "s"}
+    </button>
+  );
+}
+
+function ParagraphView({ paragraph }: { paragraph: ParagraphDiff }) {
+  switch (paragraph.op) {
+    case "insert":
+      return (
+        <p className="whitespace-pre-wrap rounded border-l-4 border-green-500 bg-green-500/10 px-3 py-1">
+          {paragraph.after}
+        </p>
+      );
+    case "delete":
+      return (
+        <p className="whitespace-pre-wrap rounded border-l-4 border-red-500 bg-red-500/10 px-3 py-1 text-muted-foreground line-through">
+          {paragraph.before}
+        </p>
+      );
+    case "change":
+      return (
+        <p className="whitespace-pre-wrap rounded border-l-4 border-amber-500 px-3 py-1">
+          {paragraph.words?.map((word, i) => (
+            <span
+              key={i}
+              className={cn(
+                word.op === "insert" && "bg-green-500/20",
+                word.op === "delete" && "bg-red-500/20 text-muted-foreground line-through"
+              )}
+            >
+              {word.text}
+            </span>
+          ))}
+        </p>
+      );
+    default:
+      return <p className="whitespace-pre-wrap text-muted-foreground">{paragraph.after}</p>;
+  }
+}
+
+/**
+ * ContentDiffView Component
+ *
+ * Shows the changes between two versions of content: added paragraphs in
+ * green, removed ones struck through in red, and reworded ones with their
+ * word-level edits marked inline.
+ */
+export function ContentDiffView({ diff, className }: ContentDiffViewProps) {
+  const { stats } = diff;
+  const hasChanges = diff.paragraphs.some((p) => p.op !== "equal");
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <p className="text-sm text-muted-foreground">
+        <span className="text-green-600 dark:text-green-400">+{stats.wordsAdded} words</span>
+        {" · "}
+        <span className="text-red-600 dark:text-red-400">−{stats.wordsRemoved} words</span>
+        {" · "}
+        {stats.paragraphsChanged} reworded, {stats.paragraphsAdded} added,{" "}
+        {stats.paragraphsRemoved} removed
+      </p>
+
+      {hasChanges ? (
+        <div className="space-y-3 text-sm leading-relaxed">
+          {toBlocks(diff.paragraphs).map((block, i) =>
+            block.kind === "collapsed" ? (
+              <CollapsedParagraphs key={i} paragraphs={block.paragraphs} />
+            ) : (
+              <ParagraphView key={i} paragraph={block.paragraph} />
+            )
+          )}
+        </div>
+      ) : (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          These versions are identical.
+        </p>
+      )}
+    </div>
+  );
+}
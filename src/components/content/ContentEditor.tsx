@@ -1,12 +1,13 @@
 "use client";
 
 import { useState, useCallback, useEffect, useRef } from "react";
-import { Eye, Edit2, Save, X } from "lucide-react";
+import { Eye, Edit2, Save, Wand2, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import type { ContentStatus } from "@/types/content";
 import { ContentViewer } from "./ContentViewer";
+import type { RefineSelection } from "./RefineChat";
 
 interface ContentEditorProps {
   contentId: string;
@@ -18,6 +19,8 @@ interface ContentEditorProps {
   createdAt: Date;
   version?: number;
   onSave: (title: string, content: string) => Promise<void>;
+  /** Refine only the passage selected while editing */
+  onRefineSelection?: (selection: RefineSelection) => void;
 }
 
 export function ContentEditor({
@@ -29,12 +32,14 @@ export function ContentEditor({
   createdAt,
   version,
   onSave,
+  onRefineSelection,
 }: ContentEditorProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [title, setTitle] = useState(initialTitle);
   const [content, setContent] = useState(initialContent);
   const [isSaving, setIsSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [selection, setSelection] = useState<RefineSelection | null>(null);
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -78,6 +83,17 @@ export function ContentEditor({
     setIsEditing(false);
   }, [initialTitle, initialContent]);
 
+  const handleSelect = useCallback(
+    (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+      const { selectionStart, selectionEnd, value } = e.currentTarget;
+      const text = value.slice(selectionStart, selectionEnd);
+      setSelection(
+        text.trim() ? { start: selectionStart, end: selectionEnd, text } : null
+      );
+    },
+    []
+  );
+
   // Calculate live word count in edit mode
   const liveWordCount = content
     .split(/\s+/)
@@ -124,6 +140,19 @@ export function ContentEditor({
           </span>
         </div>
         <div className="flex items-center gap-2">
+          {onRefineSelection && selection && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onRefineSelection(selection)}
+              disabled={isSaving || hasChanges}
+              title={hasChanges ? "Save your changes before refining a passage" : undefined}
+              className="gap-2"
+            >
+              <Wand2 className="h-4 w-4" />
+              Refine selection
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -169,6 +198,7 @@ export function ContentEditor({
         ref={textareaRef}
         value={content}
         onChange={(e) => setContent(e.target.value)}
+        onSelect={handleSelect}
         placeholder="Start writing..."
         className="min-h-[500px] resize-none font-mono text-sm leading-relaxed border-none shadow-none focus-visible:ring-0 px-0"
       />
@@ -179,6 +209,11 @@ export function ContentEditor({
           <strong>Tip:</strong> Use Markdown formatting • # Heading 1 • ##
           Heading 2 • **bold** • *italic* • {">"} blockquote
         </p>
+        {onRefineSelection && (
+          <p className="mt-1">
+            Select a passage to refine just that part; the rest stays exactly as it is.
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,46 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CONTENT_FORMATS, type ContentFormat } from "@/types/content";
+
+export interface ContentFormatTab {
+  format: ContentFormat;
+  contentId: string;
+}
+
+interface FormatTabsProps {
+  /** Format of the content being viewed */
+  format: ContentFormat;
+  tabs: ContentFormatTab[];
+}
+
+/**
+ * FormatTabs Component
+ *
+ * Switches between an article and the platform pieces repurposed from it.
+ */
+export function FormatTabs({ format, tabs }: FormatTabsProps) {
+  const router = useRouter();
+
+  if (tabs.length < 2) return null;
+
+  return (
+    <Tabs
+      className="mt-6"
+      value={format}
+      onValueChange={(next) => {
+        const tab = tabs.find((t) => t.format === next);
+        if (tab) router.push(`/content/${tab.contentId}`);
+      }}
+    >
+      <TabsList className="w-full justify-start overflow-x-auto">
+        {tabs.map((tab) => (
+          <TabsTrigger key={tab.format} value={tab.format}>
+            {CONTENT_FORMATS[tab.format].name}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+    </Tabs>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { CopyPlus, Sparkles } from "lucide-react";
+import { BlendSliders, ReferentSelector, type ReferentWithSelection } from "@/components/referents";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useSessionEvents } from "@/hooks/useSessionEvents";
+import { cancelJob, JobFailedError, requestJob } from "@/lib/api-client";
+import { GENERATION_MODELS } from "@/lib/content/models";
+import type { TemplateChoice } from "@/types/content";
+import type { GenerateContentJobResult } from "@/types/job";
+import type { SessionEvent } from "@/types/session";
+import type { ReferentInfluences } from "@/types/voiceDNA";
+import { StreamingDraft } from "./StreamingDraft";
+import { TemplateSelector } from "./TemplateSelector";
+
+// Radix Select items can't have an empty value
+const DEFAULT_MODEL = "default";
+
+type BlendChoice = "saved" | "voice_only" | "custom";
+
+interface GenerateVersionDialogProps {
+  sessionId: string;
+  /** Format the new version starts from */
+  template: TemplateChoice;
+}
+
+/**
+ * GenerateVersionDialog Component
+ *
+ * Writes another version of a session's content with a different format,
+ * model or referent blend. Earlier versions are kept for comparison.
+ */
+export function GenerateVersionDialog({ sessionId, template }: GenerateVersionDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [selectedTemplate, setSelectedTemplate] = useState(template);
+  const [model, setModel] = useState(DEFAULT_MODEL);
+  const [blendChoice, setBlendChoice] = useState<BlendChoice>("saved");
+  const [referents, setReferents] = useState<ReferentWithSelection[]>([]);
+  const [blend, setBlend] = useState<ReferentInfluences | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [preview, setPreview] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = useMemo(
+    () =>
+      referents
+        .filter((r) => r.selected)
+        .map((r) => ({ id: r.id, name: r.name, description: r.description, weight: r.weight })),
+    [referents]
+  );
+
+  // Show the new version as it's written
+  const handleSessionEvent = useCallback((event: SessionEvent) => {
+    if (event.type === "generation_delta") {
+      setPreview((prev) => prev + event.text);
+    }
+  }, []);
+
+  useSessionEvents(isGenerating ? sessionId : null, handleSessionEvent);
+
+  // The blend sent with the request; undefined uses the saved one
+  const buildInfluences = (): ReferentInfluences | undefined => {
+    if (blendChoice === "saved") return undefined;
+    if (blendChoice === "voice_only" || !blend || selected.length === 0) {
+      return { userWeight: 100, referents: [] };
+    }
+
+    const chosen = blend.referents.map((ref) => ({
+      ...ref,
+      activeTraits:
+        referents.find((r) => r.id === ref.id)?.keyCharacteristics.slice(0, 3) ?? [],
+    }));
+    const referentWeight = chosen.reduce((sum, r) => sum + r.weight, 0);
+    return { userWeight: 100 - referentWeight, referents: chosen };
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setPreview("");
+    setError(null);
+
+    const referentInfluences = buildInfluences();
+
+    try {
+      const { contentId } = await requestJob<GenerateContentJobResult>(
+        "/api/content/generate",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            sessionId,
+            ...selectedTemplate,
+            ...(model !== DEFAULT_MODEL && { model }),
+            ...(referentInfluences && { referentInfluences }),
+          }),
+        },
+        { onQueued: setJobId }
+      );
+      router.push(`/content/${contentId}`);
+    } catch (err) {
+      if (!(err instanceof JobFailedError && err.code === "cancelled")) {
+        console.error("Version generation error:", err);
+        setError(err instanceof Error ? err.message : "Failed to generate another version");
+      }
+      setIsGenerating(false);
+    } finally {
+      setJobId(null);
+      setIsCancelling(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!jobId) return;
+
+    setIsCancelling(true);
+    try {
+      await cancelJob(jobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel generation");
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isGenerating && setOpen(next)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <CopyPlus className="h-4 w-4 mr-2" />
+          Another version
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Generate another version</DialogTitle>
+          <DialogDescription>
+            Write this recording up again with a different format, model or style
+            blend. This version is kept, so you can compare them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isGenerating ? (
+          <StreamingDraft
+            markdown={preview}
+            onCancel={jobId ? handleCancel : undefined}
+            isCancelling={isCancelling}
+          />
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <Label className="text-base font-medium">Format</Label>
+              <TemplateSelector value={selectedTemplate} onChange={setSelectedTemplate} />
+            </div>
+
+            <div className="space-y-3">
+              <Label className="text-base font-medium">Model</Label>
+              <Select value={model} onValueChange={setModel}>
+                <SelectTrigger className="w-full sm:w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_MODEL}>Default model</SelectItem>
+                  {GENERATION_MODELS.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>
+                      {m.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-3">
+              <Label className="text-base font-medium">Style influences</Label>
+              <Select
+                value={blendChoice}
+                onValueChange={(next) => setBlendChoice(next as BlendChoice)}
+              >
+                <SelectTrigger className="w-full sm:w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="saved">Your saved blend</SelectItem>
+                  <SelectItem value="voice_only">Your voice only</SelectItem>
+                  <SelectItem value="custom">Custom blend</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {blendChoice === "custom" && (
+                <div className="space-y-6 pt-2">
+                  <ReferentSelector
+                    selectedIds={referents.filter((r) => r.selected).map((r) => r.id)}
+                    onChange={setReferents}
+                  />
+                  <BlendSliders selectedReferents={selected} onChange={setBlend} />
+                </div>
+              )}
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        )}
+
+        {!isGenerating && (
+          <DialogFooter>
+            <Button onClick={handleGenerate} className="gap-2">
+              <Sparkles className="h-4 w-4" />
+              Generate
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getLanguageName, PUBLISH_LANGUAGES } from "@/lib/languages";
+
+// Radix Select items can't have an empty value
+const SPOKEN_LANGUAGE = "spoken";
+
+interface LanguageSelectorProps {
+  /** Target language, or null to write in the spoken language */
+  value: string | null;
+  onChange: (language: string | null) => void;
+  /** Language the session was spoken in, if detected */
+  spokenLanguage?: string | null;
+  disabled?: boolean;
+}
+
+/**
+ * LanguageSelector Component
+ *
+ * Picks the language to publish in. Anything other than the spoken language
+ * is generated as a translation that keeps the speaker's voice.
+ */
+export function LanguageSelector({
+  value,
+  onChange,
+  spokenLanguage,
+  disabled = false,
+}: LanguageSelectorProps) {
+  const languages = PUBLISH_LANGUAGES.filter((code) => code !== spokenLanguage);
+
+  return (
+    <Select
+      value={value ?? SPOKEN_LANGUAGE}
+      onValueChange={(next) => onChange(next === SPOKEN_LANGUAGE ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-full sm:w-64">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={SPOKEN_LANGUAGE}>
+          {spokenLanguage
+            ? `${getLanguageName(spokenLanguage)} (as spoken)`
+            : "Same as spoken"}
+        </SelectItem>
+        {languages.map((code) => (
+          <SelectItem key={code} value={code}>
+            {getLanguageName(code)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
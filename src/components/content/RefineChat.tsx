@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useCallback, useRef, useEffect } from "react";
-import { Send, Loader2, MessageSquare, Wand2 } from "lucide-react";
+import { Send, Loader2, MessageSquare, TextSelect, Wand2, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -11,6 +11,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import type { RefineChangeSet } from "@/types/content";
 
 interface ChatMessage {
   id: string;
@@ -18,18 +19,33 @@ interface ChatMessage {
   content: string;
   timestamp: Date;
   changes?: string[];
+  scoped?: boolean; // Limited to a selected passage
+}
+
+/**
+ * A passage selected in the editor, as character offsets into the content
+ */
+export interface RefineSelection {
+  start: number;
+  end: number;
+  text: string;
 }
 
 interface RefineChatProps {
   contentId: string;
-  onRefineComplete: (result: {
-    contentId: string;
-    content: string;
-    changes: string[];
-  }) => void;
+  /** Passage to limit refinements to; the whole content when unset */
+  selection?: RefineSelection | null;
+  onClearSelection?: () => void;
+  /** Receives the proposed changes, for the user to review */
+  onRefineComplete: (changeSet: RefineChangeSet) => void;
 }
 
-export function RefineChat({ contentId, onRefineComplete }: RefineChatProps) {
+export function RefineChat({
+  contentId,
+  selection = null,
+  onClearSelection,
+  onRefineComplete,
+}: RefineChatProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState("");
   const [isRefining, setIsRefining] = useState(false);
@@ -62,6 +78,7 @@ export function RefineChat({ contentId, onRefineComplete }: RefineChatProps) {
         role: "user",
         content: instruction,
         timestamp: new Date(),
+        scoped: selection !== null,
       };
       setMessages((prev) => [...prev, userMessage]);
       setInput("");
@@ -74,6 +91,9 @@ export function RefineChat({ contentId, onRefineComplete }: RefineChatProps) {
           body: JSON.stringify({
             refinementType: "text",
             instruction,
+            ...(selection && {
+              range: { unit: "character", start: selection.start, end: selection.end },
+            }),
           }),
         });
 
@@ -82,23 +102,19 @@ export function RefineChat({ contentId, onRefineComplete }: RefineChatProps) {
           throw new Error(errorData.error || "Failed to refine content");
         }
 
-        const result = await response.json();
+        const changeSet = (await response.json()) as RefineChangeSet;
 
         // Add assistant message with changes
         const assistantMessage: ChatMessage = {
           id: `assistant-${Date.now()}`,
           role: "assistant",
-          content: formatChangesMessage(result.changes),
+          content: formatChangesMessage(changeSet),
           timestamp: new Date(),
-          changes: result.changes,
+          changes: changeSet.changes,
         };
         setMessages((prev) => [...prev, assistantMessage]);
 
-        onRefineComplete({
-          contentId: result.contentId,
-          content: result.content,
-          changes: result.changes,
-        });
+        onRefineComplete(changeSet);
       } catch (error) {
         console.error("Refine error:", error);
         // Add error message
@@ -113,7 +129,7 @@ export function RefineChat({ contentId, onRefineComplete }: RefineChatProps) {
         setIsRefining(false);
       }
     },
-    [input, contentId, isRefining, onRefineComplete]
+    [input, contentId, selection, isRefining, onRefineComplete]
   );
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -163,6 +179,9 @@ export function RefineChat({ contentId, onRefineComplete }: RefineChatProps) {
                     : "bg-muted"
                 }`}
               >
+                {message.scoped && (
+                  <p className="text-xs opacity-70 mb-1">Selected passage only</p>
+                )}
                 <p className="text-sm whitespace-pre-wrap">{message.content}</p>
                 <p className="text-xs opacity-70 mt-1">
                   {message.timestamp.toLocaleTimeString([], {
@@ -190,6 +209,30 @@ export function RefineChat({ contentId, onRefineComplete }: RefineChatProps) {
 
         {/* Input area */}
         <form onSubmit={handleSubmit} className="border-t p-4">
+          {selection && (
+            <div className="mb-3 flex items-start gap-2 rounded-md border bg-muted/50 px-3 py-2">
+              <TextSelect className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+              <div className="min-w-0 flex-1">
+                <p className="text-xs font-medium">Refining the selected passage only</p>
+                <p className="text-xs text-muted-foreground line-clamp-2">
+                  &ldquo;{selection.text.trim()}&rdquo;
+                </p>
+              </div>
+              {onClearSelection && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={onClearSelection}
+                  disabled={isRefining}
+                  aria-label="Refine the whole content instead"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          )}
           <div className="flex gap-2">
             <Textarea
               ref={textareaRef}
@@ -221,10 +264,11 @@ export function RefineChat({ contentId, onRefineComplete }: RefineChatProps) {
   );
 }
 
-function formatChangesMessage(changes: string[]): string {
-  if (!changes || changes.length === 0) {
-    return "Content has been refined.";
+function formatChangesMessage({ hunks, changes }: RefineChangeSet): string {
+  if (hunks.length === 0) {
+    return "That didn't change anything. Try describing the change differently.";
   }
 
-  return `✓ Changes applied:\n${changes.map((c) => `• ${c}`).join("\n")}`;
+  const proposed = hunks.length === 1 ? "1 change" : `${hunks.length} changes`;
+  return `✓ Proposed ${proposed} for you to review:\n${changes.map((c) => `• ${c}`).join("\n")}`;
 }
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertCircle, Check, Loader2, Share2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { safeParseJSON, waitForJob } from "@/lib/api-client";
+import { cn } from "@/lib/utils";
+import { CONTENT_FORMATS, REPURPOSE_FORMATS, type RepurposeFormat } from "@/types/content";
+import type { RepurposeContentJobResult } from "@/types/job";
+
+type FormatProgress = "working" | "done" | { error: string };
+
+interface RepurposeDialogProps {
+  /** Article being viewed */
+  contentId: string;
+  /** Formats the article was already repurposed into */
+  existingFormats: RepurposeFormat[];
+}
+
+/**
+ * RepurposeDialog Component
+ *
+ * Turns an article into platform-specific pieces, each written as its own
+ * background job. Formats it already exists in can be written again.
+ */
+export function RepurposeDialog({ contentId, existingFormats }: RepurposeDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<RepurposeFormat[]>(() =>
+    REPURPOSE_FORMATS.filter((f) => !existingFormats.includes(f))
+  );
+  const [progress, setProgress] = useState<Partial<Record<RepurposeFormat, FormatProgress>>>({});
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (format: RepurposeFormat) => {
+    setSelected((prev) =>
+      prev.includes(format) ? prev.filter((f) => f !== format) : [...prev, format]
+    );
+  };
+
+  const handleRepurpose = async () => {
+    setIsWorking(true);
+    setError(null);
+    setProgress(Object.fromEntries(selected.map((f) => [f, "working"])));
+
+    try {
+      const response = await fetch("/api/content/repurpose", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          contentId,
+          formats: selected,
+          regenerate: selected.some((f) => existingFormats.includes(f)),
+        }),
+      });
+      if (!response.ok) {
+        const errorBody = await safeParseJSON(response);
+        throw new Error(errorBody?.error || "Failed to repurpose content");
+      }
+
+      const { jobs } = (await response.json()) as {
+        jobs: Array<{ format: RepurposeFormat; jobId: string }>;
+      };
+
+      // Each format finishes on its own
+      const results = await Promise.allSettled(
+        jobs.map(async ({ format, jobId }) => {
+          try {
+            await waitForJob<RepurposeContentJobResult>(jobId);
+            setProgress((prev) => ({ ...prev, [format]: "done" }));
+          } catch (err) {
+            const message = err instanceof Error ? err.message : "Failed";
+            setProgress((prev) => ({ ...prev, [format]: { error: message } }));
+            throw err;
+          }
+        })
+      );
+
+      const failed = results.filter((r) => r.status === "rejected").length;
+      router.refresh();
+      if (failed === 0) {
+        toast.success("Repurposed content is ready");
+        setOpen(false);
+        setProgress({});
+      }
+    } catch (err) {
+      console.error("Repurpose error:", err);
+      setError(err instanceof Error ? err.message : "Failed to repurpose content");
+      setProgress({});
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isWorking && setOpen(next)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Share2 className="h-4 w-4 mr-2" />
+          Repurpose
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Repurpose for other platforms</DialogTitle>
+          <DialogDescription>
+            Each format is written from this article in your voice, within the
+            platform&apos;s limits, and kept as its own draft.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2">
+          {REPURPOSE_FORMATS.map((format) => {
+            const isSelected = selected.includes(format);
+            const state = progress[format];
+            return (
+              <button
+                key={format}
+                type="button"
+                disabled={isWorking}
+                onClick={() => toggle(format)}
+                className={cn(
+                  "flex items-start gap-3 rounded-lg border p-3 text-left transition-colors",
+                  isSelected
+                    ? "border-primary bg-primary/5"
+                    : "hover:border-muted-foreground/50",
+                  isWorking && "cursor-not-allowed"
+                )}
+              >
+                <div
+                  className={cn(
+                    "flex h-5 w-5 shrink-0 items-center justify-center rounded border mt-0.5",
+                    isSelected
+                      ? "border-primary bg-primary text-primary-foreground"
+                      : "border-muted-foreground/30"
+                  )}
+                >
+                  {isSelected && <Check className="h-3 w-3" />}
+                </div>
+                <div className="flex-1 space-y-0.5">
+                  <div className="flex items-center gap-2 font-medium">
+                    {CONTENT_FORMATS[format].name}
+                    {existingFormats.includes(format) && (
+                      <span className="text-xs font-normal text-muted-foreground">
+                        (write again)
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {CONTENT_FORMATS[format].description}
+                  </p>
+                  {typeof state === "object" && (
+                    <p className="text-sm text-destructive">{state.error}</p>
+                  )}
+                </div>
+                {state === "working" && (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                )}
+                {state === "done" && <Check className="h-4 w-4 text-primary" />}
+                {typeof state === "object" && (
+                  <AlertCircle className="h-4 w-4 text-destructive" />
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button onClick={handleRepurpose} disabled={isWorking || selected.length === 0}>
+            {isWorking ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Repurposing...
+              </>
+            ) : (
+              <>
+                <Share2 className="h-4 w-4 mr-2" />
+                Repurpose
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Loader2, X } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+import { Button } from "@/components/ui/button";
+
+interface StreamingDraftProps {
+  markdown: string;
+  onCancel?: (() => void) | undefined;
+  isCancelling?: boolean;
+}
+
+/**
+ * StreamingDraft Component
+ *
+ * Shows content as the Editor writes it, pushed over the session's events.
+ * Nothing is saved until the draft is finished, so cancelling discards it.
+ */
+export function StreamingDraft({ markdown, onCancel, isCancelling = false }: StreamingDraftProps) {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Follow the text as it grows
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "nearest" });
+  }, [markdown]);
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4 py-8">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin text-primary" />
+          {isCancelling ? "Stopping..." : "Writing your content..."}
+        </div>
+        {onCancel && (
+          <Button variant="outline" size="sm" onClick={onCancel} disabled={isCancelling}>
+            <X className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+        )}
+      </div>
+
+      <article className="prose prose-neutral dark:prose-invert max-w-none">
+        <ReactMarkdown>{markdown}</ReactMarkdown>
+      </article>
+      <div ref={endRef} />
+    </div>
+  );
+}
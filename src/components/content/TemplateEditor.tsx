@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CUSTOM_TEMPLATES_QUERY_KEY } from "@/hooks/useCustomTemplates";
+import type { CustomTemplate, TemplateSection } from "@/types/content";
+
+interface TemplateEditorProps {
+  /** Template being edited; a new one is created when omitted */
+  template?: CustomTemplate;
+  onSaved: (template: CustomTemplate) => void;
+  onCancel: () => void;
+}
+
+// Word counts are edited as text so the fields can be left empty
+function toWordCount(value: string): number | null {
+  const words = parseInt(value, 10);
+  return Number.isNaN(words) ? null : words;
+}
+
+/**
+ * TemplateEditor Component
+ *
+ * Defines a content template: the sections it's written in, how long it
+ * should be and any guidance for the piece as a whole.
+ */
+export function TemplateEditor({ template, onSaved, onCancel }: TemplateEditorProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(template?.name ?? "");
+  const [description, setDescription] = useState(template?.description ?? "");
+  const [sections, setSections] = useState<TemplateSection[]>(
+    template?.sections ?? [{ heading: "", instructions: "" }]
+  );
+  const [minWords, setMinWords] = useState(template?.minWords?.toString() ?? "");
+  const [maxWords, setMaxWords] = useState(template?.maxWords?.toString() ?? "");
+  const [instructions, setInstructions] = useState(template?.instructions ?? "");
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(template ? `/api/templates/${template.id}` : "/api/templates", {
+        method: template ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          description,
+          sections: sections.filter((s) => s.heading.trim() || s.instructions.trim()),
+          minWords: toWordCount(minWords),
+          maxWords: toWordCount(maxWords),
+          instructions,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to save template");
+      }
+      const result = await response.json();
+      return result.template as CustomTemplate;
+    },
+    onSuccess: (saved) => {
+      toast.success(template ? "Template updated" : "Template created");
+      queryClient.invalidateQueries({ queryKey: CUSTOM_TEMPLATES_QUERY_KEY });
+      onSaved(saved);
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to save template");
+    },
+  });
+
+  const updateSection = (index: number, field: keyof TemplateSection, value: string) => {
+    setSections((prev) =>
+      prev.map((section, i) => (i === index ? { ...section, [field]: value } : section))
+    );
+  };
+
+  const removeSection = (index: number) => {
+    setSections((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const addSection = () => {
+    setSections((prev) => [...prev, { heading: "", instructions: "" }]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="template-name">Name</Label>
+          <Input
+            id="template-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Changelog post"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-description">Description</Label>
+          <Input
+            id="template-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What shipped this month and why it matters"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Sections</Label>
+        <p className="text-sm text-muted-foreground">
+          Written in this order, each under its own heading.
+        </p>
+        {sections.map((section, index) => (
+          <div key={index} className="grid grid-cols-[1fr_2fr_auto] gap-2">
+            <Input
+              value={section.heading}
+              onChange={(e) => updateSection(index, "heading", e.target.value)}
+              placeholder="What's new"
+              aria-label="Section heading"
+            />
+            <Input
+              value={section.instructions}
+              onChange={(e) => updateSection(index, "instructions", e.target.value)}
+              placeholder="One short paragraph per feature, benefit first"
+              aria-label="Section instructions"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-8 text-muted-foreground hover:text-destructive"
+              onClick={() => removeSection(index)}
+            >
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Remove section</span>
+            </Button>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={addSection}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Section
+        </Button>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 sm:w-80">
+        <div className="space-y-2">
+          <Label htmlFor="template-min-words">Min words</Label>
+          <Input
+            id="template-min-words"
+            type="number"
+            min={50}
+            value={minWords}
+            onChange={(e) => setMinWords(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-max-words">Max words</Label>
+          <Input
+            id="template-max-words"
+            type="number"
+            min={50}
+            value={maxWords}
+            onChange={(e) => setMaxWords(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="template-instructions">Instructions</Label>
+        <Textarea
+          id="template-instructions"
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          placeholder="Anything that applies to the whole piece: audience, tone, what to leave out..."
+          rows={4}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+          <Save className="h-4 w-4 mr-1" />
+          {saveMutation.isPending ? "Saving..." : "Save Template"}
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={saveMutation.isPending}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
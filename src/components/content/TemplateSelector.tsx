@@ -1,9 +1,11 @@
 "use client";
 
-import { FileText, ListOrdered, BookOpen, Check } from "lucide-react";
+import Link from "next/link";
+import { FileText, ListOrdered, BookOpen, Check, LayoutTemplate, Settings2 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
+import { useCustomTemplates } from "@/hooks/useCustomTemplates";
 import { cn } from "@/lib/utils";
-import type { ContentTemplate } from "@/types/content";
+import type { ContentTemplate, TemplateChoice } from "@/types/content";
 
 const TEMPLATES: Array<{
   id: ContentTemplate;
@@ -32,23 +34,50 @@ const TEMPLATES: Array<{
 ];
 
 interface TemplateSelectorProps {
-  value: ContentTemplate;
-  onChange: (template: ContentTemplate) => void;
+  value: TemplateChoice;
+  onChange: (choice: TemplateChoice) => void;
   disabled?: boolean;
 }
 
+/**
+ * TemplateSelector Component
+ *
+ * Picks the format to generate in: one of the built-in templates or one of
+ * the user's own.
+ */
 export function TemplateSelector({
   value,
   onChange,
   disabled = false,
 }: TemplateSelectorProps) {
+  const { data: customTemplates = [] } = useCustomTemplates();
+
+  const options = [
+    ...TEMPLATES.map((template) => ({
+      key: template.id,
+      choice: { template: template.id, customTemplateId: null },
+      name: template.name,
+      description: template.description,
+      icon: template.icon,
+    })),
+    ...customTemplates.map((template) => ({
+      key: template.id,
+      choice: { template: value.template, customTemplateId: template.id },
+      name: template.name,
+      description: template.description,
+      icon: <LayoutTemplate className="h-5 w-5" />,
+    })),
+  ];
+
   return (
     <div className="grid gap-3">
-      {TEMPLATES.map((template) => {
-        const isSelected = value === template.id;
+      {options.map((template) => {
+        const isSelected = value.customTemplateId
+          ? value.customTemplateId === template.choice.customTemplateId
+          : value.template === template.key;
         return (
           <Card
-            key={template.id}
+            key={template.key}
             className={cn(
               "cursor-pointer transition-all",
               isSelected
@@ -56,7 +85,7 @@ export function TemplateSelector({
                 : "hover:border-muted-foreground/50",
               disabled && "opacity-50 cursor-not-allowed"
             )}
-            onClick={() => !disabled && onChange(template.id)}
+            onClick={() => !disabled && onChange(template.choice)}
           >
             <CardContent className="flex items-start gap-4 p-4">
               <div
@@ -88,14 +117,23 @@ export function TemplateSelector({
                     {template.name}
                   </span>
                 </div>
-                <p className="text-sm text-muted-foreground">
-                  {template.description}
-                </p>
+                {template.description && (
+                  <p className="text-sm text-muted-foreground">
+                    {template.description}
+                  </p>
+                )}
               </div>
             </CardContent>
           </Card>
         );
       })}
+      <Link
+        href="/settings/templates"
+        className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <Settings2 className="h-4 w-4" />
+        {customTemplates.length > 0 ? "Manage your templates" : "Create your own template"}
+      </Link>
     </div>
   );
 }
@@ -0,0 +1,231 @@
+"use client";
+
+import { useState } from "react";
+import { Check, CheckCheck, Loader2, Undo2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { safeParseJSON } from "@/lib/api-client";
+import { diffWords } from "@/lib/content/diff";
+import { cn } from "@/lib/utils";
+import type { ChangeHunk, RefineChangeSet } from "@/types/content";
+
+type Decision = "accepted" | "rejected";
+
+interface TrackedChangesProps {
+  /** Content of the version the change set applies to */
+  content: string;
+  changeSet: RefineChangeSet;
+  /** Called with the new version once the accepted changes are stored */
+  onApplied: (contentId: string) => void;
+  onDiscard: () => void;
+}
+
+function HunkView({
+  hunk,
+  decision,
+  disabled,
+  onDecide,
+}: {
+  hunk: ChangeHunk;
+  decision: Decision | undefined;
+  disabled: boolean;
+  onDecide: (decision: Decision | undefined) => void;
+}) {
+  let body: React.ReactNode;
+  if (decision === "accepted") {
+    body = hunk.after || <span className="italic text-muted-foreground">(removed)</span>;
+  } else if (decision === "rejected") {
+    body = hunk.before || <span className="italic text-muted-foreground">(nothing added)</span>;
+  } else {
+    body = diffWords(hunk.before, hunk.after).map((word, i) => (
+      <span
+        key={i}
+        className={cn(
+          word.op === "insert" && "bg-green-500/20",
+          word.op === "delete" && "bg-red-500/20 text-muted-foreground line-through"
+        )}
+      >
+        {word.text}
+      </span>
+    ));
+  }
+
+  return (
+    <div
+      className={cn(
+        "rounded-md border-l-4 px-3 py-2",
+        decision === "accepted" && "border-green-500 bg-green-500/5",
+        decision === "rejected" && "border-muted-foreground/30 bg-muted/30",
+        !decision && "border-amber-500 bg-amber-500/5"
+      )}
+    >
+      <div className="whitespace-pre-wrap">{body}</div>
+      <div className="mt-2 flex flex-wrap items-center gap-2 border-t pt-2">
+        <p className="flex-1 text-xs text-muted-foreground">{hunk.rationale}</p>
+        {decision ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7"
+            disabled={disabled}
+            onClick={() => onDecide(undefined)}
+          >
+            <Undo2 className="h-3 w-3 mr-1" />
+            {decision === "accepted" ? "Accepted" : "Rejected"}
+          </Button>
+        ) : (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7"
+              disabled={disabled}
+              onClick={() => onDecide("rejected")}
+            >
+              <X className="h-3 w-3 mr-1" />
+              Reject
+            </Button>
+            <Button
+              size="sm"
+              className="h-7"
+              disabled={disabled}
+              onClick={() => onDecide("accepted")}
+            >
+              <Check className="h-3 w-3 mr-1" />
+              Accept
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * TrackedChanges Component
+ *
+ * Shows a refinement's proposed changes in place in the content, each with
+ * the reason for it. The user accepts or rejects them one by one, and only
+ * the accepted ones are stored as a new version.
+ */
+export function TrackedChanges({ content, changeSet, onApplied, onDiscard }: TrackedChangesProps) {
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [isApplying, setIsApplying] = useState(false);
+
+  const hunks = [...changeSet.hunks].sort((a, b) => a.start - b.start);
+  const accepted = hunks.filter((h) => decisions[h.id] === "accepted");
+  const undecided = hunks.filter((h) => !decisions[h.id]).length;
+
+  const decide = (id: string, decision: Decision | undefined) => {
+    setDecisions((prev) => {
+      const next = { ...prev };
+      if (decision) next[id] = decision;
+      else delete next[id];
+      return next;
+    });
+  };
+
+  const acceptAll = () => {
+    setDecisions(Object.fromEntries(hunks.map((h) => [h.id, "accepted" as const])));
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const response = await fetch(`/api/content/${changeSet.contentId}/refine/apply`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          hunks: accepted.map(({ start, end, before, after }) => ({ start, end, before, after })),
+          instruction: changeSet.instruction,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorBody = await safeParseJSON(response);
+        throw new Error(errorBody?.error || "Failed to apply changes");
+      }
+
+      const result = await response.json();
+      toast.success(`Version ${result.version} created`);
+      onApplied(result.contentId);
+    } catch (err) {
+      console.error("Apply changes error:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to apply changes");
+      setIsApplying(false);
+    }
+  };
+
+  // The content with each hunk in place of the text it changes
+  const blocks: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const hunk of hunks) {
+    const unchanged = content.slice(cursor, hunk.start).trim();
+    if (unchanged) {
+      blocks.push(
+        <div key={`text-${cursor}`} className="whitespace-pre-wrap text-muted-foreground">
+          {unchanged}
+        </div>
+      );
+    }
+    blocks.push(
+      <HunkView
+        key={hunk.id}
+        hunk={hunk}
+        decision={decisions[hunk.id]}
+        disabled={isApplying}
+        onDecide={(decision) => decide(hunk.id, decision)}
+      />
+    );
+    cursor = hunk.end;
+  }
+  const rest = content.slice(cursor).trim();
+  if (rest) {
+    blocks.push(
+      <div key="text-end" className="whitespace-pre-wrap text-muted-foreground">
+        {rest}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Review toolbar */}
+      <div className="sticky top-0 z-10 flex flex-wrap items-center justify-between gap-3 border-b bg-background py-3">
+        <div className="text-sm">
+          <p className="font-medium">
+            Review {hunks.length === 1 ? "1 change" : `${hunks.length} changes`}
+          </p>
+          <p className="text-muted-foreground line-clamp-1">
+            &ldquo;{changeSet.instruction}&rdquo;
+            {undecided > 0 && ` · ${undecided} undecided (left out unless accepted)`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onDiscard} disabled={isApplying}>
+            Discard
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={acceptAll}
+            disabled={isApplying}
+          >
+            <CheckCheck className="h-4 w-4 mr-2" />
+            Accept all
+          </Button>
+          <Button size="sm" onClick={handleApply} disabled={isApplying || accepted.length === 0}>
+            {isApplying ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Check className="h-4 w-4 mr-2" />
+            )}
+            Apply {accepted.length > 0 && accepted.length}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-4 font-mono text-sm leading-relaxed">{blocks}</div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Check, Languages, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { requestJob } from "@/lib/api-client";
+import { getLanguageName, PUBLISH_LANGUAGES } from "@/lib/languages";
+import type { GenerateContentJobResult } from "@/types/job";
+
+export interface ContentTranslation {
+  contentId: string;
+  language: string | null;
+}
+
+interface TranslationMenuProps {
+  sessionId: string;
+  /** Generation the translations are written from */
+  generationId: string;
+  /** Language of the content being viewed */
+  language: string | null;
+  /** Every language the generation exists in, including this one */
+  translations: ContentTranslation[];
+}
+
+/**
+ * TranslationMenu Component
+ *
+ * Switches between a generation's content in different languages, and
+ * translates it into languages it doesn't exist in yet.
+ */
+export function TranslationMenu({
+  sessionId,
+  generationId,
+  language,
+  translations,
+}: TranslationMenuProps) {
+  const router = useRouter();
+  const [translatingTo, setTranslatingTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const existing = new Set(translations.map((t) => t.language));
+  const missing = PUBLISH_LANGUAGES.filter((code) => !existing.has(code));
+
+  const handleTranslate = useCallback(
+    async (target: string) => {
+      setTranslatingTo(target);
+      setError(null);
+
+      try {
+        const { contentId } = await requestJob<GenerateContentJobResult>(
+          "/api/content/generate",
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ sessionId, translationOf: generationId, language: target }),
+          }
+        );
+        router.push(`/content/${contentId}`);
+      } catch (err) {
+        console.error("Translation error:", err);
+        setError(err instanceof Error ? err.message : "Failed to translate content");
+        setTranslatingTo(null);
+      }
+    },
+    [sessionId, generationId, router]
+  );
+
+  return (
+    <div className="flex items-center gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={translatingTo !== null}>
+            {translatingTo ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Languages className="h-4 w-4 mr-2" />
+            )}
+            {translatingTo
+              ? `Translating to ${getLanguageName(translatingTo)}...`
+              : language
+                ? getLanguageName(language)
+                : "Language"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {translations.length > 1 && (
+            <>
+              <DropdownMenuLabel>Available in</DropdownMenuLabel>
+              {translations.map((translation) => (
+                <DropdownMenuItem
+                  key={translation.contentId}
+                  onClick={() => router.push(`/content/${translation.contentId}`)}
+                >
+                  {translation.language === language ? (
+                    <Check className="h-4 w-4 mr-2" />
+                  ) : (
+                    <span className="w-4 mr-2" />
+                  )}
+                  {translation.language
+                    ? getLanguageName(translation.language)
+                    : "Original"}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuLabel>Translate to</DropdownMenuLabel>
+          {missing.map((code) => (
+            <DropdownMenuItem key={code} onClick={() => handleTranslate(code)}>
+              {getLanguageName(code)}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {error && <span className="text-sm text-destructive">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getModelName } from "@/lib/content/models";
+import { CONTENT_TEMPLATES, type ContentStatus, type ContentTemplate } from "@/types/content";
+import type { ReferentInfluences } from "@/types/voiceDNA";
+import { ContentViewer } from "./ContentViewer";
+
+export interface ContentVersion {
+  id: string;
+  title: string;
+  content: string;
+  wordCount: number;
+  readTimeMinutes: number;
+  status: ContentStatus;
+  template: ContentTemplate;
+  customTemplateName: string | null;
+  modelUsed: string | null;
+  referentInfluencesUsed: ReferentInfluences | null;
+  createdAt: string;
+}
+
+interface VersionComparisonProps {
+  /** The session's generations, oldest first */
+  versions: ContentVersion[];
+  leftId: string;
+  rightId: string;
+}
+
+function formatCreatedAt(createdAt: string) {
+  return new Date(createdAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function templateName(version: ContentVersion) {
+  return version.customTemplateName ?? CONTENT_TEMPLATES[version.template].name;
+}
+
+function describeBlend(influences: ReferentInfluences | null) {
+  const referents = influences?.referents.filter((r) => r.weight > 0) ?? [];
+  if (!influences || referents.length === 0) return "Your voice only";
+
+  return [
+    `Your voice ${influences.userWeight}%`,
+    ...referents.map((r) => `${r.name} ${r.weight}%`),
+  ].join(" · ");
+}
+
+function VersionColumn({
+  versions,
+  value,
+  onChange,
+}: {
+  versions: ContentVersion[];
+  value: string;
+  onChange: (id: string) => void;
+}) {
+  const version = versions.find((v) => v.id === value);
+
+  return (
+    <div className="space-y-4 min-w-0">
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map((v, index) => (
+            <SelectItem key={v.id} value={v.id}>
+              Version {index + 1}: {templateName(v)} ·{" "}
+              {formatCreatedAt(v.createdAt)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {version && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary">{templateName(version)}</Badge>
+            {version.modelUsed && (
+              <Badge variant="outline">{getModelName(version.modelUsed)}</Badge>
+            )}
+            <span className="text-xs text-muted-foreground">
+              {describeBlend(version.referentInfluencesUsed)}
+            </span>
+            <Button variant="ghost" size="sm" className="ml-auto" asChild>
+              <Link href={`/content/${version.id}`}>
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Open
+              </Link>
+            </Button>
+          </div>
+
+          <ContentViewer
+            title={version.title}
+            content={version.content}
+            wordCount={version.wordCount}
+            readTimeMinutes={version.readTimeMinutes}
+            status={version.status}
+            createdAt={new Date(version.createdAt)}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * VersionComparison Component
+ *
+ * Shows two versions of a session's content side by side, each with the
+ * format, model and referent blend it was generated with.
+ */
+export function VersionComparison({ versions, leftId, rightId }: VersionComparisonProps) {
+  const [left, setLeft] = useState(leftId);
+  const [right, setRight] = useState(rightId);
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-2">
+      <VersionColumn versions={versions} value={left} onChange={setLeft} />
+      <VersionColumn versions={versions} value={right} onChange={setRight} />
+    </div>
+  );
+}
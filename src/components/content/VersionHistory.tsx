@@ -0,0 +1,239 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowRight, ExternalLink, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { safeParseJSON } from "@/lib/api-client";
+import { diffContent } from "@/lib/content/diff";
+import { cn } from "@/lib/utils";
+import type { VersionHistoryEntry } from "@/types/content";
+import { ContentDiffView } from "./ContentDiffView";
+
+interface VersionHistoryProps {
+  /** Version being viewed */
+  contentId: string;
+}
+
+interface VersionsResponse {
+  versions: VersionHistoryEntry[];
+  latestId: string;
+}
+
+function formatCreatedAt(createdAt: string) {
+  return new Date(createdAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function VersionSelect({
+  label,
+  versions,
+  value,
+  onChange,
+}: {
+  label: string;
+  versions: VersionHistoryEntry[];
+  value: string;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <div className="flex-1 space-y-1">
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map((v) => (
+            <SelectItem key={v.id} value={v.id}>
+              Version {v.version} · {formatCreatedAt(v.createdAt)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/**
+ * VersionHistory Component
+ *
+ * Lists every version of the content, compares any two of them word by word,
+ * and restores an older one as the newest version.
+ */
+export function VersionHistory({ contentId }: VersionHistoryProps) {
+  const router = useRouter();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["content-versions", contentId],
+    queryFn: async () => {
+      const response = await fetch(`/api/content/${contentId}/versions`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch versions");
+      }
+      return (await response.json()) as VersionsResponse;
+    },
+  });
+
+  const versions = useMemo(() => data?.versions ?? [], [data]);
+  const current = versions.find((v) => v.id === contentId);
+
+  // Compare the viewed version with the one it came from, until the user picks
+  const [picked, setPicked] = useState<{ fromId?: string; toId?: string }>({});
+  const toId = picked.toId ?? contentId;
+  const fromId =
+    picked.fromId ??
+    current?.parentVersionId ??
+    versions.find((v) => v.id !== toId)?.id ??
+    contentId;
+
+  const diff = useMemo(() => {
+    const from = versions.find((v) => v.id === fromId);
+    const to = versions.find((v) => v.id === toId);
+    return from && to ? diffContent(from.content, to.content) : null;
+  }, [versions, fromId, toId]);
+
+  const handleRestore = async (version: VersionHistoryEntry) => {
+    setRestoringId(version.id);
+    try {
+      const response = await fetch(`/api/content/${version.id}/restore`, { method: "POST" });
+      if (!response.ok) {
+        const errorBody = await safeParseJSON(response);
+        throw new Error(errorBody?.error || "Failed to restore version");
+      }
+
+      const { contentId: restoredId, version: newVersion } = await response.json();
+      toast.success(`Version ${version.version} restored as version ${newVersion}`);
+      router.push(`/content/${restoredId}`);
+    } catch (err) {
+      console.error("Restore error:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to restore version");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <p className="text-sm text-destructive">
+        {error instanceof Error ? error.message : "Failed to fetch versions"}
+      </p>
+    );
+  }
+
+  const versionNumber = (id: string | null) => versions.find((v) => v.id === id)?.version;
+
+  return (
+    <div className="space-y-8">
+      {/* Versions, newest first */}
+      <div className="divide-y rounded-lg border">
+        {[...versions].reverse().map((version) => {
+          const restoredFrom = versionNumber(version.restoredFrom);
+          const isLatest = version.id === data.latestId;
+
+          return (
+            <div
+              key={version.id}
+              className={cn(
+                "flex items-center gap-3 p-3",
+                version.id === contentId && "bg-muted/50"
+              )}
+            >
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">Version {version.version}</span>
+                  {version.id === contentId && <Badge variant="secondary">Viewing</Badge>}
+                  {isLatest && <Badge>Latest</Badge>}
+                  {restoredFrom !== undefined && (
+                    <Badge variant="outline">Restored from version {restoredFrom}</Badge>
+                  )}
+                </div>
+                <p className="truncate text-sm text-muted-foreground">
+                  {version.title} · {version.wordCount.toLocaleString()} words ·{" "}
+                  {formatCreatedAt(version.createdAt)}
+                </p>
+              </div>
+
+              {version.id !== contentId && (
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href={`/content/${version.id}`}>
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    Open
+                  </Link>
+                </Button>
+              )}
+              {!isLatest && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={restoringId !== null}
+                  onClick={() => handleRestore(version)}
+                >
+                  {restoringId === version.id ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                  )}
+                  Restore
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Compare two versions */}
+      {versions.length > 1 ? (
+        <div className="space-y-4">
+          <div className="flex items-end gap-3">
+            <VersionSelect
+              label="From"
+              versions={versions}
+              value={fromId}
+              onChange={(id) => setPicked({ fromId: id, toId })}
+            />
+            <ArrowRight className="mb-2.5 h-4 w-4 shrink-0 text-muted-foreground" />
+            <VersionSelect
+              label="To"
+              versions={versions}
+              value={toId}
+              onChange={(id) => setPicked({ fromId, toId: id })}
+            />
+          </div>
+          {diff && <ContentDiffView diff={diff} />}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          This is the only version so far. Refine it to start a history.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -11,14 +11,14 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { VoiceRecorder } from "@/components/voice/VoiceRecorder";
+import { requestJob } from "@/lib/api-client";
+import type { RefineChangeSet } from "@/types/content";
+import type { TranscribeResponse } from "@/types/voice";
 
 interface VoiceRefineProps {
   contentId: string;
-  onRefineComplete: (result: {
-    contentId: string;
-    content: string;
-    changes: string[];
-  }) => void;
+  /** Receives the proposed changes, for the user to review */
+  onRefineComplete: (changeSet: RefineChangeSet) => void;
   disabled?: boolean;
 }
 
@@ -54,18 +54,12 @@ export function VoiceRefine({
         const { uploadId, url } = await uploadResponse.json();
 
         // Transcribe
-        const transcribeResponse = await fetch("/api/voice/transcribe", {
+        const { transcript } = await requestJob<TranscribeResponse>("/api/voice/transcribe", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ uploadId, audioUrl: url }),
         });
 
-        if (!transcribeResponse.ok) {
-          throw new Error("Failed to transcribe audio");
-        }
-
-        const { transcript } = await transcribeResponse.json();
-
         if (!transcript || transcript.trim().length === 0) {
           throw new Error("No speech detected. Please try again.");
         }
@@ -87,13 +81,7 @@ export function VoiceRefine({
           throw new Error(errorData.error || "Failed to refine content");
         }
 
-        const result = await refineResponse.json();
-
-        onRefineComplete({
-          contentId: result.contentId,
-          content: result.content,
-          changes: result.changes,
-        });
+        onRefineComplete((await refineResponse.json()) as RefineChangeSet);
 
         setStatus("idle");
       } catch (err) {
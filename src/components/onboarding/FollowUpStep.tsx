@@ -13,7 +13,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { VoiceRecorder } from "@/components/voice/VoiceRecorder";
+import { requestJob } from "@/lib/api-client";
 import { cn } from "@/lib/utils";
+import type { TranscribeResponse } from "@/types/voice";
 
 interface FollowUpStepProps {
   questions: string[];
@@ -112,16 +114,12 @@ export function FollowUpStep({
         const { uploadId, url } = await uploadRes.json();
 
         // Transcribe
-        const transcribeRes = await fetch("/api/voice/transcribe", {
+        const { transcript } = await requestJob<TranscribeResponse>("/api/voice/transcribe", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ uploadId, audioUrl: url }),
         });
 
-        if (!transcribeRes.ok) throw new Error("Transcription failed");
-
-        const { transcript } = await transcribeRes.json();
-
         setIsSubmitting(false);
         await submitResponse("voice", transcript);
       } catch (error) {
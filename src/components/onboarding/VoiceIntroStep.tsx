@@ -12,6 +12,8 @@ import {
 } from "@/components/ui/card";
 import { TranscriptPreview } from "@/components/voice/TranscriptPreview";
 import { VoiceRecorder } from "@/components/voice/VoiceRecorder";
+import { requestJob } from "@/lib/api-client";
+import type { TranscribeResponse } from "@/types/voice";
 
 interface VoiceIntroStepProps {
   userName: string;
@@ -69,18 +71,11 @@ export function VoiceIntroStep({
 
         // Step 2: Transcribe
         setState("transcribing");
-        const transcribeRes = await fetch("/api/voice/transcribe", {
+        const transcription = await requestJob<TranscribeResponse>("/api/voice/transcribe", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ uploadId, audioUrl: url }),
         });
-
-        if (!transcribeRes.ok) {
-          const error = await transcribeRes.json();
-          throw new Error(error.error || "Transcription failed");
-        }
-
-        const transcription = await transcribeRes.json();
         setTranscript(transcription.transcript);
 
         // Step 3: Create session and analyze
@@ -94,6 +89,7 @@ export function VoiceIntroStep({
             transcript: transcription.transcript,
             wordTimestamps: transcription.wordTimestamps,
             durationSeconds: duration,
+            language: transcription.language,
           }),
         });
 
@@ -0,0 +1,199 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/voice/recorder";
+import type { EnthusiasmSegment } from "@/types/session";
+import type { WordTimestamp } from "@/types/voice";
+
+interface SessionAudioPlayerProps {
+  audioUrl: string;
+  wordTimestamps: WordTimestamp[];
+  /** Used for punctuation when its tokens line up with the words */
+  transcript?: string | null;
+  enthusiasmSegments?: EnthusiasmSegment[];
+  durationSeconds?: number | null;
+  className?: string;
+}
+
+/**
+ * Index of the word being spoken at a given time (binary search on start),
+ * or -1 before the first word
+ */
+function findWordAt(words: WordTimestamp[], time: number): number {
+  let low = 0;
+  let high = words.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((words[mid]?.start ?? 0) <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * SessionAudioPlayer Component
+ *
+ * Plays a retained session recording alongside its transcript. Clicking a
+ * word seeks to it, the spoken word is highlighted, and enthusiasm segments
+ * are drawn on the timeline.
+ */
+export function SessionAudioPlayer({
+  audioUrl,
+  wordTimestamps,
+  transcript,
+  enthusiasmSegments = [],
+  durationSeconds,
+  className,
+}: SessionAudioPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState<number | null>(null);
+
+  const duration =
+    mediaDuration ?? durationSeconds ?? wordTimestamps[wordTimestamps.length - 1]?.end ?? 0;
+  const activeIndex = findWordAt(wordTimestamps, currentTime);
+
+  const tokens = transcript?.split(/\s+/).filter(Boolean) ?? [];
+  const tokensAligned = tokens.length === wordTimestamps.length;
+
+  const seek = (time: number, play = false) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, Math.min(time, duration || time));
+    setCurrentTime(audio.currentTime);
+    if (play) {
+      audio.play().catch((err) => console.error("Playback failed:", err));
+    }
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch((err) => console.error("Playback failed:", err));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    seek(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  const toPercent = (time: number) => (duration ? (time / duration) * 100 : 0);
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-medium">Recording</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          preload="metadata"
+          onLoadedMetadata={(e) => {
+            // MediaRecorder WebM files report Infinity until fully read
+            const value = e.currentTarget.duration;
+            if (Number.isFinite(value)) setMediaDuration(value);
+          }}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+        />
+
+        {/* Controls and timeline */}
+        <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={togglePlayback}
+            aria-label={isPlaying ? "Pause" : "Play"}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+
+          <div
+            className="relative h-8 flex-1 cursor-pointer overflow-hidden rounded-md bg-muted"
+            onClick={handleTimelineClick}
+            role="slider"
+            aria-label="Seek"
+            aria-valuemin={0}
+            aria-valuemax={Math.round(duration)}
+            aria-valuenow={Math.round(currentTime)}
+          >
+            {/* Enthusiasm segments */}
+            {enthusiasmSegments.map((segment, index) => (
+              <div
+                key={index}
+                className="absolute inset-y-0 bg-amber-500"
+                style={{
+                  left: `${toPercent(segment.startTime)}%`,
+                  width: `${Math.max(0.5, toPercent(segment.endTime - segment.startTime))}%`,
+                  opacity: 0.2 + segment.energyScore * 0.5,
+                }}
+                title={`Energy ${Math.round(segment.energyScore * 100)}%: ${segment.text}`}
+              />
+            ))}
+
+            {/* Progress */}
+            <div
+              className="absolute inset-y-0 left-0 bg-primary/15"
+              style={{ width: `${toPercent(currentTime)}%` }}
+            />
+            <div
+              className="absolute inset-y-0 w-0.5 bg-primary"
+              style={{ left: `${toPercent(currentTime)}%` }}
+            />
+          </div>
+
+          <span className="w-24 text-right text-sm tabular-nums text-muted-foreground">
+            {formatDuration(currentTime)} / {formatDuration(duration)}
+          </span>
+        </div>
+
+        {enthusiasmSegments.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Highlighted stretches are where you sounded most energized.
+          </p>
+        )}
+
+        {/* Transcript */}
+        <div className="max-h-80 overflow-y-auto rounded-lg bg-muted p-4">
+          <p className="text-sm leading-relaxed">
+            {wordTimestamps.map((word, index) => (
+              <span key={index}>
+                <button
+                  type="button"
+                  onClick={() => seek(word.start, true)}
+                  className={cn(
+                    "rounded-sm hover:bg-primary/10",
+                    index === activeIndex && isPlaying && "bg-primary/20"
+                  )}
+                  title={formatDuration(word.start)}
+                >
+                  {tokensAligned ? tokens[index] : word.word}
+                </button>{" "}
+              </span>
+            ))}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
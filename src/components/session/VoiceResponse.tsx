@@ -3,11 +3,14 @@
 import { useState } from "react";
 import { Loader2 } from "lucide-react";
 import { VoiceRecorder } from "@/components/voice/VoiceRecorder";
+import { requestJob } from "@/lib/api-client";
 import type { FollowUpQuestion } from "@/types/session";
+import type { TranscribeResponse } from "@/types/voice";
 
 interface VoiceResponseProps {
   question: FollowUpQuestion;
   sessionId: string;
+  transcriptionPercent?: number | null; // Live progress pushed by the session's events
   onComplete: (transcript: string, duration: number) => void;
   onCancel: () => void;
 }
@@ -21,6 +24,7 @@ interface VoiceResponseProps {
 export function VoiceResponse({
   question,
   sessionId,
+  transcriptionPercent = null,
   onComplete,
   onCancel,
 }: VoiceResponseProps) {
@@ -51,21 +55,17 @@ export function VoiceResponse({
         throw new Error(errorData.error || "Failed to upload audio");
       }
 
-      const { uploadId } = await uploadResponse.json();
+      const { uploadId, url } = await uploadResponse.json();
 
       // Transcribe the audio
-      const transcribeResponse = await fetch("/api/voice/transcribe", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ uploadId, sessionId }),
-      });
-
-      if (!transcribeResponse.ok) {
-        const errorData = await transcribeResponse.json();
-        throw new Error(errorData.error || "Failed to transcribe audio");
-      }
-
-      const { transcript, durationSeconds } = await transcribeResponse.json();
+      const { transcript, durationSeconds } = await requestJob<TranscribeResponse>(
+        "/api/voice/transcribe",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ uploadId, audioUrl: url, sessionId }),
+        }
+      );
 
       // Call the completion handler with the transcript
       onComplete(transcript, durationSeconds || duration);
@@ -84,6 +84,7 @@ export function VoiceResponse({
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
         <p className="text-sm text-muted-foreground">
           Transcribing your response...
+          {transcriptionPercent !== null && ` ${transcriptionPercent}%`}
         </p>
       </div>
     );
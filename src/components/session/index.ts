@@ -8,3 +8,4 @@ export { FollowUpQuestion } from "./FollowUpQuestion";
 export { VoiceResponse } from "./VoiceResponse";
 export { TextResponse } from "./TextResponse";
 export { SessionProgress } from "./SessionProgress";
+export { SessionAudioPlayer } from "./SessionAudioPlayer";
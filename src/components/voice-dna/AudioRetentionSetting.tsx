@@ -0,0 +1,79 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface PreferencesResponse {
+  retainAudio: boolean;
+}
+
+/**
+ * AudioRetentionSetting Component
+ *
+ * Opt-in toggle for keeping session recordings after transcription, which
+ * enables playback synced to the transcript. Off by default for privacy.
+ */
+export function AudioRetentionSetting() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["user-preferences"],
+    queryFn: async () => {
+      const response = await fetch("/api/user/preferences");
+      if (!response.ok) {
+        throw new Error("Failed to fetch preferences");
+      }
+      return response.json() as Promise<PreferencesResponse>;
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (retainAudio: boolean) => {
+      const response = await fetch("/api/user/preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ retainAudio }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Failed to save preference");
+      }
+      return response.json() as Promise<PreferencesResponse>;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(["user-preferences"], { retainAudio: result.retainAudio });
+      toast.success(
+        result.retainAudio
+          ? "New recordings will be kept for playback"
+          : "New recordings will be deleted after transcription"
+      );
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to save preference");
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-12 w-full" />;
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm cursor-pointer">
+        <input
+          type="checkbox"
+          checked={data?.retainAudio ?? false}
+          disabled={saveMutation.isPending}
+          onChange={(e) => saveMutation.mutate(e.target.checked)}
+          className="h-4 w-4 accent-primary"
+        />
+        Keep my recordings so I can play them back
+      </label>
+      <p className="text-sm text-muted-foreground">
+        When off, audio is deleted as soon as it&apos;s transcribed. Changing this
+        only affects new recordings.
+      </p>
+    </div>
+  );
+}
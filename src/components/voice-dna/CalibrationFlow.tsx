@@ -23,7 +23,9 @@ import {
 import { Progress } from "@/components/ui/progress";
 import { Textarea } from "@/components/ui/textarea";
 import { VoiceRecorder } from "@/components/voice/VoiceRecorder";
+import { requestJob } from "@/lib/api-client";
 import { cn } from "@/lib/utils";
+import type { TranscribeResponse } from "@/types/voice";
 
 interface CalibrationFlowProps {
   onComplete?: () => void;
@@ -177,19 +179,12 @@ export function CalibrationFlow({
         const { uploadId, url } = await uploadResponse.json();
 
         // Transcribe
-        const transcribeResponse = await fetch("/api/voice/transcribe", {
+        const { transcript } = await requestJob<TranscribeResponse>("/api/voice/transcribe", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ uploadId, audioUrl: url }),
         });
 
-        if (!transcribeResponse.ok) {
-          const errorData = await transcribeResponse.json().catch(() => ({}));
-          throw new Error(errorData.error || "Failed to transcribe recording");
-        }
-
-        const { transcript } = await transcribeResponse.json();
-
         // Generate sample based on response
         await generateSample(transcript);
       } catch (err) {
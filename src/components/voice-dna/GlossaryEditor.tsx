@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { GlossaryTerm } from "@/types/voiceDNA";
+
+interface GlossaryEditorProps {
+  glossary: GlossaryTerm[];
+}
+
+interface GlossaryRow {
+  term: string;
+  misspellings: string; // Comma-separated for editing
+}
+
+function toRows(glossary: GlossaryTerm[]): GlossaryRow[] {
+  return glossary.map((g) => ({
+    term: g.term,
+    misspellings: g.misspellings.join(", "),
+  }));
+}
+
+function toGlossary(rows: GlossaryRow[]): GlossaryTerm[] {
+  return rows
+    .filter((row) => row.term.trim())
+    .map((row) => ({
+      term: row.term.trim(),
+      misspellings: row.misspellings
+        .split(",")
+        .map((m) => m.trim())
+        .filter(Boolean),
+    }));
+}
+
+/**
+ * GlossaryEditor Component
+ *
+ * Edit the custom vocabulary used to bias transcription and fix
+ * commonly mis-transcribed product names and jargon.
+ */
+export function GlossaryEditor({ glossary }: GlossaryEditorProps) {
+  const queryClient = useQueryClient();
+  const [rows, setRows] = useState<GlossaryRow[]>(() => toRows(glossary));
+
+  const saveMutation = useMutation({
+    mutationFn: async (terms: GlossaryTerm[]) => {
+      const response = await fetch("/api/voice-dna", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ glossary: terms }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to save glossary");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast.success("Glossary saved");
+      queryClient.invalidateQueries({ queryKey: ["voice-dna"] });
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to save glossary");
+    },
+  });
+
+  const updateRow = (index: number, field: keyof GlossaryRow, value: string) => {
+    setRows((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, [field]: value } : row))
+    );
+  };
+
+  const removeRow = (index: number) => {
+    setRows((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const addRow = () => {
+    setRows((prev) => [...prev, { term: "", misspellings: "" }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No terms yet. Add product names, people, or jargon that transcription
+          tends to get wrong.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_2fr_auto] gap-2 text-xs font-medium text-muted-foreground">
+            <span>Term</span>
+            <span>Heard as (comma-separated)</span>
+            <span className="w-8" />
+          </div>
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[1fr_2fr_auto] gap-2">
+              <Input
+                value={row.term}
+                onChange={(e) => updateRow(index, "term", e.target.value)}
+                placeholder="Ouno"
+                aria-label="Term"
+              />
+              <Input
+                value={row.misspellings}
+                onChange={(e) => updateRow(index, "misspellings", e.target.value)}
+                placeholder="uno, oh no"
+                aria-label="Misspellings"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-9 w-8 text-muted-foreground hover:text-destructive"
+                onClick={() => removeRow(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove term</span>
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={addRow}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Term
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => saveMutation.mutate(toGlossary(rows))}
+          disabled={saveMutation.isPending}
+        >
+          <Save className="h-4 w-4 mr-1" />
+          {saveMutation.isPending ? "Saving..." : "Save Glossary"}
+        </Button>
+      </div>
+    </div>
+  );
+}
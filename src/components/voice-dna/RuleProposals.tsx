@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Check, X } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { LearnedRuleProposal } from "@/types/voiceDNA";
+
+const RULE_PROPOSALS_QUERY_KEY = ["voice-dna", "rule-proposals"];
+
+function ProposalRow({
+  proposal,
+  disabled,
+  onDecide,
+}: {
+  proposal: LearnedRuleProposal;
+  disabled: boolean;
+  onDecide: (action: "confirm" | "dismiss") => void;
+}) {
+  return (
+    <div className="flex items-start justify-between gap-3 p-3 rounded-lg bg-muted/50">
+      <div className="flex items-start gap-3">
+        <Badge
+          variant={
+            proposal.type === "prefer"
+              ? "default"
+              : proposal.type === "avoid"
+                ? "destructive"
+                : "secondary"
+          }
+          className="mt-0.5"
+        >
+          {proposal.type}
+        </Badge>
+        <div>
+          <p className="text-sm">{proposal.content}</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Confidence: {Math.round(proposal.confidence * 100)}% • Seen in{" "}
+            {proposal.sourceCount} piece{proposal.sourceCount > 1 ? "s" : ""}
+          </p>
+          {proposal.examples.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+              From: {proposal.examples.map((e) => `“${e}”`).join(", ")}
+            </p>
+          )}
+        </div>
+      </div>
+      <div className="flex shrink-0 items-center gap-2">
+        {proposal.status === "pending" && (
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={disabled}
+            onClick={() => onDecide("dismiss")}
+          >
+            <X className="h-4 w-4 mr-1" />
+            Dismiss
+          </Button>
+        )}
+        {proposal.status !== "confirmed" && (
+          <Button
+            variant={proposal.status === "pending" ? "default" : "outline"}
+            size="sm"
+            disabled={disabled}
+            onClick={() => onDecide("confirm")}
+          >
+            <Check className="h-4 w-4 mr-1" />
+            Confirm
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * RuleProposals Component
+ *
+ * Review screen for the voice rules learned from the user's refinements and
+ * hand edits. Confirmed rules join the Voice DNA's learned preferences and
+ * shape future generations; dismissed ones stay out of it but can still be
+ * confirmed.
+ */
+export function RuleProposals() {
+  const queryClient = useQueryClient();
+  const [showDismissed, setShowDismissed] = useState(false);
+
+  const { data: proposals = [], isLoading } = useQuery({
+    queryKey: RULE_PROPOSALS_QUERY_KEY,
+    queryFn: async () => {
+      const response = await fetch("/api/voice-dna/rule-proposals");
+      if (!response.ok) {
+        throw new Error("Failed to fetch learned rules");
+      }
+      const data = (await response.json()) as { proposals: LearnedRuleProposal[] };
+      return data.proposals;
+    },
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "confirm" | "dismiss" }) => {
+      const response = await fetch(`/api/voice-dna/rule-proposals/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Failed to update rule");
+      }
+      return response.json() as Promise<{ proposal: LearnedRuleProposal }>;
+    },
+    onSuccess: ({ proposal }) => {
+      toast.success(
+        proposal.status === "confirmed" ? "Rule added to your Voice DNA" : "Rule dismissed"
+      );
+      // Confirmed rules show up among the profile's learned preferences
+      queryClient.invalidateQueries({ queryKey: ["voice-dna"] });
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to update rule");
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  const pending = proposals.filter((p) => p.status === "pending");
+  const dismissed = proposals.filter((p) => p.status === "dismissed");
+
+  if (pending.length === 0 && dismissed.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Nothing to review. Rules show up here as you refine and edit content,
+        from the instructions you give, the changes you accept and the words
+        you swap.
+      </p>
+    );
+  }
+
+  const renderRow = (proposal: LearnedRuleProposal) => (
+    <ProposalRow
+      key={proposal.id}
+      proposal={proposal}
+      disabled={decideMutation.isPending}
+      onDecide={(action) => decideMutation.mutate({ id: proposal.id, action })}
+    />
+  );
+
+  return (
+    <div className="space-y-3">
+      {pending.length > 0 ? (
+        pending.map(renderRow)
+      ) : (
+        <p className="text-sm text-muted-foreground">No new rules to review.</p>
+      )}
+      {dismissed.length > 0 && (
+        <>
+          <Button
+            variant="link"
+            size="sm"
+            className="px-0"
+            onClick={() => setShowDismissed((v) => !v)}
+          >
+            {showDismissed ? "Hide" : "Show"} {dismissed.length} dismissed
+          </Button>
+          {showDismissed && dismissed.map(renderRow)}
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,3 +5,5 @@ export {
   StrengthBadge,
 } from "./StrengthIndicator";
 export { CalibrationFlow } from "./CalibrationFlow";
+export { GlossaryEditor } from "./GlossaryEditor";
+export { AudioRetentionSetting } from "./AudioRetentionSetting";
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { History, Loader2, Play, Trash2, Upload } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { ChunkedUploader, abortChunkedUpload } from "@/lib/voice/chunkedUploader";
+import { formatDuration } from "@/lib/voice/recorder";
+import {
+  deleteRecording,
+  isRecordingStoreSupported,
+  listRecordings,
+  type StoredRecording,
+} from "@/lib/voice/recordingStore";
+import type { RecordingMode, UploadedAudio } from "@/types/voice";
+
+interface RecordingRecoveryProps {
+  mode: RecordingMode;
+  onResume: (recording: StoredRecording) => void;
+  onUploaded: (upload: UploadedAudio, recording: StoredRecording) => void;
+  className?: string;
+}
+
+/**
+ * RecordingRecovery Component
+ *
+ * Offers to resume or upload a recording that was left behind in local
+ * storage when the page crashed or was closed mid-recording.
+ */
+export function RecordingRecovery({ mode, onResume, onUploaded, className }: RecordingRecoveryProps) {
+  const [recording, setRecording] = useState<StoredRecording | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isRecordingStoreSupported()) return;
+
+    let cancelled = false;
+    listRecordings(mode)
+      .then(async (recordings) => {
+        // Recordings that never captured audio aren't worth offering
+        const empty = recordings.filter((r) => r.segments.every((s) => s.chunkCount === 0));
+        await Promise.all(empty.map((r) => deleteRecording(r.id)));
+
+        const orphan = recordings.find((r) => !empty.includes(r));
+        if (!cancelled) {
+          setRecording(orphan ?? null);
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to check for unfinished recordings:", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mode]);
+
+  if (!recording) {
+    return null;
+  }
+
+  const handleUpload = async () => {
+    setError(null);
+    setIsUploading(true);
+    try {
+      const upload = await new ChunkedUploader(recording.id).finish();
+      onUploaded(upload, recording);
+      setRecording(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload recording");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleResume = () => {
+    onResume(recording);
+    setRecording(null);
+  };
+
+  const handleDiscard = async () => {
+    if (!window.confirm("Discard this recording? It can't be recovered afterwards.")) {
+      return;
+    }
+    try {
+      await abortChunkedUpload(recording.id);
+    } catch (err) {
+      console.error("Failed to discard uploaded parts:", err);
+    }
+    await deleteRecording(recording.id);
+    setRecording(null);
+  };
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Unfinished recording found
+        </CardTitle>
+        <CardDescription>
+          {formatDuration(recording.durationSeconds)} recorded{" "}
+          {new Date(recording.updatedAt).toLocaleString()} didn&apos;t finish. Pick up where
+          you left off, or transcribe what was captured.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button onClick={handleResume} disabled={isUploading} className="flex-1 gap-2">
+            <Play className="h-4 w-4" />
+            Resume
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleUpload}
+            disabled={isUploading}
+            className="flex-1 gap-2"
+          >
+            {isUploading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4" />
+            )}
+            Upload
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={handleDiscard}
+            disabled={isUploading}
+            className="gap-2"
+          >
+            <Trash2 className="h-4 w-4" />
+            Discard
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { User, Users } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { SpeakerSummary } from "@/lib/transcription/speakers";
+import { cn } from "@/lib/utils";
+
+interface SpeakerSelectorProps {
+  speakers: SpeakerSummary[];
+  value: string | null;
+  onChange: (speaker: string) => void;
+  className?: string;
+}
+
+/**
+ * SpeakerSelector Component
+ *
+ * Lets the user mark which speaker in a multi-person recording is them,
+ * so only their words shape the Ouno Core.
+ */
+export function SpeakerSelector({ speakers, value, onChange, className }: SpeakerSelectorProps) {
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Which speaker are you?
+        </CardTitle>
+        <CardDescription>
+          We heard {speakers.length} voices. Only yours will be used to learn your style;
+          others can still be quoted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {speakers.map((speaker) => {
+          const selected = value === speaker.speaker;
+          return (
+            <button
+              key={speaker.speaker}
+              type="button"
+              onClick={() => onChange(speaker.speaker)}
+              className={cn(
+                "w-full text-left p-3 rounded-lg border transition-colors",
+                selected
+                  ? "border-primary bg-primary/5"
+                  : "border-border hover:bg-muted/50"
+              )}
+              aria-pressed={selected}
+            >
+              <div className="flex items-center justify-between text-sm font-medium">
+                <span className="flex items-center gap-2">
+                  <User className="h-4 w-4" />
+                  Speaker {speaker.speaker}
+                  {selected && <span className="text-primary">(me)</span>}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {speaker.wordCount} words · {speaker.speakingSeconds}s
+                </span>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+                &ldquo;{speaker.sample}&hellip;&rdquo;
+              </p>
+            </button>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
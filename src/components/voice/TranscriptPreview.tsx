@@ -4,12 +4,21 @@ import { useState } from "react";
 import { Copy, Check } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { isLowConfidence } from "@/lib/transcription/corrections";
 import { cn } from "@/lib/utils";
+import type { WordCorrection, WordTimestamp } from "@/types/voice";
 
 interface TranscriptPreviewProps {
   transcript: string;
   duration?: number; // seconds
   wordCount?: number;
+  /** When provided, low-confidence words are highlighted */
+  wordTimestamps?: WordTimestamp[];
+  /** When provided, highlighted words can be corrected inline */
+  onCorrectWord?: (correction: WordCorrection) => void;
+  /** A rough transcript of a recording in progress, not yet final */
+  live?: boolean;
   className?: string;
 }
 
@@ -17,14 +26,28 @@ interface TranscriptPreviewProps {
  * TranscriptPreview Component
  *
  * Displays a transcribed text with copy functionality and metadata.
+ * Low-confidence words are highlighted and can be corrected inline.
+ * Live transcripts are shown as provisional, without copy or corrections.
  */
 export function TranscriptPreview({
   transcript,
   duration,
   wordCount,
+  wordTimestamps,
+  onCorrectWord,
+  live = false,
   className,
 }: TranscriptPreviewProps) {
   const [copied, setCopied] = useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editValue, setEditValue] = useState("");
+
+  const hasWords = !!wordTimestamps && wordTimestamps.length > 0;
+  const lowConfidenceCount = wordTimestamps?.filter(isLowConfidence).length ?? 0;
+
+  // Show transcript tokens (with punctuation) when they line up with the words
+  const tokens = transcript.split(/\s+/).filter(Boolean);
+  const tokensAligned = hasWords && tokens.length === wordTimestamps.length;
 
   const calculatedWordCount = wordCount ?? transcript.split(/\s+/).filter(Boolean).length;
 
@@ -38,6 +61,20 @@ export function TranscriptPreview({
     }
   };
 
+  const startEditing = (index: number) => {
+    const word = wordTimestamps?.[index];
+    if (!word) return;
+    setEditingIndex(index);
+    setEditValue(word.word);
+  };
+
+  const commitEdit = () => {
+    if (editingIndex !== null && editValue.trim()) {
+      onCorrectWord?.({ index: editingIndex, word: editValue.trim() });
+    }
+    setEditingIndex(null);
+  };
+
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -47,25 +84,36 @@ export function TranscriptPreview({
   return (
     <Card className={cn("w-full", className)}>
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-        <CardTitle className="text-lg font-medium">Transcript</CardTitle>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={handleCopy}
-          className="gap-2"
-        >
-          {copied ? (
-            <>
-              <Check className="h-4 w-4" />
-              Copied
-            </>
+        <CardTitle className="text-lg font-medium">
+          {live ? (
+            <span className="flex items-center gap-2">
+              <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+              Live transcript
+            </span>
           ) : (
-            <>
-              <Copy className="h-4 w-4" />
-              Copy
-            </>
+            "Transcript"
           )}
-        </Button>
+        </CardTitle>
+        {!live && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleCopy}
+            className="gap-2"
+          >
+            {copied ? (
+              <>
+                <Check className="h-4 w-4" />
+                Copied
+              </>
+            ) : (
+              <>
+                <Copy className="h-4 w-4" />
+                Copy
+              </>
+            )}
+          </Button>
+        )}
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Metadata */}
@@ -74,17 +122,79 @@ export function TranscriptPreview({
             <span>Duration: {formatDuration(duration)}</span>
           )}
           <span>{calculatedWordCount} words</span>
+          {live && <span>Final transcript follows when you stop</span>}
+          {lowConfidenceCount > 0 && (
+            <span className="text-amber-600 dark:text-amber-400">
+              {lowConfidenceCount} to review
+            </span>
+          )}
         </div>
 
         {/* Transcript Text */}
-        <div className="p-4 bg-muted rounded-lg">
-          <p className="text-sm leading-relaxed whitespace-pre-wrap">
-            {transcript || (
-              <span className="text-muted-foreground italic">
-                No transcript available
-              </span>
-            )}
-          </p>
+        <div className={cn("p-4 bg-muted rounded-lg", live && "max-h-48 overflow-y-auto text-muted-foreground")}>
+          {hasWords ? (
+            <p className="text-sm leading-relaxed">
+              {wordTimestamps.map((word, index) => {
+                const display = tokensAligned ? tokens[index] : word.word;
+
+                if (editingIndex === index) {
+                  return (
+                    <Input
+                      key={index}
+                      autoFocus
+                      value={editValue}
+                      // Corrections replace exactly one word
+                      onChange={(e) => setEditValue(e.target.value.replace(/\s/g, ""))}
+                      onBlur={commitEdit}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitEdit();
+                        if (e.key === "Escape") setEditingIndex(null);
+                      }}
+                      className="inline-flex h-6 w-32 px-1 py-0 text-sm align-baseline"
+                      aria-label="Correct word"
+                    />
+                  );
+                }
+
+                if (!isLowConfidence(word)) {
+                  return <span key={index}>{display} </span>;
+                }
+
+                const highlightClass =
+                  "rounded-sm bg-amber-500/15 underline decoration-amber-500 decoration-wavy underline-offset-4";
+
+                return (
+                  <span key={index}>
+                    {onCorrectWord ? (
+                      <button
+                        type="button"
+                        onClick={() => startEditing(index)}
+                        className={cn(highlightClass, "cursor-text hover:bg-amber-500/25")}
+                        title={`Low confidence (${Math.round(word.confidence * 100)}%) - click to correct`}
+                      >
+                        {display}
+                      </button>
+                    ) : (
+                      <span
+                        className={highlightClass}
+                        title={`Low confidence (${Math.round(word.confidence * 100)}%)`}
+                      >
+                        {display}
+                      </span>
+                    )}{" "}
+                  </span>
+                );
+              })}
+            </p>
+          ) : (
+            <p className="text-sm leading-relaxed whitespace-pre-wrap">
+              {transcript || (
+                <span className="text-muted-foreground italic">
+                  No transcript available
+                </span>
+              )}
+            </p>
+          )}
         </div>
       </CardContent>
     </Card>
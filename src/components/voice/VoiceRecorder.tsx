@@ -5,11 +5,22 @@ import { AlertCircle, X } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChunkedUploader, abortChunkedUpload } from "@/lib/voice/chunkedUploader";
+import { LiveTranscriber } from "@/lib/voice/liveTranscriber";
 import { VoiceRecorder as Recorder, isRecordingSupported } from "@/lib/voice/recorder";
 import type { RecorderStatus } from "@/lib/voice/recorder";
-import type { RecordingMode } from "@/types/voice";
+import {
+  appendChunk,
+  createRecording,
+  deleteRecording,
+  isRecordingStoreSupported,
+  startSegment,
+  type StoredRecording,
+} from "@/lib/voice/recordingStore";
+import type { LiveTranscript, RecordingMode, UploadedAudio } from "@/types/voice";
 import { AudioVisualizer } from "./AudioVisualizer";
 import { RecordingControls } from "./RecordingControls";
+import { TranscriptPreview } from "./TranscriptPreview";
 
 // Client-side only check using useSyncExternalStore (hydration-safe)
 const emptySubscribe = () => () => {};
@@ -25,7 +36,15 @@ interface VoiceRecorderProps {
   mode: RecordingMode;
   maxDuration: number; // seconds
   prompt?: string;
-  onComplete: (audioBlob: Blob, duration: number) => void;
+  // Persist chunks to IndexedDB and upload them in the background
+  resumable?: boolean;
+  // Continue a recovered recording instead of starting a new one
+  resumeFrom?: StoredRecording | null;
+  // Show a rough transcript while recording (replaced by the full transcription)
+  liveTranscription?: boolean;
+  onLiveTranscript?: (transcript: LiveTranscript) => void;
+  // upload is set when the recording was already uploaded in parts (resumable mode)
+  onComplete: (audioBlob: Blob, duration: number, upload?: UploadedAudio) => void;
   onCancel: () => void;
 }
 
@@ -34,25 +53,43 @@ interface VoiceRecorderProps {
  *
  * Main voice recording component that combines the visualizer and controls.
  * Handles the full recording lifecycle including duration limits.
+ * In resumable mode, audio survives tab crashes and is uploaded while recording.
+ * With liveTranscription, a rough transcript is shown as the user speaks.
  */
 export function VoiceRecorder({
   mode,
   maxDuration,
   prompt,
+  resumable = false,
+  resumeFrom = null,
+  liveTranscription = false,
+  onLiveTranscript,
   onComplete,
   onCancel,
 }: VoiceRecorderProps) {
+  const initialDuration = resumeFrom?.durationSeconds ?? 0;
   const [status, setStatus] = useState<RecorderStatus | "processing">("idle");
   const [audioLevel, setAudioLevel] = useState(0);
-  const [duration, setDuration] = useState(0);
+  const [duration, setDuration] = useState(initialDuration);
   const [error, setError] = useState<string | null>(null);
+  const [liveTranscript, setLiveTranscript] = useState<LiveTranscript | null>(null);
 
   const recorderRef = useRef<Recorder | null>(null);
   const durationIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const startTimeRef = useRef<number>(0);
-  const pausedDurationRef = useRef<number>(0);
+  const pausedDurationRef = useRef<number>(initialDuration);
+  const durationRef = useRef<number>(initialDuration);
   const onStopRef = useRef<(() => void) | null>(null);
 
+  // Local persistence (resumable mode). Writes are chained so chunks land in order.
+  const persistingRef = useRef(false);
+  const persistenceRef = useRef<{ recordingId: string; segment: number } | null>(null);
+  const persistChainRef = useRef<Promise<void>>(Promise.resolve());
+  const uploaderRef = useRef<ChunkedUploader | null>(null);
+
+  const liveTranscriberRef = useRef<LiveTranscriber | null>(null);
+  const onLiveTranscriptRef = useRef(onLiveTranscript);
+
   // Hydration-safe mounted check
   const mounted = useIsMounted();
 
@@ -72,6 +109,7 @@ export function VoiceRecorder({
     durationIntervalRef.current = setInterval(() => {
       const elapsed = (Date.now() - startTimeRef.current) / 1000;
       const totalDuration = pausedDurationRef.current + elapsed;
+      durationRef.current = totalDuration;
       setDuration(totalDuration);
 
       // Auto-stop at max duration using ref to avoid stale closure
@@ -99,9 +137,24 @@ export function VoiceRecorder({
         setError(err.message);
         setStatus("idle");
       },
+      onChunk: (chunk) => {
+        if (!persistingRef.current) return;
+
+        persistChainRef.current = persistChainRef.current
+          .then(async () => {
+            const persistence = persistenceRef.current;
+            if (!persistence) return;
+            await appendChunk(persistence.recordingId, persistence.segment, chunk, durationRef.current);
+            uploaderRef.current?.schedule();
+          })
+          .catch((err) => {
+            console.error("Failed to persist recording chunk:", err);
+          });
+      },
     });
 
     return () => {
+      liveTranscriberRef.current?.stop();
       recorderRef.current?.destroy();
       if (durationIntervalRef.current) {
         clearInterval(durationIntervalRef.current);
@@ -109,11 +162,65 @@ export function VoiceRecorder({
     };
   }, [isSupported]);
 
+  // Create (or reopen) the stored recording and begin a new segment in it
+  const startPersistence = async (mimeType: string) => {
+    const recordingId = resumeFrom?.id ?? crypto.randomUUID();
+    if (!resumeFrom) {
+      await createRecording({ id: recordingId, mode, prompt, mimeType });
+    }
+    const segment = await startSegment(recordingId);
+    persistenceRef.current = { recordingId, segment };
+    uploaderRef.current = new ChunkedUploader(recordingId);
+  };
+
+  // Keep ref up to date for the live transcript callback
+  useEffect(() => {
+    onLiveTranscriptRef.current = onLiveTranscript;
+  }, [onLiveTranscript]);
+
+  // The preview is optional - if it can't start, recording carries on without it
+  const startLiveTranscription = (recorder: Recorder) => {
+    const stream = recorder.getStream();
+    if (!stream) return;
+
+    const transcriber = new LiveTranscriber({
+      onTranscript: (transcript) => {
+        setLiveTranscript(transcript);
+        onLiveTranscriptRef.current?.(transcript);
+      },
+      getOffset: () => durationRef.current,
+    });
+    liveTranscriberRef.current = transcriber;
+    transcriber.start(stream, recorder.getMimeType()).catch((err) => {
+      console.error("Failed to start live transcription:", err);
+      transcriber.stop();
+      liveTranscriberRef.current = null;
+    });
+  };
+
   // Recording controls
   const handleStart = async () => {
     try {
       setError(null);
       await recorderRef.current?.start();
+
+      if (resumable && isRecordingStoreSupported() && recorderRef.current) {
+        persistingRef.current = true;
+        persistChainRef.current = startPersistence(recorderRef.current.getMimeType()).catch(
+          (err) => {
+            // Fall back to an in-memory recording
+            console.error("Failed to persist recording:", err);
+            persistingRef.current = false;
+            persistenceRef.current = null;
+            uploaderRef.current = null;
+          }
+        );
+      }
+
+      if (liveTranscription && recorderRef.current) {
+        startLiveTranscription(recorderRef.current);
+      }
+
       startDurationTracking();
     } catch {
       setError("Failed to start recording. Please check microphone permissions.");
@@ -122,23 +229,42 @@ export function VoiceRecorder({
 
   const handlePause = () => {
     recorderRef.current?.pause();
+    liveTranscriberRef.current?.pause();
     pausedDurationRef.current = duration;
     stopDurationTracking();
   };
 
   const handleResume = () => {
     recorderRef.current?.resume();
+    liveTranscriberRef.current?.resume();
     startDurationTracking();
   };
 
   const handleStop = useCallback(async () => {
     stopDurationTracking();
     setStatus("processing");
+    liveTranscriberRef.current?.stop();
+    liveTranscriberRef.current = null;
 
     try {
       const audioBlob = await recorderRef.current?.stop();
       if (audioBlob && audioBlob.size > 0) {
-        onComplete(audioBlob, duration);
+        // Let the final chunks reach the store, then send whatever hasn't been uploaded
+        await persistChainRef.current;
+        const uploader = uploaderRef.current;
+        if (!uploader) {
+          onComplete(audioBlob, duration);
+          return;
+        }
+
+        try {
+          onComplete(audioBlob, duration, await uploader.finish());
+        } catch {
+          setError(
+            "Upload failed. Your recording is saved on this device - reload the page to recover it."
+          );
+          setStatus("idle");
+        }
       } else {
         setError("No audio was recorded. Please try again.");
         setStatus("idle");
@@ -155,6 +281,22 @@ export function VoiceRecorder({
   }, [handleStop]);
 
   const handleCancel = () => {
+    // Cancelling discards the recording, unlike leaving the page
+    const persistence = persistenceRef.current;
+    const uploader = uploaderRef.current;
+    if (persistence) {
+      persistChainRef.current
+        .then(() =>
+          (uploader?.abort() ?? abortChunkedUpload(persistence.recordingId)).catch((err) =>
+            console.error("Failed to discard uploaded parts:", err)
+          )
+        )
+        .then(() => deleteRecording(persistence.recordingId))
+        .catch((err) => console.error("Failed to discard recording:", err));
+    }
+
+    liveTranscriberRef.current?.stop();
+    liveTranscriberRef.current = null;
     recorderRef.current?.destroy();
     stopDurationTracking();
     onCancel();
@@ -251,6 +393,16 @@ export function VoiceRecorder({
           onResume={handleResume}
           onStop={handleStop}
         />
+
+        {/* Live Transcript */}
+        {liveTranscription && liveTranscript?.transcript && (
+          <TranscriptPreview
+            transcript={liveTranscript.transcript}
+            duration={liveTranscript.durationSeconds}
+            wordCount={liveTranscript.wordTimestamps.length}
+            live
+          />
+        )}
       </CardContent>
     </Card>
   );
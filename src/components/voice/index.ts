@@ -6,3 +6,5 @@ export { VoiceRecorder } from "./VoiceRecorder";
 export { AudioVisualizer } from "./AudioVisualizer";
 export { RecordingControls } from "./RecordingControls";
 export { TranscriptPreview } from "./TranscriptPreview";
+export { SpeakerSelector } from "./SpeakerSelector";
+export { RecordingRecovery } from "./RecordingRecovery";
@@ -0,0 +1,24 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { CustomTemplate } from "@/types/content";
+
+export const CUSTOM_TEMPLATES_QUERY_KEY = ["content-templates"];
+
+/**
+ * The user's own content templates, shared by the template picker and the
+ * settings page that manages them.
+ */
+export function useCustomTemplates() {
+  return useQuery({
+    queryKey: CUSTOM_TEMPLATES_QUERY_KEY,
+    queryFn: async () => {
+      const response = await fetch("/api/templates");
+      if (!response.ok) {
+        throw new Error("Failed to fetch templates");
+      }
+      const result = await response.json();
+      return result.templates as CustomTemplate[];
+    },
+  });
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { SessionEvent } from "@/types/session";
+
+const EVENT_TYPES: SessionEvent["type"][] = [
+  "status",
+  "transcription_progress",
+  "analysis_complete",
+  "questions_ready",
+  "generation_delta",
+  "generation_complete",
+];
+
+/**
+ * Client-side hook that listens to a session's live events
+ * (/api/session/[id]/events). EventSource reconnects on its own after a
+ * dropped connection; each reconnect opens with the current status.
+ */
+export function useSessionEvents(
+  sessionId: string | null,
+  onEvent: (event: SessionEvent) => void
+) {
+  // Latest handler, so re-renders don't reopen the stream
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const events = new EventSource(`/api/session/${sessionId}/events`);
+    for (const type of EVENT_TYPES) {
+      events.addEventListener(type, (message) => {
+        const data = JSON.parse((message as MessageEvent<string>).data);
+        onEventRef.current({ type, ...data } as SessionEvent);
+      });
+    }
+
+    return () => events.close();
+  }, [sessionId]);
+}
@@ -8,6 +8,7 @@
 import { randomUUID } from "crypto";
 import { openrouter } from "@openrouter/ai-sdk-provider";
 import { generateText } from "ai";
+import { getLanguageName } from "@/lib/languages";
 import type { EnthusiasmAnalysis, FollowUpQuestion } from "@/types/session";
 
 const MODEL = process.env.OPENROUTER_MODEL || "anthropic/claude-sonnet-4";
@@ -41,7 +42,8 @@ For each question, also provide:
 function buildUserPrompt(
   transcript: string,
   enthusiasmAnalysis: EnthusiasmAnalysis | null,
-  mode: "quick" | "guided"
+  mode: "quick" | "guided",
+  language: string | null
 ): string {
   const peakMomentsText =
     enthusiasmAnalysis?.peakMoments
@@ -58,6 +60,9 @@ function buildUserPrompt(
       .join("\n") || "No high-energy segments detected";
 
   const questionCount = mode === "quick" ? "2-3" : "3-4";
+  const languageNote = language
+    ? `\nAsk the questions in ${getLanguageName(language)}, the language they spoke. Keep the JSON keys and questionType values in English.\n`
+    : "";
 
   return `TRANSCRIPT:
 """
@@ -73,7 +78,7 @@ ${highEnergySegments}
 OVERALL ENERGY: ${((enthusiasmAnalysis?.overallEnergy || 0.5) * 100).toFixed(0)}%
 
 Generate ${questionCount} follow-up questions to draw out more valuable content.
-
+${languageNote}
 Return ONLY a JSON array with this structure:
 [
   {
@@ -87,11 +92,14 @@ Return ONLY a JSON array with this structure:
 
 /**
  * Generate follow-up questions based on transcript and enthusiasm analysis
+ *
+ * @param language - ISO-639-1 code the session was spoken in, if detected
  */
 export async function generateFollowUpQuestions(
   transcript: string,
   enthusiasmAnalysis: EnthusiasmAnalysis | null,
-  mode: "quick" | "guided" = "guided"
+  mode: "quick" | "guided" = "guided",
+  language: string | null = null
 ): Promise<FollowUpQuestion[]> {
   if (!transcript || transcript.trim().length < 30) {
     // Return a default question for very short transcripts
@@ -110,7 +118,7 @@ export async function generateFollowUpQuestions(
     const { text } = await generateText({
       model: openrouter(MODEL),
       system: FOLLOW_UP_SYSTEM_PROMPT,
-      prompt: buildUserPrompt(transcript, enthusiasmAnalysis, mode),
+      prompt: buildUserPrompt(transcript, enthusiasmAnalysis, mode, language),
       maxOutputTokens: 1000,
       temperature: 0.7, // Slightly creative for varied questions
     });
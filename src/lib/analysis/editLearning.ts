@@ -0,0 +1,363 @@
+/**
+ * Edit Learning
+ *
+ * When a user rewrites a generated draft by hand, the difference between the
+ * draft and what they saved is their voice with nothing in between. Each save
+ * is diffed word by word against the draft as generated (not the previous
+ * save, so undone edits drop out) for the words and phrases they swap, and
+ * compared for sentence length, paragraph length and how the piece opens and
+ * closes. What it shows is recorded as rule proposals like any refinement
+ * (see ruleLearning.ts). A change of style that comes up in more than one
+ * piece, or that the user confirmed, also moves the Voice DNA's
+ * writtenPatterns. Runs as the learn_from_edits job (see lib/jobs).
+ */
+
+import { openrouter } from "@openrouter/ai-sdk-provider";
+import { generateText } from "ai";
+import { eq } from "drizzle-orm";
+import { diffContent } from "@/lib/content/diff";
+import { findOriginalVersion } from "@/lib/content/versions";
+import { db } from "@/lib/db";
+import { generatedContent } from "@/lib/schema";
+import type { LearnFromEditsJobPayload, LearnFromEditsJobResult } from "@/types/job";
+import type { WrittenPatterns } from "@/types/voiceDNA";
+import { recordRuleCandidates, reportRules, ruleKey, type RuleCandidate } from "./ruleLearning";
+import { adjustWrittenPatterns } from "./voiceDNABuilder";
+import { analyzeParagraphStructure } from "./writingSampleAnalyzer";
+
+const MODEL = process.env.OPENROUTER_MODEL || "anthropic/claude-sonnet-4";
+
+type OpeningStyle = WrittenPatterns["openingStyle"];
+type ClosingStyle = WrittenPatterns["closingStyle"];
+
+export interface Substitution {
+  from: string;
+  to: string;
+  count: number; // Times the edit made it
+}
+
+// Substitutions turned into rules from a single edit
+const MAX_SUBSTITUTIONS = 5;
+
+// Longest phrase, in words, on either side of a substitution
+const MAX_PHRASE_WORDS = 3;
+
+// Sentences each side needs before their average length is compared
+const MIN_SENTENCES = 3;
+
+// Change in average sentence length that counts as a preference
+const SENTENCE_LENGTH_CHANGE = 0.2;
+
+// Pieces a change of style must come up in before writtenPatterns follow it
+const MIN_PIECES_TO_ADJUST = 2;
+
+// Longest excerpt of an opening or closing shown to the model
+const PASSAGE_EXCERPT_LENGTH = 600;
+
+const OPENING_STYLES: OpeningStyle[] = ["hook", "context", "question", "story"];
+const CLOSING_STYLES: ClosingStyle[] = ["cta", "summary", "question", "reflection"];
+
+const OPENING_RULES: Record<OpeningStyle, string> = {
+  hook: "Open with a hook",
+  context: "Open by setting the context",
+  question: "Open with a question",
+  story: "Open with a story",
+};
+
+const CLOSING_RULES: Record<ClosingStyle, string> = {
+  cta: "Close with a call to action",
+  summary: "Close with a summary",
+  question: "Close with a question",
+  reflection: "Close with a reflection",
+};
+
+const PARAGRAPH_RULES: Record<WrittenPatterns["paragraphLength"], string> = {
+  short: "Keep paragraphs short",
+  medium: "Keep paragraphs medium-length",
+  long: "Write long, developed paragraphs",
+};
+
+const STYLE_SYSTEM_PROMPT = `You classify how pieces of writing open and close.
+
+Openings are one of:
+- "hook": a bold claim, surprising fact or striking line
+- "context": sets up the topic or situation
+- "question": asks the reader something
+- "story": starts with an anecdote
+
+Closings are one of:
+- "cta": asks the reader to do something
+- "summary": sums up the main points
+- "question": leaves the reader with a question
+- "reflection": a personal thought or takeaway
+
+Respond with ONLY a JSON object giving the style of each passage, keyed by its label, e.g. {"opening_before": "context", "opening_after": "question"}.`;
+
+// Trim surrounding punctuation and spacing, so "leverage," matches "leverage"
+function normalizePhrase(text: string): string {
+  return text
+    .trim()
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "")
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] as number) + 1,
+        (current[j - 1] as number) + 1,
+        (previous[j - 1] as number) + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] as number;
+}
+
+// Typo and grammar fixes ("teh" → "the", "its" → "it's") say nothing about voice
+function isSpellingFix(from: string, to: string): boolean {
+  return !from.includes(" ") && !to.includes(" ") && editDistance(from, to) <= 2;
+}
+
+/**
+ * Words and short phrases an edit replaced, most frequent first. Numbers,
+ * spelling fixes and rewrites longer than a few words are left out; they
+ * belong to the piece rather than the voice.
+ */
+export function extractSubstitutions(before: string, after: string): Substitution[] {
+  const found = new Map<string, Substitution>();
+
+  for (const paragraph of diffContent(before, after).paragraphs) {
+    const words = paragraph.words ?? [];
+    for (let k = 0; k + 1 < words.length; k++) {
+      const first = words[k];
+      const second = words[k + 1];
+      if (!first || !second || first.op === "equal" || second.op === "equal") {
+        continue;
+      }
+      k++;
+
+      const from = normalizePhrase(first.op === "delete" ? first.text : second.text);
+      const to = normalizePhrase(first.op === "delete" ? second.text : first.text);
+      if (
+        !from ||
+        !to ||
+        from === to ||
+        countWords(from) > MAX_PHRASE_WORDS ||
+        countWords(to) > MAX_PHRASE_WORDS ||
+        /\d/.test(from + to) ||
+        isSpellingFix(from, to)
+      ) {
+        continue;
+      }
+
+      const key = `${from}\n${to}`;
+      const existing = found.get(key);
+      if (existing) existing.count++;
+      else found.set(key, { from, to, count: 1 });
+    }
+  }
+
+  return [...found.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Average words per sentence across some passages
+ */
+function sentenceLength(passages: string[]): { average: number; sentences: number } {
+  const sentences = passages
+    .join(" ")
+    .split(/[.!?]+/)
+    .filter((s) => s.trim().length > 0);
+  const words = sentences.reduce((sum, s) => sum + countWords(s), 0);
+  return { average: sentences.length > 0 ? words / sentences.length : 0, sentences: sentences.length };
+}
+
+/**
+ * Whether the text the user wrote has shorter or longer sentences than the
+ * text they replaced
+ */
+export function sentenceLengthShift(before: string, after: string): "shorter" | "longer" | null {
+  const edited = diffContent(before, after).paragraphs.filter((p) => p.op !== "equal");
+  const was = sentenceLength(edited.map((p) => p.before ?? ""));
+  const now = sentenceLength(edited.map((p) => p.after ?? ""));
+
+  if (was.sentences < MIN_SENTENCES || now.sentences < MIN_SENTENCES) {
+    return null;
+  }
+
+  const change = (now.average - was.average) / was.average;
+  if (Math.abs(change) < SENTENCE_LENGTH_CHANGE) {
+    return null;
+  }
+  return change < 0 ? "shorter" : "longer";
+}
+
+// Paragraphs other than headings, which openings and closings are read from
+function bodyParagraphs(content: string): string[] {
+  return content
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter((p) => p && !p.startsWith("#"));
+}
+
+/**
+ * Ask the model how the piece opened and closed before and after the edit,
+ * for whichever of the two the edit changed
+ */
+async function classifyEnds(
+  before: string,
+  after: string
+): Promise<{ opening?: [OpeningStyle, OpeningStyle]; closing?: [ClosingStyle, ClosingStyle] }> {
+  const was = bodyParagraphs(before);
+  const now = bodyParagraphs(after);
+  const excerpt = (text: string) =>
+    text.length > PASSAGE_EXCERPT_LENGTH ? `${text.slice(0, PASSAGE_EXCERPT_LENGTH)}...` : text;
+
+  const passages: Record<string, string> = {};
+  if (was[0] && now[0] && was[0] !== now[0]) {
+    passages.opening_before = was[0];
+    passages.opening_after = now[0];
+  }
+  const wasLast = was.length > 1 ? was[was.length - 1] : undefined;
+  const nowLast = now.length > 1 ? now[now.length - 1] : undefined;
+  if (wasLast && nowLast && wasLast !== nowLast) {
+    passages.closing_before = wasLast;
+    passages.closing_after = nowLast;
+  }
+
+  if (Object.keys(passages).length === 0) {
+    return {};
+  }
+
+  const { text } = await generateText({
+    model: openrouter(MODEL),
+    system: STYLE_SYSTEM_PROMPT,
+    prompt: Object.entries(passages)
+      .map(([label, passage]) => `## ${label}\n${excerpt(passage)}`)
+      .join("\n\n"),
+    maxOutputTokens: 100,
+    temperature: 0,
+  });
+
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    console.error("Failed to extract opening and closing styles from response:", text);
+    return {};
+  }
+
+  const styles = JSON.parse(jsonMatch[0]) as Record<string, unknown>;
+  const pick = <T extends string>(allowed: T[], key: string) =>
+    allowed.find((style) => style === styles[key]);
+
+  const result: Awaited<ReturnType<typeof classifyEnds>> = {};
+  const openedWith = pick(OPENING_STYLES, "opening_before");
+  const opensWith = pick(OPENING_STYLES, "opening_after");
+  if (openedWith && opensWith) {
+    result.opening = [openedWith, opensWith];
+  }
+  const closedWith = pick(CLOSING_STYLES, "closing_before");
+  const closesWith = pick(CLOSING_STYLES, "closing_after");
+  if (closedWith && closesWith) {
+    result.closing = [closedWith, closesWith];
+  }
+  return result;
+}
+
+/**
+ * Learn from a hand edit of a draft: record the preferences it shows and
+ * adjust the written patterns where a change of style keeps coming up
+ *
+ * @returns null if the edited content no longer exists
+ */
+export async function learnFromEdits(
+  payload: LearnFromEditsJobPayload,
+  userId: string
+): Promise<LearnFromEditsJobResult | null> {
+  const [content] = await db
+    .select()
+    .from(generatedContent)
+    .where(eq(generatedContent.id, payload.contentId))
+    .limit(1);
+
+  if (!content) {
+    return null;
+  }
+
+  const { before, after } = payload;
+  if (before.trim() === after.trim()) {
+    return { rules: [], writtenPatterns: {} };
+  }
+
+  const candidates: RuleCandidate[] = extractSubstitutions(before, after)
+    .slice(0, MAX_SUBSTITUTIONS)
+    .map(({ from, to }) => ({ type: "prefer", content: `Say "${to}" instead of "${from}"` }));
+
+  const shift = sentenceLengthShift(before, after);
+  if (shift) {
+    candidates.push({
+      type: "adjust",
+      content: shift === "shorter" ? "Write shorter sentences" : "Write longer sentences",
+    });
+  }
+
+  // Style changes, with the written pattern each would move
+  const styleChanges: Array<{ candidate: RuleCandidate; adjustment: Partial<WrittenPatterns> }> = [];
+
+  const paragraphsWere = analyzeParagraphStructure(before);
+  const paragraphsAre = analyzeParagraphStructure(after);
+  if (paragraphsWere !== paragraphsAre) {
+    styleChanges.push({
+      candidate: { type: "adjust", content: PARAGRAPH_RULES[paragraphsAre] },
+      adjustment: { paragraphLength: paragraphsAre },
+    });
+  }
+
+  const { opening, closing } = await classifyEnds(before, after);
+  if (opening && opening[0] !== opening[1]) {
+    styleChanges.push({
+      candidate: { type: "adjust", content: OPENING_RULES[opening[1]] },
+      adjustment: { openingStyle: opening[1] },
+    });
+  }
+  if (closing && closing[0] !== closing[1]) {
+    styleChanges.push({
+      candidate: { type: "adjust", content: CLOSING_RULES[closing[1]] },
+      adjustment: { closingStyle: closing[1] },
+    });
+  }
+
+  // Every version of a piece counts as the same piece
+  const original = await findOriginalVersion(content);
+  const recorded = await recordRuleCandidates(
+    userId,
+    original.id,
+    [...candidates, ...styleChanges.map((c) => c.candidate)],
+    `Edited: ${content.title}`
+  );
+
+  let adjustments: Partial<WrittenPatterns> = {};
+  for (const { candidate, adjustment } of styleChanges) {
+    const proposal = recorded.find((p) => ruleKey(p) === ruleKey(candidate));
+    if (
+      proposal &&
+      (proposal.status === "confirmed" ||
+        (proposal.status === "pending" && proposal.pieceIds.length >= MIN_PIECES_TO_ADJUST))
+    ) {
+      adjustments = { ...adjustments, ...adjustment };
+    }
+  }
+
+  const writtenPatterns = await adjustWrittenPatterns(userId, adjustments);
+
+  return { rules: reportRules(recorded), writtenPatterns };
+}
@@ -5,10 +5,24 @@
  * where the speaker shows excitement about topics.
  *
  * Detection signals:
- * - Pace increase (words per second > 3.0)
+ * - Pace increase (faster than the speaker's usual pace)
  * - Dense speech patterns (minimal pauses)
- * - Emphasis words (really, absolutely, incredible, etc.)
+ * - Emphasis words (really, absolutely, incredible, etc. in the session's language)
  * - Word repetition (consecutive repetition of words)
+ *
+ * Pace and density are skipped for words whose timings were estimated rather
+ * than measured (diarized transcriptions), since they carry no real tempo.
+ *
+ * When acoustic features are available (see lib/audio/acousticFeatures.ts):
+ * - Volume increase (louder than the speaker's typical level)
+ * - Pitch variation (animated intonation rather than monotone)
+ * - Short pauses (little silence between phrases)
+ *
+ * Peaks are relative to how the speaker normally talks. With a baseline from
+ * their Voice DNA profile, "fast" means a standard deviation above their
+ * usual pace and the high-energy cut-off leans toward their usual energy, so
+ * a naturally quick or animated speaker isn't excited all the time. Without
+ * enough history the global pace thresholds below apply.
  */
 
 import type {
@@ -16,44 +30,60 @@ import type {
   EnthusiasmSegment,
   PeakMoment,
 } from "@/types/session";
-import type { WordTimestamp } from "@/types/voice";
-
-// Words that indicate emphasis/excitement when used
-const EMPHASIS_WORDS = new Set([
-  "really",
-  "absolutely",
-  "incredible",
-  "amazing",
-  "crucial",
-  "essential",
-  "love",
-  "hate",
-  "brilliant",
-  "terrible",
-  "fantastic",
-  "definitely",
-  "exactly",
-  "totally",
-  "completely",
-  "actually",
-  "seriously",
-  "literally",
-  "honestly",
-  "huge",
-  "massive",
-  "critical",
-  "vital",
-  "important",
-  "fascinating",
-  "exciting",
-  "passionate",
-]);
+import type { AcousticFeatures, WordTimestamp } from "@/types/voice";
+import type { PaceBaseline } from "@/types/voiceDNA";
+import { getEmphasisWords, normalizeWord } from "./lexicons";
 
 // Threshold constants
-const EXCITED_PACE_THRESHOLD = 3.0; // words per second
+const EXCITED_PACE_THRESHOLD = 3.0; // words per second, without a baseline
 const THOUGHTFUL_PACE_THRESHOLD = 2.0;
 const MIN_SEGMENT_DURATION = 2.0; // seconds
 const SEGMENT_WINDOW_SIZE = 5; // words to analyze together
+const MIN_HIGH_ENERGY = 0.3;
+
+// Speaker baseline thresholds
+const MIN_BASELINE_SEGMENTS = 20; // measured segments before a baseline is trusted
+const EXCITED_PACE_DEVIATIONS = 1; // std devs above the speaker's mean pace
+const MIN_PACE_STD_DEV = 0.3; // words per second, so a steady speaker isn't hair-trigger
+
+// Acoustic thresholds
+const VOLUME_INCREASE_DB = 3; // above the speaker's median speech level
+const MONOTONE_PITCH_SEMITONES = 1.5; // pitch std dev of flat delivery
+const ANIMATED_PITCH_SEMITONES = 3;
+const PAUSE_DROP_DB = 15; // frames this far below speech level are silence
+const MIN_PAUSE_DURATION = 0.25; // seconds
+const SHORT_PAUSE_RATIO = 0.1;
+const MIN_VOICED_FRAMES = 3;
+const AUDIBLE_FLOOR_DB = -60; // quieter frames are ignored for the speech level
+
+interface SegmentAcoustics {
+  loudnessLift: number; // dB relative to the speaker's median speech level
+  pitchVariation: number; // std dev of voiced pitch, in semitones
+  pauseRatio: number; // share of the segment spent in pauses
+}
+
+/**
+ * How a speaker normally talks, from their Voice DNA profile
+ */
+export interface EnthusiasmBaseline {
+  pace: PaceBaseline;
+  energy: number; // typical overall energy, 0-1
+}
+
+export interface EnthusiasmOptions {
+  baseline?: EnthusiasmBaseline | null; // The speaker's usual pace and energy, if known
+  language?: string | null; // ISO-639-1 code of the transcript, for emphasis words
+}
+
+interface PaceThresholds {
+  excited: number; // words per second
+  thoughtful: number;
+}
+
+interface AcousticContext {
+  features: AcousticFeatures;
+  speechLevel: number; // median loudness of non-silent frames, dBFS
+}
 
 interface SegmentAnalysis {
   startTime: number;
@@ -62,6 +92,8 @@ interface SegmentAnalysis {
   wordsPerSecond: number;
   emphasisCount: number;
   repetitionCount: number;
+  timingEstimated: boolean;
+  acoustics: SegmentAcoustics | null;
   text: string;
 }
 
@@ -78,13 +110,30 @@ function calculatePace(words: WordTimestamp[]): number {
   return words.length / duration;
 }
 
+/**
+ * Pace thresholds for a speaker: their mean pace counts as thoughtful and a
+ * standard deviation above it as excited
+ */
+function getPaceThresholds(baseline: EnthusiasmBaseline | null): PaceThresholds {
+  if (!baseline || baseline.pace.sampleCount < MIN_BASELINE_SEGMENTS) {
+    return { excited: EXCITED_PACE_THRESHOLD, thoughtful: THOUGHTFUL_PACE_THRESHOLD };
+  }
+
+  const { mean, stdDev } = baseline.pace;
+  return {
+    excited: mean + Math.max(stdDev, MIN_PACE_STD_DEV) * EXCITED_PACE_DEVIATIONS,
+    thoughtful: mean,
+  };
+}
+
 /**
  * Count emphasis words in a segment
  */
-function countEmphasisWords(words: WordTimestamp[]): number {
-  return words.filter((w) =>
-    EMPHASIS_WORDS.has(w.word.toLowerCase().replace(/[^\w]/g, ""))
-  ).length;
+function countEmphasisWords(
+  words: WordTimestamp[],
+  emphasisWords: ReadonlySet<string>
+): number {
+  return words.filter((w) => emphasisWords.has(normalizeWord(w.word))).length;
 }
 
 /**
@@ -92,9 +141,7 @@ function countEmphasisWords(words: WordTimestamp[]): number {
  */
 function countRepetitions(words: WordTimestamp[]): number {
   let count = 0;
-  const cleanWords = words.map((w) =>
-    w.word.toLowerCase().replace(/[^\w]/g, "")
-  );
+  const cleanWords = words.map((w) => normalizeWord(w.word));
 
   for (let i = 0; i < cleanWords.length; i++) {
     const currentWord = cleanWords[i];
@@ -115,20 +162,124 @@ function countRepetitions(words: WordTimestamp[]): number {
   return count;
 }
 
+/**
+ * Prepare acoustic features for per-segment measurement, or null if there is
+ * nothing usable (no frames, or no audible speech)
+ */
+function createAcousticContext(
+  features: AcousticFeatures | null | undefined
+): AcousticContext | null {
+  if (!features || features.loudness.length === 0) return null;
+
+  const audible = features.loudness
+    .filter((level) => level > AUDIBLE_FLOOR_DB)
+    .sort((a, b) => a - b);
+  const speechLevel = audible[Math.floor(audible.length / 2)];
+  if (speechLevel === undefined) return null;
+
+  return { features, speechLevel };
+}
+
+/**
+ * Measure loudness, pitch movement, and pauses over a time range
+ */
+function measureAcoustics(
+  context: AcousticContext,
+  startTime: number,
+  endTime: number
+): SegmentAcoustics | null {
+  const { features, speechLevel } = context;
+  const firstFrame = Math.max(0, Math.floor(startTime / features.frameDuration));
+  const lastFrame = Math.min(
+    features.loudness.length,
+    Math.ceil(endTime / features.frameDuration)
+  );
+  if (lastFrame <= firstFrame) return null;
+
+  const silenceLevel = speechLevel - PAUSE_DROP_DB;
+  const minPauseFrames = Math.ceil(MIN_PAUSE_DURATION / features.frameDuration);
+  const spokenLevels: number[] = [];
+  const semitones: number[] = [];
+  let pauseFrames = 0;
+  let silentRun = 0;
+
+  for (let i = firstFrame; i < lastFrame; i++) {
+    const level = features.loudness[i] ?? silenceLevel;
+    const pitch = features.pitch[i];
+
+    if (level <= silenceLevel) {
+      silentRun++;
+      continue;
+    }
+
+    if (silentRun >= minPauseFrames) pauseFrames += silentRun;
+    silentRun = 0;
+    spokenLevels.push(level);
+    if (pitch) semitones.push(12 * Math.log2(pitch / 100));
+  }
+  if (silentRun >= minPauseFrames) pauseFrames += silentRun;
+
+  if (spokenLevels.length === 0) return null;
+
+  const meanLevel =
+    spokenLevels.reduce((sum, level) => sum + level, 0) / spokenLevels.length;
+
+  let pitchVariation = 0;
+  if (semitones.length >= MIN_VOICED_FRAMES) {
+    const meanPitch = semitones.reduce((sum, s) => sum + s, 0) / semitones.length;
+    const variance =
+      semitones.reduce((sum, s) => sum + (s - meanPitch) ** 2, 0) /
+      semitones.length;
+    pitchVariation = Math.sqrt(variance);
+  }
+
+  return {
+    loudnessLift: meanLevel - speechLevel,
+    pitchVariation,
+    pauseRatio: pauseFrames / (lastFrame - firstFrame),
+  };
+}
+
+/**
+ * Acoustic contribution to the energy score (0-0.4)
+ */
+function calculateAcousticScore(acoustics: SegmentAcoustics): number {
+  let score = 0;
+
+  // Loudness contribution (0-0.12)
+  score += Math.min(Math.max(acoustics.loudnessLift / (VOLUME_INCREASE_DB * 2), 0), 1) * 0.12;
+
+  // Pitch variation contribution (0-0.2) - monotone delivery earns nothing
+  const pitchRange =
+    (acoustics.pitchVariation - MONOTONE_PITCH_SEMITONES) / ANIMATED_PITCH_SEMITONES;
+  score += Math.min(Math.max(pitchRange, 0), 1) * 0.2;
+
+  // Pause contribution (0-0.08) - fewer hesitations read as more engaged
+  score += Math.max(1 - acoustics.pauseRatio / (SHORT_PAUSE_RATIO * 3), 0) * 0.08;
+
+  return score;
+}
+
 /**
  * Calculate energy score for a segment (0-1)
+ *
+ * Text signals make up the whole score when there is no audio; with acoustic
+ * features they're weighted down to 60% so a fast monotone passage can't
+ * outscore a genuinely animated one.
  */
-function calculateEnergyScore(segment: SegmentAnalysis): number {
+function calculateEnergyScore(
+  segment: SegmentAnalysis,
+  paceThresholds: PaceThresholds
+): number {
   let score = 0;
 
-  // Pace contribution (0-0.4)
-  if (segment.wordsPerSecond > EXCITED_PACE_THRESHOLD) {
+  // Pace contribution (0-0.4); estimated timings carry no real tempo
+  const pace = segment.timingEstimated ? 0 : segment.wordsPerSecond;
+  const { excited, thoughtful } = paceThresholds;
+  if (pace > excited) {
     score += 0.4;
-  } else if (segment.wordsPerSecond > THOUGHTFUL_PACE_THRESHOLD) {
-    score +=
-      0.2 *
-      ((segment.wordsPerSecond - THOUGHTFUL_PACE_THRESHOLD) /
-        (EXCITED_PACE_THRESHOLD - THOUGHTFUL_PACE_THRESHOLD));
+  } else if (pace > thoughtful) {
+    score += 0.2 * ((pace - thoughtful) / (excited - thoughtful));
   }
 
   // Emphasis words contribution (0-0.35)
@@ -139,6 +290,10 @@ function calculateEnergyScore(segment: SegmentAnalysis): number {
   const repetitionRatio = segment.repetitionCount / segment.words.length;
   score += Math.min(repetitionRatio * 2.5, 0.25);
 
+  if (segment.acoustics) {
+    score = score * 0.6 + calculateAcousticScore(segment.acoustics);
+  }
+
   return Math.min(score, 1);
 }
 
@@ -146,11 +301,12 @@ function calculateEnergyScore(segment: SegmentAnalysis): number {
  * Determine which indicators are present in a segment
  */
 function getIndicators(
-  segment: SegmentAnalysis
+  segment: SegmentAnalysis,
+  paceThresholds: PaceThresholds
 ): EnthusiasmSegment["indicators"] {
   const indicators: EnthusiasmSegment["indicators"] = [];
 
-  if (segment.wordsPerSecond > EXCITED_PACE_THRESHOLD) {
+  if (!segment.timingEstimated && segment.wordsPerSecond > paceThresholds.excited) {
     indicators.push("pace_increase");
   }
 
@@ -161,7 +317,7 @@ function getIndicators(
   const totalDuration = segment.endTime - segment.startTime;
   const speechDensity =
     (avgWordDuration * segment.words.length) / totalDuration;
-  if (speechDensity > 0.7) {
+  if (!segment.timingEstimated && speechDensity > 0.7) {
     indicators.push("dense_speech");
   }
 
@@ -173,6 +329,18 @@ function getIndicators(
     indicators.push("repetition");
   }
 
+  if (segment.acoustics) {
+    if (segment.acoustics.loudnessLift > VOLUME_INCREASE_DB) {
+      indicators.push("volume_increase");
+    }
+    if (segment.acoustics.pitchVariation > ANIMATED_PITCH_SEMITONES) {
+      indicators.push("pitch_variation");
+    }
+    if (segment.acoustics.pauseRatio < SHORT_PAUSE_RATIO) {
+      indicators.push("short_pauses");
+    }
+  }
+
   return indicators;
 }
 
@@ -180,7 +348,9 @@ function getIndicators(
  * Analyze word timestamps and create segment analyses
  */
 function analyzeSegments(
-  wordTimestamps: WordTimestamp[]
+  wordTimestamps: WordTimestamp[],
+  acousticContext: AcousticContext | null,
+  emphasisWords: ReadonlySet<string>
 ): SegmentAnalysis[] {
   const segments: SegmentAnalysis[] = [];
 
@@ -199,8 +369,12 @@ function analyzeSegments(
       endTime: lastWord.end,
       words,
       wordsPerSecond: calculatePace(words),
-      emphasisCount: countEmphasisWords(words),
+      emphasisCount: countEmphasisWords(words, emphasisWords),
       repetitionCount: countRepetitions(words),
+      timingEstimated: words.some((w) => w.estimated),
+      acoustics: acousticContext
+        ? measureAcoustics(acousticContext, firstWord.start, lastWord.end)
+        : null,
       text: words.map((w) => w.word).join(" "),
     };
 
@@ -215,10 +389,12 @@ function analyzeSegments(
  */
 function mergeHighEnergySegments(
   segments: SegmentAnalysis[],
-  threshold: number
+  threshold: number,
+  acousticContext: AcousticContext | null,
+  paceThresholds: PaceThresholds
 ): SegmentAnalysis[] {
   const highEnergy = segments.filter(
-    (s) => calculateEnergyScore(s) >= threshold
+    (s) => calculateEnergyScore(s, paceThresholds) >= threshold
   );
   if (highEnergy.length === 0) return [];
 
@@ -242,6 +418,10 @@ function mergeHighEnergySegments(
         wordsPerSecond: calculatePace(mergedWords),
         emphasisCount: current.emphasisCount + next.emphasisCount,
         repetitionCount: current.repetitionCount + next.repetitionCount,
+        timingEstimated: current.timingEstimated || next.timingEstimated,
+        acoustics: acousticContext
+          ? measureAcoustics(acousticContext, current.startTime, next.endTime)
+          : null,
         text: current.text + " " + next.text,
       };
     } else {
@@ -257,25 +437,33 @@ function mergeHighEnergySegments(
 /**
  * Identify peak moments from high-energy segments
  */
-function identifyPeakMoments(segments: SegmentAnalysis[]): PeakMoment[] {
+function identifyPeakMoments(
+  segments: SegmentAnalysis[],
+  paceThresholds: PaceThresholds
+): PeakMoment[] {
   const moments: PeakMoment[] = [];
 
   // Sort by energy score to get the top moments
   const sortedSegments = [...segments].sort(
-    (a, b) => calculateEnergyScore(b) - calculateEnergyScore(a)
+    (a, b) =>
+      calculateEnergyScore(b, paceThresholds) - calculateEnergyScore(a, paceThresholds)
   );
 
   // Take top 3-5 peak moments
   const topSegments = sortedSegments.slice(0, 5);
 
   topSegments.forEach((segment, index) => {
-    const energyScore = calculateEnergyScore(segment);
-    const indicators = getIndicators(segment);
+    const energyScore = calculateEnergyScore(segment, paceThresholds);
+    const indicators = getIndicators(segment, paceThresholds);
 
     // Determine the reason for this being a peak
     let reason = "High energy detected";
-    if (indicators.includes("pace_increase")) {
+    if (indicators.includes("pitch_variation")) {
+      reason = "Animated, expressive delivery";
+    } else if (indicators.includes("pace_increase")) {
       reason = "Fast-paced, excited delivery";
+    } else if (indicators.includes("volume_increase")) {
+      reason = "Raised voice and conviction";
     } else if (indicators.includes("emphasis_words")) {
       reason = "Strong emphasis and conviction";
     } else if (indicators.includes("repetition")) {
@@ -306,14 +494,19 @@ function identifyPeakMoments(segments: SegmentAnalysis[]): PeakMoment[] {
 /**
  * Main enthusiasm detection function
  *
- * Analyzes word timestamps to identify:
+ * Analyzes word timestamps (and acoustic features, when the audio was
+ * available) to identify:
  * - Overall energy level of the transcript
  * - High-enthusiasm segments with energy scores
  * - Peak moments that could be used as hooks, key points, etc.
  */
 export function detectEnthusiasm(
-  wordTimestamps: WordTimestamp[]
+  wordTimestamps: WordTimestamp[],
+  acousticFeatures?: AcousticFeatures | null,
+  options: EnthusiasmOptions = {}
 ): EnthusiasmAnalysis {
+  const { baseline, language } = options;
+
   if (!wordTimestamps || wordTimestamps.length === 0) {
     return {
       overallEnergy: 0,
@@ -323,20 +516,37 @@ export function detectEnthusiasm(
   }
 
   // Analyze all segments
-  const allSegments = analyzeSegments(wordTimestamps);
+  const acousticContext = createAcousticContext(acousticFeatures);
+  const allSegments = analyzeSegments(
+    wordTimestamps,
+    acousticContext,
+    getEmphasisWords(language)
+  );
+  const paceThresholds = getPaceThresholds(baseline ?? null);
 
   // Calculate overall energy (average of all segments)
-  const energyScores = allSegments.map(calculateEnergyScore);
+  const energyScores = allSegments.map((s) => calculateEnergyScore(s, paceThresholds));
   const overallEnergy =
     energyScores.length > 0
       ? energyScores.reduce((sum, e) => sum + e, 0) / energyScores.length
       : 0;
 
-  // Find high-energy threshold (segments above average)
-  const threshold = Math.max(0.3, overallEnergy);
+  // Find high-energy threshold (segments above average). With a baseline the
+  // average is halfway between this session's and the speaker's usual energy,
+  // so a flat session surfaces fewer peaks than an animated one.
+  const usualEnergy =
+    baseline && baseline.pace.sampleCount >= MIN_BASELINE_SEGMENTS
+      ? (overallEnergy + baseline.energy) / 2
+      : overallEnergy;
+  const threshold = Math.max(MIN_HIGH_ENERGY, usualEnergy);
 
   // Merge adjacent high-energy segments
-  const mergedSegments = mergeHighEnergySegments(allSegments, threshold);
+  const mergedSegments = mergeHighEnergySegments(
+    allSegments,
+    threshold,
+    acousticContext,
+    paceThresholds
+  );
 
   // Convert to EnthusiasmSegment format
   const enthusiasmSegments: EnthusiasmSegment[] = mergedSegments.map(
@@ -344,13 +554,13 @@ export function detectEnthusiasm(
       startTime: segment.startTime,
       endTime: segment.endTime,
       text: segment.text,
-      energyScore: calculateEnergyScore(segment),
-      indicators: getIndicators(segment),
+      energyScore: calculateEnergyScore(segment, paceThresholds),
+      indicators: getIndicators(segment, paceThresholds),
     })
   );
 
   // Identify peak moments
-  const peakMoments = identifyPeakMoments(mergedSegments);
+  const peakMoments = identifyPeakMoments(mergedSegments, paceThresholds);
 
   return {
     overallEnergy,
@@ -359,21 +569,42 @@ export function detectEnthusiasm(
   };
 }
 
+/**
+ * Measure a transcript's pace statistics for the speaker's baseline, over the
+ * same word windows detection scores
+ *
+ * @returns Mean and std dev of segment pace, or null if no segment has
+ * measured timings
+ */
+export function measurePaceBaseline(wordTimestamps: WordTimestamp[]): PaceBaseline | null {
+  const paces = analyzeSegments(wordTimestamps, null, new Set())
+    .filter((s) => !s.timingEstimated && s.wordsPerSecond > 0)
+    .map((s) => s.wordsPerSecond);
+  if (paces.length === 0) return null;
+
+  const mean = paces.reduce((sum, p) => sum + p, 0) / paces.length;
+  const variance = paces.reduce((sum, p) => sum + (p - mean) ** 2, 0) / paces.length;
+
+  return { mean, stdDev: Math.sqrt(variance), sampleCount: paces.length };
+}
+
 /**
  * Extract topics that generate enthusiasm based on peak moments
  */
 export function extractEnthusiasticTopics(
-  analysis: EnthusiasmAnalysis
+  analysis: EnthusiasmAnalysis,
+  language?: string | null
 ): string[] {
   const topics: string[] = [];
+  const emphasisWords = getEmphasisWords(language);
 
   // Extract key nouns/phrases from peak moments
   analysis.peakMoments.forEach((moment) => {
     // Simple extraction: split by common delimiters and get significant words
     const words = moment.text
       .toLowerCase()
-      .split(/[\s,.\-!?]+/)
-      .filter((w) => w.length > 4 && !EMPHASIS_WORDS.has(w));
+      .split(/[\s,.\-!?¡¿]+/)
+      .filter((w) => w.length > 4 && !emphasisWords.has(w));
 
     words.slice(0, 2).forEach((word) => {
       if (!topics.includes(word)) {
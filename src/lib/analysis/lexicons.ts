@@ -0,0 +1,170 @@
+/**
+ * Analysis Lexicons
+ *
+ * Per-language word lists for the non-LLM analyzers: emphasis words signal
+ * enthusiasm, filler words are spoken habits worth noting (or stripping).
+ * Languages without a lexicon get no lexical signals rather than English ones.
+ */
+
+import { getLexiconLanguage, type LexiconLanguage } from "@/lib/languages";
+
+// Words that indicate emphasis/excitement when used
+const EMPHASIS_WORDS: Record<LexiconLanguage, ReadonlySet<string>> = {
+  en: new Set([
+    "really",
+    "absolutely",
+    "incredible",
+    "amazing",
+    "crucial",
+    "essential",
+    "love",
+    "hate",
+    "brilliant",
+    "terrible",
+    "fantastic",
+    "definitely",
+    "exactly",
+    "totally",
+    "completely",
+    "actually",
+    "seriously",
+    "literally",
+    "honestly",
+    "huge",
+    "massive",
+    "critical",
+    "vital",
+    "important",
+    "fascinating",
+    "exciting",
+    "passionate",
+  ]),
+  es: new Set([
+    "realmente",
+    "absolutamente",
+    "increíble",
+    "impresionante",
+    "crucial",
+    "esencial",
+    "encanta",
+    "odio",
+    "brillante",
+    "terrible",
+    "fantástico",
+    "definitivamente",
+    "exactamente",
+    "totalmente",
+    "completamente",
+    "sinceramente",
+    "literalmente",
+    "enorme",
+    "brutal",
+    "crítico",
+    "vital",
+    "importante",
+    "fascinante",
+    "emocionante",
+    "apasionante",
+    "muchísimo",
+  ]),
+  pt: new Set([
+    "realmente",
+    "absolutamente",
+    "incrível",
+    "impressionante",
+    "crucial",
+    "essencial",
+    "adoro",
+    "odeio",
+    "brilhante",
+    "terrível",
+    "fantástico",
+    "definitivamente",
+    "exatamente",
+    "totalmente",
+    "completamente",
+    "sinceramente",
+    "literalmente",
+    "enorme",
+    "gigante",
+    "crítico",
+    "vital",
+    "importante",
+    "fascinante",
+    "empolgante",
+    "apaixonante",
+    "demais",
+  ]),
+};
+
+const FILLER_WORDS: Record<LexiconLanguage, string[]> = {
+  en: [
+    "um",
+    "uh",
+    "like",
+    "you know",
+    "basically",
+    "actually",
+    "literally",
+    "sort of",
+    "kind of",
+    "i mean",
+    "right",
+    "so",
+    "well",
+    "anyway",
+    "honestly",
+  ],
+  es: [
+    "eh",
+    "o sea",
+    "bueno",
+    "pues",
+    "digamos",
+    "en plan",
+    "tipo",
+    "sabes",
+    "vale",
+    "la verdad",
+    "básicamente",
+    "a ver",
+  ],
+  pt: [
+    "né",
+    "tipo",
+    "então",
+    "aí",
+    "sabe",
+    "assim",
+    "quer dizer",
+    "basicamente",
+    "na verdade",
+    "enfim",
+    "bom",
+  ],
+};
+
+const NO_WORDS: ReadonlySet<string> = new Set();
+
+/**
+ * Lowercase a word and strip punctuation, keeping accented letters
+ */
+export function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+/**
+ * Emphasis words for a session's language
+ */
+export function getEmphasisWords(language: string | null | undefined): ReadonlySet<string> {
+  const lexicon = getLexiconLanguage(language);
+  return lexicon ? EMPHASIS_WORDS[lexicon] : NO_WORDS;
+}
+
+/**
+ * Filler words and phrases for a session's language
+ */
+export function getFillerWords(language: string | null | undefined): string[] {
+  const lexicon = getLexiconLanguage(language);
+  return lexicon ? FILLER_WORDS[lexicon] : [];
+}
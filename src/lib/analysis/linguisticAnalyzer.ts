@@ -11,7 +11,9 @@
 
 import { openrouter } from "@openrouter/ai-sdk-provider";
 import { generateText } from "ai";
+import { getLanguageName } from "@/lib/languages";
 import type { SpokenPatterns, TonalAttributes } from "@/types/voiceDNA";
+import { getFillerWords } from "./lexicons";
 
 // Get model from environment or use default
 const MODEL = process.env.OPENROUTER_MODEL || "anthropic/claude-sonnet-4";
@@ -28,7 +30,7 @@ TRANSCRIPT:
 """
 {transcript}
 """
-
+{language}
 Analyze the transcript and return a JSON object with the following structure:
 
 {
@@ -74,18 +76,35 @@ Important guidelines:
 
 Return ONLY the JSON object, no additional text.`;
 
+/**
+ * Tell the analyst which language the transcript is in, so words and phrases
+ * come back as spoken rather than translated
+ */
+function buildLanguageNote(language: string | null | undefined): string {
+  if (!language) return "";
+  return `
+The transcript is in ${getLanguageName(language)}. Report words, phrases, fillers and topics in ${getLanguageName(language)} exactly as spoken; keep the JSON keys and enumerated values in English.
+`;
+}
+
 /**
  * Analyze transcript for linguistic patterns using Claude
+ *
+ * @param language - ISO-639-1 code of the transcript, if detected
  */
 export async function analyzeLinguistics(
-  transcript: string
+  transcript: string,
+  language?: string | null
 ): Promise<LinguisticAnalysisResult> {
   if (!transcript || transcript.trim().length < 50) {
     return getDefaultAnalysis();
   }
 
   try {
-    const prompt = ANALYSIS_PROMPT.replace("{transcript}", transcript);
+    const prompt = ANALYSIS_PROMPT.replace("{transcript}", transcript).replace(
+      "{language}",
+      buildLanguageNote(language)
+    );
 
     const { text } = await generateText({
       model: openrouter(MODEL),
@@ -130,7 +149,7 @@ export function analyzeVocabularyBasic(transcript: string): {
   sentenceCount: number;
   avgSentenceLength: "short" | "medium" | "long";
 } {
-  const words = transcript.toLowerCase().match(/\b\w+\b/g) || [];
+  const words = transcript.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
   const uniqueWords = new Set(words);
   const sentences = transcript.split(/[.!?]+/).filter((s) => s.trim());
 
@@ -160,31 +179,19 @@ export function analyzeVocabularyBasic(transcript: string): {
 
 /**
  * Extract filler words from transcript (non-LLM)
+ *
+ * @param language - ISO-639-1 code of the transcript, if detected
  */
-export function extractFillerWords(transcript: string): string[] {
-  const commonFillers = [
-    "um",
-    "uh",
-    "like",
-    "you know",
-    "basically",
-    "actually",
-    "literally",
-    "sort of",
-    "kind of",
-    "i mean",
-    "right",
-    "so",
-    "well",
-    "anyway",
-    "honestly",
-  ];
-
+export function extractFillerWords(
+  transcript: string,
+  language?: string | null
+): string[] {
   const lowerTranscript = transcript.toLowerCase();
   const foundFillers: string[] = [];
 
-  for (const filler of commonFillers) {
-    const regex = new RegExp(`\\b${filler}\\b`, "gi");
+  for (const filler of getFillerWords(language)) {
+    // \b only knows ASCII letters, so "né" or "básicamente" need lookarounds
+    const regex = new RegExp(`(?<![\\p{L}\\p{N}])${filler}(?![\\p{L}\\p{N}])`, "giu");
     const matches = lowerTranscript.match(regex);
     if (matches && matches.length >= 2) {
       foundFillers.push(filler);
@@ -7,6 +7,7 @@
 
 import { openrouter } from "@openrouter/ai-sdk-provider";
 import { generateText } from "ai";
+import { getLanguageName } from "@/lib/languages";
 import type { EnthusiasmAnalysis } from "@/types/session";
 
 interface GenerateQuestionsParams {
@@ -14,6 +15,7 @@ interface GenerateQuestionsParams {
   enthusiasmAnalysis?: EnthusiasmAnalysis | null;
   context: "onboarding" | "session";
   existingResponses?: string[];
+  language?: string | null; // ISO-639-1 code the transcript was spoken in
 }
 
 const SYSTEM_PROMPT = `You are helping draw out better content from a speaker. Based on their initial thoughts, generate follow-up questions that will help them share more meaningful content.
@@ -52,6 +54,7 @@ export async function generateFollowUpQuestions({
   enthusiasmAnalysis,
   context,
   existingResponses = [],
+  language,
 }: GenerateQuestionsParams): Promise<string[]> {
   const model = process.env.OPENROUTER_MODEL || "anthropic/claude-sonnet-4";
 
@@ -81,6 +84,12 @@ ${enthusiasmAnalysis.peakMoments
 ${existingResponses.map((r) => `- ${r.slice(0, 100)}...`).join("\n")}`;
   }
 
+  if (language) {
+    prompt += `
+
+Ask the questions in ${getLanguageName(language)}, the language they spoke.`;
+  }
+
   prompt += `
 
 Generate ${context === "onboarding" ? "3-4" : "2-4"} follow-up questions. Return ONLY the questions, one per line, no numbering or formatting.`;
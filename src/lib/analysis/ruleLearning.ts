@@ -0,0 +1,319 @@
+/**
+ * Rule Learning
+ *
+ * Refinement instructions ("less formal", "stop saying 'leverage'") and the
+ * edits the user accepts say something about their voice. After each applied
+ * refinement an LLM picks out the lasting preferences they show, and each is
+ * recorded as a proposal. The more pieces of content a preference comes up
+ * in, the more confident it gets. Users confirm proposals into their Voice
+ * DNA's learnedRules (via addLearnedRule) or dismiss them. Runs as the
+ * learn_from_refinement job (see lib/jobs); manual edits are mined the same
+ * way in editLearning.ts.
+ */
+
+import { openrouter } from "@openrouter/ai-sdk-provider";
+import { generateText } from "ai";
+import { and, desc, eq } from "drizzle-orm";
+import { findOriginalVersion } from "@/lib/content/versions";
+import { db } from "@/lib/db";
+import { generatedContent, learnedRuleProposals } from "@/lib/schema";
+import type {
+  LearnedRuleReport,
+  LearnFromRefinementJobPayload,
+  LearnFromRefinementJobResult,
+} from "@/types/job";
+import type { LearnedRule, LearnedRuleProposal } from "@/types/voiceDNA";
+import { addLearnedRule, getVoiceDNAProfile } from "./voiceDNABuilder";
+
+const MODEL = process.env.OPENROUTER_MODEL || "anthropic/claude-sonnet-4";
+
+export type Proposal = typeof learnedRuleProposals.$inferSelect;
+
+export type RuleCandidate = Pick<LearnedRule, "type" | "content">;
+
+// Rules mined from a single refinement
+const MAX_RULES_PER_REFINEMENT = 3;
+
+// Instructions kept with each proposal as examples
+const MAX_EXAMPLES = 5;
+
+// Confirmed rules start at least this confident, so they're used in generation
+const CONFIRMED_MIN_CONFIDENCE = 0.7;
+
+// Longest excerpt of each side of an edit shown to the model
+const EDIT_EXCERPT_LENGTH = 500;
+
+const MINING_SYSTEM_PROMPT = `You learn a writer's voice preferences from how they refine drafts of their own writing.
+
+Given their refinement instruction and the edits they accepted, list the lasting preferences about their voice it shows: words or phrases to prefer or avoid, tone, formality, sentence length, openers and closers, structure habits.
+
+Skip anything that only applies to this piece: its facts, its topic, or one-off requests like "add a paragraph about pricing".
+
+Each rule has:
+- "type": "prefer", "avoid" or "adjust"
+- "content": one short instruction (at most 15 words) a writer could follow in any piece, e.g. "Avoid the word 'leverage'" or "Keep the tone conversational rather than formal"
+
+If a rule means the same as one of the KNOWN RULES, use its exact wording.
+
+Respond with ONLY a JSON array of at most ${MAX_RULES_PER_REFINEMENT} rules, or [] if there are none.`;
+
+/**
+ * How confident a preference is, from how many pieces of content it came up in
+ */
+export function confidenceForPieces(pieces: number): number {
+  return Math.min(0.95, 0.3 + 0.15 * pieces);
+}
+
+// Rules are matched on their wording, ignoring case, spacing and end punctuation
+export function ruleKey(rule: RuleCandidate): string {
+  const content = rule.content.trim().toLowerCase().replace(/\s+/g, " ").replace(/[.!]+$/, "");
+  return `${rule.type}:${content}`;
+}
+
+function toView(proposal: Proposal): LearnedRuleProposal {
+  return {
+    id: proposal.id,
+    type: proposal.type,
+    content: proposal.content,
+    confidence: confidenceForPieces(proposal.pieceIds.length),
+    sourceCount: proposal.pieceIds.length,
+    examples: proposal.examples,
+    status: proposal.status,
+    createdAt: proposal.createdAt.toISOString(),
+    updatedAt: proposal.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * What a learning job reports about the proposals it recorded
+ */
+export function reportRules(proposals: Proposal[]): LearnedRuleReport[] {
+  return proposals.map((p) => ({
+    proposalId: p.id,
+    type: p.type,
+    content: p.content,
+    status: p.status,
+  }));
+}
+
+/**
+ * Ask the model which lasting preferences a refinement shows
+ */
+async function mineRules(
+  payload: LearnFromRefinementJobPayload,
+  knownRules: string[]
+): Promise<RuleCandidate[]> {
+  const excerpt = (text: string) =>
+    text.length > EDIT_EXCERPT_LENGTH
+      ? `${text.slice(0, EDIT_EXCERPT_LENGTH)}...`
+      : text || "(nothing)";
+
+  const edits = payload.edits
+    .map(
+      (edit, i) =>
+        `### Edit ${i + 1}\nBEFORE:\n${excerpt(edit.before)}\n\nAFTER:\n${excerpt(edit.after)}`
+    )
+    .join("\n\n");
+
+  const known = knownRules.length > 0 ? knownRules.map((r) => `- ${r}`).join("\n") : "(none)";
+
+  const { text } = await generateText({
+    model: openrouter(MODEL),
+    system: MINING_SYSTEM_PROMPT,
+    prompt: `## INSTRUCTION\n"${payload.instruction}"\n\n## ACCEPTED EDITS\n\n${edits}\n\n## KNOWN RULES\n${known}`,
+    maxOutputTokens: 600,
+    temperature: 0.2,
+  });
+
+  const jsonMatch = text.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    console.error("Failed to extract rules from response:", text);
+    return [];
+  }
+
+  const parsed = JSON.parse(jsonMatch[0]) as Array<Partial<Record<keyof RuleCandidate, unknown>>>;
+  return parsed
+    .filter(
+      (r): r is RuleCandidate =>
+        ["prefer", "avoid", "adjust"].includes(r.type as string) &&
+        typeof r.content === "string" &&
+        r.content.trim().length > 0 &&
+        r.content.length <= 200
+    )
+    .map((r) => ({ type: r.type, content: r.content.trim() }))
+    .slice(0, MAX_RULES_PER_REFINEMENT);
+}
+
+/**
+ * Record preferences seen in one piece of content. A preference already
+ * proposed gains the piece; one the user confirmed grows more confident in
+ * their Voice DNA; one they dismissed stays dismissed.
+ */
+export async function recordRuleCandidates(
+  userId: string,
+  pieceId: string,
+  candidates: RuleCandidate[],
+  example: string
+): Promise<Proposal[]> {
+  const existing = await db
+    .select()
+    .from(learnedRuleProposals)
+    .where(eq(learnedRuleProposals.userId, userId));
+
+  const recorded: Proposal[] = [];
+  for (const candidate of candidates) {
+    const match = existing.find((p) => ruleKey(p) === ruleKey(candidate));
+
+    if (!match) {
+      const [proposal] = await db
+        .insert(learnedRuleProposals)
+        .values({ userId, ...candidate, pieceIds: [pieceId], examples: [example] })
+        .returning();
+      if (proposal) {
+        existing.push(proposal);
+        recorded.push(proposal);
+      }
+      continue;
+    }
+
+    // The same piece refined again doesn't make a preference more likely
+    if (match.pieceIds.includes(pieceId)) {
+      recorded.push(match);
+      continue;
+    }
+
+    const pieceIds = [...match.pieceIds, pieceId];
+    const [updated] = await db
+      .update(learnedRuleProposals)
+      .set({ pieceIds, examples: [...match.examples, example].slice(-MAX_EXAMPLES) })
+      .where(eq(learnedRuleProposals.id, match.id))
+      .returning();
+
+    if (match.status === "confirmed") {
+      await addLearnedRule(userId, {
+        type: match.type,
+        content: match.content,
+        confidence: confidenceForPieces(pieceIds.length),
+        sourceCount: 1,
+      });
+    }
+
+    if (updated) {
+      Object.assign(match, updated);
+      recorded.push(updated);
+    }
+  }
+
+  return recorded;
+}
+
+/**
+ * Mine an applied refinement for voice preferences and record them
+ *
+ * @returns null if the refined content no longer exists
+ */
+export async function learnFromRefinement(
+  payload: LearnFromRefinementJobPayload,
+  userId: string
+): Promise<LearnFromRefinementJobResult | null> {
+  const [content] = await db
+    .select()
+    .from(generatedContent)
+    .where(eq(generatedContent.id, payload.contentId))
+    .limit(1);
+
+  if (!content) {
+    return null;
+  }
+
+  // Every version of a piece counts as the same piece
+  const original = await findOriginalVersion(content);
+
+  const [{ profile }, proposals] = await Promise.all([
+    getVoiceDNAProfile(userId),
+    db
+      .select({ content: learnedRuleProposals.content })
+      .from(learnedRuleProposals)
+      .where(eq(learnedRuleProposals.userId, userId)),
+  ]);
+  const knownRules = [
+    ...new Set([
+      ...(profile?.learnedRules ?? []).map((r) => r.content),
+      ...proposals.map((p) => p.content),
+    ]),
+  ];
+
+  const candidates = await mineRules(payload, knownRules);
+  const recorded = await recordRuleCandidates(
+    userId,
+    original.id,
+    candidates,
+    payload.instruction
+  );
+
+  return { rules: reportRules(recorded) };
+}
+
+/**
+ * The user's proposals, pending ones first, most confident first
+ */
+export async function listRuleProposals(userId: string): Promise<LearnedRuleProposal[]> {
+  const proposals = await db
+    .select()
+    .from(learnedRuleProposals)
+    .where(eq(learnedRuleProposals.userId, userId))
+    .orderBy(desc(learnedRuleProposals.updatedAt));
+
+  const statusOrder = { pending: 0, confirmed: 1, dismissed: 2 };
+  return proposals
+    .map(toView)
+    .sort(
+      (a, b) => statusOrder[a.status] - statusOrder[b.status] || b.confidence - a.confidence
+    );
+}
+
+/**
+ * Confirm or dismiss a proposal. Confirming adds it to the user's learned
+ * rules; a dismissed proposal can still be confirmed later.
+ *
+ * @returns status 409 when dismissing a proposal that was already confirmed
+ */
+export async function decideRuleProposal(
+  userId: string,
+  id: string,
+  decision: "confirm" | "dismiss"
+): Promise<{ error: string; status: 404 | 409 } | { proposal: LearnedRuleProposal }> {
+  const [proposal] = await db
+    .select()
+    .from(learnedRuleProposals)
+    .where(and(eq(learnedRuleProposals.id, id), eq(learnedRuleProposals.userId, userId)))
+    .limit(1);
+
+  if (!proposal) {
+    return { error: "Proposal not found", status: 404 };
+  }
+
+  if (decision === "dismiss") {
+    if (proposal.status === "confirmed") {
+      return { error: "This rule is already part of your Voice DNA", status: 409 };
+    }
+  } else if (proposal.status !== "confirmed") {
+    await addLearnedRule(userId, {
+      type: proposal.type,
+      content: proposal.content,
+      confidence: Math.max(
+        confidenceForPieces(proposal.pieceIds.length),
+        CONFIRMED_MIN_CONFIDENCE
+      ),
+      sourceCount: proposal.pieceIds.length,
+    });
+  }
+
+  const [updated] = await db
+    .update(learnedRuleProposals)
+    .set({ status: decision === "confirm" ? "confirmed" : "dismissed" })
+    .where(eq(learnedRuleProposals.id, id))
+    .returning();
+
+  return { proposal: toView(updated ?? proposal) };
+}
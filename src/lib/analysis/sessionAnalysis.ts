@@ -0,0 +1,163 @@
+/**
+ * Session Analysis
+ *
+ * Analyzes a session's transcript and updates the user's Voice DNA profile,
+ * moving the session from "analyzing" to "follow_ups". If the session's
+ * recording was kept, it is measured here for acoustic enthusiasm signals.
+ * Runs as the analyze_session job (see lib/jobs).
+ */
+
+import { eq } from "drizzle-orm";
+import { generateFollowUpQuestions } from "@/lib/ai/prompts/followUp";
+import { extractAcousticFeatures } from "@/lib/audio/acousticFeatures";
+import { deleteSessionAudio, readSessionAudio } from "@/lib/audio/retention";
+import { db } from "@/lib/db";
+import { voiceSessions } from "@/lib/schema";
+import { publishSessionEvent } from "@/lib/sessionEvents";
+import { transitionSession } from "@/lib/sessionTransitions";
+import type {
+  AnalyzeSessionJobPayload,
+  AnalyzeSessionJobResult,
+  GenerateQuestionsJobPayload,
+  GenerateQuestionsJobResult,
+} from "@/types/job";
+import type { AcousticFeatures } from "@/types/voice";
+import { buildVoiceDNA, getVoiceDNASummary } from "./voiceDNABuilder";
+
+/**
+ * Measure the session's recording for acoustic enthusiasm signals and store
+ * them, so a retried analysis doesn't decode the audio again. A missing
+ * recording or failed extraction only costs the acoustic indicators.
+ */
+async function getAcousticFeatures(
+  voiceSession: typeof voiceSessions.$inferSelect
+): Promise<AcousticFeatures | null> {
+  if (voiceSession.acousticFeatures) return voiceSession.acousticFeatures;
+  if (!voiceSession.audioUrl) return null;
+
+  try {
+    const audio = await readSessionAudio(voiceSession.audioUrl);
+    if (!audio) return null;
+
+    const acousticFeatures = await extractAcousticFeatures(audio.buffer, audio.extension);
+    await db
+      .update(voiceSessions)
+      .set({ acousticFeatures })
+      .where(eq(voiceSessions.id, voiceSession.id));
+    return acousticFeatures;
+  } catch (error) {
+    console.error(`Failed to extract acoustic features for ${voiceSession.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Analyze a session and store its enthusiasm analysis
+ *
+ * @returns The analysis, or null if the session no longer exists or has no
+ * transcript to analyze
+ */
+export async function analyzeSession(
+  payload: AnalyzeSessionJobPayload
+): Promise<AnalyzeSessionJobResult | null> {
+  const { sessionId } = payload;
+
+  const [voiceSession] = await db
+    .select()
+    .from(voiceSessions)
+    .where(eq(voiceSessions.id, sessionId))
+    .limit(1);
+
+  // Get transcript and timestamps from session or direct input
+  const transcript = payload.transcript || voiceSession?.transcript;
+  if (!voiceSession || !transcript) {
+    return null;
+  }
+
+  await transitionSession(sessionId, "analyzing", {
+    actor: "worker",
+    reason: "Analysis started",
+  });
+
+  // Build/update Voice DNA
+  const result = await buildVoiceDNA({
+    userId: voiceSession.userId,
+    transcript,
+    wordTimestamps: payload.wordTimestamps || voiceSession.wordTimestamps || [],
+    sessionId,
+    ownerSpeaker: voiceSession.ownerSpeaker,
+    acousticFeatures: await getAcousticFeatures(voiceSession),
+    language: voiceSession.language,
+  });
+
+  // Update session with enthusiasm analysis, ready for follow-up questions
+  await transitionSession(sessionId, "follow_ups", {
+    actor: "worker",
+    reason: "Analysis complete",
+    changes: { enthusiasmAnalysis: result.enthusiasmAnalysis },
+  });
+  await publishSessionEvent(sessionId, { type: "analysis_complete" });
+
+  // Recordings the user didn't opt in to keep were only held for analysis
+  if (voiceSession.audioUrl && !voiceSession.audioRetained) {
+    try {
+      await deleteSessionAudio(voiceSession.audioUrl);
+      await db
+        .update(voiceSessions)
+        .set({ audioUrl: null })
+        .where(eq(voiceSessions.id, sessionId));
+    } catch (deleteError) {
+      console.error(`Failed to delete session audio ${sessionId}:`, deleteError);
+    }
+  }
+
+  return {
+    summary: getVoiceDNASummary(result.voiceDNA),
+    enthusiasmAnalysis: result.enthusiasmAnalysis,
+    isNewProfile: result.isNewProfile,
+    calibrationScoreChange: result.calibrationScoreChange,
+  };
+}
+
+/**
+ * Generate a session's follow-up questions, unless it already has them.
+ * Runs as the generate_questions job.
+ *
+ * @returns The questions, or null if the session no longer exists or has no
+ * transcript
+ */
+export async function generateSessionQuestions(
+  payload: GenerateQuestionsJobPayload
+): Promise<GenerateQuestionsJobResult | null> {
+  const { sessionId } = payload;
+
+  const [voiceSession] = await db
+    .select()
+    .from(voiceSessions)
+    .where(eq(voiceSessions.id, sessionId))
+    .limit(1);
+
+  if (!voiceSession?.transcript) {
+    return null;
+  }
+
+  if (voiceSession.followUpQuestions && voiceSession.followUpQuestions.length > 0) {
+    return { questions: voiceSession.followUpQuestions };
+  }
+
+  const questions = await generateFollowUpQuestions(
+    voiceSession.transcript,
+    voiceSession.enthusiasmAnalysis,
+    voiceSession.mode,
+    voiceSession.language
+  );
+
+  // Questions are only asked in follow_ups, so the status stays as it is
+  await db
+    .update(voiceSessions)
+    .set({ followUpQuestions: questions, updatedAt: new Date() })
+    .where(eq(voiceSessions.id, sessionId));
+  await publishSessionEvent(sessionId, { type: "questions_ready", count: questions.length });
+
+  return { questions };
+}
@@ -10,12 +10,15 @@
 import { eq, avg } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { voiceDNAProfiles, writingSamples, calibrationRounds } from "@/lib/schema";
+import { getOwnerWords } from "@/lib/transcription/speakers";
 import type { EnthusiasmAnalysis } from "@/types/session";
-import type { WordTimestamp } from "@/types/voice";
-import type { VoiceDNA, SpokenPatterns, TonalAttributes, WrittenPatterns, ExtractedWritingPatterns } from "@/types/voiceDNA";
+import type { AcousticFeatures, WordTimestamp } from "@/types/voice";
+import type { VoiceDNA, SpokenPatterns, TonalAttributes, WrittenPatterns, ExtractedWritingPatterns, GlossaryTerm, PaceBaseline } from "@/types/voiceDNA";
 import {
   detectEnthusiasm,
   extractEnthusiasticTopics,
+  measurePaceBaseline,
+  type EnthusiasmBaseline,
 } from "./enthusiasmDetector";
 import { analyzeLinguistics } from "./linguisticAnalyzer";
 import { mergeWritingPatterns } from "./writingSampleAnalyzer";
@@ -25,6 +28,12 @@ interface BuildVoiceDNAInput {
   transcript: string;
   wordTimestamps: WordTimestamp[];
   sessionId?: string;
+  /** In diarized recordings, only this speaker's words are analyzed */
+  ownerSpeaker?: string | null;
+  /** Loudness/pitch frames of the recording, for acoustic enthusiasm signals */
+  acousticFeatures?: AcousticFeatures | null;
+  /** ISO-639-1 code of the transcript; unknown languages only update the cross-language patterns */
+  language?: string | null;
 }
 
 interface BuildVoiceDNAResult {
@@ -200,6 +209,40 @@ function mergeSpokenPatterns(
         existing.enthusiasm.energyBaseline,
         next.enthusiasm.energyBaseline
       ),
+      ...mergePaceBaselines(
+        existing.enthusiasm.paceBaseline,
+        next.enthusiasm.paceBaseline,
+        weight
+      ),
+    },
+  };
+}
+
+/**
+ * Merge pace statistics with the same weighting as the other spoken patterns,
+ * treating the two as a weighted mixture so the spread between sessions
+ * counts toward the std dev
+ */
+function mergePaceBaselines(
+  existing: PaceBaseline | undefined,
+  next: PaceBaseline | undefined,
+  weight: number
+): { paceBaseline?: PaceBaseline } {
+  if (!existing || !next) {
+    const paceBaseline = next ?? existing;
+    return paceBaseline ? { paceBaseline } : {};
+  }
+
+  const mean = existing.mean * (1 - weight) + next.mean * weight;
+  const variance =
+    (1 - weight) * (existing.stdDev ** 2 + (existing.mean - mean) ** 2) +
+    weight * (next.stdDev ** 2 + (next.mean - mean) ** 2);
+
+  return {
+    paceBaseline: {
+      mean,
+      stdDev: Math.sqrt(variance),
+      sampleCount: existing.sampleCount + next.sampleCount,
     },
   };
 }
@@ -254,6 +297,7 @@ export async function getVoiceDNAProfile(userId: string): Promise<{
   return {
     profile: {
       spokenPatterns: existing.spokenPatterns,
+      spokenPatternsByLanguage: existing.spokenPatternsByLanguage || {},
       writtenPatterns: existing.writtenPatterns,
       tonalAttributes: existing.tonalAttributes,
       referentInfluences: existing.referentInfluences,
@@ -277,14 +321,40 @@ export async function getVoiceDNAProfile(userId: string): Promise<{
 export async function buildVoiceDNA(
   input: BuildVoiceDNAInput
 ): Promise<BuildVoiceDNAResult> {
-  const { userId, transcript, wordTimestamps } = input;
-
-  // Step 1: Run enthusiasm detection (fast, local)
-  const enthusiasmAnalysis = detectEnthusiasm(wordTimestamps);
-  const enthusiasticTopics = extractEnthusiasticTopics(enthusiasmAnalysis);
-
-  // Step 2: Run linguistic analysis (uses LLM)
-  const linguisticResult = await analyzeLinguistics(transcript);
+  const { userId, ownerSpeaker } = input;
+  const language = input.language ?? null;
+
+  // Restrict analysis to the owner's speech so guests don't pollute the profile
+  const wordTimestamps = getOwnerWords(input.wordTimestamps, ownerSpeaker);
+  const transcript =
+    wordTimestamps === input.wordTimestamps
+      ? input.transcript
+      : wordTimestamps.map((w) => w.word).join(" ");
+
+  // Step 1: Get existing profile, whose pace and energy detection is relative to.
+  // People talk at different speeds in different languages, so the session's
+  // language has its own baseline once it has history.
+  const existingData = await getVoiceDNAProfile(userId);
+  const isNewProfile = !existingData.profile;
+  const spokenPatternsByLanguage = existingData.profile?.spokenPatternsByLanguage ?? {};
+  const existingLanguagePatterns = language
+    ? (spokenPatternsByLanguage[language] ?? null)
+    : null;
+  const pastEnthusiasm = (existingLanguagePatterns ?? existingData.profile?.spokenPatterns)
+    ?.enthusiasm;
+  const baseline: EnthusiasmBaseline | null = pastEnthusiasm?.paceBaseline
+    ? { pace: pastEnthusiasm.paceBaseline, energy: pastEnthusiasm.energyBaseline }
+    : null;
+
+  // Step 2: Run enthusiasm detection (fast, local)
+  const enthusiasmAnalysis = detectEnthusiasm(wordTimestamps, input.acousticFeatures, {
+    baseline,
+    language,
+  });
+  const enthusiasticTopics = extractEnthusiasticTopics(enthusiasmAnalysis, language);
+
+  // Step 3: Run linguistic analysis (uses LLM)
+  const linguisticResult = await analyzeLinguistics(transcript, language);
 
   // Enhance linguistic result with enthusiasm data
   linguisticResult.spokenPatterns.enthusiasm.topicsThatExcite = [
@@ -294,14 +364,15 @@ export async function buildVoiceDNA(
     ]),
   ].slice(0, 8);
 
+  // The baseline is compared against detector scores, so it is measured on
+  // the detector's scale rather than taken from the LLM's impression
   linguisticResult.spokenPatterns.enthusiasm.energyBaseline =
-    (linguisticResult.spokenPatterns.enthusiasm.energyBaseline +
-      enthusiasmAnalysis.overallEnergy) /
-    2;
+    enthusiasmAnalysis.overallEnergy;
 
-  // Step 3: Get existing profile
-  const existingData = await getVoiceDNAProfile(userId);
-  const isNewProfile = !existingData.profile;
+  const paceBaseline = measurePaceBaseline(wordTimestamps);
+  if (paceBaseline) {
+    linguisticResult.spokenPatterns.enthusiasm.paceBaseline = paceBaseline;
+  }
 
   // Step 4: Merge with existing profile
   const mergedSpokenPatterns = mergeSpokenPatterns(
@@ -310,6 +381,17 @@ export async function buildVoiceDNA(
     isNewProfile ? 1.0 : 0.3 // First session gets full weight
   );
 
+  const mergedPatternsByLanguage = language
+    ? {
+        ...spokenPatternsByLanguage,
+        [language]: mergeSpokenPatterns(
+          existingLanguagePatterns,
+          linguisticResult.spokenPatterns,
+          existingLanguagePatterns ? 0.3 : 1.0 // First session in this language
+        ),
+      }
+    : spokenPatternsByLanguage;
+
   const mergedTonalAttributes = mergeTonalAttributes(
     existingData.profile?.tonalAttributes || null,
     linguisticResult.tonalAttributes,
@@ -323,6 +405,7 @@ export async function buildVoiceDNA(
   const newVoiceSessionsAnalyzed = existingData.voiceSessionsAnalyzed + 1;
   const newVoiceDNA: VoiceDNA = {
     spokenPatterns: mergedSpokenPatterns,
+    spokenPatternsByLanguage: mergedPatternsByLanguage,
     writtenPatterns: existingData.profile?.writtenPatterns || null,
     tonalAttributes: mergedTonalAttributes,
     referentInfluences: existingData.profile?.referentInfluences || null,
@@ -345,6 +428,7 @@ export async function buildVoiceDNA(
     await db.insert(voiceDNAProfiles).values({
       userId,
       spokenPatterns: mergedSpokenPatterns,
+      spokenPatternsByLanguage: mergedPatternsByLanguage,
       writtenPatterns: null,
       tonalAttributes: mergedTonalAttributes,
       referentInfluences: null,
@@ -359,6 +443,7 @@ export async function buildVoiceDNA(
       .update(voiceDNAProfiles)
       .set({
         spokenPatterns: mergedSpokenPatterns,
+        spokenPatternsByLanguage: mergedPatternsByLanguage,
         tonalAttributes: mergedTonalAttributes,
         calibrationScore: newCalibrationScore,
         voiceSessionsAnalyzed: newVoiceSessionsAnalyzed,
@@ -466,6 +551,90 @@ export async function addLearnedRule(
   }
 }
 
+/**
+ * Nudge the written patterns toward what the user's own edits show. Only
+ * patterns already built from writing samples are adjusted; a rebuild starts
+ * over from the samples.
+ *
+ * @returns The fields that changed
+ */
+export async function adjustWrittenPatterns(
+  userId: string,
+  adjustments: Partial<WrittenPatterns>
+): Promise<Partial<WrittenPatterns>> {
+  const existingData = await getVoiceDNAProfile(userId);
+  const current = existingData.profile?.writtenPatterns;
+  if (!current) {
+    return {};
+  }
+
+  const changed = Object.fromEntries(
+    Object.entries(adjustments).filter(
+      ([field, value]) => current[field as keyof WrittenPatterns] !== value
+    )
+  ) as Partial<WrittenPatterns>;
+
+  if (Object.keys(changed).length > 0) {
+    await db
+      .update(voiceDNAProfiles)
+      .set({
+        writtenPatterns: { ...current, ...changed },
+        updatedAt: new Date(),
+      })
+      .where(eq(voiceDNAProfiles.userId, userId));
+  }
+
+  return changed;
+}
+
+/**
+ * Get the user's transcription glossary
+ */
+export async function getGlossary(userId: string): Promise<GlossaryTerm[]> {
+  const [existing] = await db
+    .select({ glossary: voiceDNAProfiles.glossary })
+    .from(voiceDNAProfiles)
+    .where(eq(voiceDNAProfiles.userId, userId))
+    .limit(1);
+
+  return existing?.glossary || [];
+}
+
+/**
+ * Replace the user's transcription glossary
+ */
+export async function updateGlossary(
+  userId: string,
+  glossary: GlossaryTerm[]
+): Promise<void> {
+  const existingData = await getVoiceDNAProfile(userId);
+
+  if (!existingData.profile) {
+    // Create a new profile with just the glossary
+    await db.insert(voiceDNAProfiles).values({
+      userId,
+      spokenPatterns: null,
+      writtenPatterns: null,
+      tonalAttributes: null,
+      referentInfluences: null,
+      learnedRules: [],
+      glossary,
+      calibrationScore: 0,
+      calibrationRoundsCompleted: 0,
+      voiceSessionsAnalyzed: 0,
+      writingSamplesAnalyzed: 0,
+    });
+  } else {
+    await db
+      .update(voiceDNAProfiles)
+      .set({
+        glossary,
+        updatedAt: new Date(),
+      })
+      .where(eq(voiceDNAProfiles.userId, userId));
+  }
+}
+
 /**
  * Merge follow-up responses into Voice DNA profile
  *
@@ -684,6 +853,7 @@ export async function rebuildVoiceDNA(userId: string): Promise<{
   // Step 5: Calculate new calibration score
   const newVoiceDNA: VoiceDNA = {
     spokenPatterns: existingData.profile?.spokenPatterns || null,
+    spokenPatternsByLanguage: existingData.profile?.spokenPatternsByLanguage || {},
     writtenPatterns,
     tonalAttributes: existingData.profile?.tonalAttributes || null,
     referentInfluences: existingData.profile?.referentInfluences || null,
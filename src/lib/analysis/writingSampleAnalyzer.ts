@@ -57,7 +57,7 @@ function calculateSentenceVariation(text: string): number {
 /**
  * Analyze paragraph structure to determine typical length
  */
-function analyzeParagraphStructure(
+export function analyzeParagraphStructure(
   text: string
 ): "short" | "medium" | "long" {
   const paragraphs = text.split(/\n\s*\n/).filter((p) => p.trim().length > 0);
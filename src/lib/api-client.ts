@@ -0,0 +1,129 @@
+/**
+ * Client-side helpers for calling the app's API routes
+ */
+
+import type { JobView } from "@/types/job";
+
+export interface ApiErrorBody {
+  error?: string;
+  details?: string;
+  hint?: string;
+}
+
+/**
+ * Safely parse JSON from a Response, returning null if parsing fails.
+ * Handles cases where server returns HTML error pages instead of JSON.
+ */
+export async function safeParseJSON(response: Response): Promise<ApiErrorBody | null> {
+  try {
+    const text = await response.text();
+    // Check if response looks like HTML (error page)
+    if (text.startsWith("<!DOCTYPE") || text.startsWith("<html")) {
+      console.error("Received HTML instead of JSON:", text.substring(0, 200));
+      return null;
+    }
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A background job that failed for good. `code` names permanent failures the
+ * caller can act on (e.g. "audio_gone": upload the recording again).
+ */
+export class JobFailedError extends Error {
+  code: string | null;
+
+  constructor(message: string, code: string | null) {
+    super(message);
+    this.name = "JobFailedError";
+    this.code = code;
+  }
+}
+
+const JOB_POLL_INTERVAL_MS = 1500;
+
+function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Poll a background job until it finishes
+ *
+ * @returns The job's result
+ * @throws JobFailedError if the job failed
+ */
+export async function waitForJob<T>(
+  jobId: string,
+  options: { intervalMs?: number; signal?: AbortSignal } = {}
+): Promise<T> {
+  const { intervalMs = JOB_POLL_INTERVAL_MS, signal } = options;
+
+  for (;;) {
+    const response = await fetch(`/api/jobs/${jobId}`, signal ? { signal } : {});
+    if (!response.ok) {
+      const errorBody = await safeParseJSON(response);
+      throw new Error(errorBody?.error || `Failed to check job (${response.status})`);
+    }
+
+    const job = (await response.json()) as JobView;
+    if (job.status === "succeeded") return job.result as T;
+    if (job.status === "failed") {
+      throw new JobFailedError(job.error || "Job failed", job.errorCode);
+    }
+
+    await delay(intervalMs, signal);
+  }
+}
+
+/**
+ * Call a route that may queue its work as a background job (202 with a
+ * jobId) and wait for the outcome
+ *
+ * @param options.onQueued - Called with the job's ID once queued (to cancel it)
+ * @returns The route's response body, or the job's result if it was queued
+ * @throws Error with the route's error message, or JobFailedError
+ */
+export async function requestJob<T>(
+  url: string,
+  init: RequestInit,
+  options: { onQueued?: (jobId: string) => void } = {}
+): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const errorBody = await safeParseJSON(response);
+    throw new Error(errorBody?.error || `Request failed (${response.status})`);
+  }
+
+  const body = await response.json();
+  if (response.status === 202) {
+    const { jobId } = body as { jobId: string };
+    options.onQueued?.(jobId);
+    return waitForJob<T>(jobId, init.signal ? { signal: init.signal } : {});
+  }
+  return body as T;
+}
+
+/**
+ * Cancel a background job. Whoever is waiting on it gets a JobFailedError
+ * with code "cancelled".
+ */
+export async function cancelJob(jobId: string): Promise<void> {
+  const response = await fetch(`/api/jobs/${jobId}`, { method: "DELETE" });
+  // 409: it finished first, which the waiter will see
+  if (!response.ok && response.status !== 409) {
+    const errorBody = await safeParseJSON(response);
+    throw new Error(errorBody?.error || `Failed to cancel (${response.status})`);
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Acoustic Feature Extraction
+ *
+ * Measures how a recording sounds, not just what was said: per-frame RMS
+ * loudness and pitch. Enthusiasm detection uses these to tell animated
+ * passages (louder, more pitch movement, fewer hesitations) from fast but
+ * monotone ones. Pauses are derived later from the loudness frames.
+ *
+ * Audio is decoded with ffmpeg to an 8kHz mono PCM file, which is plenty for
+ * speech pitch, and read back in batches of frames. Pitch tracking is CPU
+ * heavy, so each batch yields to the event loop before the next one.
+ */
+
+import { mkdtemp, open, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { AcousticFeatures } from "@/types/voice";
+import { decodePcm } from "./ffmpeg";
+
+const SAMPLE_RATE = 8000;
+const FRAME_DURATION = 0.1; // seconds
+const FRAME_SIZE = SAMPLE_RATE * FRAME_DURATION;
+const FRAMES_PER_BATCH = 100; // 10s of audio between event loop yields
+
+// Speech pitch range searched by the autocorrelation
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+const PITCH_WINDOW = 400; // samples (50ms) correlated per frame
+const VOICING_THRESHOLD = 0.6; // normalized autocorrelation peak
+const PEAK_TOLERANCE = 0.9; // earliest peak this close to the best wins (avoids octave errors)
+
+// Frames quieter than this are treated as silence and not pitch-tracked
+const SILENCE_DB = -50;
+const MIN_DB = -100;
+
+/**
+ * RMS level of a frame in dBFS
+ */
+function measureLoudness(frame: Float32Array): number {
+  let sumSquares = 0;
+  for (let i = 0; i < frame.length; i++) {
+    const sample = frame[i] ?? 0;
+    sumSquares += sample * sample;
+  }
+  const rms = Math.sqrt(sumSquares / frame.length);
+  return rms > 0 ? Math.max(MIN_DB, 20 * Math.log10(rms)) : MIN_DB;
+}
+
+/**
+ * Fundamental frequency of a frame via normalized autocorrelation, or null
+ * if no lag correlates strongly enough to call the frame voiced
+ *
+ * Multiples of the true period correlate almost as well as the period itself,
+ * so the shortest lag at a local peak near the best correlation is used.
+ */
+function measurePitch(frame: Float32Array): number | null {
+  const minLag = Math.floor(SAMPLE_RATE / MAX_PITCH_HZ);
+  const maxLag = Math.ceil(SAMPLE_RATE / MIN_PITCH_HZ);
+  if (PITCH_WINDOW + maxLag + 1 > frame.length) return null;
+
+  const correlations: number[] = [];
+  let bestCorrelation = 0;
+
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let cross = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i < PITCH_WINDOW; i++) {
+      const a = frame[i] ?? 0;
+      const b = frame[i + lag] ?? 0;
+      cross += a * b;
+      energyA += a * a;
+      energyB += b * b;
+    }
+    const denominator = Math.sqrt(energyA * energyB);
+    const correlation = denominator > 0 ? cross / denominator : 0;
+    correlations.push(correlation);
+    bestCorrelation = Math.max(bestCorrelation, correlation);
+  }
+
+  if (bestCorrelation < VOICING_THRESHOLD) return null;
+
+  // correlations[0] is lag minLag - 1, padded so every candidate has neighbours
+  for (let i = 1; i < correlations.length - 1; i++) {
+    const correlation = correlations[i] ?? 0;
+    if (
+      correlation >= bestCorrelation * PEAK_TOLERANCE &&
+      correlation >= (correlations[i - 1] ?? 0) &&
+      correlation >= (correlations[i + 1] ?? 0)
+    ) {
+      return SAMPLE_RATE / (minLag - 1 + i);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extract loudness and pitch frames from an audio or video file
+ *
+ * @param buffer - Encoded audio (any format ffmpeg can read)
+ * @param extension - File extension, used as a hint for the demuxer
+ */
+export async function extractAcousticFeatures(
+  buffer: Buffer,
+  extension: string
+): Promise<AcousticFeatures> {
+  const workDir = await mkdtemp(join(tmpdir(), "ouno-acoustic-"));
+
+  try {
+    const inputPath = join(workDir, `input.${extension}`);
+    await writeFile(inputPath, buffer);
+
+    const pcmPath = join(workDir, "audio.pcm");
+    await decodePcm(inputPath, pcmPath, SAMPLE_RATE);
+
+    const loudness: number[] = [];
+    const pitch: (number | null)[] = [];
+    const frame = new Float32Array(FRAME_SIZE);
+    const batch = Buffer.alloc(FRAME_SIZE * 2 * FRAMES_PER_BATCH);
+
+    const file = await open(pcmPath, "r");
+    try {
+      for (;;) {
+        const { bytesRead } = await file.read(batch, 0, batch.length, null);
+        const frameCount = Math.floor(bytesRead / (FRAME_SIZE * 2));
+
+        for (let f = 0; f < frameCount; f++) {
+          for (let i = 0; i < FRAME_SIZE; i++) {
+            frame[i] = batch.readInt16LE((f * FRAME_SIZE + i) * 2) / 32768;
+          }
+          const level = measureLoudness(frame);
+          const frequency = level > SILENCE_DB ? measurePitch(frame) : null;
+          loudness.push(Math.round(level * 10) / 10);
+          pitch.push(frequency === null ? null : Math.round(frequency));
+        }
+
+        // A trailing partial frame (under FRAME_DURATION) is dropped
+        if (bytesRead < batch.length) break;
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    } finally {
+      await file.close();
+    }
+
+    return { frameDuration: FRAME_DURATION, loudness, pitch };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
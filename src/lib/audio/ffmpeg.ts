@@ -0,0 +1,331 @@
+/**
+ * FFmpeg Audio Utilities
+ *
+ * Thin wrappers around the ffmpeg/ffprobe binaries for server-side audio
+ * processing (probing duration, extracting audio tracks, cutting and joining
+ * segments, decoding to raw PCM). Inputs are treated as untrusted: only
+ * local files and known media demuxers are allowed, and every run has a
+ * timeout.
+ *
+ * Env:
+ * - FFMPEG_PATH  - ffmpeg binary (default: "ffmpeg" on PATH)
+ * - FFPROBE_PATH - ffprobe binary (default: "ffprobe" on PATH)
+ */
+
+import { spawn } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+// Uploaded files are untrusted: only read local files, and only through real
+// media demuxers so playlists (HLS, concat, ...) can't pull in other files
+const PROTOCOL_WHITELIST = "file,pipe";
+const MEDIA_DEMUXERS = "mov,matroska,webm,mp3,wav,ogg,flac,aac";
+
+// A stuck process is killed rather than left holding the request open
+const PROBE_TIMEOUT_MS = 60 * 1000;
+const DECODE_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Input options that must precede each untrusted -i
+ */
+function safeInputArgs(demuxers: string = MEDIA_DEMUXERS): string[] {
+  return ["-protocol_whitelist", PROTOCOL_WHITELIST, "-format_whitelist", demuxers];
+}
+
+/**
+ * Run ffmpeg/ffprobe and resolve with its stdout. The process is killed after
+ * timeoutMs.
+ */
+function runBinary(binary: string, args: string[], timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGKILL");
+    }, timeoutMs);
+
+    child.stdout.on("data", (data: Buffer) => {
+      stdout += data.toString();
+    });
+    child.stderr.on("data", (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to run ${binary}: ${error.message}`));
+    });
+
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error(`${binary} timed out after ${timeoutMs / 1000}s`));
+      } else if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${binary} exited with code ${code}: ${stderr.slice(-500)}`));
+      }
+    });
+  });
+}
+
+/**
+ * Get the duration of an audio/video file in seconds
+ *
+ * MediaRecorder WebM files usually have no container duration (ffprobe prints
+ * "N/A"), so fall back to the end of the last audio packet, which requires
+ * reading through the whole file.
+ */
+export async function probeDurationSeconds(inputPath: string): Promise<number> {
+  const output = await runBinary(
+    process.env.FFPROBE_PATH || "ffprobe",
+    [
+      "-v",
+      "error",
+      "-show_entries",
+      "format=duration",
+      "-of",
+      "default=noprint_wrappers=1:nokey=1",
+      ...safeInputArgs(),
+      inputPath,
+    ],
+    PROBE_TIMEOUT_MS
+  );
+
+  const duration = parseFloat(output.trim());
+  if (Number.isFinite(duration)) {
+    return duration;
+  }
+
+  const packets = await runBinary(
+    process.env.FFPROBE_PATH || "ffprobe",
+    [
+      "-v",
+      "error",
+      "-select_streams",
+      "a:0",
+      "-show_entries",
+      "packet=pts_time,duration_time",
+      "-of",
+      "csv=p=0",
+      ...safeInputArgs(),
+      inputPath,
+    ],
+    PROBE_TIMEOUT_MS
+  );
+
+  let end = 0;
+  for (const line of packets.split("\n")) {
+    const [pts, packetDuration] = line.split(",");
+    const start = parseFloat(pts ?? "");
+    if (!Number.isFinite(start)) continue;
+    const length = parseFloat(packetDuration ?? "");
+    end = Math.max(end, start + (Number.isFinite(length) ? length : 0));
+  }
+
+  if (end <= 0) {
+    throw new Error(`Could not determine duration of ${inputPath}`);
+  }
+
+  return end;
+}
+
+/**
+ * Check whether a media file has at least one audio stream
+ */
+export async function probeHasAudio(inputPath: string): Promise<boolean> {
+  const output = await runBinary(
+    process.env.FFPROBE_PATH || "ffprobe",
+    [
+      "-v",
+      "error",
+      "-select_streams",
+      "a",
+      "-show_entries",
+      "stream=index",
+      "-of",
+      "csv=p=0",
+      ...safeInputArgs(),
+      inputPath,
+    ],
+    PROBE_TIMEOUT_MS
+  );
+
+  return output.trim().length > 0;
+}
+
+/**
+ * Extract the full audio track of an audio or video file as a compact mono MP3
+ *
+ * At 48kbps an hour of audio is ~21MB, which keeps most imports under the
+ * single-request transcription limit.
+ */
+export async function extractAudioTrack(inputPath: string, outputPath: string): Promise<void> {
+  await runBinary(
+    process.env.FFMPEG_PATH || "ffmpeg",
+    [
+      "-y",
+      "-v",
+      "error",
+      ...safeInputArgs(),
+      "-i",
+      inputPath,
+      "-vn",
+      "-ac",
+      "1",
+      "-ar",
+      "16000",
+      "-b:a",
+      "48k",
+      outputPath,
+    ],
+    DECODE_TIMEOUT_MS
+  );
+}
+
+/**
+ * Cut a segment of audio into a compact mono MP3 suitable for transcription
+ *
+ * @param inputPath - Source audio/video file
+ * @param outputPath - Destination .mp3 file
+ * @param startSeconds - Segment start offset
+ * @param durationSeconds - Segment length
+ */
+export async function extractAudioSegment(
+  inputPath: string,
+  outputPath: string,
+  startSeconds: number,
+  durationSeconds: number
+): Promise<void> {
+  await runBinary(
+    process.env.FFMPEG_PATH || "ffmpeg",
+    [
+      "-y",
+      "-v",
+      "error",
+      "-ss",
+      startSeconds.toFixed(3),
+      "-t",
+      durationSeconds.toFixed(3),
+      ...safeInputArgs(),
+      "-i",
+      inputPath,
+      "-vn",
+      "-ac",
+      "1",
+      "-ar",
+      "16000",
+      "-b:a",
+      "48k",
+      outputPath,
+    ],
+    DECODE_TIMEOUT_MS
+  );
+}
+
+/**
+ * Decode any audio/video file to a raw mono 16-bit little-endian PCM file,
+ * so long recordings can be read back in pieces instead of held in memory
+ *
+ * @param inputPath - Source audio/video file
+ * @param outputPath - Destination raw PCM file
+ * @param sampleRate - Output sample rate in Hz
+ */
+export async function decodePcm(
+  inputPath: string,
+  outputPath: string,
+  sampleRate: number
+): Promise<void> {
+  await runBinary(
+    process.env.FFMPEG_PATH || "ffmpeg",
+    [
+      "-y",
+      "-v",
+      "error",
+      ...safeInputArgs(),
+      "-i",
+      inputPath,
+      "-vn",
+      "-ac",
+      "1",
+      "-ar",
+      String(sampleRate),
+      "-f",
+      "s16le",
+      outputPath,
+    ],
+    DECODE_TIMEOUT_MS
+  );
+}
+
+/**
+ * Join several recordings of the same codec into one file without re-encoding
+ *
+ * Used for browser recordings that were resumed after a crash, where each
+ * resumed MediaRecorder run produces its own container.
+ *
+ * @param inputPaths - Source files, in playback order
+ * @param outputPath - Destination file (same container as the inputs)
+ */
+export async function concatAudioFiles(inputPaths: string[], outputPath: string): Promise<void> {
+  const listPath = `${outputPath}.txt`;
+  const list = inputPaths
+    .map((inputPath) => `file '${inputPath.replace(/'/g, "'\\''")}'`)
+    .join("\n");
+  await writeFile(listPath, list);
+
+  await runBinary(
+    process.env.FFMPEG_PATH || "ffmpeg",
+    [
+      "-y",
+      "-v",
+      "error",
+      // Our own list may use concat; the parts it names may not
+      ...safeInputArgs(`concat,${MEDIA_DEMUXERS}`),
+      "-f",
+      "concat",
+      "-safe",
+      "0",
+      "-i",
+      listPath,
+      "-c",
+      "copy",
+      outputPath,
+    ],
+    DECODE_TIMEOUT_MS
+  );
+}
+
+/**
+ * Join in-memory recordings of the same codec into one buffer (see
+ * concatAudioFiles). A single buffer is returned as is.
+ *
+ * @param buffers - Recordings, in playback order
+ * @param extension - Container extension shared by all of them
+ */
+export async function concatAudioBuffers(buffers: Buffer[], extension: string): Promise<Buffer> {
+  if (buffers.length === 1) {
+    return buffers[0] as Buffer;
+  }
+
+  const workDir = await mkdtemp(join(tmpdir(), "ouno-concat-"));
+  try {
+    const inputPaths: string[] = [];
+    for (const [index, buffer] of buffers.entries()) {
+      const inputPath = join(workDir, `input-${index}.${extension}`);
+      await writeFile(inputPath, buffer);
+      inputPaths.push(inputPath);
+    }
+
+    const outputPath = join(workDir, `joined.${extension}`);
+    await concatAudioFiles(inputPaths, outputPath);
+    return await readFile(outputPath);
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
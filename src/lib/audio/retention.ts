@@ -0,0 +1,208 @@
+/**
+ * Audio Retention
+ *
+ * Uploaded recordings are temporary and deleted after transcription. Users who
+ * opt in keep a copy of their session recordings so they can re-listen to
+ * them. Copies live in private storage under a per-user folder, named after
+ * the session, and are only served through /api/session/[id]/audio.
+ *
+ * Transcription can't retain directly, since the session doesn't exist yet:
+ * it holds the audio privately and returns a recording key, and session
+ * creation turns held audio into the session's recording. Held audio that is
+ * never attached is swept after HELD_AUDIO_TTL_MS.
+ *
+ * Sessions that will be analyzed keep their recording until analysis has
+ * measured it (see lib/audio/acousticFeatures.ts), retained or not; the
+ * analyze route deletes recordings the user didn't opt in to keep.
+ */
+
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { user } from "@/lib/schema";
+import {
+  deletePrivate,
+  downloadPrivate,
+  listPrivate,
+  uploadPrivate,
+} from "@/lib/storage";
+import { concatAudioBuffers } from "./ffmpeg";
+
+const RETAINED_AUDIO_FOLDER = "voice-recordings";
+const HELD_AUDIO_FOLDER = "voice-held";
+const HELD_AUDIO_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Matches /api/voice/upload and /api/voice/import
+const MAX_RETAINED_SIZE = 200 * 1024 * 1024;
+
+// Recording keys are "<uploadId>.<extension>"
+const RECORDING_KEY_PATTERN = /^[A-Za-z0-9_-]{1,100}\.[a-z0-9]{2,5}$/;
+
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  webm: "audio/webm",
+  mp4: "audio/mp4",
+  m4a: "audio/mp4",
+  mp3: "audio/mpeg",
+  mpeg: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+};
+
+function getHeldPath(userId: string, recordingKey: string): string {
+  return `${HELD_AUDIO_FOLDER}/${userId}/${recordingKey}`;
+}
+
+function getExtension(pathname: string): string {
+  return pathname.split(".").pop() ?? "";
+}
+
+/**
+ * Whether the user has opted in to keeping their recordings
+ */
+export async function getAudioRetention(userId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ retainAudio: user.retainAudio })
+    .from(user)
+    .where(eq(user.id, userId))
+    .limit(1);
+
+  return row?.retainAudio ?? false;
+}
+
+/**
+ * Update the user's retention preference. Existing recordings are unaffected.
+ */
+export async function setAudioRetention(userId: string, retainAudio: boolean): Promise<void> {
+  await db.update(user).set({ retainAudio }).where(eq(user.id, userId));
+}
+
+/**
+ * Check that a client-supplied value is a well-formed recording key
+ */
+export function isRecordingKey(value: unknown): value is string {
+  return typeof value === "string" && RECORDING_KEY_PATTERN.test(value);
+}
+
+/**
+ * Keep a transcribed recording until a session claims it
+ *
+ * @returns The recording key to pass to /api/session/create
+ */
+export async function holdAudio(
+  userId: string,
+  uploadId: string,
+  buffer: Buffer,
+  extension: string
+): Promise<string> {
+  const recordingKey = `${uploadId}.${extension}`;
+  if (!isRecordingKey(recordingKey)) {
+    throw new Error(`Invalid recording key: ${recordingKey}`);
+  }
+
+  await uploadPrivate(buffer, getHeldPath(userId, recordingKey), {
+    maxSize: MAX_RETAINED_SIZE,
+  });
+
+  // Sweep recordings whose session was never created
+  const cutoff = Date.now() - HELD_AUDIO_TTL_MS;
+  try {
+    const held = await listPrivate(`${HELD_AUDIO_FOLDER}/${userId}`);
+    await Promise.all(
+      held
+        .filter((file) => file.uploadedAt.getTime() < cutoff)
+        .map((file) => deletePrivate(file.pathname))
+    );
+  } catch (error) {
+    console.error(`Failed to sweep held audio for ${userId}:`, error);
+  }
+
+  return recordingKey;
+}
+
+/**
+ * Turn held recordings into a session's recording, joined in order, if the
+ * user opted in to keeping it or the session's analysis needs it. Held copies
+ * are deleted either way.
+ *
+ * @returns The private pathname of the session's recording and whether it is
+ * retained for playback, or null if nothing was kept
+ */
+export async function attachHeldAudio(
+  userId: string,
+  sessionId: string,
+  recordingKeys: string[],
+  keepForAnalysis: boolean
+): Promise<{ pathname: string; retained: boolean } | null> {
+  const heldPaths = recordingKeys.map((key) => getHeldPath(userId, key));
+
+  try {
+    const retained = recordingKeys.length > 0 && (await getAudioRetention(userId));
+    if (recordingKeys.length === 0 || (!retained && !keepForAnalysis)) {
+      return null;
+    }
+
+    // Only same-container recordings can be joined without re-encoding
+    const extension = getExtension(recordingKeys[0] as string);
+    if (!recordingKeys.every((key) => getExtension(key) === extension)) {
+      throw new Error("Recordings to join must share a format");
+    }
+
+    const buffers: Buffer[] = [];
+    for (const heldPath of heldPaths) {
+      const buffer = await downloadPrivate(heldPath);
+      if (!buffer) {
+        throw new Error(`Held recording not found: ${heldPath}`);
+      }
+      buffers.push(buffer);
+    }
+
+    const pathname = `${RETAINED_AUDIO_FOLDER}/${userId}/${sessionId}.${extension}`;
+    await uploadPrivate(await concatAudioBuffers(buffers, extension), pathname, {
+      maxSize: MAX_RETAINED_SIZE,
+    });
+    return { pathname, retained };
+  } finally {
+    await Promise.all(
+      heldPaths.map((heldPath) =>
+        deletePrivate(heldPath).catch((error) => {
+          console.error(`Failed to delete held audio ${heldPath}:`, error);
+        })
+      )
+    );
+  }
+}
+
+/**
+ * Read a session's recording
+ *
+ * @returns The audio, its content type and file extension, or null if it no
+ * longer exists
+ */
+export async function readSessionAudio(
+  pathname: string
+): Promise<{ buffer: Buffer; contentType: string; extension: string } | null> {
+  const buffer = await downloadPrivate(pathname);
+  if (!buffer) {
+    return null;
+  }
+
+  const extension = getExtension(pathname);
+  return {
+    buffer,
+    contentType: AUDIO_CONTENT_TYPES[extension] ?? "application/octet-stream",
+    extension,
+  };
+}
+
+/**
+ * Delete a session's recording
+ */
+export async function deleteSessionAudio(pathname: string): Promise<void> {
+  await deletePrivate(pathname);
+}
+
+/**
+ * URL a client plays a session's retained recording from
+ */
+export function getSessionAudioUrl(sessionId: string): string {
+  return `/api/session/${sessionId}/audio`;
+}
@@ -0,0 +1,98 @@
+/**
+ * Chunked Upload Assembly
+ *
+ * Long browser recordings are uploaded in small parts while the user is still
+ * speaking (see lib/voice/chunkedUploader.ts). Parts are kept in private
+ * storage under a per-user prefix until the client marks the upload complete,
+ * at which point they are joined into a single audio file, or aborts it.
+ *
+ * A recording has one or more segments: each segment is one MediaRecorder run
+ * (a fresh container), and parts within a segment are raw byte ranges of it.
+ * Multiple segments only occur when a crashed recording was resumed, and are
+ * joined with ffmpeg since their containers can't simply be concatenated.
+ */
+
+import { deletePrivateFolder, downloadPrivate, uploadPrivate } from "@/lib/storage";
+import { concatAudioBuffers } from "./ffmpeg";
+
+const PARTS_FOLDER = "voice-upload-parts";
+
+function getPartsFolder(userId: string, uploadId: string): string {
+  return `${PARTS_FOLDER}/${userId}/${uploadId}`;
+}
+
+function getPartFilename(segment: number, part: number, extension: string): string {
+  return `${segment}-${part}.${extension}`;
+}
+
+/**
+ * Store one part of a chunked upload. Re-sending a part replaces it, so
+ * clients can safely retry after a dropped connection.
+ */
+export async function storeUploadPart(
+  userId: string,
+  uploadId: string,
+  segment: number,
+  part: number,
+  extension: string,
+  buffer: Buffer,
+  maxSize: number
+): Promise<void> {
+  await uploadPrivate(
+    buffer,
+    `${getPartsFolder(userId, uploadId)}/${getPartFilename(segment, part, extension)}`,
+    { maxSize }
+  );
+}
+
+/**
+ * Join the stored parts of a chunked upload into a single audio buffer
+ *
+ * @param partCounts - Number of parts in each segment, in recording order
+ * @throws If a part is missing or the assembled file exceeds maxSize
+ */
+export async function assembleUploadParts(
+  userId: string,
+  uploadId: string,
+  partCounts: number[],
+  extension: string,
+  maxSize: number
+): Promise<Buffer> {
+  const folder = getPartsFolder(userId, uploadId);
+  const segmentBuffers: Buffer[] = [];
+  let totalSize = 0;
+
+  for (const [segment, partCount] of partCounts.entries()) {
+    const parts: Buffer[] = [];
+
+    for (let part = 0; part < partCount; part++) {
+      const buffer = await downloadPrivate(`${folder}/${getPartFilename(segment, part, extension)}`);
+      if (!buffer) {
+        throw new Error(`Missing part ${part} of segment ${segment}`);
+      }
+
+      totalSize += buffer.length;
+      if (totalSize > maxSize) {
+        throw new Error(`File too large. Maximum size: ${maxSize / 1024 / 1024}MB`);
+      }
+      parts.push(buffer);
+    }
+
+    if (parts.length > 0) {
+      segmentBuffers.push(Buffer.concat(parts));
+    }
+  }
+
+  if (segmentBuffers.length === 0) {
+    throw new Error("Upload contains no audio");
+  }
+
+  return concatAudioBuffers(segmentBuffers, extension);
+}
+
+/**
+ * Remove every stored part of a chunked upload
+ */
+export async function deleteUploadParts(userId: string, uploadId: string): Promise<void> {
+  await deletePrivateFolder(getPartsFolder(userId, uploadId));
+}
@@ -0,0 +1,64 @@
+/**
+ * Voice Uploads
+ *
+ * Where recordings wait between /api/voice/upload (or /api/voice/import) and
+ * transcription. They are raw voice audio, so they go to private storage,
+ * under the uploading user's folder and named after the upload ID. The file
+ * to transcribe is found from the user and upload ID alone: the pathname a
+ * client sends back as audioUrl only supplies the extension.
+ */
+
+const UPLOADS_FOLDER = "voice-uploads";
+
+// Extensions uploads are stored with, from their MIME subtype
+const UPLOAD_EXTENSIONS = new Set(["webm", "mp4", "mpeg", "mp3", "wav", "ogg", "m4a", "x-m4a"]);
+
+const UPLOAD_CONTENT_TYPES: Record<string, string> = {
+  webm: "audio/webm",
+  mp4: "audio/mp4",
+  mpeg: "audio/mpeg",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  m4a: "audio/m4a",
+  "x-m4a": "audio/m4a",
+};
+
+/**
+ * Storage folder of a user's uploads
+ */
+export function getUploadFolder(userId: string): string {
+  return `${UPLOADS_FOLDER}/${userId}`;
+}
+
+/**
+ * Storage pathname of a user's upload
+ */
+export function getUploadPathname(userId: string, uploadId: string, extension: string): string {
+  return `${getUploadFolder(userId)}/${uploadId}.${extension}`;
+}
+
+/**
+ * Find a user's upload from the audioUrl the upload route returned for it
+ *
+ * @returns The upload's pathname and content type, or null if audioUrl doesn't
+ * name this upload
+ */
+export function resolveUpload(
+  userId: string,
+  uploadId: string,
+  audioUrl: string
+): { pathname: string; contentType: string } | null {
+  const filename = audioUrl.split(/[?#]/)[0]?.split("/").pop() ?? "";
+  const dot = filename.lastIndexOf(".");
+  const extension = filename.slice(dot + 1).toLowerCase();
+
+  if (filename.slice(0, dot) !== uploadId || !UPLOAD_EXTENSIONS.has(extension)) {
+    return null;
+  }
+
+  return {
+    pathname: getUploadPathname(userId, uploadId, extension),
+    contentType: UPLOAD_CONTENT_TYPES[extension] ?? "audio/webm",
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Refinement Change Sets
+ *
+ * A refinement doesn't replace the content outright: the refined text is
+ * compared with the current version paragraph by paragraph, and each run of
+ * changed paragraphs becomes a hunk the user can accept or reject. Accepted
+ * hunks are spliced into the current version, so everything outside them
+ * stays exactly as it was.
+ */
+
+import type { ChangeHunk } from "@/types/content";
+import { alignSequences } from "./diff";
+import { paragraphRanges, type TextRange } from "./selection";
+
+export type ProposedHunk = Omit<ChangeHunk, "rationale">;
+
+type AcceptedHunk = Pick<ChangeHunk, "start" | "end" | "before" | "after">;
+
+// Most hunks a single change set may apply
+const MAX_HUNKS = 200;
+
+/**
+ * The hunks that turn one version of content into another
+ */
+export function buildHunks(before: string, after: string): ProposedHunk[] {
+  const beforeParagraphs = paragraphRanges(before);
+  const afterTexts = paragraphRanges(after).map((r) => after.slice(r.start, r.end));
+  const script = alignSequences(
+    beforeParagraphs.map((r) => before.slice(r.start, r.end)),
+    afterTexts
+  );
+
+  const hunks: ProposedHunk[] = [];
+  let i = 0; // Next paragraph of before
+  let j = 0; // Next paragraph of after
+  let open: { start: number; firstAdded: number } | null = null;
+  let lastUnchangedEnd = 0;
+
+  const close = (end: number) => {
+    if (!open) return;
+    hunks.push({
+      id: `hunk-${hunks.length + 1}`,
+      start: open.start,
+      end,
+      before: before.slice(open.start, end).trim(),
+      after: afterTexts.slice(open.firstAdded, j).join("\n\n"),
+    });
+    open = null;
+  };
+
+  for (const { op } of script) {
+    if (op === "equal") {
+      const paragraph = beforeParagraphs[i] as TextRange;
+      close(paragraph.start);
+      lastUnchangedEnd = paragraph.end;
+      i++;
+      j++;
+      continue;
+    }
+
+    // A hunk runs from the end of the unchanged paragraph before it
+    open ??= { start: lastUnchangedEnd, firstAdded: j };
+    if (op === "delete") i++;
+    else j++;
+  }
+  close(before.length);
+
+  return hunks;
+}
+
+/**
+ * Splice hunks into the content they were built from. Changed paragraphs are
+ * separated from their neighbours by one blank line.
+ */
+export function applyHunks(content: string, hunks: AcceptedHunk[]): string {
+  let result = content;
+
+  // Back to front, so the offsets of earlier hunks still hold
+  for (const hunk of [...hunks].sort((a, b) => b.start - a.start)) {
+    const leading = hunk.start > 0 ? "\n\n" : "";
+    const trailing = hunk.end < content.length ? "\n\n" : "";
+    const after = hunk.after.trim();
+    const replacement = after
+      ? `${leading}${after}${trailing}`
+      : leading && trailing
+        ? "\n\n"
+        : "";
+    result = result.slice(0, hunk.start) + replacement + result.slice(hunk.end);
+  }
+
+  return result;
+}
+
+/**
+ * Validate the hunks a user accepted against the content they apply to
+ *
+ * @returns status 409 when the content changed since the hunks were proposed
+ */
+export function resolveAcceptedHunks(
+  content: string,
+  value: unknown
+): { error: string; status: 400 | 409 } | { hunks: AcceptedHunk[] } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: "hunks must list at least one change to apply", status: 400 };
+  }
+  if (value.length > MAX_HUNKS) {
+    return { error: `At most ${MAX_HUNKS} changes can be applied at once`, status: 400 };
+  }
+
+  const hunks: AcceptedHunk[] = [];
+  for (const item of value) {
+    const input = item as Partial<Record<keyof AcceptedHunk, unknown>> | null;
+    const { start, end, before, after } = input ?? {};
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      typeof before !== "string" ||
+      typeof after !== "string"
+    ) {
+      return { error: "Each hunk needs start, end, before and after", status: 400 };
+    }
+    if ((start as number) < 0 || (start as number) > (end as number)) {
+      return { error: "A hunk's start must not be after its end", status: 400 };
+    }
+    hunks.push({ start: start as number, end: end as number, before, after });
+  }
+
+  hunks.sort((a, b) => a.start - b.start);
+  for (let k = 1; k < hunks.length; k++) {
+    const previous = hunks[k - 1] as AcceptedHunk;
+    const hunk = hunks[k] as AcceptedHunk;
+    if (hunk.start < previous.end || hunk.start === previous.start) {
+      return { error: "Hunks overlap", status: 400 };
+    }
+  }
+
+  const stale = hunks.some(
+    (h) => h.end > content.length || content.slice(h.start, h.end).trim() !== h.before.trim()
+  );
+  if (stale) {
+    return {
+      error: "The content changed since these changes were proposed. Refine it again.",
+      status: 409,
+    };
+  }
+
+  return { hunks };
+}
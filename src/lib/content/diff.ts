@@ -0,0 +1,246 @@
+/**
+ * Content Diff
+ *
+ * Compares two versions of a piece of content paragraph by paragraph, and
+ * word by word within paragraphs that were reworded. Paragraphs are matched
+ * with a longest-common-subsequence alignment; a removed and an added
+ * paragraph in the same place count as one rewritten paragraph when enough
+ * of their words carry over. Pure, so it runs on the server and the client.
+ */
+
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface WordChange {
+  op: DiffOp;
+  text: string; // Words with the whitespace between them
+}
+
+export interface ParagraphDiff {
+  op: DiffOp | "change";
+  before: string | null;
+  after: string | null;
+  words?: WordChange[]; // Set for "change"
+}
+
+export interface ContentDiff {
+  paragraphs: ParagraphDiff[];
+  stats: {
+    wordsAdded: number;
+    wordsRemoved: number;
+    paragraphsAdded: number;
+    paragraphsRemoved: number;
+    paragraphsChanged: number;
+  };
+}
+
+// Share of words two paragraphs need in common to be one rewritten paragraph
+const REWRITE_SIMILARITY = 0.4;
+
+// Past this many comparisons the alignment gives up and replaces wholesale
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitParagraphs(content: string): string[] {
+  return content
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Align two sequences, returning the edit script that turns `a` into `b`.
+ * Items match when their keys are equal.
+ */
+export function alignSequences(
+  a: string[],
+  b: string[],
+  key: (item: string) => string = (item) => item
+): Array<{ op: DiffOp; item: string }> {
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    return [
+      ...a.map((item) => ({ op: "delete" as const, item })),
+      ...b.map((item) => ({ op: "insert" as const, item })),
+    ];
+  }
+
+  const aKeys = a.map(key);
+  const bKeys = b.map(key);
+
+  // lengths[i][j]: LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        aKeys[i] === bKeys[j]
+          ? (lengths[(i + 1) * width + j + 1] as number) + 1
+          : Math.max(
+              lengths[(i + 1) * width + j] as number,
+              lengths[i * width + j + 1] as number
+            );
+    }
+  }
+
+  const script: Array<{ op: DiffOp; item: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (aKeys[i] === bKeys[j]) {
+      // Matching words keep the spacing of the newer text
+      script.push({ op: "equal", item: b[j] as string });
+      i++;
+      j++;
+    } else if (
+      (lengths[(i + 1) * width + j] as number) >= (lengths[i * width + j + 1] as number)
+    ) {
+      script.push({ op: "delete", item: a[i] as string });
+      i++;
+    } else {
+      script.push({ op: "insert", item: b[j] as string });
+      j++;
+    }
+  }
+  while (i < a.length) script.push({ op: "delete", item: a[i++] as string });
+  while (j < b.length) script.push({ op: "insert", item: b[j++] as string });
+
+  return script;
+}
+
+/**
+ * Word-level diff of two paragraphs. Whitespace stays attached to the word
+ * before it and doesn't count when matching words.
+ */
+export function diffWords(before: string, after: string): WordChange[] {
+  const tokenize = (text: string) => text.match(/\S+\s*/g) ?? [];
+  const changes: WordChange[] = [];
+
+  const words = alignSequences(tokenize(before), tokenize(after), (w) => w.trimEnd());
+
+  for (const { op, item } of words) {
+    const last = changes[changes.length - 1];
+    if (last?.op === op) {
+      last.text += item;
+    } else {
+      changes.push({ op, text: item });
+    }
+  }
+
+  return changes;
+}
+
+function similarity(before: string, after: string): number {
+  const beforeWords = new Set(before.toLowerCase().split(/\s+/));
+  const afterWords = new Set(after.toLowerCase().split(/\s+/));
+  let shared = 0;
+  for (const word of beforeWords) {
+    if (afterWords.has(word)) shared++;
+  }
+  return shared / Math.max(beforeWords.size, afterWords.size, 1);
+}
+
+/**
+ * Paragraph- and word-level diff between two versions of content
+ */
+export function diffContent(before: string, after: string): ContentDiff {
+  const script = alignSequences(splitParagraphs(before), splitParagraphs(after));
+  const paragraphs: ParagraphDiff[] = [];
+
+  // Between matching paragraphs, pair what was removed with what was added
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const pairs = Math.min(removed.length, added.length);
+    for (let k = 0; k < pairs; k++) {
+      const b = removed[k] as string;
+      const a = added[k] as string;
+      if (similarity(b, a) >= REWRITE_SIMILARITY) {
+        paragraphs.push({ op: "change", before: b, after: a, words: diffWords(b, a) });
+      } else {
+        paragraphs.push({ op: "delete", before: b, after: null });
+        paragraphs.push({ op: "insert", before: null, after: a });
+      }
+    }
+    for (const b of removed.slice(pairs)) {
+      paragraphs.push({ op: "delete", before: b, after: null });
+    }
+    for (const a of added.slice(pairs)) {
+      paragraphs.push({ op: "insert", before: null, after: a });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const { op, item } of script) {
+    if (op === "delete") {
+      removed.push(item);
+    } else if (op === "insert") {
+      added.push(item);
+    } else {
+      flush();
+      paragraphs.push({ op: "equal", before: item, after: item });
+    }
+  }
+  flush();
+
+  const stats = {
+    wordsAdded: 0,
+    wordsRemoved: 0,
+    paragraphsAdded: 0,
+    paragraphsRemoved: 0,
+    paragraphsChanged: 0,
+  };
+  for (const paragraph of paragraphs) {
+    if (paragraph.op === "insert") {
+      stats.paragraphsAdded++;
+      stats.wordsAdded += countWords(paragraph.after as string);
+    } else if (paragraph.op === "delete") {
+      stats.paragraphsRemoved++;
+      stats.wordsRemoved += countWords(paragraph.before as string);
+    } else if (paragraph.op === "change") {
+      stats.paragraphsChanged++;
+      for (const word of paragraph.words ?? []) {
+        if (word.op === "insert") stats.wordsAdded += countWords(word.text);
+        if (word.op === "delete") stats.wordsRemoved += countWords(word.text);
+      }
+    }
+  }
+
+  return { paragraphs, stats };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Describe a diff in a few short lines, e.g. for a refinement's summary
+ */
+export function describeChanges(diff: ContentDiff): string[] {
+  const { stats } = diff;
+  const changes: string[] = [];
+
+  const titleChanged = diff.paragraphs.some(
+    (p) => p.op !== "equal" && (p.before ?? p.after ?? "").startsWith("# ")
+  );
+  if (titleChanged) {
+    changes.push("Title updated");
+  }
+
+  if (stats.paragraphsChanged > 0) {
+    changes.push(`Reworded ${plural(stats.paragraphsChanged, "paragraph")}`);
+  }
+  if (stats.paragraphsAdded > 0) {
+    changes.push(`Added ${plural(stats.paragraphsAdded, "paragraph")}`);
+  }
+  if (stats.paragraphsRemoved > 0) {
+    changes.push(`Removed ${plural(stats.paragraphsRemoved, "paragraph")}`);
+  }
+  if (stats.wordsAdded > 0 || stats.wordsRemoved > 0) {
+    changes.push(`${stats.wordsAdded} words added, ${stats.wordsRemoved} removed`);
+  }
+
+  return changes.length > 0 ? changes : ["No changes"];
+}
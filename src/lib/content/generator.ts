@@ -0,0 +1,282 @@
+/**
+ * Session Content Generation
+ *
+ * Writes a session up as content in the user's voice, in the language it was
+ * spoken or translated into another. A session can be generated any number
+ * of times, with different templates (built-in or the user's own), models
+ * and referent blends; each generation can be translated, each language a
+ * separate piece of content.
+ * The session's first content completes it. Runs as the generate_content job
+ * (see lib/jobs).
+ */
+
+import { openrouter } from "@openrouter/ai-sdk-provider";
+import { streamText } from "ai";
+import { and, asc, eq, isNull, or } from "drizzle-orm";
+import { getVoiceDNAProfile } from "@/lib/analysis/voiceDNABuilder";
+import { db } from "@/lib/db";
+import { completeJobWith, PermanentJobError, type Job } from "@/lib/jobs/queue";
+import { generatedContent, voiceSessions } from "@/lib/schema";
+import { publishSessionEvent } from "@/lib/sessionEvents";
+import { transitionSession } from "@/lib/sessionTransitions";
+import { buildSpeakerTranscript, hasMultipleSpeakers } from "@/lib/transcription/speakers";
+import type { GenerateContentJobPayload, GenerateContentJobResult } from "@/types/job";
+import { processGeneratedContent, cleanupContent } from "./postProcessor";
+import {
+  buildGenerationPrompt,
+  getGenerationSystemPrompt,
+  type GenerationContext,
+} from "./promptComposer";
+import { getCustomTemplate } from "./templates";
+
+const MODEL = process.env.OPENROUTER_MODEL || "anthropic/claude-sonnet-4";
+
+// How often the text written so far is published to the session's watchers
+const DELTA_PUBLISH_INTERVAL_MS = 250;
+
+/**
+ * Find a generation's content in a language: the generation itself or one of
+ * its translations. Refinements are later versions of it, so only the
+ * original counts.
+ *
+ * @param language - ISO-639-1 code, or null for sessions without a detected language
+ */
+export async function findTranslation(generationId: string, language: string | null) {
+  const [existingContent] = await db
+    .select()
+    .from(generatedContent)
+    .where(
+      and(
+        or(
+          eq(generatedContent.id, generationId),
+          eq(generatedContent.translationOf, generationId)
+        ),
+        isNull(generatedContent.parentVersionId),
+        language
+          ? eq(generatedContent.language, language)
+          : isNull(generatedContent.language)
+      )
+    )
+    .orderBy(asc(generatedContent.createdAt))
+    .limit(1);
+
+  return existingContent ?? null;
+}
+
+/**
+ * Generate a new version of a session's content, or translate a generation
+ * unless that translation already exists. The content is only stored once it
+ * has been written in full, together with the job's success, so aborting the
+ * signal or cancelling the job midway leaves nothing behind.
+ *
+ * @returns The content, or null if the session no longer exists or has no
+ * transcript
+ */
+export async function generateSessionContent(
+  payload: GenerateContentJobPayload,
+  job: Job,
+  signal?: AbortSignal
+): Promise<GenerateContentJobResult | null> {
+  const startTime = Date.now();
+  const { sessionId, template } = payload;
+
+  const [voiceSession] = await db
+    .select()
+    .from(voiceSessions)
+    .where(eq(voiceSessions.id, sessionId))
+    .limit(1);
+
+  if (!voiceSession?.transcript) {
+    return null;
+  }
+
+  const language = payload.language ?? voiceSession.language;
+  const translationOf = payload.translationOf ?? null;
+  const model = payload.model ?? MODEL;
+
+  const existingContent = translationOf && (await findTranslation(translationOf, language));
+  if (existingContent) {
+    return {
+      contentId: existingContent.id,
+      title: existingContent.title,
+      wordCount: existingContent.wordCount,
+      readTimeMinutes: existingContent.readTimeMinutes,
+      language: existingContent.language,
+      generationTimeMs: existingContent.generationTimeMs ?? 0,
+      alreadyGenerated: true,
+    };
+  }
+
+  const customTemplate = payload.customTemplateId
+    ? await getCustomTemplate(voiceSession.userId, payload.customTemplateId)
+    : null;
+  if (payload.customTemplateId && !customTemplate) {
+    throw new PermanentJobError("template_unavailable", "Content template no longer exists");
+  }
+
+  // The session's first content completes it; later ones are other versions or translations
+  const updatesSessionStatus = !voiceSession.generatedContentId;
+  if (updatesSessionStatus) {
+    await transitionSession(sessionId, "generating", {
+      actor: "worker",
+      reason: "Generation started",
+    });
+  }
+
+  // Fetch user's Voice DNA profile, with this generation's referent blend
+  const { profile } = await getVoiceDNAProfile(voiceSession.userId);
+  const voiceDNA =
+    profile && payload.referentInfluences
+      ? { ...profile, referentInfluences: payload.referentInfluences }
+      : profile;
+
+  // Build generation context
+  const followUpQuestions = voiceSession.followUpQuestions?.map((q) => ({
+    id: q.id,
+    question: q.question,
+  }));
+
+  // Conversations keep every speaker so guests can be quoted, labeled by who's who
+  const wordTimestamps = voiceSession.wordTimestamps || [];
+  const isConversation =
+    !!voiceSession.ownerSpeaker && hasMultipleSpeakers(wordTimestamps);
+  const originalTranscript = isConversation
+    ? buildSpeakerTranscript(wordTimestamps, voiceSession.ownerSpeaker as string)
+    : voiceSession.transcript;
+
+  const generationContext: GenerationContext = {
+    voiceDNA: voiceDNA || {
+      spokenPatterns: null,
+      writtenPatterns: null,
+      tonalAttributes: null,
+      referentInfluences: payload.referentInfluences ?? null,
+      learnedRules: [],
+      calibrationScore: 0,
+    },
+    originalTranscript,
+    enthusiasmAnalysis: voiceSession.enthusiasmAnalysis,
+    contentOutline: voiceSession.contentOutline,
+    followUpResponses: voiceSession.followUpResponses || [],
+    ...(followUpQuestions && { followUpQuestions }),
+    template,
+    customTemplate,
+    isConversation,
+    language: voiceSession.language,
+    targetLanguage: language,
+  };
+
+  // Build the prompt
+  const prompt = buildGenerationPrompt(generationContext);
+  const systemPrompt = getGenerationSystemPrompt();
+
+  // Estimate target word count based on transcript length
+  const transcriptWords = voiceSession.transcript.split(/\s+/).length;
+  const followUpWords = (voiceSession.followUpResponses || [])
+    .map((r) => r.content?.split(/\s+/).length || 0)
+    .reduce((a, b) => a + b, 0);
+  const totalInputWords = transcriptWords + followUpWords;
+
+  // Target 70-100% of input word count for output (structured content is often slightly shorter)
+  let targetWordCount = Math.max(300, Math.round(totalInputWords * 0.85));
+
+  // A custom template's length target takes precedence
+  if (customTemplate?.minWords) {
+    targetWordCount = Math.max(targetWordCount, customTemplate.minWords);
+  }
+  if (customTemplate?.maxWords) {
+    targetWordCount = Math.min(targetWordCount, customTemplate.maxWords);
+  }
+
+  // Generate content, publishing it to the session's watchers as it's written
+  const stream = streamText({
+    model: openrouter(model),
+    system: systemPrompt,
+    prompt: `${prompt}\n\nTarget approximately ${targetWordCount} words.`,
+    maxOutputTokens: 4000,
+    temperature: 0.7, // Some creativity but stay faithful
+    ...(signal && { abortSignal: signal }),
+  });
+
+  let rawContent = "";
+  let unpublished = "";
+  let lastPublishedAt = Date.now();
+  for await (const part of stream.fullStream) {
+    if (part.type === "error") throw part.error;
+    if (part.type !== "text-delta") continue;
+
+    rawContent += part.text;
+    unpublished += part.text;
+    if (Date.now() - lastPublishedAt >= DELTA_PUBLISH_INTERVAL_MS) {
+      await publishSessionEvent(sessionId, { type: "generation_delta", text: unpublished });
+      unpublished = "";
+      lastPublishedAt = Date.now();
+    }
+  }
+  if (unpublished) {
+    await publishSessionEvent(sessionId, { type: "generation_delta", text: unpublished });
+  }
+
+  // A cancelled generation ends the stream early; keep the partial draft out
+  signal?.throwIfAborted();
+
+  // Clean up and process the content
+  const cleanedContent = cleanupContent(rawContent);
+  const processed = processGeneratedContent(cleanedContent);
+
+  const generationTimeMs = Date.now() - startTime;
+
+  // Store the generated content and complete the session, unless the job was cancelled meanwhile
+  const result = await completeJobWith(job, async (tx) => {
+    const [newContent] = await tx
+      .insert(generatedContent)
+      .values({
+        userId: voiceSession.userId,
+        sessionId,
+        title: processed.title,
+        content: processed.content,
+        wordCount: processed.wordCount,
+        readTimeMinutes: processed.readTimeMinutes,
+        status: "draft",
+        voiceDNASnapshot: voiceDNA,
+        referentInfluencesUsed: generationContext.voiceDNA.referentInfluences,
+        version: 1,
+        modelUsed: model,
+        generationTimeMs,
+        template,
+        customTemplateId: customTemplate?.id ?? null,
+        language,
+        translationOf,
+      })
+      .returning();
+
+    if (!newContent) {
+      throw new Error("Failed to store generated content");
+    }
+
+    if (updatesSessionStatus) {
+      await transitionSession(sessionId, "complete", {
+        actor: "worker",
+        reason: "Content generated",
+        changes: { generatedContentId: newContent.id, title: processed.title },
+        tx,
+      });
+    }
+
+    return {
+      contentId: newContent.id,
+      title: processed.title,
+      wordCount: processed.wordCount,
+      readTimeMinutes: processed.readTimeMinutes,
+      language,
+      generationTimeMs,
+      alreadyGenerated: false,
+    };
+  });
+
+  await publishSessionEvent(sessionId, {
+    type: "generation_complete",
+    contentId: result.contentId,
+  });
+
+  return result;
+}
@@ -0,0 +1,24 @@
+/**
+ * Generation Models
+ *
+ * OpenRouter models offered when generating another version of a session's
+ * content. Without a pick, generation uses OPENROUTER_MODEL.
+ */
+
+export const GENERATION_MODELS = [
+  { id: "anthropic/claude-sonnet-4", name: "Claude Sonnet 4" },
+  { id: "openai/gpt-5-mini", name: "GPT-5 mini" },
+  { id: "openai/gpt-4o", name: "GPT-4o" },
+  { id: "google/gemini-2.5-pro", name: "Gemini 2.5 Pro" },
+] as const;
+
+export function isGenerationModel(model: string): boolean {
+  return GENERATION_MODELS.some((m) => m.id === model);
+}
+
+/**
+ * Display name for a model ID, falling back to the ID itself
+ */
+export function getModelName(model: string): string {
+  return GENERATION_MODELS.find((m) => m.id === model)?.name ?? model;
+}
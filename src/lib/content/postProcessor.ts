@@ -196,6 +196,30 @@ export function cleanupContent(content: string): string {
   return cleaned.trim();
 }
 
+/**
+ * Clean up a rewritten passage of existing content
+ * - Removes preambles and trailing artifacts, like cleanupContent
+ * - Unwraps the passage from quotes or a code fence the model put it in
+ * - Leaves headings alone: a passage doesn't have to start with the title
+ */
+export function cleanupPassage(passage: string): string {
+  let cleaned = passage.trim();
+
+  for (const pattern of PREAMBLE_PATTERNS) {
+    cleaned = cleaned.replace(pattern, "");
+  }
+  for (const pattern of TRAILING_PATTERNS) {
+    cleaned = cleaned.replace(pattern, "");
+  }
+
+  cleaned = cleaned
+    .trim()
+    .replace(/^```[a-z]*\n([\s\S]*?)\n```$/i, "$1")
+    .replace(/^"""\s*([\s\S]*?)\s*"""$/, "$1");
+
+  return cleaned.replace(/\n{3,}/g, "\n\n").trim();
+}
+
 /**
  * Ensure content starts with a proper H1 title
  */
@@ -5,10 +5,11 @@
  * applying referent influences as "seasoning".
  */
 
+import { getLanguageName } from "@/lib/languages";
 import { getReferentProfile } from "@/lib/referents/profiles";
-import type { ContentTemplate } from "@/types/content";
+import type { ContentTemplate, CustomTemplate } from "@/types/content";
 import type { EnthusiasmAnalysis, ContentOutline, FollowUpResponse } from "@/types/session";
-import type { VoiceDNA, ReferentInfluences, TonalAttributes } from "@/types/voiceDNA";
+import type { VoiceDNA, ReferentInfluences, SpokenPatterns, TonalAttributes } from "@/types/voiceDNA";
 
 export interface GenerationContext {
   voiceDNA: VoiceDNA;
@@ -18,6 +19,14 @@ export interface GenerationContext {
   followUpResponses: FollowUpResponse[];
   followUpQuestions?: Array<{ id: string; question: string }>;
   template?: ContentTemplate;
+  /** User-defined template, written in place of the built-in one */
+  customTemplate?: CustomTemplate | null;
+  /** Transcript is a labeled conversation (ME / GUEST turns) */
+  isConversation?: boolean;
+  /** ISO-639-1 code the session was spoken in */
+  language?: string | null;
+  /** ISO-639-1 code to write the article in, when it differs from the spoken language */
+  targetLanguage?: string | null;
 }
 
 /**
@@ -63,15 +72,22 @@ export function buildGenerationPrompt(context: GenerationContext): string {
     followUpResponses,
     followUpQuestions,
     template = "blog_post",
+    customTemplate = null,
+    isConversation = false,
+    language = null,
+    targetLanguage = null,
   } = context;
 
+  // Writing in the spoken language is the default, not a translation
+  const translateTo = targetLanguage && targetLanguage !== language ? targetLanguage : null;
+
   const sections: string[] = [];
 
   // Critical instruction
   sections.push(buildCriticalInstruction());
 
   // Voice DNA profile
-  sections.push(buildVoiceDNASection(voiceDNA));
+  sections.push(buildVoiceDNASection(voiceDNA, language, translateTo));
 
   // Referent influences (if any)
   if (voiceDNA.referentInfluences?.referents.length) {
@@ -79,7 +95,9 @@ export function buildGenerationPrompt(context: GenerationContext): string {
   }
 
   // Original content
-  sections.push(buildContentSection(originalTranscript, followUpResponses, followUpQuestions));
+  sections.push(
+    buildContentSection(originalTranscript, followUpResponses, followUpQuestions, isConversation)
+  );
 
   // Enthusiasm map
   if (enthusiasmAnalysis) {
@@ -90,7 +108,10 @@ export function buildGenerationPrompt(context: GenerationContext): string {
   sections.push(buildStructureSection(contentOutline, voiceDNA));
 
   // Output requirements (with template)
-  sections.push(buildOutputRequirements(voiceDNA, template));
+  const templateInstructions = customTemplate
+    ? buildCustomTemplateInstructions(customTemplate)
+    : TEMPLATE_INSTRUCTIONS[template];
+  sections.push(buildOutputRequirements(voiceDNA, templateInstructions, language, translateTo));
 
   return sections.join("\n\n");
 }
@@ -135,7 +156,33 @@ Rules:
 - Maintain THEIR tone—if they're casual, stay casual; if they're formal, stay formal`;
 }
 
-function buildVoiceDNASection(voiceDNA: VoiceDNA): string {
+/**
+ * The spoken patterns to write a session with. Patterns from sessions in the
+ * same language come first. Otherwise the cross-language patterns apply, minus
+ * their vocabulary if the user records in other languages - phrases from one
+ * language don't belong in an article written in another.
+ */
+function getSpokenPatterns(
+  voiceDNA: VoiceDNA,
+  language: string | null
+): { patterns: SpokenPatterns | null; includeVocabulary: boolean } {
+  const byLanguage = voiceDNA.spokenPatternsByLanguage ?? {};
+  const languagePatterns = language ? byLanguage[language] : undefined;
+  if (languagePatterns) {
+    return { patterns: languagePatterns, includeVocabulary: true };
+  }
+
+  return {
+    patterns: voiceDNA.spokenPatterns,
+    includeVocabulary: !language || Object.keys(byLanguage).length === 0,
+  };
+}
+
+function buildVoiceDNASection(
+  voiceDNA: VoiceDNA,
+  language: string | null,
+  translateTo: string | null
+): string {
   const parts: string[] = ["## VOICE DNA PROFILE"];
 
   // Check if we have any Voice DNA data
@@ -154,8 +201,8 @@ Since we don't have detailed patterns, focus on:
   }
 
   // Spoken patterns
-  if (voiceDNA.spokenPatterns) {
-    const sp = voiceDNA.spokenPatterns;
+  const { patterns: sp, includeVocabulary } = getSpokenPatterns(voiceDNA, language);
+  if (sp) {
     parts.push(`### Speaking Style
 - Sentence length: ${sp.rhythm.avgSentenceLength}
 - Pace: ${sp.rhythm.paceVariation}
@@ -163,13 +210,16 @@ Since we don't have detailed patterns, focus on:
 - Uses analogies: ${sp.rhetoric.usesAnalogies ? "Yes" : "No"}
 - Storytelling style: ${sp.rhetoric.storytellingStyle}`);
 
-    if (sp.vocabulary.uniquePhrases.length > 0) {
+    if (includeVocabulary && sp.vocabulary.uniquePhrases.length > 0) {
+      const heading = translateTo
+        ? `Signature Phrases (render each as the idiomatic ${getLanguageName(translateTo)} equivalent, not word for word)`
+        : "Signature Phrases to Preserve";
       parts.push(`
-### Signature Phrases to Preserve
+### ${heading}
 ${sp.vocabulary.uniquePhrases.map((p) => `- "${p}"`).join("\n")}`);
     }
 
-    if (sp.vocabulary.frequentWords.length > 0) {
+    if (includeVocabulary && sp.vocabulary.frequentWords.length > 0) {
       parts.push(`
 ### Frequently Used Words
 ${sp.vocabulary.frequentWords.slice(0, 10).join(", ")}`);
@@ -249,7 +299,8 @@ ${ref.activeTraits.length > 0 ? `Apply especially: ${ref.activeTraits.join(", ")
 function buildContentSection(
   transcript: string,
   followUpResponses: FollowUpResponse[],
-  followUpQuestions?: Array<{ id: string; question: string }>
+  followUpQuestions?: Array<{ id: string; question: string }>,
+  isConversation: boolean = false
 ): string {
   const parts: string[] = [];
 
@@ -258,6 +309,11 @@ function buildContentSection(
 ${transcript}
 """`);
 
+  if (isConversation) {
+    parts.push(`NOTE: This was a conversation. Lines marked ME are the author—write in their voice.
+Lines marked GUEST are other people: you may quote them with attribution, but never adopt their voice or present their views as the author's.`);
+  }
+
   // Add follow-up responses with context
   const answeredResponses = followUpResponses.filter(
     (r) => r.responseType !== "skip" && r.content
@@ -346,7 +402,50 @@ ${outline.sections
   return parts.join("\n");
 }
 
-function buildOutputRequirements(voiceDNA: VoiceDNA, template: ContentTemplate = "blog_post"): string {
+/**
+ * Format instructions for a user-defined template. Its sections replace
+ * the structure the outline and Voice DNA would otherwise suggest.
+ */
+function buildCustomTemplateInstructions(customTemplate: CustomTemplate): string {
+  const { name, description, sections, minWords, maxWords, instructions } = customTemplate;
+  const lines = [`FORMAT: ${name}`];
+
+  if (description) {
+    lines.push(`- ${description}`);
+  }
+  lines.push("- Start with a title (# Heading) that fits the format");
+
+  if (sections.length > 0) {
+    lines.push("- Organize the content into these sections, in this order, each under a ## heading:");
+    sections.forEach((section, index) => {
+      const guidance = section.instructions ? `: ${section.instructions}` : "";
+      lines.push(`  ${index + 1}. ${section.heading}${guidance}`);
+    });
+    lines.push("- Follow these sections over any structure suggested above");
+    lines.push("- Leave out a section rather than invent material they didn't give you for it");
+  }
+
+  if (minWords && maxWords) {
+    lines.push(`- Length: ${minWords}-${maxWords} words`);
+  } else if (minWords) {
+    lines.push(`- Length: at least ${minWords} words`);
+  } else if (maxWords) {
+    lines.push(`- Length: no more than ${maxWords} words`);
+  }
+
+  if (instructions) {
+    lines.push("", "FORMAT INSTRUCTIONS:", instructions);
+  }
+
+  return lines.join("\n");
+}
+
+function buildOutputRequirements(
+  voiceDNA: VoiceDNA,
+  templateInstructions: string,
+  language: string | null = null,
+  translateTo: string | null = null
+): string {
   const formality = voiceDNA.writtenPatterns?.formality ?? 0.5;
   const formalityNote =
     formality < 0.3
@@ -355,15 +454,15 @@ function buildOutputRequirements(voiceDNA: VoiceDNA, template: ContentTemplate =
         ? "polished, professional"
         : "balanced, approachable";
 
-  const templateInstructions = TEMPLATE_INSTRUCTIONS[template];
+  const languageInstructions = buildLanguageInstructions(language, translateTo);
 
   return `## OUTPUT REQUIREMENTS
 
 ${templateInstructions}
-
+${languageInstructions}
 STYLE:
 - Keep their authentic voice—tone should be ${formalityNote}
-- Include their actual phrases—don't paraphrase unique expressions
+- ${translateTo ? "Carry their phrases over idiomatically—don't flatten unique expressions" : "Include their actual phrases—don't paraphrase unique expressions"}
 - Create smooth transitions between ideas
 
 CRITICAL RULES:
@@ -376,6 +475,35 @@ CRITICAL RULES:
 - Each paragraph should add new value, not repeat previous content`;
 }
 
+/**
+ * Which language to write in. Translations carry the voice across rather
+ * than the words: a literal rendering of someone's expressions reads as
+ * nobody's voice in the target language.
+ */
+function buildLanguageInstructions(language: string | null, translateTo: string | null): string {
+  if (translateTo) {
+    const targetName = getLanguageName(translateTo);
+    const spoken = language ? ` They spoke in ${getLanguageName(language)}.` : "";
+    return `
+LANGUAGE:
+- Write the entire article, title included, in ${targetName}.${spoken}
+- Translate meaning, not words: render their expressions, idioms and signature phrases as what a native ${targetName} speaker with their personality would say
+- Carry their voice across: sentence rhythm, tone, humor, rhetorical questions and analogies should survive the translation
+- Quotes from other speakers are translated too
+`;
+  }
+
+  if (language) {
+    return `
+LANGUAGE:
+- Write the entire article, title included, in ${getLanguageName(language)}—the language they spoke
+- Keep their phrases in their original wording; never translate them into another language
+`;
+  }
+
+  return "";
+}
+
 // Helper functions
 
 function formatFormality(formality: number): string {
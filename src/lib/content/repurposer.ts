@@ -0,0 +1,267 @@
+/**
+ * Content Repurposing
+ *
+ * Rewrites an article for other platforms: a LinkedIn post, an X thread, a
+ * newsletter blurb or a short video script. The article is already in the
+ * user's voice, so it's the only source; nothing is added to it. Each output
+ * is checked against its platform's limits and sent back once to be
+ * tightened if it runs over. Runs as the repurpose_content job (see lib/jobs).
+ */
+
+import { openrouter } from "@openrouter/ai-sdk-provider";
+import { generateText } from "ai";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { getLanguageName } from "@/lib/languages";
+import { generatedContent } from "@/lib/schema";
+import { CONTENT_FORMATS, type RepurposeFormat } from "@/types/content";
+import type { RepurposeContentJobPayload, RepurposeContentJobResult } from "@/types/job";
+import { calculateReadTime, calculateWordCount } from "./postProcessor";
+
+const MODEL = process.env.OPENROUTER_MODEL || "anthropic/claude-sonnet-4";
+
+interface FormatSpec {
+  instructions: string;
+  maxCharacters?: number;
+  maxPostCharacters?: number; // Each post of a thread
+  maxPosts?: number;
+  maxWords?: number;
+}
+
+const FORMAT_SPECS: Record<RepurposeFormat, FormatSpec> = {
+  linkedin_post: {
+    maxCharacters: 3000,
+    instructions: `FORMAT: LinkedIn post
+- Open with a hook in the first two lines (under 200 characters): that's all readers see before "see more"
+- Short paragraphs of 1-3 sentences, separated by blank lines
+- Plain text only: LinkedIn doesn't render markdown, so no headings, bold or links
+- End with a question or takeaway that invites comments
+- At most 3 relevant hashtags, on the last line
+- At most 3,000 characters in total`,
+  },
+  x_thread: {
+    maxPostCharacters: 280,
+    maxPosts: 12,
+    instructions: `FORMAT: X (Twitter) thread
+- 4-10 posts; put a line containing only --- between posts
+- Every post must be at most 280 characters, spaces included
+- The first post hooks the reader and makes them want the rest of the thread
+- Each post makes one point and reads on its own
+- Plain text only: no markdown, no numbering like "1/"
+- The last post wraps up; no more than one hashtag in the whole thread`,
+  },
+  newsletter_blurb: {
+    maxWords: 120,
+    instructions: `FORMAT: Newsletter blurb
+- 50-120 words, in one or two short paragraphs
+- Tease the article's main idea without giving all of it away
+- End with a line that sends readers to the full piece
+- No headings or lists`,
+  },
+  video_script: {
+    // About 90 seconds spoken
+    maxWords: 230,
+    instructions: `FORMAT: Short video script (60-90 seconds)
+- 150-230 spoken words
+- Sections labeled **Hook**, **Body** and **Close**, each on its own line
+- The hook is one or two sentences that stop the scroll in the first three seconds
+- Write for the ear: short sentences, the way they talk, no lists read aloud
+- Put on-screen text or visual cues in [brackets] on their own lines; they don't count as spoken words
+- Close with one clear call to action`,
+  },
+};
+
+const SYSTEM_PROMPT = `You repurpose articles for other platforms in their author's voice.
+
+The article is the author's own writing. Keep their tone, their phrases and their point of view. DO NOT:
+- Add facts, examples, statistics or opinions that aren't in the article
+- Make it sound more formal, salesy or generic than the article
+- Add commentary about the output
+
+Follow the platform format exactly, including its length limits. Return ONLY the repurposed content.`;
+
+// A thread is stored with its posts separated by horizontal rules
+const THREAD_SEPARATOR = /\n\s*---+\s*\n/;
+
+/**
+ * The posts of an X thread
+ */
+export function splitThread(content: string): string[] {
+  return content
+    .split(THREAD_SEPARATOR)
+    .map((post) => post.trim())
+    .filter(Boolean);
+}
+
+function characterCount(text: string): number {
+  return [...text].length;
+}
+
+// Spoken words only: on-screen cues and section labels aren't read aloud
+function spokenWordCount(content: string, format: RepurposeFormat): number {
+  if (format !== "video_script") return calculateWordCount(content);
+  return calculateWordCount(
+    content.replace(/\[[^\]]*\]/g, "").replace(/^\*\*(Hook|Body|Close)\*\*:?/gim, "")
+  );
+}
+
+/**
+ * Where an output breaks its platform's limits, as instructions to fix it
+ */
+export function checkFormatLimits(format: RepurposeFormat, content: string): string[] {
+  const spec = FORMAT_SPECS[format];
+  const problems: string[] = [];
+
+  if (spec.maxCharacters && characterCount(content) > spec.maxCharacters) {
+    problems.push(
+      `It is ${characterCount(content)} characters; cut it to at most ${spec.maxCharacters}.`
+    );
+  }
+
+  if (spec.maxPostCharacters) {
+    const posts = splitThread(content);
+    posts.forEach((post, index) => {
+      if (characterCount(post) > (spec.maxPostCharacters as number)) {
+        problems.push(
+          `Post ${index + 1} is ${characterCount(post)} characters; cut it to at most ${spec.maxPostCharacters}.`
+        );
+      }
+    });
+    if (spec.maxPosts && posts.length > spec.maxPosts) {
+      problems.push(`The thread has ${posts.length} posts; use at most ${spec.maxPosts}.`);
+    }
+  }
+
+  const words = spokenWordCount(content, format);
+  if (spec.maxWords && words > spec.maxWords) {
+    problems.push(`It is ${words} words; cut it to at most ${spec.maxWords}.`);
+  }
+
+  return problems;
+}
+
+function cleanOutput(text: string): string {
+  return text
+    .trim()
+    .replace(/^```[a-z]*\n([\s\S]*?)\n```$/i, "$1")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function buildRepurposePrompt(
+  format: RepurposeFormat,
+  article: { title: string; content: string; language: string | null }
+): string {
+  const language = article.language
+    ? `\nLANGUAGE:\n- Write in ${getLanguageName(article.language)}, the language of the article\n`
+    : "";
+
+  return `## ARTICLE
+
+${article.content}
+
+## OUTPUT REQUIREMENTS
+
+${FORMAT_SPECS[format].instructions}
+${language}`;
+}
+
+/**
+ * Repurpose an article into one platform format and store the output,
+ * linked to the article's original version
+ *
+ * @returns null if the article no longer exists
+ * @throws Error if the output is still over its limits after a revision
+ */
+export async function repurposeContent(
+  payload: RepurposeContentJobPayload,
+  signal?: AbortSignal
+): Promise<RepurposeContentJobResult | null> {
+  const startTime = Date.now();
+  const { contentId, repurposedFrom, format } = payload;
+
+  const [article] = await db
+    .select()
+    .from(generatedContent)
+    .where(eq(generatedContent.id, contentId))
+    .limit(1);
+
+  if (!article) {
+    return null;
+  }
+
+  const prompt = buildRepurposePrompt(format, article);
+  const { text } = await generateText({
+    model: openrouter(MODEL),
+    system: SYSTEM_PROMPT,
+    prompt,
+    maxOutputTokens: 2000,
+    temperature: 0.7,
+    ...(signal && { abortSignal: signal }),
+  });
+
+  let output = cleanOutput(text);
+  let problems = checkFormatLimits(format, output);
+
+  // One revision round for outputs that run over
+  if (problems.length > 0) {
+    const { text: revised } = await generateText({
+      model: openrouter(MODEL),
+      system: SYSTEM_PROMPT,
+      prompt: `${prompt}
+
+## YOUR DRAFT
+
+${output}
+
+## FIX
+
+The draft breaks the format's limits:
+${problems.map((p) => `- ${p}`).join("\n")}
+
+Return the whole revised ${CONTENT_FORMATS[format].name}, tightened rather than cut off.`,
+      maxOutputTokens: 2000,
+      temperature: 0.5,
+      ...(signal && { abortSignal: signal }),
+    });
+
+    output = cleanOutput(revised);
+    problems = checkFormatLimits(format, output);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`${CONTENT_FORMATS[format].name} is over its limits: ${problems.join(" ")}`);
+  }
+
+  // Threads are stored with a blank line around each separator so they render as rules
+  const content = format === "x_thread" ? splitThread(output).join("\n\n---\n\n") : output;
+  const wordCount = calculateWordCount(content);
+  const title = `${CONTENT_FORMATS[format].name}: ${article.title}`;
+
+  const [newContent] = await db
+    .insert(generatedContent)
+    .values({
+      userId: article.userId,
+      sessionId: article.sessionId,
+      title,
+      content,
+      wordCount,
+      readTimeMinutes: calculateReadTime(wordCount),
+      status: "draft",
+      version: 1,
+      modelUsed: MODEL,
+      generationTimeMs: Date.now() - startTime,
+      template: article.template,
+      customTemplateId: article.customTemplateId,
+      language: article.language,
+      format,
+      repurposedFrom,
+    })
+    .returning();
+
+  if (!newContent) {
+    throw new Error("Failed to store repurposed content");
+  }
+
+  return { contentId: newContent.id, format, title, wordCount };
+}
@@ -0,0 +1,133 @@
+/**
+ * Content Selection
+ *
+ * Refining a selected passage rewrites only that part of the content: the
+ * passage goes to the model with some text around it for context, and the
+ * result is spliced back between the untouched text before and after it.
+ * Ranges arrive as character offsets or paragraph indexes (RefineRange) and
+ * are resolved to character offsets here.
+ */
+
+import type { RefineRange } from "@/types/content";
+
+/**
+ * Character offsets into content, end exclusive
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Text either side of a passage sent along as context
+const CONTEXT_CHARACTERS = 2000;
+
+/**
+ * Where each paragraph (separated by blank lines) starts and ends, without
+ * the whitespace around it
+ */
+export function paragraphRanges(content: string): TextRange[] {
+  const ranges: TextRange[] = [];
+  const push = (start: number, end: number) => {
+    const text = content.slice(start, end);
+    const leading = text.length - text.trimStart().length;
+    const trailing = text.length - text.trimEnd().length;
+    if (leading < text.length) {
+      ranges.push({ start: start + leading, end: end - trailing });
+    }
+  };
+
+  const separator = /\n[^\S\n]*\n\s*/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(content))) {
+    push(start, match.index);
+    start = match.index + match[0].length;
+  }
+  push(start, content.length);
+
+  return ranges;
+}
+
+/**
+ * Validate a requested range against the content, as character offsets
+ */
+export function resolveRefineRange(
+  content: string,
+  value: unknown
+): { error: string } | { range: TextRange } {
+  const input = value as Partial<Record<keyof RefineRange, unknown>> | null;
+  const unit = input?.unit ?? "character";
+  const { start, end } = input ?? {};
+
+  if (unit !== "character" && unit !== "paragraph") {
+    return { error: "range.unit must be 'character' or 'paragraph'" };
+  }
+  if (!Number.isInteger(start) || !Number.isInteger(end) || (start as number) >= (end as number)) {
+    return { error: "range.start and range.end must be integers, with start before end" };
+  }
+
+  let range: TextRange;
+  if (unit === "paragraph") {
+    const paragraphs = paragraphRanges(content);
+    const first = paragraphs[start as number];
+    const last = paragraphs[(end as number) - 1];
+    if ((start as number) < 0 || !first || !last) {
+      return { error: `The content has ${paragraphs.length} paragraphs` };
+    }
+    range = { start: first.start, end: last.end };
+  } else {
+    if ((start as number) < 0 || (end as number) > content.length) {
+      return { error: `range must lie within the content's ${content.length} characters` };
+    }
+    range = { start: start as number, end: end as number };
+  }
+
+  if (content.slice(range.start, range.end).trim().length === 0) {
+    return { error: "The selected range is empty" };
+  }
+
+  return { range };
+}
+
+/**
+ * The text around a passage, trimmed to whole lines where it was cut short
+ */
+export function passageContext(
+  content: string,
+  range: TextRange
+): { before: string; after: string } {
+  let before = content.slice(Math.max(0, range.start - CONTEXT_CHARACTERS), range.start);
+  if (range.start > CONTEXT_CHARACTERS) {
+    before = before.slice(before.indexOf("\n") + 1);
+  }
+
+  let after = content.slice(range.end, range.end + CONTEXT_CHARACTERS);
+  if (range.end + CONTEXT_CHARACTERS < content.length && after.includes("\n")) {
+    after = after.slice(0, after.lastIndexOf("\n"));
+  }
+
+  return { before, after };
+}
+
+/**
+ * Replace a passage, leaving every character outside it as it was. The
+ * whitespace around the original passage is kept, so the rewrite joins the
+ * surrounding text the same way.
+ *
+ * @returns The new content and where the rewrite sits in it
+ */
+export function splicePassage(
+  content: string,
+  range: TextRange,
+  replacement: string
+): { content: string; range: TextRange } {
+  const passage = content.slice(range.start, range.end);
+  const leading = passage.slice(0, passage.length - passage.trimStart().length);
+  const trailing = passage.slice(passage.trimEnd().length);
+  const rewritten = `${leading}${replacement.trim()}${trailing}`;
+
+  return {
+    content: content.slice(0, range.start) + rewritten + content.slice(range.end),
+    range: { start: range.start, end: range.start + rewritten.length },
+  };
+}
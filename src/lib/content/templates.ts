@@ -0,0 +1,231 @@
+/**
+ * Custom Content Templates
+ *
+ * Formats users define for their own content: the sections it's organized
+ * into, how long it should be and any guidance for the piece as a whole.
+ * The prompt composer writes them into the generation prompt in place of
+ * a built-in template's format instructions.
+ */
+
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { contentTemplates } from "@/lib/schema";
+import type { CustomTemplate, TemplateSection } from "@/types/content";
+
+export const TEMPLATE_LIMITS = {
+  NAME_MAX_LENGTH: 80,
+  DESCRIPTION_MAX_LENGTH: 300,
+  MAX_SECTIONS: 12,
+  HEADING_MAX_LENGTH: 120,
+  SECTION_INSTRUCTIONS_MAX_LENGTH: 1000,
+  INSTRUCTIONS_MAX_LENGTH: 4000,
+  MIN_WORDS: 50,
+  // Generation output is capped at 4000 tokens
+  MAX_WORDS: 2500,
+} as const;
+
+export type CustomTemplateInput = Pick<
+  CustomTemplate,
+  "name" | "description" | "sections" | "minWords" | "maxWords" | "instructions"
+>;
+
+type ContentTemplateRow = typeof contentTemplates.$inferSelect;
+
+function toCustomTemplate(row: ContentTemplateRow): CustomTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    sections: row.sections,
+    minWords: row.minWords,
+    maxWords: row.maxWords,
+    instructions: row.instructions,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function checkWordCount(value: unknown, field: string): { error: string } | { words: number | null } {
+  if (value === null || value === undefined) return { words: null };
+
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < TEMPLATE_LIMITS.MIN_WORDS ||
+    value > TEMPLATE_LIMITS.MAX_WORDS
+  ) {
+    return {
+      error: `${field} must be a whole number between ${TEMPLATE_LIMITS.MIN_WORDS} and ${TEMPLATE_LIMITS.MAX_WORDS}`,
+    };
+  }
+
+  return { words: value };
+}
+
+/**
+ * Validate and normalize a template sent by a client.
+ * Returns an error message, or the cleaned template.
+ */
+export function sanitizeTemplateInput(
+  value: unknown
+): { error: string } | { template: CustomTemplateInput } {
+  const input = value as Partial<Record<keyof CustomTemplateInput, unknown>> | null;
+
+  const name = optionalText(input?.name);
+  if (!name) {
+    return { error: "Name is required" };
+  }
+  if (name.length > TEMPLATE_LIMITS.NAME_MAX_LENGTH) {
+    return { error: `Name must be at most ${TEMPLATE_LIMITS.NAME_MAX_LENGTH} characters` };
+  }
+
+  const description = optionalText(input?.description) ?? "";
+  if (description.length > TEMPLATE_LIMITS.DESCRIPTION_MAX_LENGTH) {
+    return {
+      error: `Description must be at most ${TEMPLATE_LIMITS.DESCRIPTION_MAX_LENGTH} characters`,
+    };
+  }
+
+  const rawSections = input?.sections ?? [];
+  if (!Array.isArray(rawSections)) {
+    return { error: "sections must be an array" };
+  }
+  if (rawSections.length > TEMPLATE_LIMITS.MAX_SECTIONS) {
+    return { error: `A template can have at most ${TEMPLATE_LIMITS.MAX_SECTIONS} sections` };
+  }
+
+  const sections: TemplateSection[] = [];
+  for (const entry of rawSections as Array<Partial<Record<keyof TemplateSection, unknown>>>) {
+    const heading = optionalText(entry?.heading);
+    if (!heading) {
+      return { error: "Every section needs a heading" };
+    }
+    if (heading.length > TEMPLATE_LIMITS.HEADING_MAX_LENGTH) {
+      return {
+        error: `Section headings must be at most ${TEMPLATE_LIMITS.HEADING_MAX_LENGTH} characters`,
+      };
+    }
+
+    const instructions = optionalText(entry?.instructions) ?? "";
+    if (instructions.length > TEMPLATE_LIMITS.SECTION_INSTRUCTIONS_MAX_LENGTH) {
+      return {
+        error: `Section instructions must be at most ${TEMPLATE_LIMITS.SECTION_INSTRUCTIONS_MAX_LENGTH} characters`,
+      };
+    }
+
+    sections.push({ heading, instructions });
+  }
+
+  const instructions = optionalText(input?.instructions);
+  if (instructions && instructions.length > TEMPLATE_LIMITS.INSTRUCTIONS_MAX_LENGTH) {
+    return {
+      error: `Instructions must be at most ${TEMPLATE_LIMITS.INSTRUCTIONS_MAX_LENGTH} characters`,
+    };
+  }
+
+  if (sections.length === 0 && !instructions) {
+    return { error: "Add at least one section or some instructions" };
+  }
+
+  const minWords = checkWordCount(input?.minWords, "minWords");
+  if ("error" in minWords) return minWords;
+
+  const maxWords = checkWordCount(input?.maxWords, "maxWords");
+  if ("error" in maxWords) return maxWords;
+
+  if (minWords.words !== null && maxWords.words !== null && minWords.words > maxWords.words) {
+    return { error: "minWords can't be more than maxWords" };
+  }
+
+  return {
+    template: {
+      name,
+      description,
+      sections,
+      minWords: minWords.words,
+      maxWords: maxWords.words,
+      instructions,
+    },
+  };
+}
+
+/**
+ * The user's templates, in the order they were created
+ */
+export async function listCustomTemplates(userId: string): Promise<CustomTemplate[]> {
+  const rows = await db
+    .select()
+    .from(contentTemplates)
+    .where(eq(contentTemplates.userId, userId))
+    .orderBy(contentTemplates.createdAt);
+
+  return rows.map(toCustomTemplate);
+}
+
+/**
+ * One of the user's templates, or null if it doesn't exist or isn't theirs
+ */
+export async function getCustomTemplate(
+  userId: string,
+  templateId: string
+): Promise<CustomTemplate | null> {
+  const [row] = await db
+    .select()
+    .from(contentTemplates)
+    .where(and(eq(contentTemplates.id, templateId), eq(contentTemplates.userId, userId)))
+    .limit(1);
+
+  return row ? toCustomTemplate(row) : null;
+}
+
+export async function createCustomTemplate(
+  userId: string,
+  input: CustomTemplateInput
+): Promise<CustomTemplate> {
+  const [row] = await db
+    .insert(contentTemplates)
+    .values({ userId, ...input })
+    .returning();
+
+  if (!row) {
+    throw new Error("Failed to store template");
+  }
+
+  return toCustomTemplate(row);
+}
+
+/**
+ * @returns The updated template, or null if it doesn't exist or isn't theirs
+ */
+export async function updateCustomTemplate(
+  userId: string,
+  templateId: string,
+  input: CustomTemplateInput
+): Promise<CustomTemplate | null> {
+  const [row] = await db
+    .update(contentTemplates)
+    .set(input)
+    .where(and(eq(contentTemplates.id, templateId), eq(contentTemplates.userId, userId)))
+    .returning();
+
+  return row ? toCustomTemplate(row) : null;
+}
+
+/**
+ * Content generated with a deleted template keeps its text; it just loses
+ * the link back to the template.
+ *
+ * @returns Whether a template was deleted
+ */
+export async function deleteCustomTemplate(userId: string, templateId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(contentTemplates)
+    .where(and(eq(contentTemplates.id, templateId), eq(contentTemplates.userId, userId)))
+    .returning({ id: contentTemplates.id });
+
+  return deleted.length > 0;
+}
@@ -0,0 +1,115 @@
+/**
+ * Content Versions
+ *
+ * Refining content stores a new version that points at the one it was
+ * refined from (parentVersionId). The first version in that chain is the
+ * original: a generation, a translation or a repurposed output. Restoring
+ * an older version copies it onto the latest one, so history only grows.
+ */
+
+import { asc, desc, eq, inArray } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { generatedContent } from "@/lib/schema";
+
+type Content = typeof generatedContent.$inferSelect;
+
+/**
+ * The version a piece of content was first generated as
+ */
+export async function findOriginalVersion(content: Content): Promise<Content> {
+  let original = content;
+  while (original.parentVersionId) {
+    const [parent] = await db
+      .select()
+      .from(generatedContent)
+      .where(eq(generatedContent.id, original.parentVersionId))
+      .limit(1);
+    if (!parent) break;
+    original = parent;
+  }
+
+  return original;
+}
+
+/**
+ * The most recent refinement of a piece of content, or the content itself
+ */
+export async function findLatestVersion(content: Content): Promise<Content> {
+  let latest = content;
+  for (;;) {
+    const [child] = await db
+      .select()
+      .from(generatedContent)
+      .where(eq(generatedContent.parentVersionId, latest.id))
+      .orderBy(desc(generatedContent.createdAt))
+      .limit(1);
+    if (!child) break;
+    latest = child;
+  }
+
+  return latest;
+}
+
+/**
+ * Every version descended from the same original as a piece of content,
+ * oldest first
+ */
+export async function listVersions(content: Content): Promise<Content[]> {
+  const original = await findOriginalVersion(content);
+  const versions = [original];
+
+  let frontier = [original.id];
+  while (frontier.length > 0) {
+    const children = await db
+      .select()
+      .from(generatedContent)
+      .where(inArray(generatedContent.parentVersionId, frontier))
+      .orderBy(asc(generatedContent.createdAt));
+    versions.push(...children);
+    frontier = children.map((c) => c.id);
+  }
+
+  return versions.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Store an older version again as the newest one, on top of the latest
+ * version. Versions in between are kept.
+ */
+export async function restoreVersion(content: Content): Promise<Content> {
+  const versions = await listVersions(content);
+  const latest = await findLatestVersion(versions[0] as Content);
+  const newVersion = Math.max(...versions.map((v) => v.version)) + 1;
+
+  const [restored] = await db
+    .insert(generatedContent)
+    .values({
+      userId: content.userId,
+      sessionId: content.sessionId,
+      title: content.title,
+      content: content.content,
+      generatedText: content.generatedText,
+      wordCount: content.wordCount,
+      readTimeMinutes: content.readTimeMinutes,
+      status: "draft",
+      voiceDNASnapshot: content.voiceDNASnapshot,
+      referentInfluencesUsed: content.referentInfluencesUsed,
+      version: newVersion,
+      parentVersionId: latest.id,
+      restoredFrom: content.id,
+      modelUsed: content.modelUsed,
+      template: content.template,
+      customTemplateId: content.customTemplateId,
+      language: content.language,
+      translationOf: content.translationOf,
+      format: content.format,
+      repurposedFrom: content.repurposedFrom,
+    })
+    .returning();
+
+  if (!restored) {
+    throw new Error("Failed to store restored version");
+  }
+
+  return restored;
+}
@@ -8,5 +8,8 @@ if (!connectionString) {
   throw new Error("POSTGRES_URL environment variable is not set");
 }
 
-const client = postgres(connectionString);
+// Exported for LISTEN/NOTIFY, which Drizzle doesn't wrap
+export const client = postgres(connectionString);
 export const db = drizzle(client, { schema });
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -21,8 +21,19 @@ const serverEnvSchema = z.object({
   OPENROUTER_API_KEY: z.string().optional(),
   OPENROUTER_MODEL: z.string().default("openai/gpt-5-mini"),
 
+  // Transcription
+  TRANSCRIPTION_PROVIDER: z.enum(["openai", "local", "fixture"]).default("openai"),
+  OPENAI_API_KEY: z.string().optional(),
+  LOCAL_WHISPER_URL: z.string().url().optional(),
+  LOCAL_WHISPER_MODEL: z.string().optional(),
+  TRANSCRIPTION_FIXTURE_PATH: z.string().optional(),
+  FFMPEG_PATH: z.string().optional(),
+  FFPROBE_PATH: z.string().optional(),
+
   // Storage
   BLOB_READ_WRITE_TOKEN: z.string().optional(),
+  STORAGE_ENCRYPTION_KEY: z.string().optional(),
+  PRIVATE_UPLOADS_DIR: z.string().optional(),
 
   // App
   NODE_ENV: z
@@ -104,6 +115,14 @@ export function checkEnv(): void {
     warnings.push("OPENROUTER_API_KEY is not set. AI chat will not work.");
   }
 
+  const transcriptionProvider = process.env.TRANSCRIPTION_PROVIDER || "openai";
+  if (transcriptionProvider === "openai" && !process.env.OPENAI_API_KEY) {
+    warnings.push("OPENAI_API_KEY is not set. Voice transcription will not work.");
+  }
+  if (transcriptionProvider === "local" && !process.env.LOCAL_WHISPER_URL) {
+    warnings.push("LOCAL_WHISPER_URL is not set. Local voice transcription will not work.");
+  }
+
   if (!process.env.BLOB_READ_WRITE_TOKEN) {
     warnings.push("BLOB_READ_WRITE_TOKEN is not set. Using local storage for file uploads.");
   }
@@ -0,0 +1,152 @@
+/**
+ * Job Handlers
+ *
+ * What each job type does. A handler's run() returns the job's result or
+ * throws, and stops early once its signal aborts. onFailed() settles the
+ * session once the job has failed for good, and onCancelled() once the user
+ * cancelled it, so it doesn't stay stuck in a working status.
+ */
+
+import { eq } from "drizzle-orm";
+import { learnFromEdits } from "@/lib/analysis/editLearning";
+import { learnFromRefinement } from "@/lib/analysis/ruleLearning";
+import { analyzeSession, generateSessionQuestions } from "@/lib/analysis/sessionAnalysis";
+import { generateSessionContent } from "@/lib/content/generator";
+import { repurposeContent } from "@/lib/content/repurposer";
+import { db } from "@/lib/db";
+import { voiceSessions } from "@/lib/schema";
+import { transitionSession } from "@/lib/sessionTransitions";
+import { transcribeUpload } from "@/lib/transcription/uploadTranscription";
+import type { JobPayloads, JobType } from "@/types/job";
+import type { SessionStatus } from "@/types/session";
+import { PermanentJobError, type Job } from "./queue";
+
+interface JobHandler<T extends JobType> {
+  run(payload: JobPayloads[T], job: Job, signal: AbortSignal): Promise<unknown>;
+  onFailed?(payload: JobPayloads[T], errorMessage: string): Promise<void>;
+  onCancelled?(payload: JobPayloads[T]): Promise<void>;
+}
+
+const SESSION_UNAVAILABLE = new PermanentJobError(
+  "session_unavailable",
+  "Session not found or has no transcript"
+);
+
+// Only a session still waiting on the failed step is marked as failed
+async function markSessionError(
+  sessionId: string,
+  step: SessionStatus,
+  errorMessage: string
+) {
+  await transitionSession(sessionId, "error", {
+    actor: "worker",
+    reason: `Failed while ${step}`,
+    errorMessage,
+    onlyFrom: [step],
+  });
+}
+
+export const jobHandlers: { [T in JobType]: JobHandler<T> } = {
+  transcribe: {
+    async run(payload, job) {
+      const transcription = await transcribeUpload(job.userId, payload);
+      if (!transcription) {
+        throw new PermanentJobError(
+          "audio_gone",
+          "Audio file is no longer available. Upload the recording again."
+        );
+      }
+      return transcription;
+    },
+  },
+
+  analyze_session: {
+    async run(payload) {
+      const result = await analyzeSession(payload);
+      if (!result) throw SESSION_UNAVAILABLE;
+      return result;
+    },
+    async onFailed(payload, errorMessage) {
+      await markSessionError(payload.sessionId, "analyzing", errorMessage);
+    },
+  },
+
+  generate_questions: {
+    async run(payload) {
+      const result = await generateSessionQuestions(payload);
+      if (!result) throw SESSION_UNAVAILABLE;
+      return result;
+    },
+  },
+
+  generate_content: {
+    async run(payload, job, signal) {
+      const result = await generateSessionContent(payload, job, signal);
+      if (!result) throw SESSION_UNAVAILABLE;
+      return result;
+    },
+    async onFailed(payload, errorMessage) {
+      // Translations of already generated sessions leave the session's status alone
+      const [voiceSession] = await db
+        .select({ generatedContentId: voiceSessions.generatedContentId })
+        .from(voiceSessions)
+        .where(eq(voiceSessions.id, payload.sessionId))
+        .limit(1);
+
+      if (voiceSession && !voiceSession.generatedContentId) {
+        await markSessionError(payload.sessionId, "generating", errorMessage);
+      }
+    },
+    async onCancelled(payload) {
+      // Back to choosing a format. A cancelled job never stores its content
+      // (see generateSessionContent), so the session can't have moved on.
+      await transitionSession(payload.sessionId, "follow_ups", {
+        actor: "user",
+        reason: "Generation cancelled",
+        onlyFrom: ["generating"],
+      });
+    },
+  },
+
+  // Repurposed outputs leave the session's status alone
+  repurpose_content: {
+    async run(payload, _job, signal) {
+      const result = await repurposeContent(payload, signal);
+      if (!result) {
+        throw new PermanentJobError("content_unavailable", "Content to repurpose no longer exists");
+      }
+      return result;
+    },
+  },
+
+  learn_from_refinement: {
+    async run(payload, job) {
+      const result = await learnFromRefinement(payload, job.userId);
+      if (!result) {
+        throw new PermanentJobError("content_unavailable", "Refined content no longer exists");
+      }
+      return result;
+    },
+  },
+
+  learn_from_edits: {
+    async run(payload, job) {
+      const result = await learnFromEdits(payload, job.userId);
+      if (!result) {
+        throw new PermanentJobError("content_unavailable", "Edited content no longer exists");
+      }
+      return result;
+    },
+  },
+};
+
+/**
+ * A job's handler, with the job's payload typed for it. Payloads are stored
+ * by the enqueuer of each type (see enqueueJob), so the row's type names its
+ * payload's shape.
+ */
+export function getJobHandler<T extends JobType>(
+  job: Job & { type: T }
+): { handler: JobHandler<T>; payload: JobPayloads[T] } {
+  return { handler: jobHandlers[job.type], payload: job.payload as unknown as JobPayloads[T] };
+}
@@ -0,0 +1,315 @@
+/**
+ * Job Queue
+ *
+ * A Postgres-backed queue for the slow steps of the session pipeline. Routes
+ * enqueue a job and return its ID; worker processes (see worker.ts) claim
+ * jobs with SELECT ... FOR UPDATE SKIP LOCKED, so any number of workers can
+ * share the table without running a job twice.
+ *
+ * Idempotency: every job has a key naming its unit of work (e.g. "content for
+ * session X in Spanish"). Enqueueing a key that is queued, running or
+ * succeeded returns that job instead of adding another; a failed job is
+ * queued again from scratch.
+ *
+ * Retries: failed attempts are retried with exponential backoff until
+ * maxAttempts, unless the handler throws a PermanentJobError. A claimed job
+ * holds a lease; if its worker dies, the job is reclaimed once the lease
+ * expires and counts as an attempt.
+ *
+ * Cancellation: a cancelled job fails with errorCode "cancelled". A running
+ * job's worker notices (see holdsJob) and aborts it. Work that must not land
+ * after a cancel commits together with the job's success (see completeJobWith).
+ */
+
+import { and, asc, eq, inArray, lt, lte, or, sql } from "drizzle-orm";
+import { db, type Transaction } from "@/lib/db";
+import { jobs } from "@/lib/schema";
+import type { JobPayloads, JobType } from "@/types/job";
+
+export type Job = typeof jobs.$inferSelect;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Long enough for a chunked transcription of a long import
+const JOB_LEASE_MS = 15 * 60 * 1000;
+
+const BASE_BACKOFF_MS = 5 * 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * Thrown by a job handler when retrying can't help (missing input, invalid
+ * state). The job fails immediately with the given code.
+ */
+export class PermanentJobError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+    this.code = code;
+  }
+}
+
+interface EnqueueOptions<T extends JobType> {
+  userId: string;
+  sessionId?: string | null;
+  payload: JobPayloads[T];
+  idempotencyKey: string;
+  maxAttempts?: number;
+  // Run the work again if a job with this key already succeeded
+  rerunSucceeded?: boolean;
+}
+
+/**
+ * Add a job to the queue, or return the job already doing the same work
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  options: EnqueueOptions<T>
+): Promise<Job> {
+  const { userId, payload, idempotencyKey } = options;
+  const values = {
+    userId,
+    sessionId: options.sessionId ?? null,
+    type,
+    payload: payload as unknown as Record<string, unknown>,
+    idempotencyKey,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+  };
+
+  const requeueable: Job["status"][] = options.rerunSucceeded
+    ? ["failed", "succeeded"]
+    : ["failed"];
+
+  const [job] = await db
+    .insert(jobs)
+    .values(values)
+    .onConflictDoUpdate({
+      target: jobs.idempotencyKey,
+      set: {
+        ...values,
+        status: "queued",
+        result: null,
+        attempts: 0,
+        runAt: new Date(),
+        lockedUntil: null,
+        errorMessage: null,
+        errorCode: null,
+        completedAt: null,
+      },
+      // Keys belong to whoever enqueued them first
+      setWhere: sql`${eq(jobs.userId, userId)} and ${inArray(jobs.status, requeueable)}`,
+    })
+    .returning();
+
+  if (job) return job;
+
+  const [existing] = await db
+    .select()
+    .from(jobs)
+    .where(eq(jobs.idempotencyKey, idempotencyKey))
+    .limit(1);
+
+  if (!existing || existing.userId !== userId) {
+    throw new Error(`Job ${idempotencyKey} belongs to another user`);
+  }
+
+  return existing;
+}
+
+/**
+ * Fetch a job by ID
+ */
+export async function getJob(jobId: string): Promise<Job | null> {
+  const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId)).limit(1);
+  return job ?? null;
+}
+
+/**
+ * Claim the next runnable job: a queued job that is due, or a running job
+ * whose worker's lease expired
+ *
+ * @returns The claimed job with its attempt counted, or null if none is ready
+ */
+export async function claimNextJob(): Promise<Job | null> {
+  const now = new Date();
+
+  const next = db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(
+      or(
+        and(eq(jobs.status, "queued"), lte(jobs.runAt, now)),
+        and(
+          eq(jobs.status, "running"),
+          lt(jobs.lockedUntil, now),
+          lt(jobs.attempts, jobs.maxAttempts)
+        )
+      )
+    )
+    .orderBy(asc(jobs.runAt))
+    .limit(1)
+    .for("update", { skipLocked: true });
+
+  const [job] = await db
+    .update(jobs)
+    .set({
+      status: "running",
+      attempts: sql`${jobs.attempts} + 1`,
+      lockedUntil: new Date(now.getTime() + JOB_LEASE_MS),
+    })
+    .where(inArray(jobs.id, next))
+    .returning();
+
+  return job ?? null;
+}
+
+/**
+ * Fail jobs whose worker died on their last attempt
+ *
+ * @returns The jobs that were failed, so their side effects can be settled
+ */
+export async function failAbandonedJobs(): Promise<Job[]> {
+  return db
+    .update(jobs)
+    .set({
+      status: "failed",
+      lockedUntil: null,
+      errorMessage: "The job stopped responding",
+      completedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(jobs.status, "running"),
+        lt(jobs.lockedUntil, new Date()),
+        sql`${jobs.attempts} >= ${jobs.maxAttempts}`
+      )
+    )
+    .returning();
+}
+
+/**
+ * Only the worker holding a job's current attempt may settle it; a worker
+ * that lost its lease finds its late result discarded
+ */
+function isCurrentAttempt(job: Job) {
+  return and(eq(jobs.id, job.id), eq(jobs.attempts, job.attempts), eq(jobs.status, "running"));
+}
+
+/**
+ * Whether the worker that claimed this attempt still holds the job. False
+ * once the job is cancelled or its lease was lost to another worker.
+ */
+export async function holdsJob(job: Job): Promise<boolean> {
+  const [current] = await db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(isCurrentAttempt(job))
+    .limit(1);
+  return !!current;
+}
+
+/**
+ * Cancel a job that hasn't finished
+ *
+ * @returns The cancelled job, or null if it had already finished
+ */
+export async function cancelJob(jobId: string): Promise<Job | null> {
+  const [job] = await db
+    .update(jobs)
+    .set({
+      status: "failed",
+      lockedUntil: null,
+      errorMessage: "Cancelled",
+      errorCode: "cancelled",
+      completedAt: new Date(),
+    })
+    .where(and(eq(jobs.id, jobId), inArray(jobs.status, ["queued", "running"])))
+    .returning();
+  return job ?? null;
+}
+
+function succeeded(result: unknown) {
+  return {
+    status: "succeeded" as const,
+    result: result ?? null,
+    lockedUntil: null,
+    errorMessage: null,
+    errorCode: null,
+    completedAt: new Date(),
+  };
+}
+
+/**
+ * Record a job's result
+ */
+export async function completeJob(job: Job, result: unknown): Promise<void> {
+  await db.update(jobs).set(succeeded(result)).where(isCurrentAttempt(job));
+}
+
+/**
+ * Run a job's final writes and record its result in one transaction. The job
+ * row stays locked throughout, so a cancel either lands first and nothing is
+ * written, or waits and finds the job already finished.
+ *
+ * @returns The work's result, recorded as the job's
+ * @throws Error if the job was cancelled or its lease lost before the work ran
+ */
+export async function completeJobWith<T>(
+  job: Job,
+  work: (tx: Transaction) => Promise<T>
+): Promise<T> {
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(isCurrentAttempt(job))
+      .limit(1)
+      .for("update");
+    if (!current) {
+      throw new Error("Job was cancelled or taken over");
+    }
+
+    const result = await work(tx);
+    await tx.update(jobs).set(succeeded(result)).where(eq(jobs.id, job.id));
+    return result;
+  });
+}
+
+/**
+ * Record a failed attempt. The job is retried after a backoff unless the
+ * error is permanent or it has no attempts left.
+ *
+ * @returns Whether the job failed for good (and this attempt was current)
+ */
+export async function failJob(job: Job, error: unknown): Promise<boolean> {
+  const message = error instanceof Error ? error.message : "Job failed";
+  const permanent = error instanceof PermanentJobError;
+
+  if (!permanent && job.attempts < job.maxAttempts) {
+    const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (job.attempts - 1));
+    await db
+      .update(jobs)
+      .set({
+        status: "queued",
+        runAt: new Date(Date.now() + backoff),
+        lockedUntil: null,
+        errorMessage: message,
+      })
+      .where(isCurrentAttempt(job));
+    return false;
+  }
+
+  const failed = await db
+    .update(jobs)
+    .set({
+      status: "failed",
+      lockedUntil: null,
+      errorMessage: message,
+      errorCode: permanent ? error.code : null,
+      completedAt: new Date(),
+    })
+    .where(isCurrentAttempt(job))
+    .returning({ id: jobs.id });
+  return failed.length > 0;
+}
@@ -0,0 +1,132 @@
+/**
+ * Job Worker
+ *
+ * Claims jobs from the queue and runs their handlers, one at a time. Run as
+ * many worker processes as the load needs (pnpm worker); the queue keeps
+ * them from running the same job. Workers also reconcile sessions left stuck
+ * in a working status (see lib/sessionTransitions.ts).
+ */
+
+import { reconcileStuckSessions } from "@/lib/sessionTransitions";
+import { getJobHandler } from "./handlers";
+import {
+  claimNextJob,
+  completeJob,
+  failAbandonedJobs,
+  failJob,
+  holdsJob,
+  type Job,
+} from "./queue";
+
+const IDLE_POLL_MS = 1000;
+
+// How often a running job checks it hasn't been cancelled
+const CANCEL_CHECK_MS = 2000;
+
+const RECONCILE_INTERVAL_MS = 60 * 1000;
+
+async function settleFailedJob(job: Job) {
+  const { handler, payload } = getJobHandler(job);
+  if (!handler.onFailed) return;
+
+  try {
+    await handler.onFailed(payload, job.errorMessage || "Job failed");
+  } catch (error) {
+    console.error(`[Jobs] Failed to settle ${job.type} job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Run one job from the queue
+ *
+ * @returns Whether a job was run
+ */
+export async function runNextJob(): Promise<boolean> {
+  for (const job of await failAbandonedJobs()) {
+    console.error(`[Jobs] ${job.type} job ${job.id} stopped responding`);
+    await settleFailedJob(job);
+  }
+
+  const job = await claimNextJob();
+  if (!job) return false;
+
+  const { handler, payload } = getJobHandler(job);
+  const startTime = Date.now();
+
+  // Abort the handler if the job is cancelled or taken over while it runs
+  const controller = new AbortController();
+  const cancelCheck = setInterval(() => {
+    holdsJob(job)
+      .then((held) => {
+        if (!held) controller.abort();
+      })
+      .catch((error) => {
+        console.error(`[Jobs] Failed to check ${job.type} job ${job.id}:`, error);
+      });
+  }, CANCEL_CHECK_MS);
+
+  try {
+    const result = await handler.run(payload, job, controller.signal);
+    await completeJob(job, result);
+    console.warn(`[Jobs] ${job.type} job ${job.id} succeeded in ${Date.now() - startTime}ms`);
+  } catch (error) {
+    console.error(`[Jobs] ${job.type} job ${job.id} attempt ${job.attempts} failed:`, error);
+    if (await failJob(job, error)) {
+      await settleFailedJob({
+        ...job,
+        errorMessage: error instanceof Error ? error.message : "Job failed",
+      });
+    }
+  } finally {
+    clearInterval(cancelCheck);
+  }
+
+  return true;
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Run jobs until the signal aborts. The job in progress finishes first.
+ */
+export async function runWorker(signal: AbortSignal): Promise<void> {
+  let lastReconciled = 0;
+
+  while (!signal.aborted) {
+    if (Date.now() - lastReconciled >= RECONCILE_INTERVAL_MS) {
+      lastReconciled = Date.now();
+      try {
+        const reconciled = await reconcileStuckSessions();
+        if (reconciled > 0) {
+          console.warn(`[Jobs] Moved ${reconciled} stuck session(s) to error`);
+        }
+      } catch (error) {
+        console.error("[Jobs] Failed to reconcile stuck sessions:", error);
+      }
+    }
+
+    let ranJob = false;
+    try {
+      ranJob = await runNextJob();
+    } catch (error) {
+      // Database hiccups shouldn't take the worker down
+      console.error("[Jobs] Failed to poll the queue:", error);
+    }
+
+    if (!ranJob) {
+      await sleep(IDLE_POLL_MS, signal);
+    }
+  }
+}
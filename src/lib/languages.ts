@@ -0,0 +1,89 @@
+/**
+ * Session Languages
+ *
+ * Sessions store the language they were spoken in as an ISO-639-1 code.
+ * Whisper reports the detected language by English name ("spanish") while
+ * other engines use codes ("es", "pt-BR"), so both are normalized here.
+ *
+ * Generation can write in any language the model knows; the text analyzers
+ * only have lexicons for LEXICON_LANGUAGES (see lib/analysis/lexicons.ts).
+ */
+
+export const LEXICON_LANGUAGES = ["en", "es", "pt"] as const;
+
+export type LexiconLanguage = (typeof LEXICON_LANGUAGES)[number];
+
+// Offered as targets when generating content; the API accepts any code
+export const PUBLISH_LANGUAGES = ["en", "es", "pt", "fr", "de", "it", "nl"] as const;
+
+// Whisper language names for the languages it transcribes most reliably
+const LANGUAGE_CODES: Record<string, string> = {
+  arabic: "ar",
+  catalan: "ca",
+  chinese: "zh",
+  czech: "cs",
+  danish: "da",
+  dutch: "nl",
+  english: "en",
+  finnish: "fi",
+  french: "fr",
+  galician: "gl",
+  german: "de",
+  greek: "el",
+  hebrew: "he",
+  hindi: "hi",
+  indonesian: "id",
+  italian: "it",
+  japanese: "ja",
+  korean: "ko",
+  norwegian: "no",
+  polish: "pl",
+  portuguese: "pt",
+  romanian: "ro",
+  russian: "ru",
+  spanish: "es",
+  swedish: "sv",
+  turkish: "tr",
+  ukrainian: "uk",
+  vietnamese: "vi",
+};
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+/**
+ * Normalize a language reported by a transcription engine or client
+ *
+ * @returns The ISO-639-1 code, or null if the language is unknown ("und")
+ */
+export function normalizeLanguage(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+
+  const lower = value.trim().toLowerCase();
+  const code = /^([a-z]{2})(?:[-_][a-z0-9]+)?$/.exec(lower)?.[1];
+  return code ?? LANGUAGE_CODES[lower] ?? null;
+}
+
+/**
+ * English name of a language code, for prompts ("es" -> "Spanish")
+ */
+export function getLanguageName(code: string): string {
+  try {
+    return languageNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * The lexicon to analyze a session's text with. Sessions without a detected
+ * language predate language detection or came from an engine that doesn't
+ * report it, and are treated as English as they always were.
+ *
+ * @returns The lexicon language, or null if the language has no lexicon
+ */
+export function getLexiconLanguage(language: string | null | undefined): LexiconLanguage | null {
+  if (!language) return "en";
+  return (LEXICON_LANGUAGES as readonly string[]).includes(language)
+    ? (language as LexiconLanguage)
+    : null;
+}
@@ -0,0 +1,64 @@
+/**
+ * Referent Influence Validation
+ *
+ * Checks a referent blend sent by a client, whether it's saved to the
+ * user's Voice DNA or used for a single generation.
+ */
+
+import type { ReferentInfluence, ReferentInfluences } from "@/types/voiceDNA";
+import { getReferentProfile } from "./profiles";
+
+/**
+ * Validate and normalize a referent blend. Referent names are taken from
+ * their profiles.
+ * Returns an error message, or the cleaned blend.
+ */
+export function sanitizeReferentInfluences(
+  value: unknown
+): { error: string } | { influences: ReferentInfluences } {
+  const influences = value as Partial<ReferentInfluences> | null;
+
+  if (typeof influences?.userWeight !== "number") {
+    return { error: "userWeight must be a number" };
+  }
+
+  if (influences.userWeight < 50) {
+    return { error: "userWeight must be at least 50" };
+  }
+
+  if (!Array.isArray(influences.referents)) {
+    return { error: "referents must be an array" };
+  }
+
+  const referents: ReferentInfluence[] = [];
+
+  for (const entry of influences.referents as Partial<ReferentInfluence>[]) {
+    const profile = typeof entry?.id === "string" ? getReferentProfile(entry.id) : undefined;
+    if (!profile) {
+      return { error: "Unknown referent" };
+    }
+
+    if (typeof entry.weight !== "number" || entry.weight < 0) {
+      return { error: "Referent weights must be non-negative numbers" };
+    }
+
+    referents.push({
+      id: profile.id,
+      name: profile.name,
+      weight: entry.weight,
+      activeTraits: Array.isArray(entry.activeTraits)
+        ? entry.activeTraits.filter((t): t is string => typeof t === "string")
+        : [],
+    });
+  }
+
+  // Ensure total weight equals 100
+  const totalWeight =
+    influences.userWeight + referents.reduce((sum, r) => sum + r.weight, 0);
+
+  if (Math.abs(totalWeight - 100) > 0.01) {
+    return { error: "Total weight must equal 100" };
+  }
+
+  return { influences: { userWeight: influences.userWeight, referents } };
+}
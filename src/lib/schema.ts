@@ -10,6 +10,7 @@ import {
   jsonb,
 } from "drizzle-orm/pg-core";
 import type { CalibrationInsight } from "@/types/calibration";
+import type { TemplateSection } from "@/types/content";
 import type { ReferentStyleProfile } from "@/types/referent";
 import type {
   EnthusiasmAnalysis,
@@ -17,13 +18,14 @@ import type {
   FollowUpQuestion,
   FollowUpResponse,
 } from "@/types/session";
-import type { WordTimestamp } from "@/types/voice";
+import type { AcousticFeatures, WordTimestamp } from "@/types/voice";
 import type {
   SpokenPatterns,
   WrittenPatterns,
   TonalAttributes,
   ReferentInfluences,
   LearnedRule,
+  GlossaryTerm,
   ExtractedWritingPatterns,
   VoiceDNA,
 } from "@/types/voiceDNA";
@@ -46,6 +48,8 @@ export const onboardingStatusEnum = pgEnum("onboarding_status", [
 
 export const sessionModeEnum = pgEnum("session_mode", ["quick", "guided"]);
 
+export const sessionSourceEnum = pgEnum("session_source", ["recording", "import"]);
+
 export const sessionStatusEnum = pgEnum("session_status", [
   "recording",
   "transcribing",
@@ -68,6 +72,43 @@ export const contentTemplateEnum = pgEnum("content_template", [
   "narrative",
 ]);
 
+export const learnedRuleTypeEnum = pgEnum("learned_rule_type", [
+  "prefer",
+  "avoid",
+  "adjust",
+]);
+
+export const ruleProposalStatusEnum = pgEnum("rule_proposal_status", [
+  "pending",
+  "confirmed",
+  "dismissed",
+]);
+
+export const contentFormatEnum = pgEnum("content_format", [
+  "article",
+  "linkedin_post",
+  "x_thread",
+  "newsletter_blurb",
+  "video_script",
+]);
+
+export const jobTypeEnum = pgEnum("job_type", [
+  "transcribe",
+  "analyze_session",
+  "generate_questions",
+  "generate_content",
+  "repurpose_content",
+  "learn_from_refinement",
+  "learn_from_edits",
+]);
+
+export const jobStatusEnum = pgEnum("job_status", [
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
+]);
+
 export const responseTypeEnum = pgEnum("response_type", [
   "voice",
   "text",
@@ -90,6 +131,7 @@ export const user = pgTable(
     onboardingStatus: onboardingStatusEnum("onboarding_status")
       .default("not_started")
       .notNull(),
+    retainAudio: boolean("retain_audio").default(false).notNull(), // Keep session recordings after transcription
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at")
       .defaultNow()
@@ -177,10 +219,14 @@ export const voiceDNAProfiles = pgTable(
       .notNull()
       .unique(),
     spokenPatterns: jsonb("spoken_patterns").$type<SpokenPatterns>(),
+    spokenPatternsByLanguage: jsonb("spoken_patterns_by_language")
+      .$type<Record<string, SpokenPatterns>>()
+      .default({}), // Sessions with a detected language, keyed by ISO-639-1 code
     writtenPatterns: jsonb("written_patterns").$type<WrittenPatterns>(),
     tonalAttributes: jsonb("tonal_attributes").$type<TonalAttributes>(),
     referentInfluences: jsonb("referent_influences").$type<ReferentInfluences>(),
     learnedRules: jsonb("learned_rules").$type<LearnedRule[]>().default([]),
+    glossary: jsonb("glossary").$type<GlossaryTerm[]>().default([]),
     calibrationScore: integer("calibration_score").default(0),
     calibrationRoundsCompleted: integer("calibration_rounds_completed").default(0),
     voiceSessionsAnalyzed: integer("voice_sessions_analyzed").default(0),
@@ -194,6 +240,35 @@ export const voiceDNAProfiles = pgTable(
   (table) => [index("voice_dna_user_id_idx").on(table.userId)]
 );
 
+/**
+ * Learned Rule Proposals
+ * Voice preferences mined from the user's refinements and edits. Each waits for the
+ * user to confirm it (adding it to the profile's learnedRules) or dismiss it.
+ */
+export const learnedRuleProposals = pgTable(
+  "learned_rule_proposals",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    type: learnedRuleTypeEnum("type").notNull(),
+    content: text("content").notNull(),
+    pieceIds: jsonb("piece_ids").$type<string[]>().default([]).notNull(), // Original versions of the content it came up in
+    examples: jsonb("examples").$type<string[]>().default([]).notNull(), // Instructions it was mined from, latest last
+    status: ruleProposalStatusEnum("status").default("pending").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("learned_rule_proposals_user_id_idx").on(table.userId),
+    index("learned_rule_proposals_status_idx").on(table.status),
+  ]
+);
+
 /**
  * Voice Sessions
  * Records of voice recording sessions with transcripts and analysis
@@ -206,10 +281,16 @@ export const voiceSessions = pgTable(
       .references(() => user.id, { onDelete: "cascade" })
       .notNull(),
     mode: sessionModeEnum("mode").notNull(),
+    source: sessionSourceEnum("source").notNull().default("recording"), // In-browser recording or imported file
     status: sessionStatusEnum("status").notNull().default("recording"),
     transcript: text("transcript"),
     durationSeconds: integer("duration_seconds"),
     wordTimestamps: jsonb("word_timestamps").$type<WordTimestamp[]>(),
+    ownerSpeaker: text("owner_speaker"), // Diarization label of the user in multi-speaker recordings
+    language: text("language"), // ISO-639-1 code detected by transcription, null if unknown
+    audioUrl: text("audio_url"), // Private storage path of the session's recording (retained, or awaiting analysis)
+    audioRetained: boolean("audio_retained").default(false).notNull(), // User opted in to keep audioUrl; served by /api/session/[id]/audio
+    acousticFeatures: jsonb("acoustic_features").$type<AcousticFeatures>(), // Loudness/pitch frames measured by the analyze route
     enthusiasmAnalysis: jsonb("enthusiasm_analysis").$type<EnthusiasmAnalysis>(),
     contentOutline: jsonb("content_outline").$type<ContentOutline>(),
     followUpQuestions: jsonb("follow_up_questions")
@@ -234,6 +315,32 @@ export const voiceSessions = pgTable(
   ]
 );
 
+/**
+ * Content Templates
+ * User-defined formats for generated content
+ */
+export const contentTemplates = pgTable(
+  "content_templates",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    name: text("name").notNull(),
+    description: text("description").default("").notNull(),
+    sections: jsonb("sections").$type<TemplateSection[]>().default([]).notNull(),
+    minWords: integer("min_words"),
+    maxWords: integer("max_words"),
+    instructions: text("instructions"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [index("content_templates_user_id_idx").on(table.userId)]
+);
+
 /**
  * Generated Content
  * Blog posts and articles generated from voice sessions
@@ -250,6 +357,7 @@ export const generatedContent = pgTable(
       .notNull(),
     title: text("title").notNull(),
     content: text("content").notNull(),
+    generatedText: text("generated_text"), // Content as the model wrote it; kept from the first hand edit, null until then
     wordCount: integer("word_count").notNull(),
     readTimeMinutes: integer("read_time_minutes").notNull(),
     status: contentStatusEnum("status").default("draft").notNull(),
@@ -257,9 +365,17 @@ export const generatedContent = pgTable(
     referentInfluencesUsed: jsonb("referent_influences_used").$type<ReferentInfluences>(),
     version: integer("version").default(1).notNull(),
     parentVersionId: uuid("parent_version_id"),
+    restoredFrom: uuid("restored_from"), // Earlier version this one brought back; null unless restored
     modelUsed: text("model_used"),
     generationTimeMs: integer("generation_time_ms"),
     template: contentTemplateEnum("template").default("blog_post").notNull(),
+    customTemplateId: uuid("custom_template_id").references(() => contentTemplates.id, {
+      onDelete: "set null",
+    }), // User's own template; replaces template when set
+    language: text("language"), // ISO-639-1 code the content is written in, null if unknown
+    translationOf: uuid("translation_of"), // Generation this translates; null for the session's own generations
+    format: contentFormatEnum("format").default("article").notNull(),
+    repurposedFrom: uuid("repurposed_from"), // Original version of the article this was repurposed from
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at")
       .defaultNow()
@@ -269,6 +385,9 @@ export const generatedContent = pgTable(
   (table) => [
     index("generated_content_user_id_idx").on(table.userId),
     index("generated_content_session_id_idx").on(table.sessionId),
+    index("generated_content_parent_version_id_idx").on(table.parentVersionId),
+    index("generated_content_translation_of_idx").on(table.translationOf),
+    index("generated_content_repurposed_from_idx").on(table.repurposedFrom),
     index("generated_content_status_idx").on(table.status),
     index("generated_content_created_at_idx").on(table.createdAt),
   ]
@@ -347,3 +466,61 @@ export const calibrationRounds = pgTable(
     index("calibration_rounds_round_number_idx").on(table.roundNumber),
   ]
 );
+
+/**
+ * Jobs
+ * Background work for the session pipeline, run by the worker (see lib/jobs)
+ */
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    sessionId: uuid("session_id").references(() => voiceSessions.id, {
+      onDelete: "cascade",
+    }),
+    type: jobTypeEnum("type").notNull(),
+    status: jobStatusEnum("status").notNull().default("queued"),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    result: jsonb("result").$type<unknown>(),
+    idempotencyKey: text("idempotency_key").notNull().unique(), // One job in flight per unit of work
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("max_attempts").default(3).notNull(),
+    runAt: timestamp("run_at").defaultNow().notNull(), // Not claimed before this (retry backoff)
+    lockedUntil: timestamp("locked_until"), // Lease of the worker running it; expired leases are reclaimed
+    errorMessage: text("error_message"),
+    errorCode: text("error_code"), // Machine-readable reason for permanent failures (e.g. "audio_gone")
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("jobs_status_run_at_idx").on(table.status, table.runAt),
+    index("jobs_session_id_idx").on(table.sessionId),
+  ]
+);
+
+/**
+ * Session Transitions
+ * Every status change of a voice session: who made it, when and why (see lib/sessionTransitions.ts)
+ */
+export const sessionTransitions = pgTable(
+  "session_transitions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    sessionId: uuid("session_id")
+      .references(() => voiceSessions.id, { onDelete: "cascade" })
+      .notNull(),
+    fromStatus: sessionStatusEnum("from_status"), // Null for the status a session was created in
+    toStatus: sessionStatusEnum("to_status").notNull(),
+    actor: text("actor").notNull(), // "user", "worker" or "reconciler"
+    reason: text("reason").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("session_transitions_session_id_idx").on(table.sessionId, table.createdAt)]
+);
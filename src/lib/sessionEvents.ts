@@ -0,0 +1,102 @@
+/**
+ * Session Events
+ *
+ * Publishes live session updates (status transitions and progress) over
+ * Postgres LISTEN/NOTIFY, so events raised by job workers reach the web
+ * server holding the session's event stream. Events are best-effort: a
+ * client that misses one catches up by refetching the session.
+ */
+
+import { client } from "@/lib/db";
+import type { SessionEvent, SessionStatus } from "@/types/session";
+
+const CHANNEL = "session_events";
+
+// NOTIFY payloads are capped at 8000 bytes
+const MAX_PAYLOAD_BYTES = 7500;
+
+interface SessionEventEnvelope {
+  sessionId: string;
+  event: SessionEvent;
+}
+
+type SessionEventListener = (event: SessionEvent) => void;
+
+const listeners = new Map<string, Set<SessionEventListener>>();
+let listening: Promise<unknown> | null = null;
+
+/**
+ * Publish an event to everyone watching the session
+ */
+export async function publishSessionEvent(
+  sessionId: string,
+  event: SessionEvent
+): Promise<void> {
+  const payload = JSON.stringify({ sessionId, event } satisfies SessionEventEnvelope);
+  if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+    console.error(`Session event ${event.type} for ${sessionId} is too large to publish`);
+    return;
+  }
+
+  try {
+    await client.notify(CHANNEL, payload);
+  } catch (error) {
+    // Live updates are optional - never fail the work that raised them
+    console.error(`Failed to publish session event ${event.type} for ${sessionId}:`, error);
+  }
+}
+
+/**
+ * Publish a session's new status
+ */
+export function publishSessionStatus(
+  sessionId: string,
+  status: SessionStatus,
+  errorMessage: string | null = null
+): Promise<void> {
+  return publishSessionEvent(sessionId, { type: "status", status, errorMessage });
+}
+
+function dispatch(payload: string) {
+  let envelope: SessionEventEnvelope;
+  try {
+    envelope = JSON.parse(payload) as SessionEventEnvelope;
+  } catch {
+    return;
+  }
+
+  for (const listener of listeners.get(envelope.sessionId) ?? []) {
+    listener(envelope.event);
+  }
+}
+
+/**
+ * Listen for a session's events. One database connection listens for the
+ * whole server; events are fanned out to subscribers here.
+ *
+ * @returns Unsubscribe function
+ */
+export async function subscribeSessionEvents(
+  sessionId: string,
+  listener: SessionEventListener
+): Promise<() => void> {
+  listening ??= client.listen(CHANNEL, dispatch).catch((error) => {
+    listening = null;
+    throw error;
+  });
+  await listening;
+
+  let sessionListeners = listeners.get(sessionId);
+  if (!sessionListeners) {
+    sessionListeners = new Set();
+    listeners.set(sessionId, sessionListeners);
+  }
+  sessionListeners.add(listener);
+
+  return () => {
+    sessionListeners.delete(listener);
+    if (sessionListeners.size === 0 && listeners.get(sessionId) === sessionListeners) {
+      listeners.delete(sessionId);
+    }
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Session Transitions
+ *
+ * The single place a voice session's status changes. Moves are checked
+ * against SESSION_TRANSITIONS, recorded in session_transitions (who, when
+ * and why) and published to the session's event stream.
+ *
+ * Reconciliation: a session left in a working status with no job running
+ * for it (its client went away, or a route failed between steps) is moved
+ * to "error" by reconcileStuckSessions, so it can be retried.
+ */
+
+import { and, desc, eq, inArray, lt, notExists } from "drizzle-orm";
+import { db, type Transaction } from "@/lib/db";
+import { jobs, sessionTransitions, voiceSessions } from "@/lib/schema";
+import { publishSessionStatus } from "@/lib/sessionEvents";
+import type { SessionStatus, SessionTransition, TransitionActor } from "@/types/session";
+
+type SessionChanges = Partial<
+  Omit<typeof voiceSessions.$inferInsert, "id" | "userId" | "status" | "errorMessage">
+>;
+
+/**
+ * Legal moves from each status. Staying in the same status is always
+ * allowed and isn't recorded.
+ */
+export const SESSION_TRANSITIONS: Record<SessionStatus, readonly SessionStatus[]> = {
+  recording: ["transcribing", "analyzing", "generating", "error"],
+  transcribing: ["analyzing", "error"],
+  analyzing: ["follow_ups", "error"],
+  follow_ups: ["generating", "error"],
+  generating: ["complete", "follow_ups", "error"], // follow_ups: generation was cancelled
+  complete: [],
+  error: ["analyzing", "follow_ups", "generating"], // Retried from the last good step
+};
+
+// Statuses a session only holds while work is in progress for it
+const WORKING_STATUSES: SessionStatus[] = ["transcribing", "analyzing", "generating"];
+
+// A working session untouched this long, with no job in flight, is stuck
+const STUCK_AFTER_MS = 5 * 60 * 1000;
+
+/**
+ * Thrown when a session can't move from its current status to the requested one
+ */
+export class InvalidTransitionError extends Error {
+  from: SessionStatus;
+  to: SessionStatus;
+
+  constructor(from: SessionStatus, to: SessionStatus) {
+    super(`Session can't move from "${from}" to "${to}"`);
+    this.name = "InvalidTransitionError";
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export function canTransition(from: SessionStatus, to: SessionStatus): boolean {
+  return from === to || SESSION_TRANSITIONS[from].includes(to);
+}
+
+interface TransitionOptions {
+  actor: TransitionActor;
+  reason: string;
+  // Stored with "error"; leaving "error" clears it
+  errorMessage?: string;
+  // Other session fields to write in the same update
+  changes?: SessionChanges;
+  // Leave the session alone, rather than throw, unless it's in one of these
+  onlyFrom?: SessionStatus[];
+  // Make the move part of this transaction (the status is published before it commits)
+  tx?: Transaction;
+}
+
+/**
+ * Move a session to a new status
+ *
+ * @returns The status the session was in, or null if the session doesn't
+ * exist or wasn't in one of `onlyFrom`
+ * @throws InvalidTransitionError if the move isn't allowed
+ */
+export async function transitionSession(
+  sessionId: string,
+  to: SessionStatus,
+  options: TransitionOptions
+): Promise<SessionStatus | null> {
+  const { actor, reason, changes = {}, onlyFrom } = options;
+  const errorMessage = to === "error" ? (options.errorMessage ?? null) : null;
+
+  const move = async (tx: Transaction) => {
+    const [current] = await tx
+      .select({ status: voiceSessions.status })
+      .from(voiceSessions)
+      .where(eq(voiceSessions.id, sessionId))
+      .limit(1)
+      .for("update");
+
+    if (!current) return null;
+    if (onlyFrom && !onlyFrom.includes(current.status)) return null;
+    if (!canTransition(current.status, to)) {
+      throw new InvalidTransitionError(current.status, to);
+    }
+
+    await tx
+      .update(voiceSessions)
+      .set({ ...changes, status: to, errorMessage, updatedAt: new Date() })
+      .where(eq(voiceSessions.id, sessionId));
+
+    if (current.status !== to) {
+      await tx.insert(sessionTransitions).values({
+        sessionId,
+        fromStatus: current.status,
+        toStatus: to,
+        actor,
+        reason,
+      });
+    }
+
+    return current.status;
+  };
+  const from = options.tx ? await move(options.tx) : await db.transaction(move);
+
+  if (from && from !== to) {
+    await publishSessionStatus(sessionId, to, errorMessage);
+  }
+
+  return from;
+}
+
+/**
+ * Record the status a new session was created in
+ */
+export async function recordInitialStatus(
+  sessionId: string,
+  status: SessionStatus,
+  reason: string
+): Promise<void> {
+  await db.insert(sessionTransitions).values({
+    sessionId,
+    fromStatus: null,
+    toStatus: status,
+    actor: "user",
+    reason,
+  });
+}
+
+/**
+ * A session's status history, oldest first
+ */
+export async function getSessionTransitions(sessionId: string): Promise<SessionTransition[]> {
+  const rows = await db
+    .select()
+    .from(sessionTransitions)
+    .where(eq(sessionTransitions.sessionId, sessionId))
+    .orderBy(sessionTransitions.createdAt);
+
+  return rows.map((row) => ({
+    id: row.id,
+    fromStatus: row.fromStatus,
+    toStatus: row.toStatus,
+    actor: row.actor as TransitionActor,
+    reason: row.reason,
+    createdAt: row.createdAt,
+  }));
+}
+
+/**
+ * The working status an errored session failed in, or null if unknown
+ */
+export async function getFailedStatus(sessionId: string): Promise<SessionStatus | null> {
+  const [failure] = await db
+    .select({ fromStatus: sessionTransitions.fromStatus })
+    .from(sessionTransitions)
+    .where(
+      and(eq(sessionTransitions.sessionId, sessionId), eq(sessionTransitions.toStatus, "error"))
+    )
+    .orderBy(desc(sessionTransitions.createdAt))
+    .limit(1);
+
+  return failure?.fromStatus ?? null;
+}
+
+/**
+ * Move sessions stuck in a working status to "error"
+ *
+ * @returns How many sessions were moved
+ */
+export async function reconcileStuckSessions(): Promise<number> {
+  const stuck = await db
+    .select({ id: voiceSessions.id, status: voiceSessions.status })
+    .from(voiceSessions)
+    .where(
+      and(
+        inArray(voiceSessions.status, WORKING_STATUSES),
+        lt(voiceSessions.updatedAt, new Date(Date.now() - STUCK_AFTER_MS)),
+        notExists(
+          db
+            .select({ id: jobs.id })
+            .from(jobs)
+            .where(
+              and(eq(jobs.sessionId, voiceSessions.id), inArray(jobs.status, ["queued", "running"]))
+            )
+        )
+      )
+    );
+
+  let reconciled = 0;
+  for (const session of stuck) {
+    // Skipped if the session moved on since it was found
+    const from = await transitionSession(session.id, "error", {
+      actor: "reconciler",
+      reason: `No work in progress while ${session.status}`,
+      errorMessage: "Processing stopped before it finished. Retry to pick up where it left off.",
+      onlyFrom: [session.status],
+    });
+    if (from) reconciled++;
+  }
+
+  return reconciled;
+}
@@ -1,7 +1,8 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
 import { existsSync } from "fs";
-import { writeFile, mkdir } from "fs/promises";
-import { join } from "path";
-import { put, del } from "@vercel/blob";
+import { writeFile, mkdir, readFile, readdir, rm, stat } from "fs/promises";
+import { dirname, join, resolve, sep } from "path";
+import { put, del, head, list } from "@vercel/blob";
 
 /**
  * Result from uploading a file to storage
@@ -19,13 +20,15 @@ export interface StorageConfig {
   maxSize?: number;
   /** Allowed MIME types (default: images and documents) */
   allowedTypes?: string[];
+  /** Replace an existing file at the same path instead of failing (default: false) */
+  allowOverwrite?: boolean;
 }
 
 /**
  * Default storage configuration
  */
 const DEFAULT_CONFIG: Required<StorageConfig> = {
-  maxSize: 25 * 1024 * 1024, // 25MB (Whisper API limit)
+  maxSize: 25 * 1024 * 1024, // 25MB (Whisper API limit; voice uploads pass a larger maxSize)
   allowedTypes: [
     // Images
     "image/jpeg",
@@ -47,6 +50,7 @@ const DEFAULT_CONFIG: Required<StorageConfig> = {
     "audio/m4a",
     "audio/x-m4a",
   ],
+  allowOverwrite: false,
 };
 
 /**
@@ -174,6 +178,7 @@ export async function upload(
     const pathname = folder ? `${folder}/${sanitizedFilename}` : sanitizedFilename;
     const blob = await put(pathname, buffer, {
       access: "public",
+      allowOverwrite: config?.allowOverwrite ?? DEFAULT_CONFIG.allowOverwrite,
     });
 
     return {
@@ -237,7 +242,218 @@ export async function deleteFile(url: string): Promise<void> {
   }
 }
 
+/**
+ * Reads a previously uploaded file back from storage
+ *
+ * @param pathname - The pathname returned by upload() (e.g., "avatars/avatar.png")
+ * @returns The file contents, or null if it does not exist
+ */
+export async function download(pathname: string): Promise<Buffer | null> {
+  const hasVercelBlob = Boolean(process.env.BLOB_READ_WRITE_TOKEN);
+
+  if (hasVercelBlob) {
+    try {
+      const blob = await head(pathname);
+      const response = await fetch(blob.url);
+      if (!response.ok) {
+        return null;
+      }
+      return Buffer.from(await response.arrayBuffer());
+    } catch {
+      return null;
+    }
+  }
 
+  const filepath = join(process.cwd(), "public", "uploads", pathname);
+  if (!existsSync(filepath)) {
+    return null;
+  }
 
+  return readFile(filepath);
+}
 
+// ============================================
+// Private storage
+// ============================================
 
+/**
+ * Private storage is for user data that must never be reachable by URL, such
+ * as raw voice audio. Files are addressed by pathname only.
+ *
+ * Locally they live outside public/ (PRIVATE_UPLOADS_DIR, default
+ * .data/private-uploads). Vercel Blob only offers public access, so contents
+ * are encrypted with AES-256-GCM before upload and blob URLs are never
+ * returned to clients. The key comes from STORAGE_ENCRYPTION_KEY, falling
+ * back to BETTER_AUTH_SECRET.
+ */
+
+const ENCRYPTION_IV_BYTES = 12;
+const ENCRYPTION_TAG_BYTES = 16;
+
+function getPrivateRoot(): string {
+  return resolve(process.env.PRIVATE_UPLOADS_DIR || join(process.cwd(), ".data", "private-uploads"));
+}
+
+/**
+ * Resolve a private pathname to a local file, refusing anything that
+ * escapes the private root
+ */
+function getPrivatePath(pathname: string): string {
+  const root = getPrivateRoot();
+  const filepath = resolve(root, pathname);
+  if (filepath !== root && !filepath.startsWith(root + sep)) {
+    throw new Error("Invalid private storage path");
+  }
+  return filepath;
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.STORAGE_ENCRYPTION_KEY || process.env.BETTER_AUTH_SECRET;
+  if (!secret) {
+    throw new Error("STORAGE_ENCRYPTION_KEY or BETTER_AUTH_SECRET is required for private storage");
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+function encrypt(buffer: Buffer): Buffer {
+  const iv = randomBytes(ENCRYPTION_IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(buffer), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function decrypt(buffer: Buffer): Buffer {
+  const iv = buffer.subarray(0, ENCRYPTION_IV_BYTES);
+  const tag = buffer.subarray(ENCRYPTION_IV_BYTES, ENCRYPTION_IV_BYTES + ENCRYPTION_TAG_BYTES);
+  const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([
+    decipher.update(buffer.subarray(ENCRYPTION_IV_BYTES + ENCRYPTION_TAG_BYTES)),
+    decipher.final(),
+  ]);
+}
+
+/**
+ * Store a file privately. Existing files at the same pathname are replaced.
+ *
+ * @param buffer - File contents
+ * @param pathname - Path/key of the file (e.g., "voice-recordings/user/id.webm")
+ * @param config - Optional size/extension validation (allowOverwrite is implied)
+ */
+export async function uploadPrivate(
+  buffer: Buffer,
+  pathname: string,
+  config?: StorageConfig
+): Promise<void> {
+  const validation = validateFile(buffer, pathname, config);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  if (process.env.BLOB_READ_WRITE_TOKEN) {
+    await put(pathname, encrypt(buffer), {
+      access: "public",
+      allowOverwrite: true,
+      addRandomSuffix: false,
+      contentType: "application/octet-stream",
+    });
+    return;
+  }
+
+  const filepath = getPrivatePath(pathname);
+  await mkdir(dirname(filepath), { recursive: true });
+  await writeFile(filepath, buffer);
+}
+
+/**
+ * Read a privately stored file
+ *
+ * @returns The file contents, or null if it does not exist
+ */
+export async function downloadPrivate(pathname: string): Promise<Buffer | null> {
+  if (process.env.BLOB_READ_WRITE_TOKEN) {
+    let url: string;
+    try {
+      url = (await head(pathname)).url;
+    } catch {
+      return null;
+    }
+    const response = await fetch(url, { cache: "no-store" });
+    if (!response.ok) {
+      return null;
+    }
+    return decrypt(Buffer.from(await response.arrayBuffer()));
+  }
+
+  const filepath = getPrivatePath(pathname);
+  if (!existsSync(filepath)) {
+    return null;
+  }
+  return readFile(filepath);
+}
+
+/**
+ * Delete a privately stored file. Missing files are ignored.
+ */
+export async function deletePrivate(pathname: string): Promise<void> {
+  if (process.env.BLOB_READ_WRITE_TOKEN) {
+    await del(pathname);
+    return;
+  }
+
+  await rm(getPrivatePath(pathname), { force: true });
+}
+
+/**
+ * List the privately stored files directly under a folder
+ */
+export async function listPrivate(
+  folder: string
+): Promise<{ pathname: string; uploadedAt: Date }[]> {
+  if (process.env.BLOB_READ_WRITE_TOKEN) {
+    const files: { pathname: string; uploadedAt: Date }[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await list({ prefix: `${folder}/`, ...(cursor && { cursor }) });
+      for (const blob of page.blobs) {
+        files.push({ pathname: blob.pathname, uploadedAt: blob.uploadedAt });
+      }
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+    return files;
+  }
+
+  const directory = getPrivatePath(folder);
+  if (!existsSync(directory)) {
+    return [];
+  }
+
+  const entries = await readdir(directory, { withFileTypes: true });
+  return Promise.all(
+    entries
+      .filter((entry) => entry.isFile())
+      .map(async (entry) => ({
+        pathname: `${folder}/${entry.name}`,
+        uploadedAt: (await stat(join(directory, entry.name))).mtime,
+      }))
+  );
+}
+
+/**
+ * Delete every privately stored file under a folder
+ */
+export async function deletePrivateFolder(folder: string): Promise<void> {
+  if (process.env.BLOB_READ_WRITE_TOKEN) {
+    let cursor: string | undefined;
+    do {
+      const page = await list({ prefix: `${folder}/`, ...(cursor && { cursor }) });
+      if (page.blobs.length > 0) {
+        await del(page.blobs.map((blob) => blob.url));
+      }
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+    return;
+  }
+
+  await rm(getPrivatePath(folder), { recursive: true, force: true });
+}
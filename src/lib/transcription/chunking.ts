@@ -0,0 +1,292 @@
+/**
+ * Chunked Transcription
+ *
+ * Whisper-style APIs reject files over 25MB, so long recordings are split
+ * into overlapping chunks, transcribed one at a time, and stitched back into
+ * a single transcript with continuous word timestamps.
+ *
+ * Overlap handling: each pair of neighbouring chunks shares OVERLAP seconds
+ * of audio. Words are kept from whichever chunk "owns" them — the earlier
+ * chunk up to the midpoint of the overlap, the later chunk after it — and a
+ * word repeated right at the seam is dropped.
+ *
+ * Speaker labels: diarization labels are assigned per chunk by the engine,
+ * so "A" in one chunk is not guaranteed to be "A" in the next. Labels are
+ * realigned using the words both chunks transcribed in their overlap. A
+ * speaker can be silent in an overlap (the owner listening to a guest), so
+ * labels with no evidence there are paired with the speakers not matched yet,
+ * the chunk's busiest with the recording's busiest so far. Only a label left
+ * over once every known speaker is matched gets a fresh label.
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { extractAudioSegment, probeDurationSeconds } from "@/lib/audio/ffmpeg";
+import type { TranscribeResponse, WordTimestamp } from "@/types/voice";
+import { getSpeakers } from "./speakers";
+import type { TranscribeOptions, TranscriptionProvider } from "./provider";
+
+/** Largest file sent to a provider in a single request (Whisper limit is 25MB) */
+export const MAX_SINGLE_REQUEST_BYTES = 24 * 1024 * 1024;
+
+const CHUNK_SECONDS = 600; // 10 minutes of 48kbps mono ≈ 3.6MB
+const CHUNK_OVERLAP_SECONDS = 10;
+const SEAM_DUPLICATE_TOLERANCE = 0.5; // seconds
+const SPEAKER_MATCH_TOLERANCE = 1.0; // seconds
+
+export interface AudioChunk {
+  index: number;
+  start: number; // seconds from the start of the recording
+  duration: number;
+}
+
+export interface ChunkTranscription {
+  chunk: AudioChunk;
+  result: TranscribeResponse;
+}
+
+/**
+ * Plan overlapping chunks covering the whole recording
+ */
+export function planChunks(
+  totalDurationSeconds: number,
+  chunkSeconds: number = CHUNK_SECONDS,
+  overlapSeconds: number = CHUNK_OVERLAP_SECONDS
+): AudioChunk[] {
+  if (totalDurationSeconds <= chunkSeconds) {
+    return [{ index: 0, start: 0, duration: totalDurationSeconds }];
+  }
+
+  const step = chunkSeconds - overlapSeconds;
+  const chunks: AudioChunk[] = [];
+
+  for (let start = 0; ; start += step) {
+    const duration = Math.min(chunkSeconds, totalDurationSeconds - start);
+    chunks.push({ index: chunks.length, start, duration });
+    if (start + duration >= totalDurationSeconds) break;
+  }
+
+  return chunks;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\w]/g, "");
+}
+
+/**
+ * First label of the form A, B, ..., Z, S27, S28, ... not already in use
+ */
+function nextFreeLabel(used: Set<string>): string {
+  for (let i = 0; ; i++) {
+    const label = i < 26 ? String.fromCharCode(65 + i) : `S${i + 1}`;
+    if (!used.has(label)) return label;
+  }
+}
+
+/**
+ * Map a chunk's speaker labels onto the labels already stitched
+ *
+ * Each word the chunk shares with the previous chunk's overlap (same word,
+ * nearly the same time) is a vote that the two labels are the same person.
+ * Labels are paired greedily by votes, one-to-one. Labels without votes are
+ * then paired with the stitched labels left, by speaking time; any left after
+ * that get a fresh label.
+ */
+function alignSpeakerLabels(
+  stitched: WordTimestamp[],
+  previous: WordTimestamp[],
+  current: WordTimestamp[],
+  overlapStart: number,
+  overlapEnd: number,
+  usedLabels: Set<string>
+): Map<string, string> {
+  const votes = new Map<string, number>();
+  const previousOverlap = previous.filter(
+    (w) => w.speaker && w.start >= overlapStart && w.start < overlapEnd
+  );
+
+  for (const word of current) {
+    if (!word.speaker || word.start < overlapStart || word.start >= overlapEnd) continue;
+    const match = previousOverlap.find(
+      (p) =>
+        normalizeWord(p.word) === normalizeWord(word.word) &&
+        Math.abs(p.start - word.start) < SPEAKER_MATCH_TOLERANCE
+    );
+    if (match?.speaker) {
+      const key = `${word.speaker}\u0000${match.speaker}`;
+      votes.set(key, (votes.get(key) ?? 0) + 1);
+    }
+  }
+
+  const mapping = new Map<string, string>();
+  const taken = new Set<string>();
+  const ranked = [...votes.entries()].sort((a, b) => b[1] - a[1]);
+
+  for (const [key] of ranked) {
+    const [from, to] = key.split("\u0000") as [string, string];
+    if (mapping.has(from) || taken.has(to)) continue;
+    mapping.set(from, to);
+    taken.add(to);
+  }
+
+  const bySpeakingTime = (words: WordTimestamp[]) =>
+    getSpeakers(words)
+      .sort((a, b) => b.speakingSeconds - a.speakingSeconds)
+      .map((s) => s.speaker);
+  const unmatched = bySpeakingTime(current).filter((label) => !mapping.has(label));
+  const available = bySpeakingTime(stitched).filter((label) => !taken.has(label));
+
+  for (const label of unmatched) {
+    let to = available.shift();
+    if (!to) {
+      to = nextFreeLabel(usedLabels);
+      usedLabels.add(to);
+    }
+    mapping.set(label, to);
+  }
+
+  return mapping;
+}
+
+/**
+ * Stitch per-chunk transcriptions into one continuous transcription
+ */
+export function stitchChunkTranscriptions(
+  parts: ChunkTranscription[]
+): TranscribeResponse {
+  const ordered = [...parts].sort((a, b) => a.chunk.start - b.chunk.start);
+  const wordTimestamps: WordTimestamp[] = [];
+  const transcriptParts: string[] = [];
+  const languageCounts = new Map<string, number>();
+  const usedLabels = new Set<string>();
+  let previousShifted: WordTimestamp[] = [];
+
+  ordered.forEach((part, i) => {
+    const { chunk, result } = part;
+    const previous = ordered[i - 1]?.chunk;
+    const next = ordered[i + 1]?.chunk;
+
+    // Ownership window in absolute seconds: split each overlap at its midpoint
+    const keepFrom = previous ? (chunk.start + previous.start + previous.duration) / 2 : -Infinity;
+    const keepUntil = next ? (next.start + chunk.start + chunk.duration) / 2 : Infinity;
+
+    let shifted = result.wordTimestamps.map((w) => ({
+      ...w,
+      start: w.start + chunk.start,
+      end: w.end + chunk.start,
+    }));
+
+    if (shifted.some((w) => w.speaker)) {
+      if (previous) {
+        const mapping = alignSpeakerLabels(
+          wordTimestamps,
+          previousShifted,
+          shifted,
+          chunk.start,
+          previous.start + previous.duration,
+          usedLabels
+        );
+        shifted = shifted.map((w) =>
+          w.speaker ? { ...w, speaker: mapping.get(w.speaker) ?? w.speaker } : w
+        );
+      } else {
+        shifted.forEach((w) => w.speaker && usedLabels.add(w.speaker));
+      }
+    }
+    previousShifted = shifted;
+
+    let firstKept = shifted.findIndex((w) => w.start >= keepFrom);
+    if (firstKept === -1) firstKept = shifted.length;
+    let lastKept = shifted.length;
+    while (lastKept > firstKept && (shifted[lastKept - 1]?.start ?? 0) >= keepUntil) {
+      lastKept--;
+    }
+
+    // Drop a word transcribed by both chunks right at the seam
+    const lastStitched = wordTimestamps[wordTimestamps.length - 1];
+    const candidate = shifted[firstKept];
+    if (
+      lastStitched &&
+      candidate &&
+      firstKept < lastKept &&
+      normalizeWord(lastStitched.word) === normalizeWord(candidate.word) &&
+      Math.abs(candidate.start - lastStitched.start) < SEAM_DUPLICATE_TOLERANCE
+    ) {
+      firstKept++;
+    }
+
+    const kept = shifted.slice(firstKept, lastKept);
+    wordTimestamps.push(...kept);
+
+    // Trim the transcript text by the same word counts so punctuation survives.
+    // If the provider's text doesn't line up with its words, rebuild from words.
+    const tokens = result.transcript.split(/\s+/).filter((t) => t.length > 0);
+    if (tokens.length === result.wordTimestamps.length) {
+      transcriptParts.push(tokens.slice(firstKept, lastKept).join(" "));
+    } else if (result.wordTimestamps.length > 0) {
+      transcriptParts.push(kept.map((w) => w.word).join(" "));
+    } else {
+      transcriptParts.push(result.transcript.trim());
+    }
+
+    if (result.language && result.language !== "und") {
+      languageCounts.set(result.language, (languageCounts.get(result.language) ?? 0) + 1);
+    }
+  });
+
+  const last = ordered[ordered.length - 1];
+  const language =
+    [...languageCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? "und";
+
+  return {
+    transcript: transcriptParts.filter((t) => t.length > 0).join(" "),
+    durationSeconds: last ? last.chunk.start + last.result.durationSeconds : 0,
+    wordTimestamps,
+    language,
+  };
+}
+
+/**
+ * Transcribe a long recording by splitting it into overlapping chunks
+ *
+ * Chunks are transcribed sequentially to stay within provider rate limits.
+ */
+export async function transcribeInChunks(
+  audioFile: File,
+  provider: TranscriptionProvider,
+  options: TranscribeOptions = {}
+): Promise<TranscribeResponse> {
+  const workDir = await mkdtemp(join(tmpdir(), "ouno-transcribe-"));
+
+  try {
+    const extension = audioFile.name.split(".").pop() || "webm";
+    const sourcePath = join(workDir, `source.${extension}`);
+    await writeFile(sourcePath, Buffer.from(await audioFile.arrayBuffer()));
+
+    const totalDuration = await probeDurationSeconds(sourcePath);
+    const chunks = planChunks(totalDuration);
+    const parts: ChunkTranscription[] = [];
+
+    for (const chunk of chunks) {
+      const chunkPath = join(workDir, `chunk-${chunk.index}.mp3`);
+      await extractAudioSegment(sourcePath, chunkPath, chunk.start, chunk.duration);
+
+      const chunkBuffer = await readFile(chunkPath);
+      const chunkFile = new File([new Uint8Array(chunkBuffer)], `chunk-${chunk.index}.mp3`, {
+        type: "audio/mpeg",
+      });
+
+      const result = await provider.transcribe(chunkFile, options);
+      parts.push({ chunk, result });
+      await options.onProgress?.(parts.length / chunks.length);
+    }
+
+    const stitched = stitchChunkTranscriptions(parts);
+    return { ...stitched, durationSeconds: Math.max(stitched.durationSeconds, totalDuration) };
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch((error) => {
+      console.error("Failed to clean up transcription chunks:", error);
+    });
+  }
+}
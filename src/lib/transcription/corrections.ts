@@ -0,0 +1,94 @@
+/**
+ * Transcript Word Corrections
+ *
+ * Applies user corrections of individual words to a transcript and its word
+ * timestamps. Safe to import from client components (no Node APIs).
+ */
+
+import type { WordCorrection, WordTimestamp } from "@/types/voice";
+
+/** Words below this confidence are highlighted for review */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/**
+ * Check whether a word should be flagged for review
+ *
+ * Segment-level confidence is shared by every word in the segment, so it
+ * can't single out the misheard word and is never highlighted.
+ */
+export function isLowConfidence(word: WordTimestamp): boolean {
+  return word.confidenceSource !== "segment" && word.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Check that a correction is well-formed. Replacements must be a single word
+ * so transcript tokens stay aligned with the word timestamps.
+ */
+export function isValidWordCorrection(value: unknown): value is WordCorrection {
+  if (!value || typeof value !== "object") return false;
+  const correction = value as Partial<WordCorrection>;
+  return (
+    Number.isInteger(correction.index) &&
+    typeof correction.word === "string" &&
+    correction.word.trim().length > 0 &&
+    !/\s/.test(correction.word.trim())
+  );
+}
+
+/**
+ * Replace the word inside a transcript token, keeping surrounding punctuation
+ * (e.g. correcting "teh" in "(teh," yields "(the,")
+ */
+function replaceTokenCore(token: string, replacement: string): string {
+  const match = token.match(/^([^\w]*)(.*?)([^\w]*)$/);
+  if (!match) return replacement;
+  return `${match[1] ?? ""}${replacement}${match[3] ?? ""}`;
+}
+
+/**
+ * Apply word corrections to a transcript and its word timestamps
+ *
+ * Corrected words get confidence 1.0 since the user has confirmed them.
+ * The transcript text is patched token-by-token when it lines up with the
+ * word timestamps; otherwise it is rebuilt from the corrected words.
+ */
+export function applyWordCorrections(
+  transcript: string,
+  wordTimestamps: WordTimestamp[],
+  corrections: WordCorrection[]
+): { transcript: string; wordTimestamps: WordTimestamp[] } {
+  const validCorrections = corrections.filter(
+    (c) => isValidWordCorrection(c) && c.index >= 0 && c.index < wordTimestamps.length
+  );
+
+  if (validCorrections.length === 0) {
+    return { transcript, wordTimestamps };
+  }
+
+  const correctedWords = wordTimestamps.map((w) => ({ ...w }));
+  for (const correction of validCorrections) {
+    const target = correctedWords[correction.index];
+    if (target) {
+      target.word = correction.word.trim();
+      target.confidence = 1.0;
+      delete target.confidenceSource;
+    }
+  }
+
+  const tokens = transcript.split(/\s+/).filter((t) => t.length > 0);
+  let correctedTranscript: string;
+
+  if (tokens.length === wordTimestamps.length) {
+    for (const correction of validCorrections) {
+      const token = tokens[correction.index];
+      if (token !== undefined) {
+        tokens[correction.index] = replaceTokenCore(token, correction.word.trim());
+      }
+    }
+    correctedTranscript = tokens.join(" ");
+  } else {
+    correctedTranscript = correctedWords.map((w) => w.word).join(" ");
+  }
+
+  return { transcript: correctedTranscript, wordTimestamps: correctedWords };
+}
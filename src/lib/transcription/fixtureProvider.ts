@@ -0,0 +1,84 @@
+/**
+ * Fixture Transcription Provider
+ *
+ * Returns a deterministic transcript without calling any speech engine, for
+ * tests and offline development. The same input always yields the same
+ * transcript and timestamps.
+ *
+ * Env:
+ * - TRANSCRIPTION_FIXTURE_PATH - Optional JSON file containing a TranscribeResponse
+ */
+
+import { readFile } from "fs/promises";
+import type { TranscribeResponse, WordTimestamp } from "@/types/voice";
+import type { TranscribeOptions, TranscriptionProvider } from "./provider";
+
+const DEFAULT_FIXTURE_TEXT =
+  "I really think the most important thing about building products is talking to your users. " +
+  "Honestly, every time we skipped that step we shipped something nobody wanted. " +
+  "So now we do it every single week, and it has completely changed how we plan.";
+
+const FIXTURE_WORDS_PER_SECOND = 2.5;
+
+// Diarized fixtures alternate speakers sentence by sentence
+const FIXTURE_SPEAKERS = ["A", "B"];
+
+/**
+ * Build evenly-paced word timestamps for a block of text
+ */
+export function buildFixtureTranscription(
+  text: string,
+  diarize: boolean = false
+): TranscribeResponse {
+  const words = text.split(/\s+/).filter((w) => w.length > 0);
+  const wordDuration = 1 / FIXTURE_WORDS_PER_SECOND;
+  let sentenceIndex = 0;
+
+  const wordTimestamps: WordTimestamp[] = words.map((word, index) => {
+    const timestamp: WordTimestamp = {
+      word,
+      start: Number((index * wordDuration).toFixed(2)),
+      end: Number(((index + 1) * wordDuration).toFixed(2)),
+      confidence: 1.0,
+    };
+
+    if (diarize) {
+      timestamp.speaker = FIXTURE_SPEAKERS[sentenceIndex % FIXTURE_SPEAKERS.length] ?? "A";
+      if (/[.!?]$/.test(word)) sentenceIndex++;
+    }
+
+    return timestamp;
+  });
+
+  return {
+    transcript: text.trim(),
+    durationSeconds: Number((words.length * wordDuration).toFixed(2)),
+    wordTimestamps,
+    language: "en",
+  };
+}
+
+async function transcribe(
+  _audioFile: File,
+  options: TranscribeOptions = {}
+): Promise<TranscribeResponse> {
+  const fixturePath = process.env.TRANSCRIPTION_FIXTURE_PATH;
+
+  if (fixturePath) {
+    try {
+      const raw = await readFile(fixturePath, "utf-8");
+      return JSON.parse(raw) as TranscribeResponse;
+    } catch (error) {
+      console.error("Failed to load transcription fixture:", error);
+      throw new Error(`Transcription failed: could not load fixture at ${fixturePath}`);
+    }
+  }
+
+  return buildFixtureTranscription(DEFAULT_FIXTURE_TEXT, options.diarize ?? false);
+}
+
+export const fixtureTranscriptionProvider: TranscriptionProvider = {
+  name: "fixture",
+  getConfigurationError: () => null,
+  transcribe,
+};
@@ -0,0 +1,193 @@
+/**
+ * Transcription Glossary
+ *
+ * Applies a user's custom vocabulary in two passes:
+ * 1. Before transcription - terms are sent to the engine as a prompt bias
+ * 2. After transcription - known misspellings are replaced in both the
+ *    transcript text and the word timestamps
+ *
+ * Replacements keep transcript tokens and word timestamps aligned one-to-one,
+ * so inline corrections and the enthusiasm detector keep working.
+ */
+
+import type { TranscribeResponse, WordTimestamp } from "@/types/voice";
+import type { GlossaryTerm } from "@/types/voiceDNA";
+
+// Whisper only reads the last ~224 tokens of a prompt
+const MAX_PROMPT_CHARS = 800;
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\w']/g, "");
+}
+
+/**
+ * Build the prompt bias sent to the transcription engine
+ */
+export function buildGlossaryPrompt(glossary: GlossaryTerm[]): string | undefined {
+  const terms = [...new Set(glossary.map((g) => g.term.trim()).filter(Boolean))];
+  if (terms.length === 0) return undefined;
+
+  let prompt = "Vocabulary:";
+  for (const term of terms) {
+    const next = `${prompt} ${term},`;
+    if (next.length > MAX_PROMPT_CHARS) break;
+    prompt = next;
+  }
+
+  return prompt.replace(/,$/, ".");
+}
+
+interface GlossaryPattern {
+  phrase: string[];
+  term: string;
+}
+
+interface GlossaryMatch {
+  index: number;
+  length: number;
+  term: string;
+}
+
+/**
+ * Every misspelling that should be rewritten to its glossary term, longest
+ * first so multi-word variants win
+ *
+ * The term itself is not a pattern: normalizing casing would also rewrite
+ * ordinary words (a term "Go" would turn "go home" into "Go home"). Variants
+ * whose matching form differs from their literal text (e.g. "C++" matches as
+ * "c") are dropped, since they would match unrelated words.
+ */
+function getPatterns(glossary: GlossaryTerm[]): GlossaryPattern[] {
+  return glossary
+    .flatMap((entry) =>
+      entry.misspellings.map((variant) => {
+        const parts = variant.trim().split(/\s+/).filter(Boolean);
+        const phrase = parts.map(normalizeWord);
+        const literal = phrase.every((part, i) => part === parts[i]?.toLowerCase());
+        return { phrase: literal ? phrase : [], term: entry.term.trim() };
+      })
+    )
+    .filter((p) => p.phrase.length > 0 && p.term.length > 0)
+    .sort((a, b) => b.phrase.length - a.phrase.length);
+}
+
+/**
+ * Find non-overlapping pattern matches in a single left-to-right pass, so a
+ * replacement is never matched again
+ */
+function findMatches(normalized: string[], patterns: GlossaryPattern[]): GlossaryMatch[] {
+  const matches: GlossaryMatch[] = [];
+
+  let i = 0;
+  while (i < normalized.length) {
+    const match = patterns.find((p) =>
+      p.phrase.every((part, offset) => normalized[i + offset] === part)
+    );
+
+    if (match) {
+      matches.push({ index: i, length: match.phrase.length, term: match.term });
+      i += match.phrase.length;
+    } else {
+      i++;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Replace a matched span of words with the term's words, spreading the span's
+ * time range evenly across them
+ */
+function replaceSpan(span: WordTimestamp[], term: string): WordTimestamp[] {
+  const first = span[0];
+  const last = span[span.length - 1];
+  if (!first || !last) return span;
+
+  const termWords = term.split(/\s+/);
+  const trailing = last.word.match(/[^\w']+$/)?.[0] ?? "";
+  const confidence = Math.min(...span.map((w) => w.confidence));
+  const step = (last.end - first.start) / termWords.length;
+
+  return termWords.map((word, i) => ({
+    word: i === termWords.length - 1 ? word + trailing : word,
+    start: Number((first.start + step * i).toFixed(3)),
+    end: i === termWords.length - 1 ? last.end : Number((first.start + step * (i + 1)).toFixed(3)),
+    confidence,
+    ...(first.speaker && { speaker: first.speaker }),
+    ...(span.some((w) => w.estimated) && { estimated: true }),
+  }));
+}
+
+/**
+ * Replace a matched span of transcript tokens with the term, keeping the
+ * punctuation around the span
+ */
+function replaceTokens(span: string[], term: string): string[] {
+  const leading = span[0]?.match(/^[^\w']+/)?.[0] ?? "";
+  const trailing = span[span.length - 1]?.match(/[^\w']+$/)?.[0] ?? "";
+  const termWords = term.split(/\s+/);
+
+  return termWords.map(
+    (word, i) => `${i === 0 ? leading : ""}${word}${i === termWords.length - 1 ? trailing : ""}`
+  );
+}
+
+/**
+ * Rebuild a sequence from its matches, replacing each matched span
+ */
+function applyMatches<T>(
+  items: T[],
+  matches: GlossaryMatch[],
+  replace: (span: T[], term: string) => T[]
+): T[] {
+  const result: T[] = [];
+  let cursor = 0;
+
+  for (const match of matches) {
+    result.push(...items.slice(cursor, match.index));
+    result.push(...replace(items.slice(match.index, match.index + match.length), match.term));
+    cursor = match.index + match.length;
+  }
+  result.push(...items.slice(cursor));
+
+  return result;
+}
+
+/**
+ * Apply glossary find/replace over a transcription result
+ *
+ * When the transcript tokens line up with the word timestamps, both are
+ * rebuilt from the same match list so they stay aligned.
+ */
+export function applyGlossary(
+  transcription: TranscribeResponse,
+  glossary: GlossaryTerm[]
+): TranscribeResponse {
+  const patterns = getPatterns(glossary);
+  if (patterns.length === 0) return transcription;
+
+  const { wordTimestamps } = transcription;
+  const wordMatches = findMatches(
+    wordTimestamps.map((w) => normalizeWord(w.word)),
+    patterns
+  );
+
+  const tokens = transcription.transcript.split(/\s+/).filter(Boolean);
+  const tokenMatches =
+    tokens.length === wordTimestamps.length
+      ? wordMatches
+      : findMatches(tokens.map(normalizeWord), patterns);
+
+  return {
+    ...transcription,
+    transcript:
+      tokenMatches.length > 0
+        ? applyMatches(tokens, tokenMatches, replaceTokens).join(" ")
+        : transcription.transcript,
+    wordTimestamps:
+      wordMatches.length > 0
+        ? applyMatches(wordTimestamps, wordMatches, replaceSpan)
+        : wordTimestamps,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Live Transcription Streams
+ *
+ * Gives the user a rough transcript while they are still speaking. The
+ * browser records short self-contained windows alongside the real recording
+ * (see lib/voice/liveTranscriber.ts) and posts each one here; windows are
+ * transcribed in order and every subscriber is sent the transcript so far.
+ *
+ * Each window is prompted with the end of the transcript before it, so the
+ * engine carries spelling and sentence context across window boundaries.
+ *
+ * The live transcript is only a preview: when recording stops, the full
+ * recording is transcribed in one pass and replaces it. Streams therefore
+ * live in this process's memory and are dropped after STREAM_TTL_MS of
+ * inactivity; a stream that can't be found just ends the preview.
+ */
+
+import type { LiveTranscript, WordTimestamp } from "@/types/voice";
+import type { GlossaryTerm } from "@/types/voiceDNA";
+import { applyGlossary } from "./glossary";
+import { getTranscriptionProvider } from "./provider";
+
+const STREAM_TTL_MS = 10 * 60 * 1000;
+
+// A window is a few seconds of 32kbps audio; anything near this is not one
+export const MAX_WINDOW_BYTES = 2 * 1024 * 1024;
+
+// Ten minutes of 5-second windows, well past the longest recording mode
+const MAX_WINDOWS = 120;
+
+// Whisper only reads the last ~224 tokens of a prompt
+const MAX_CONTEXT_CHARS = 600;
+
+type LiveListener = (event: LiveStreamEvent) => void;
+
+export type LiveStreamEvent =
+  | { type: "partial"; transcript: LiveTranscript }
+  | { type: "error"; error: string }
+  | { type: "end" };
+
+interface LiveStream {
+  userId: string;
+  glossary: GlossaryTerm[];
+  glossaryPrompt: string | undefined;
+  words: WordTimestamp[];
+  texts: string[];
+  durationSeconds: number;
+  windowCount: number;
+  queue: Promise<void>;
+  listeners: Set<LiveListener>;
+  lastActivity: number;
+}
+
+const streams = new Map<string, LiveStream>();
+
+function sweepStreams(): void {
+  const cutoff = Date.now() - STREAM_TTL_MS;
+  for (const [id, stream] of streams) {
+    if (stream.lastActivity < cutoff && stream.listeners.size === 0) {
+      streams.delete(id);
+    }
+  }
+}
+
+function getOwnedStream(streamId: string, userId: string): LiveStream | null {
+  const stream = streams.get(streamId);
+  if (!stream || stream.userId !== userId) return null;
+  stream.lastActivity = Date.now();
+  return stream;
+}
+
+function snapshot(stream: LiveStream): LiveTranscript {
+  return {
+    transcript: stream.texts.filter(Boolean).join(" "),
+    wordTimestamps: stream.words,
+    durationSeconds: stream.durationSeconds,
+  };
+}
+
+function emit(stream: LiveStream, event: LiveStreamEvent): void {
+  for (const listener of stream.listeners) {
+    listener(event);
+  }
+}
+
+/**
+ * Build the prompt for the next window: the user's glossary followed by the
+ * end of what has been transcribed so far
+ */
+function buildWindowPrompt(stream: LiveStream): string | undefined {
+  const context = stream.texts.filter(Boolean).join(" ").slice(-MAX_CONTEXT_CHARS);
+  const prompt = [stream.glossaryPrompt, context].filter(Boolean).join(" ");
+  return prompt || undefined;
+}
+
+/**
+ * Start a live transcription stream
+ *
+ * @returns The stream ID to post windows to and subscribe with
+ */
+export function createLiveStream(
+  userId: string,
+  glossary: GlossaryTerm[],
+  glossaryPrompt: string | undefined
+): string {
+  sweepStreams();
+
+  const streamId = crypto.randomUUID();
+  streams.set(streamId, {
+    userId,
+    glossary,
+    glossaryPrompt,
+    words: [],
+    texts: [],
+    durationSeconds: 0,
+    windowCount: 0,
+    queue: Promise.resolve(),
+    listeners: new Set(),
+    lastActivity: Date.now(),
+  });
+
+  return streamId;
+}
+
+/**
+ * Queue a window of audio for transcription. Windows are transcribed one at
+ * a time in the order they arrive; the result is sent to subscribers.
+ *
+ * @param offsetSeconds - Where the window starts in the recording
+ * @returns false if the stream doesn't exist, belongs to someone else, or is full
+ */
+export function appendLiveWindow(
+  streamId: string,
+  userId: string,
+  audioFile: File,
+  offsetSeconds: number
+): boolean {
+  const stream = getOwnedStream(streamId, userId);
+  if (!stream || stream.windowCount >= MAX_WINDOWS) return false;
+  stream.windowCount++;
+
+  stream.queue = stream.queue.then(async () => {
+    if (streams.get(streamId) !== stream) return;
+
+    try {
+      const raw = await getTranscriptionProvider().transcribe(audioFile, {
+        prompt: buildWindowPrompt(stream),
+      });
+      const result = applyGlossary(raw, stream.glossary);
+      if (streams.get(streamId) !== stream) return;
+
+      stream.words.push(
+        ...result.wordTimestamps.map((word) => ({
+          ...word,
+          start: word.start + offsetSeconds,
+          end: word.end + offsetSeconds,
+        }))
+      );
+      stream.texts.push(result.transcript.trim());
+      stream.durationSeconds = Math.max(
+        stream.durationSeconds,
+        offsetSeconds + result.durationSeconds
+      );
+      stream.lastActivity = Date.now();
+
+      emit(stream, { type: "partial", transcript: snapshot(stream) });
+    } catch (error) {
+      // A missed window leaves a gap in the preview; the final pass fills it
+      console.error(`Live transcription window failed for ${streamId}:`, error);
+      emit(stream, { type: "error", error: "Part of the live transcript was missed" });
+    }
+  });
+
+  return true;
+}
+
+/**
+ * Receive the transcript so far now and after every window
+ *
+ * @returns An unsubscribe function, or null if the stream doesn't exist or
+ * belongs to someone else
+ */
+export function subscribeLiveStream(
+  streamId: string,
+  userId: string,
+  listener: LiveListener
+): (() => void) | null {
+  const stream = getOwnedStream(streamId, userId);
+  if (!stream) return null;
+
+  stream.listeners.add(listener);
+  listener({ type: "partial", transcript: snapshot(stream) });
+
+  return () => {
+    stream.listeners.delete(listener);
+    stream.lastActivity = Date.now();
+  };
+}
+
+/**
+ * End a stream once the recording is done. Subscribers are sent "end", and
+ * windows still being transcribed are discarded.
+ *
+ * @returns false if the stream doesn't exist or belongs to someone else
+ */
+export function closeLiveStream(streamId: string, userId: string): boolean {
+  const stream = getOwnedStream(streamId, userId);
+  if (!stream) return false;
+
+  streams.delete(streamId);
+  emit(stream, { type: "end" });
+  stream.listeners.clear();
+  return true;
+}
@@ -0,0 +1,72 @@
+/**
+ * Local Whisper Transcription Provider
+ *
+ * Talks to a self-hosted whisper.cpp or faster-whisper HTTP server that
+ * exposes the OpenAI-compatible /v1/audio/transcriptions endpoint, so the
+ * record → transcribe → analyze flow works offline.
+ *
+ * Env:
+ * - LOCAL_WHISPER_URL   - Server base URL (e.g. http://localhost:8080)
+ * - LOCAL_WHISPER_MODEL - Model name passed to the server (default: "whisper-1")
+ */
+
+import type { TranscribeResponse } from "@/types/voice";
+import { parseVerboseTranscription, type VerboseTranscription } from "./verbose";
+import type { TranscribeOptions, TranscriptionProvider } from "./provider";
+
+const TRANSCRIPTIONS_PATH = "/v1/audio/transcriptions";
+
+function getEndpoint(): string {
+  const baseUrl = process.env.LOCAL_WHISPER_URL;
+  if (!baseUrl) {
+    throw new Error("LOCAL_WHISPER_URL is not configured");
+  }
+  return `${baseUrl.replace(/\/+$/, "")}${TRANSCRIPTIONS_PATH}`;
+}
+
+async function transcribe(
+  audioFile: File,
+  options: TranscribeOptions = {}
+): Promise<TranscribeResponse> {
+  const endpoint = getEndpoint();
+
+  const formData = new FormData();
+  formData.append("file", audioFile);
+  formData.append("model", process.env.LOCAL_WHISPER_MODEL || "whisper-1");
+  formData.append("response_format", "verbose_json");
+  formData.append("timestamp_granularities[]", "word");
+  formData.append("timestamp_granularities[]", "segment");
+  if (options.prompt) {
+    formData.append("prompt", options.prompt);
+  }
+  if (options.diarize) {
+    // whisperX-style servers attach a `speaker` label to each word/segment
+    formData.append("diarize", "true");
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, { method: "POST", body: formData });
+  } catch (error) {
+    console.error("Local whisper connection error:", error);
+    throw new Error(`Transcription failed: could not reach local whisper server at ${endpoint}`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    console.error("Local whisper transcription error:", response.status, detail);
+    throw new Error(`Transcription failed: local whisper server returned ${response.status}`);
+  }
+
+  const verbose = (await response.json()) as VerboseTranscription;
+  return parseVerboseTranscription(verbose);
+}
+
+export const localTranscriptionProvider: TranscriptionProvider = {
+  name: "local",
+  getConfigurationError: () =>
+    process.env.LOCAL_WHISPER_URL
+      ? null
+      : "Local transcription is not configured. Please set LOCAL_WHISPER_URL.",
+  transcribe,
+};
@@ -0,0 +1,103 @@
+/**
+ * OpenAI Whisper Transcription Provider
+ *
+ * Uses the hosted whisper-1 model with word-level timestamps, or the
+ * diarizing transcription model when speaker labels are requested.
+ */
+
+import OpenAI from "openai";
+import type { TranscribeResponse } from "@/types/voice";
+import {
+  parseDiarizedTranscription,
+  parseVerboseTranscription,
+  type DiarizedTranscription,
+  type VerboseTranscription,
+} from "./verbose";
+import type { TranscribeOptions, TranscriptionProvider } from "./provider";
+
+const DIARIZE_MODEL = "gpt-4o-transcribe-diarize";
+
+// Lazy initialization of OpenAI client to avoid module-level errors
+let openaiClient: OpenAI | null = null;
+
+function getOpenAIClient(): OpenAI {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY is not configured");
+  }
+
+  if (!openaiClient) {
+    openaiClient = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+
+  return openaiClient;
+}
+
+async function transcribe(
+  audioFile: File,
+  options: TranscribeOptions = {}
+): Promise<TranscribeResponse> {
+  const openai = getOpenAIClient();
+
+  try {
+    if (options.diarize) {
+      // The diarizing model returns speaker-labeled segments (no word timings or prompt support).
+      // Glossary misspellings are still fixed afterwards by applyGlossary.
+      if (options.prompt) {
+        console.warn(
+          `[Transcription] ${DIARIZE_MODEL} does not accept a prompt; glossary bias skipped for this recording`
+        );
+      }
+
+      const diarized = await openai.audio.transcriptions.create({
+        file: audioFile,
+        model: DIARIZE_MODEL,
+        response_format: "diarized_json",
+        chunking_strategy: "auto",
+      });
+
+      return parseDiarizedTranscription(diarized as unknown as DiarizedTranscription);
+    }
+
+    // Call Whisper API with verbose_json format for word timestamps.
+    // Segment granularity adds avg_logprob, which backs per-word confidence.
+    const response = await openai.audio.transcriptions.create({
+      file: audioFile,
+      model: "whisper-1",
+      response_format: "verbose_json",
+      timestamp_granularities: ["word", "segment"],
+      ...(options.prompt ? { prompt: options.prompt } : {}),
+    });
+
+    // Type assertion for verbose response
+    return parseVerboseTranscription(response as unknown as VerboseTranscription);
+  } catch (error: unknown) {
+    console.error("Whisper transcription error:", error);
+
+    if (error instanceof OpenAI.APIError) {
+      if (error.status === 401) {
+        throw new Error("Invalid OpenAI API key");
+      }
+      if (error.status === 429) {
+        throw new Error("Rate limit exceeded. Please try again later.");
+      }
+      throw new Error(`Transcription failed: ${error.message}`);
+    }
+
+    if (error instanceof Error) {
+      throw new Error(`Transcription failed: ${error.message}`);
+    }
+
+    throw new Error("Failed to transcribe audio. Please try again.");
+  }
+}
+
+export const openAITranscriptionProvider: TranscriptionProvider = {
+  name: "openai",
+  getConfigurationError: () =>
+    process.env.OPENAI_API_KEY
+      ? null
+      : "Transcription service is not configured. Please set OPENAI_API_KEY.",
+  transcribe,
+};
@@ -0,0 +1,56 @@
+/**
+ * Transcription Provider Abstraction
+ *
+ * Selects the speech-to-text engine used by transcribeAudio. Every provider
+ * returns the same TranscribeResponse (with word-level timestamps) so the
+ * transcribe route and the enthusiasm detector don't care which one ran.
+ *
+ * Configure with TRANSCRIPTION_PROVIDER:
+ * - "openai"  - OpenAI Whisper API (default)
+ * - "local"   - Self-hosted whisper.cpp / faster-whisper HTTP server
+ * - "fixture" - Deterministic canned transcript for tests and offline dev
+ */
+
+import type { TranscribeResponse } from "@/types/voice";
+import { fixtureTranscriptionProvider } from "./fixtureProvider";
+import { localTranscriptionProvider } from "./localProvider";
+import { openAITranscriptionProvider } from "./openaiProvider";
+
+export type TranscriptionProviderName = "openai" | "local" | "fixture";
+
+export interface TranscribeOptions {
+  /** Vocabulary hint passed to the engine to bias spelling (e.g. glossary terms) */
+  prompt?: string | undefined;
+  /** Label each word with a speaker (for interviews and conversations) */
+  diarize?: boolean | undefined;
+  /** Called with the fraction of the audio transcribed so far (0-1) */
+  onProgress?: ((fraction: number) => void | Promise<void>) | undefined;
+}
+
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName;
+  /** Returns a human-readable reason the provider can't run, or null if it's ready */
+  getConfigurationError(): string | null;
+  transcribe(audioFile: File, options?: TranscribeOptions): Promise<TranscribeResponse>;
+}
+
+const PROVIDERS: Record<TranscriptionProviderName, TranscriptionProvider> = {
+  openai: openAITranscriptionProvider,
+  local: localTranscriptionProvider,
+  fixture: fixtureTranscriptionProvider,
+};
+
+/**
+ * Resolve the configured transcription provider from the environment
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  const name = (process.env.TRANSCRIPTION_PROVIDER || "openai").toLowerCase();
+
+  if (!(name in PROVIDERS)) {
+    throw new Error(
+      `Unknown TRANSCRIPTION_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(", ")}`
+    );
+  }
+
+  return PROVIDERS[name as TranscriptionProviderName];
+}
@@ -0,0 +1,99 @@
+/**
+ * Speaker Attribution
+ *
+ * Helpers for diarized (multi-speaker) transcripts. The session owner marks
+ * which speaker label is "me"; Voice DNA analysis and enthusiasm detection
+ * then only see the owner's words, while content generation still receives
+ * the full conversation so guests can be quoted.
+ *
+ * Safe to import from client components (no Node APIs).
+ */
+
+import type { WordTimestamp } from "@/types/voice";
+
+export interface SpeakerSummary {
+  speaker: string;
+  wordCount: number;
+  speakingSeconds: number;
+  sample: string; // First few words, to help the user recognize the speaker
+}
+
+const SAMPLE_WORD_COUNT = 25;
+
+/**
+ * Summarize each labeled speaker in order of first appearance
+ */
+export function getSpeakers(words: WordTimestamp[]): SpeakerSummary[] {
+  const summaries = new Map<string, SpeakerSummary & { sampleWords: string[] }>();
+
+  for (const word of words) {
+    if (!word.speaker) continue;
+
+    let summary = summaries.get(word.speaker);
+    if (!summary) {
+      summary = { speaker: word.speaker, wordCount: 0, speakingSeconds: 0, sample: "", sampleWords: [] };
+      summaries.set(word.speaker, summary);
+    }
+
+    summary.wordCount++;
+    summary.speakingSeconds += Math.max(0, word.end - word.start);
+    if (summary.sampleWords.length < SAMPLE_WORD_COUNT) {
+      summary.sampleWords.push(word.word);
+    }
+  }
+
+  return [...summaries.values()].map(({ sampleWords, ...summary }) => ({
+    ...summary,
+    speakingSeconds: Math.round(summary.speakingSeconds),
+    sample: sampleWords.join(" "),
+  }));
+}
+
+/**
+ * Whether a transcript has more than one labeled speaker
+ */
+export function hasMultipleSpeakers(words: WordTimestamp[]): boolean {
+  return getSpeakers(words).length > 1;
+}
+
+/**
+ * Restrict words to the owner's speech.
+ * Falls back to all words when there's no owner or no speaker labels.
+ */
+export function getOwnerWords(
+  words: WordTimestamp[],
+  ownerSpeaker: string | null | undefined
+): WordTimestamp[] {
+  if (!ownerSpeaker || !words.some((w) => w.speaker)) {
+    return words;
+  }
+  return words.filter((w) => w.speaker === ownerSpeaker);
+}
+
+/**
+ * Build a transcript labeling each speaker turn as ME or GUEST,
+ * used for generation so guests can be quoted but not imitated
+ */
+export function buildSpeakerTranscript(
+  words: WordTimestamp[],
+  ownerSpeaker: string
+): string {
+  const turns: { speaker: string; words: string[] }[] = [];
+
+  for (const word of words) {
+    const speaker = word.speaker ?? ownerSpeaker;
+    const current = turns[turns.length - 1];
+    if (current && current.speaker === speaker) {
+      current.words.push(word.word);
+    } else {
+      turns.push({ speaker, words: [word.word] });
+    }
+  }
+
+  return turns
+    .map((turn) => {
+      const label = turn.speaker === ownerSpeaker ? "ME" : `GUEST (Speaker ${turn.speaker})`;
+      return `${label}: ${turn.words.join(" ")}`;
+    })
+    .join("\n\n");
+}
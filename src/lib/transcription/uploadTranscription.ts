@@ -0,0 +1,97 @@
+/**
+ * Upload Transcription
+ *
+ * Transcribes a recording stored privately by /api/voice/upload. The upload is
+ * deleted once transcribed, for privacy. If the caller will attach it to a session,
+ * and either the user opted in to audio retention or the session's analysis
+ * needs the audio (analyzeAudio), a private copy is held for the session and
+ * returned as recordingKey.
+ */
+
+import { getGlossary } from "@/lib/analysis/voiceDNABuilder";
+import { getAudioRetention, holdAudio } from "@/lib/audio/retention";
+import { resolveUpload } from "@/lib/audio/uploads";
+import { publishSessionEvent } from "@/lib/sessionEvents";
+import { deletePrivate, downloadPrivate } from "@/lib/storage";
+import type { TranscribeJobPayload } from "@/types/job";
+import type { TranscribeResponse } from "@/types/voice";
+import { applyGlossary, buildGlossaryPrompt } from "./glossary";
+import { transcribeAudio } from "./whisper";
+
+/**
+ * Transcribe an uploaded recording with the configured transcription provider
+ *
+ * @returns The transcription, or null if the upload no longer exists
+ * (uploads are deleted once transcribed) or isn't the user's
+ */
+export async function transcribeUpload(
+  userId: string,
+  payload: TranscribeJobPayload
+): Promise<TranscribeResponse | null> {
+  const { uploadId, audioUrl, diarize, attachToSession, analyzeAudio, sessionId } = payload;
+
+  // The upload is looked up under the user's own folder, never at audioUrl
+  const upload = resolveUpload(userId, uploadId, audioUrl);
+  if (!upload) {
+    return null;
+  }
+
+  const { pathname, contentType } = upload;
+  const buffer = await downloadPrivate(pathname);
+  if (!buffer) {
+    return null;
+  }
+
+  // Determine file extension from content type
+  const extension = contentType.split("/")[1]?.split(";")[0] || "webm";
+  const filename = `${uploadId}.${extension}`;
+
+  // Convert Buffer to Uint8Array for File constructor compatibility
+  const audioFile = new File([new Uint8Array(buffer)], filename, { type: contentType });
+
+  const startTime = Date.now();
+
+  // Bias the engine toward the user's glossary, then fix known misspellings
+  const glossary = await getGlossary(userId);
+  const rawTranscription = await transcribeAudio(audioFile, {
+    prompt: buildGlossaryPrompt(glossary),
+    diarize,
+    ...(sessionId && {
+      onProgress: (fraction: number) =>
+        publishSessionEvent(sessionId, {
+          type: "transcription_progress",
+          percent: Math.round(fraction * 100),
+        }),
+    }),
+  });
+  const transcription: TranscribeResponse = applyGlossary(rawTranscription, glossary);
+
+  // Performance logging for monitoring
+  if (process.env.NODE_ENV === "development") {
+    console.warn(`[Transcription] ${uploadId}: completed in ${Date.now() - startTime}ms`);
+  }
+
+  // Hold a private copy for the session to retain or analyze
+  let recordingKey: string | undefined;
+  if (attachToSession && (analyzeAudio || (await getAudioRetention(userId)))) {
+    try {
+      recordingKey = await holdAudio(userId, uploadId, buffer, extension);
+    } catch (holdError) {
+      // Playback and acoustic signals are optional - don't fail the transcription over them
+      console.error(`Failed to hold audio file ${uploadId}:`, holdError);
+    }
+  }
+
+  // Delete the temporary upload for privacy
+  try {
+    await deletePrivate(pathname);
+  } catch (deleteError) {
+    // Log but don't fail the transcription - file cleanup is non-critical
+    console.error(`Failed to delete audio file ${uploadId}:`, deleteError);
+  }
+
+  return {
+    ...transcription,
+    ...(recordingKey && { recordingKey }),
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Whisper verbose_json Parsing
+ *
+ * Shared by the providers that speak the OpenAI transcription wire format.
+ */
+
+import { normalizeLanguage } from "@/lib/languages";
+import type { TranscribeResponse, WordTimestamp } from "@/types/voice";
+
+interface VerboseWord {
+  word: string;
+  start: number;
+  end: number;
+  /** Per-word probability (faster-whisper, whisper.cpp) */
+  probability?: number;
+  /** Diarization label (whisperX-style servers) */
+  speaker?: string;
+}
+
+interface VerboseSegment {
+  start?: number;
+  end?: number;
+  /** Average token log-probability for the segment (OpenAI, faster-whisper) */
+  avg_logprob?: number;
+  speaker?: string;
+  words?: VerboseWord[];
+}
+
+/**
+ * Whisper-style verbose_json payload.
+ * OpenAI and faster-whisper return top-level `words`; whisper.cpp nests them in `segments`.
+ */
+export interface VerboseTranscription {
+  text: string;
+  /** English name ("spanish") from OpenAI, ISO code from some local servers */
+  language?: string;
+  duration?: number;
+  words?: VerboseWord[];
+  segments?: VerboseSegment[];
+}
+
+/**
+ * Resolve a word's confidence (0-1) and where it came from
+ *
+ * Prefers the word's own probability; otherwise falls back to the
+ * exponentiated average log-prob of the segment containing the word
+ * (OpenAI only reports the latter). Returns 1.0 only when the provider
+ * exposes neither.
+ */
+function resolveConfidence(
+  word: VerboseWord,
+  segments: VerboseSegment[]
+): Pick<WordTimestamp, "confidence" | "confidenceSource"> {
+  if (typeof word.probability === "number") {
+    return { confidence: clampConfidence(word.probability), confidenceSource: "word" };
+  }
+
+  const segment = segments.find(
+    (s) =>
+      typeof s.avg_logprob === "number" &&
+      typeof s.start === "number" &&
+      typeof s.end === "number" &&
+      word.start >= s.start &&
+      word.start < s.end
+  );
+
+  if (segment && typeof segment.avg_logprob === "number") {
+    return {
+      confidence: clampConfidence(Math.exp(segment.avg_logprob)),
+      confidenceSource: "segment",
+    };
+  }
+
+  return { confidence: 1.0 };
+}
+
+function clampConfidence(value: number): number {
+  if (!Number.isFinite(value)) return 1.0;
+  return Math.round(Math.min(Math.max(value, 0), 1) * 1000) / 1000;
+}
+
+/**
+ * Find the speaker label for a word, from the word itself or its segment
+ */
+function resolveSpeaker(word: VerboseWord, segments: VerboseSegment[]): string | undefined {
+  if (word.speaker) return word.speaker;
+
+  return segments.find(
+    (s) =>
+      s.speaker &&
+      typeof s.start === "number" &&
+      typeof s.end === "number" &&
+      word.start >= s.start &&
+      word.start < s.end
+  )?.speaker;
+}
+
+/**
+ * Normalize a verbose_json transcription into a TranscribeResponse
+ */
+export function parseVerboseTranscription(
+  verbose: VerboseTranscription
+): TranscribeResponse {
+  const rawWords =
+    verbose.words && verbose.words.length > 0
+      ? verbose.words
+      : (verbose.segments || []).flatMap((segment) => segment.words || []);
+
+  const segments = verbose.segments || [];
+
+  const wordTimestamps: WordTimestamp[] = rawWords
+    .map((word) => {
+      const speaker = resolveSpeaker(word, segments);
+      return {
+        word: word.word.trim(),
+        start: word.start,
+        end: word.end,
+        ...resolveConfidence(word, segments),
+        ...(speaker && { speaker }),
+      };
+    })
+    .filter((word) => word.word.length > 0);
+
+  const lastWord = wordTimestamps[wordTimestamps.length - 1];
+
+  return {
+    transcript: verbose.text.trim(),
+    durationSeconds: verbose.duration ?? lastWord?.end ?? 0,
+    wordTimestamps,
+    language: normalizeLanguage(verbose.language) ?? "und",
+  };
+}
+
+// ============================================
+// diarized_json parsing
+// ============================================
+
+/**
+ * OpenAI diarized_json payload: speaker-labeled segments without word timings
+ */
+export interface DiarizedTranscription {
+  text: string;
+  duration: number;
+  segments: { speaker: string; start: number; end: number; text: string }[];
+}
+
+/**
+ * Normalize a diarized transcription into a TranscribeResponse.
+ * Word timings are spread evenly across each segment since the diarizing
+ * model only returns segment-level timestamps; such words are marked
+ * `estimated` so pace-based analysis can ignore them.
+ */
+export function parseDiarizedTranscription(
+  diarized: DiarizedTranscription
+): TranscribeResponse {
+  const wordTimestamps: WordTimestamp[] = diarized.segments.flatMap((segment) => {
+    const words = segment.text.split(/\s+/).filter((w) => w.length > 0);
+    const step = words.length > 0 ? (segment.end - segment.start) / words.length : 0;
+
+    return words.map((word, i) => ({
+      word,
+      start: Number((segment.start + step * i).toFixed(3)),
+      end: Number((segment.start + step * (i + 1)).toFixed(3)),
+      confidence: 1.0, // The diarizing model doesn't return log-probs
+      speaker: segment.speaker,
+      estimated: true,
+    }));
+  });
+
+  return {
+    transcript: diarized.segments.map((s) => s.text.trim()).join(" ") || diarized.text.trim(),
+    durationSeconds: diarized.duration,
+    wordTimestamps,
+    language: "und", // diarized_json doesn't report the detected language
+  };
+}
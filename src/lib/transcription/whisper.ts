@@ -1,96 +1,37 @@
 /**
- * OpenAI Whisper Transcription Integration
+ * Whisper Transcription Integration
  *
- * Handles audio transcription with word-level timestamps.
+ * Handles audio transcription with word-level timestamps. The actual engine
+ * (OpenAI, local whisper server, or fixture) is chosen by provider.ts.
  */
 
-import OpenAI from "openai";
 import type { TranscribeResponse, WordTimestamp } from "@/types/voice";
-
-// Lazy initialization of OpenAI client to avoid module-level errors
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-
-  return openaiClient;
-}
-
-interface WhisperWord {
-  word: string;
-  start: number;
-  end: number;
-}
-
-interface WhisperVerboseResponse {
-  text: string;
-  language: string;
-  duration: number;
-  words?: WhisperWord[];
-}
+import { MAX_SINGLE_REQUEST_BYTES, transcribeInChunks } from "./chunking";
+import { getTranscriptionProvider, type TranscribeOptions } from "./provider";
 
 /**
- * Transcribe audio using OpenAI Whisper API
+ * Transcribe audio using the configured transcription provider
+ *
+ * Files too large for a single provider request are split into overlapping
+ * chunks and stitched back together (see chunking.ts).
  *
  * @param audioFile - The audio file to transcribe (as a File object)
+ * @param options - Optional engine hints (e.g. glossary prompt)
  * @returns Transcription result with word-level timestamps
  */
-export async function transcribeAudio(audioFile: File): Promise<TranscribeResponse> {
-  const openai = getOpenAIClient();
-
-  try {
-    // Call Whisper API with verbose_json format for word timestamps
-    const response = await openai.audio.transcriptions.create({
-      file: audioFile,
-      model: "whisper-1",
-      response_format: "verbose_json",
-      timestamp_granularities: ["word"],
-    });
-
-    // Type assertion for verbose response
-    const verboseResponse = response as unknown as WhisperVerboseResponse;
-
-    // Parse word timestamps
-    const wordTimestamps: WordTimestamp[] = (verboseResponse.words || []).map((word) => ({
-      word: word.word.trim(),
-      start: word.start,
-      end: word.end,
-      confidence: 1.0, // Whisper doesn't provide per-word confidence
-    }));
-
-    return {
-      transcript: verboseResponse.text.trim(),
-      durationSeconds: verboseResponse.duration,
-      wordTimestamps,
-      language: verboseResponse.language,
-    };
-  } catch (error: unknown) {
-    console.error("Whisper transcription error:", error);
-
-    if (error instanceof OpenAI.APIError) {
-      if (error.status === 401) {
-        throw new Error("Invalid OpenAI API key");
-      }
-      if (error.status === 429) {
-        throw new Error("Rate limit exceeded. Please try again later.");
-      }
-      throw new Error(`Transcription failed: ${error.message}`);
-    }
-
-    if (error instanceof Error) {
-      throw new Error(`Transcription failed: ${error.message}`);
-    }
-
-    throw new Error("Failed to transcribe audio. Please try again.");
+export async function transcribeAudio(
+  audioFile: File,
+  options: TranscribeOptions = {}
+): Promise<TranscribeResponse> {
+  const provider = getTranscriptionProvider();
+
+  if (audioFile.size > MAX_SINGLE_REQUEST_BYTES) {
+    return transcribeInChunks(audioFile, provider, options);
   }
+
+  const result = await provider.transcribe(audioFile, options);
+  await options.onProgress?.(1);
+  return result;
 }
 
 /**
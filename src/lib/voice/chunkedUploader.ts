@@ -0,0 +1,204 @@
+/**
+ * ChunkedUploader Class
+ *
+ * Uploads a recording from the local recording store to /api/voice/upload in
+ * parts while it's still being captured, so finishing a long session only
+ * needs to send the last few seconds. Progress is written back to the store,
+ * which lets a recovered recording pick up where the previous page left off.
+ */
+
+import type { UploadedAudio } from "@/types/voice";
+import {
+  getChunks,
+  getRecording,
+  isRecordingStoreSupported,
+  markRecordingUploaded,
+  markSegmentUploaded,
+  resetUpload,
+} from "./recordingStore";
+
+// Batch roughly a minute of 32kbps audio per request
+const MIN_PART_BYTES = 256 * 1024;
+
+const FINISH_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+async function getErrorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = (await response.json()) as { error?: string };
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Delete everything uploaded so far for a recording the user discarded.
+ * Call before removing the recording from the store, since its MIME type
+ * locates the assembled file.
+ */
+export async function abortChunkedUpload(recordingId: string): Promise<void> {
+  const recording = await getRecording(recordingId);
+
+  const formData = new FormData();
+  formData.append("uploadId", recordingId);
+  formData.append("abort", "true");
+  formData.append("mimeType", recording?.mimeType || "audio/webm");
+
+  const response = await fetch("/api/voice/upload", {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response, `Abort failed (${response.status})`));
+  }
+}
+
+/**
+ * Upload a stored recording again after the server lost its assembled file
+ * (it's deleted once transcribed). Returns null if the recording isn't on
+ * this device, i.e. it was uploaded in one shot.
+ */
+export async function reuploadRecording(recordingId: string): Promise<UploadedAudio | null> {
+  if (!isRecordingStoreSupported() || !(await getRecording(recordingId))) {
+    return null;
+  }
+
+  await resetUpload(recordingId);
+  return new ChunkedUploader(recordingId).finish();
+}
+
+export class ChunkedUploader {
+  private recordingId: string;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(recordingId: string) {
+    this.recordingId = recordingId;
+  }
+
+  /**
+   * Upload any pending chunks once enough have accumulated. Failures are
+   * logged and retried on the next call, since the chunks stay in the store.
+   */
+  schedule(): void {
+    this.enqueue(() => this.uploadPending(false)).catch((error) => {
+      console.error("Background upload failed:", error);
+    });
+  }
+
+  /**
+   * Upload everything that's left and assemble the recording on the server
+   */
+  async finish(): Promise<UploadedAudio> {
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt < FINISH_ATTEMPTS; attempt++) {
+      try {
+        return await this.enqueue(async () => {
+          await this.uploadPending(true);
+          return this.complete();
+        });
+      } catch (error) {
+        lastError = error;
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * (attempt + 1)));
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error("Failed to upload recording");
+  }
+
+  /**
+   * Discard the upload once any part in flight has landed, so nothing is
+   * left behind on the server
+   */
+  abort(): Promise<void> {
+    return this.enqueue(() => abortChunkedUpload(this.recordingId));
+  }
+
+  /**
+   * Run uploads one at a time so parts are numbered in order
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  private async uploadPending(force: boolean): Promise<void> {
+    const recording = await getRecording(this.recordingId);
+    if (!recording) {
+      throw new Error("Recording not found on this device");
+    }
+
+    for (const [segment, stored] of recording.segments.entries()) {
+      if (stored.chunkCount <= stored.uploadedChunks) continue;
+
+      const chunks = await getChunks(
+        this.recordingId,
+        segment,
+        stored.uploadedChunks,
+        stored.chunkCount
+      );
+      const part = new Blob(chunks, { type: recording.mimeType || "audio/webm" });
+      if (!force && part.size < MIN_PART_BYTES) continue;
+
+      const formData = new FormData();
+      formData.append("uploadId", this.recordingId);
+      formData.append("segment", String(segment));
+      formData.append("part", String(stored.uploadedParts));
+      formData.append("audio", part, `part-${segment}-${stored.uploadedParts}`);
+
+      const response = await fetch("/api/voice/upload", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, `Upload failed (${response.status})`));
+      }
+
+      await markSegmentUploaded(
+        this.recordingId,
+        segment,
+        stored.uploadedChunks + chunks.length,
+        stored.uploadedParts + 1
+      );
+    }
+  }
+
+  private async complete(): Promise<UploadedAudio> {
+    const recording = await getRecording(this.recordingId);
+    if (!recording) {
+      throw new Error("Recording not found on this device");
+    }
+    if (recording.upload) {
+      return recording.upload;
+    }
+
+    const formData = new FormData();
+    formData.append("uploadId", this.recordingId);
+    formData.append("complete", "true");
+    formData.append("mimeType", recording.mimeType || "audio/webm");
+    formData.append(
+      "segments",
+      JSON.stringify(recording.segments.map((segment) => segment.uploadedParts))
+    );
+
+    const response = await fetch("/api/voice/upload", {
+      method: "POST",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, `Upload failed (${response.status})`));
+    }
+
+    const upload = (await response.json()) as UploadedAudio;
+    await markRecordingUploaded(this.recordingId, upload);
+    return upload;
+  }
+}
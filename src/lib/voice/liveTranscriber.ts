@@ -0,0 +1,150 @@
+/**
+ * LiveTranscriber Class
+ *
+ * Streams a recording in progress to /api/voice/live for a rough transcript
+ * while the user speaks. The main recorder's chunks can't be transcribed on
+ * their own (only the first carries the container header), so a second
+ * MediaRecorder on the same microphone stream is restarted every window,
+ * producing short self-contained files.
+ *
+ * The live transcript is a preview. Nothing here affects the real recording,
+ * and any failure just ends the preview.
+ */
+
+import type { LiveTranscript } from "@/types/voice";
+
+const WINDOW_MS = 5000;
+
+export interface LiveTranscriberOptions {
+  onTranscript: (transcript: LiveTranscript) => void;
+  // Seconds recorded so far, excluding pauses - where the next window starts
+  getOffset: () => number;
+}
+
+export class LiveTranscriber {
+  private options: LiveTranscriberOptions;
+  private streamId: string | null = null;
+  private events: EventSource | null = null;
+  private windowRecorder: MediaRecorder | null = null;
+  private windowTimer: ReturnType<typeof setInterval> | null = null;
+  private windowOffset = 0;
+  private active = false;
+
+  constructor(options: LiveTranscriberOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start a stream on the server and begin recording windows
+   */
+  async start(stream: MediaStream, mimeType: string): Promise<void> {
+    const response = await fetch("/api/voice/live", { method: "POST" });
+    if (!response.ok) {
+      throw new Error(`Live transcription unavailable (${response.status})`);
+    }
+
+    const { streamId } = (await response.json()) as { streamId: string };
+    this.streamId = streamId;
+    this.active = true;
+
+    this.events = new EventSource(`/api/voice/live/${streamId}`);
+    this.events.addEventListener("partial", (event) => {
+      this.options.onTranscript(JSON.parse((event as MessageEvent<string>).data));
+    });
+    this.events.addEventListener("end", () => this.events?.close());
+
+    this.windowRecorder = new MediaRecorder(stream, {
+      ...(mimeType && { mimeType }),
+      audioBitsPerSecond: 32000,
+    });
+    this.windowRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.sendWindow(event.data, this.windowOffset);
+      }
+    };
+    this.windowRecorder.onstop = () => {
+      // Start the next window where this one ended
+      if (this.active && this.windowRecorder) {
+        this.windowOffset = this.options.getOffset();
+        this.windowRecorder.start();
+      }
+    };
+
+    this.windowOffset = this.options.getOffset();
+    this.windowRecorder.start();
+    this.startWindowTimer();
+  }
+
+  pause(): void {
+    this.stopWindowTimer();
+    if (this.windowRecorder?.state === "recording") {
+      this.windowRecorder.pause();
+    }
+  }
+
+  resume(): void {
+    if (this.windowRecorder?.state === "paused") {
+      this.windowRecorder.resume();
+      this.startWindowTimer();
+    }
+  }
+
+  /**
+   * Stop recording windows and end the stream. The window in progress is
+   * dropped, since the full transcription replaces the preview.
+   */
+  stop(): void {
+    this.active = false;
+    this.stopWindowTimer();
+
+    if (this.windowRecorder) {
+      this.windowRecorder.ondataavailable = null;
+      this.windowRecorder.onstop = null;
+      if (this.windowRecorder.state !== "inactive") {
+        this.windowRecorder.stop();
+      }
+      this.windowRecorder = null;
+    }
+
+    this.events?.close();
+    this.events = null;
+
+    if (this.streamId) {
+      fetch(`/api/voice/live/${this.streamId}`, { method: "DELETE" }).catch(() => {});
+      this.streamId = null;
+    }
+  }
+
+  private startWindowTimer(): void {
+    this.stopWindowTimer();
+    this.windowTimer = setInterval(() => {
+      if (this.windowRecorder?.state === "recording") {
+        this.windowRecorder.stop();
+      }
+    }, WINDOW_MS);
+  }
+
+  private stopWindowTimer(): void {
+    if (this.windowTimer) {
+      clearInterval(this.windowTimer);
+      this.windowTimer = null;
+    }
+  }
+
+  private sendWindow(audio: Blob, offset: number): void {
+    if (!this.active || !this.streamId) return;
+
+    const formData = new FormData();
+    formData.append("audio", audio, `window.${audio.type.includes("mp4") ? "mp4" : "webm"}`);
+    formData.append("offset", String(offset));
+
+    fetch(`/api/voice/live/${this.streamId}`, { method: "POST", body: formData })
+      .then((response) => {
+        // The stream expired or lives on another server; give up on the preview
+        if (response.status === 404) this.stop();
+      })
+      .catch((error) => {
+        console.error("Failed to send live transcription window:", error);
+      });
+  }
+}
@@ -3,6 +3,7 @@
  *
  * A class that encapsulates MediaRecorder functionality with audio level monitoring.
  * Uses WebM with Opus codec for efficient voice recording.
+ * Chunks are emitted every second via onChunk so callers can persist them.
  */
 
 export type RecorderStatus = "idle" | "recording" | "paused" | "stopped";
@@ -11,6 +12,7 @@ export interface RecorderOptions {
   onAudioLevel?: (level: number) => void;
   onStatusChange?: (status: RecorderStatus) => void;
   onError?: (error: Error) => void;
+  onChunk?: (chunk: Blob) => void;
 }
 
 export class VoiceRecorder {
@@ -67,6 +69,7 @@ export class VoiceRecorder {
       this.mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           this.audioChunks.push(event.data);
+          this.options.onChunk?.(event.data);
         }
       };
 
@@ -225,6 +228,20 @@ export class VoiceRecorder {
     this.options.onStatusChange?.(status);
   }
 
+  /**
+   * Get the MIME type the browser is actually recording in
+   */
+  getMimeType(): string {
+    return this.mediaRecorder?.mimeType || "audio/webm";
+  }
+
+  /**
+   * Get the microphone stream, once initialized
+   */
+  getStream(): MediaStream | null {
+    return this.stream;
+  }
+
   /**
    * Get current status
    */
@@ -0,0 +1,304 @@
+/**
+ * Recording Store
+ *
+ * Persists in-progress recordings to IndexedDB chunk by chunk, so a tab crash
+ * or accidental navigation doesn't lose what was said. Recordings stay here
+ * until they've been transcribed (or the user discards them); anything left
+ * over on the next visit is offered for recovery.
+ *
+ * A recording is made of segments, one per MediaRecorder run. Resuming a
+ * recovered recording starts a new segment, since each run writes its own
+ * container header.
+ */
+
+import type { RecordingMode, UploadedAudio } from "@/types/voice";
+
+const DB_NAME = "ouno-recordings";
+const DB_VERSION = 1;
+const RECORDINGS_STORE = "recordings";
+const CHUNKS_STORE = "chunks";
+
+export interface StoredSegment {
+  chunkCount: number;
+  // Upload progress: chunks [0, uploadedChunks) were sent as uploadedParts parts
+  uploadedChunks: number;
+  uploadedParts: number;
+}
+
+export interface StoredRecording {
+  id: string; // Also used as the chunked uploadId
+  mode: RecordingMode;
+  prompt?: string | undefined;
+  mimeType: string;
+  durationSeconds: number;
+  segments: StoredSegment[];
+  // Set once the server has assembled the parts (they're deleted at that point)
+  upload?: UploadedAudio | undefined;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface StoredChunk {
+  recordingId: string;
+  segment: number;
+  index: number;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RECORDINGS_STORE, { keyPath: "id" });
+        const chunks = db.createObjectStore(CHUNKS_STORE, {
+          keyPath: ["recordingId", "segment", "index"],
+        });
+        chunks.createIndex("recordingId", "recordingId");
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Check if the browser can persist recordings locally
+ */
+export function isRecordingStoreSupported(): boolean {
+  return typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
+}
+
+/**
+ * Start tracking a new recording
+ */
+export async function createRecording(recording: {
+  id: string;
+  mode: RecordingMode;
+  prompt?: string | undefined;
+  mimeType: string;
+}): Promise<StoredRecording> {
+  const now = Date.now();
+  const stored: StoredRecording = {
+    ...recording,
+    durationSeconds: 0,
+    segments: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDINGS_STORE, "readwrite");
+  transaction.objectStore(RECORDINGS_STORE).put(stored);
+  await transactionDone(transaction);
+
+  return stored;
+}
+
+/**
+ * Get a stored recording by ID
+ */
+export async function getRecording(id: string): Promise<StoredRecording | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDINGS_STORE, "readonly");
+  const recording = await requestToPromise<StoredRecording | undefined>(
+    transaction.objectStore(RECORDINGS_STORE).get(id)
+  );
+  return recording ?? null;
+}
+
+/**
+ * List stored recordings, most recently updated first
+ */
+export async function listRecordings(mode?: RecordingMode): Promise<StoredRecording[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDINGS_STORE, "readonly");
+  const recordings = await requestToPromise<StoredRecording[]>(
+    transaction.objectStore(RECORDINGS_STORE).getAll()
+  );
+
+  return recordings
+    .filter((recording) => !mode || recording.mode === mode)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Read-modify-write a recording inside a single transaction
+ */
+async function updateRecording(
+  id: string,
+  update: (recording: StoredRecording) => void,
+  extraStores: string[] = [],
+  extraWrites?: (transaction: IDBTransaction) => void
+): Promise<StoredRecording> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDINGS_STORE, ...extraStores], "readwrite");
+  const store = transaction.objectStore(RECORDINGS_STORE);
+
+  const recording = await requestToPromise<StoredRecording | undefined>(store.get(id));
+  if (!recording) {
+    transaction.abort();
+    throw new Error(`Recording ${id} not found`);
+  }
+
+  update(recording);
+  recording.updatedAt = Date.now();
+  store.put(recording);
+  extraWrites?.(transaction);
+  await transactionDone(transaction);
+
+  return recording;
+}
+
+function clearUpload(recording: StoredRecording): void {
+  recording.upload = undefined;
+  for (const segment of recording.segments) {
+    segment.uploadedChunks = 0;
+    segment.uploadedParts = 0;
+  }
+}
+
+/**
+ * Begin a new segment (MediaRecorder run) and return its number
+ */
+export async function startSegment(id: string): Promise<number> {
+  const recording = await updateRecording(id, (r) => {
+    // Resuming an already assembled upload: the server dropped its parts, so resend everything
+    if (r.upload) clearUpload(r);
+    r.segments.push({ chunkCount: 0, uploadedChunks: 0, uploadedParts: 0 });
+  });
+  return recording.segments.length - 1;
+}
+
+/**
+ * Persist the next chunk of a segment along with the running duration
+ */
+export async function appendChunk(
+  id: string,
+  segment: number,
+  blob: Blob,
+  durationSeconds: number
+): Promise<void> {
+  let index = 0;
+
+  await updateRecording(
+    id,
+    (r) => {
+      const stored = r.segments[segment];
+      if (!stored) {
+        throw new Error(`Segment ${segment} not found`);
+      }
+      index = stored.chunkCount;
+      stored.chunkCount += 1;
+      r.durationSeconds = Math.max(r.durationSeconds, durationSeconds);
+    },
+    [CHUNKS_STORE],
+    (transaction) => {
+      const chunk: StoredChunk = { recordingId: id, segment, index, blob };
+      transaction.objectStore(CHUNKS_STORE).put(chunk);
+    }
+  );
+}
+
+/**
+ * Read chunks [fromIndex, toIndex) of a segment
+ */
+export async function getChunks(
+  id: string,
+  segment: number,
+  fromIndex: number,
+  toIndex: number
+): Promise<Blob[]> {
+  if (toIndex <= fromIndex) return [];
+
+  const db = await openDatabase();
+  const transaction = db.transaction(CHUNKS_STORE, "readonly");
+  const chunks = await requestToPromise<StoredChunk[]>(
+    transaction
+      .objectStore(CHUNKS_STORE)
+      .getAll(IDBKeyRange.bound([id, segment, fromIndex], [id, segment, toIndex - 1]))
+  );
+
+  return chunks.map((chunk) => chunk.blob);
+}
+
+/**
+ * Record that a segment's chunks up to uploadedChunks were sent to the server
+ */
+export async function markSegmentUploaded(
+  id: string,
+  segment: number,
+  uploadedChunks: number,
+  uploadedParts: number
+): Promise<void> {
+  await updateRecording(id, (r) => {
+    const stored = r.segments[segment];
+    if (stored) {
+      stored.uploadedChunks = uploadedChunks;
+      stored.uploadedParts = uploadedParts;
+    }
+  });
+}
+
+/**
+ * Record the assembled upload so a retry doesn't need the (deleted) parts
+ */
+export async function markRecordingUploaded(id: string, upload: UploadedAudio): Promise<void> {
+  await updateRecording(id, (r) => {
+    r.upload = upload;
+  });
+}
+
+/**
+ * Forget the assembled upload (e.g. after the server deleted it) so the next
+ * upload sends the recording again from the locally stored chunks
+ */
+export async function resetUpload(id: string): Promise<void> {
+  await updateRecording(id, clearUpload);
+}
+
+/**
+ * Remove a recording and all of its chunks. Missing recordings are ignored,
+ * so this is safe to call for uploads that never touched the store.
+ */
+export async function deleteRecording(id: string): Promise<void> {
+  if (!isRecordingStoreSupported()) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], "readwrite");
+  transaction.objectStore(RECORDINGS_STORE).delete(id);
+
+  const chunkKeys = await requestToPromise(
+    transaction.objectStore(CHUNKS_STORE).index("recordingId").getAllKeys(id)
+  );
+  for (const key of chunkKeys) {
+    transaction.objectStore(CHUNKS_STORE).delete(key);
+  }
+
+  await transactionDone(transaction);
+}
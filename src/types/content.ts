@@ -29,6 +29,82 @@ export const CONTENT_TEMPLATES: Record<
   },
 };
 
+/**
+ * What a piece of content is: the article a session is written up as, or a
+ * platform-specific piece repurposed from one
+ */
+export type ContentFormat =
+  | "article"
+  | "linkedin_post"
+  | "x_thread"
+  | "newsletter_blurb"
+  | "video_script";
+
+export type RepurposeFormat = Exclude<ContentFormat, "article">;
+
+export const CONTENT_FORMATS: Record<ContentFormat, { name: string; description: string }> = {
+  article: {
+    name: "Article",
+    description: "The recording written up as a blog post",
+  },
+  linkedin_post: {
+    name: "LinkedIn post",
+    description: "Up to 3,000 characters, with the hook in the first two lines",
+  },
+  x_thread: {
+    name: "X thread",
+    description: "A thread of posts of up to 280 characters each",
+  },
+  newsletter_blurb: {
+    name: "Newsletter blurb",
+    description: "A short teaser that sends readers to the full piece",
+  },
+  video_script: {
+    name: "Video script",
+    description: "A 60-90 second script for a short video",
+  },
+};
+
+export const REPURPOSE_FORMATS: RepurposeFormat[] = [
+  "linkedin_post",
+  "x_thread",
+  "newsletter_blurb",
+  "video_script",
+];
+
+/**
+ * A section a custom template's content is organized into
+ */
+export interface TemplateSection {
+  heading: string;
+  instructions: string;
+}
+
+/**
+ * A format the user defined themselves (a changelog post, a carousel
+ * script, a case study...), used in place of a built-in template
+ */
+export interface CustomTemplate {
+  id: string;
+  name: string;
+  description: string;
+  sections: TemplateSection[];
+  minWords: number | null;
+  maxWords: number | null;
+  instructions: string | null; // Guidance that applies to the whole piece
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * The format to generate content in. When customTemplateId is set it
+ * replaces the built-in template.
+ */
+export interface TemplateChoice {
+  template: ContentTemplate;
+  customTemplateId: string | null;
+}
+
 export interface GeneratedContent {
   id: string;
   userId: string;
@@ -42,13 +118,72 @@ export interface GeneratedContent {
   referentInfluencesUsed: ReferentInfluences | null;
   version: number;
   parentVersionId: string | null;
+  restoredFrom: string | null; // Earlier version this one brought back
   modelUsed: string | null;
   generationTimeMs: number | null;
   template: ContentTemplate;
+  customTemplateId: string | null; // User's own template; replaces template when set
+  language: string | null; // ISO-639-1 code the content is written in
+  translationOf: string | null; // Generation this translates; null for the session's own generations
+  format: ContentFormat;
+  repurposedFrom: string | null; // Original version of the article this was repurposed from
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * One version in a piece of content's history (GET /api/content/[id]/versions)
+ */
+export interface VersionHistoryEntry {
+  id: string;
+  version: number;
+  title: string;
+  content: string;
+  wordCount: number;
+  status: ContentStatus;
+  parentVersionId: string | null;
+  restoredFrom: string | null;
+  createdAt: string;
+}
+
+/**
+ * The part of the content a refinement is limited to: character offsets, or
+ * paragraph indexes counted from 0 (paragraphs are separated by blank
+ * lines). end is exclusive either way.
+ */
+export interface RefineRange {
+  unit: "character" | "paragraph";
+  start: number;
+  end: number;
+}
+
+/**
+ * One change a refinement proposes: replaces content[start, end) of the
+ * refined version. The range takes in the blank lines around the changed
+ * paragraphs; before is the text it covers, trimmed.
+ */
+export interface ChangeHunk {
+  id: string;
+  start: number;
+  end: number;
+  before: string; // Empty when the change only adds text
+  after: string; // Empty when the change only removes text
+  rationale: string;
+}
+
+/**
+ * What a refinement proposes, for the user to accept or reject hunk by hunk
+ * before it's stored as a new version (POST /api/content/[id]/refine)
+ */
+export interface RefineChangeSet {
+  contentId: string; // Version the hunks apply to
+  version: number;
+  instruction: string;
+  refinementType: "voice" | "text";
+  hunks: ChangeHunk[];
+  changes: string[]; // Summary of all hunks together
+}
+
 export interface ContentRefinement {
   refinementType: "voice" | "text";
   instruction: string;
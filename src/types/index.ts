@@ -19,3 +19,6 @@ export * from "./referent";
 
 // Calibration
 export * from "./calibration";
+
+// Background Jobs
+export * from "./job";
@@ -0,0 +1,155 @@
+/**
+ * Background Job Types
+ *
+ * Slow pipeline steps (transcription, analysis, question and content
+ * generation, repurposing, learning from refinements and edits) run as jobs so their
+ * routes return immediately.
+ * Clients poll /api/jobs/[id] for the outcome.
+ */
+
+import type { ContentTemplate, RepurposeFormat } from "./content";
+import type { EnthusiasmAnalysis, FollowUpQuestion } from "./session";
+import type { WordTimestamp } from "./voice";
+import type {
+  LearnedRule,
+  LearnedRuleProposalStatus,
+  ReferentInfluences,
+  WrittenPatterns,
+} from "./voiceDNA";
+
+export type JobType =
+  | "transcribe"
+  | "analyze_session"
+  | "generate_questions"
+  | "generate_content"
+  | "repurpose_content"
+  | "learn_from_refinement"
+  | "learn_from_edits";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface TranscribeJobPayload {
+  uploadId: string;
+  audioUrl: string;
+  diarize: boolean;
+  attachToSession: boolean;
+  analyzeAudio: boolean;
+  sessionId: string | null; // Session whose watchers see the progress
+}
+
+export interface AnalyzeSessionJobPayload {
+  sessionId: string;
+  // Overrides for the session's stored transcript
+  transcript?: string;
+  wordTimestamps?: WordTimestamp[];
+}
+
+export interface GenerateQuestionsJobPayload {
+  sessionId: string;
+}
+
+export interface GenerateContentJobPayload {
+  sessionId: string;
+  template: ContentTemplate;
+  customTemplateId?: string; // User's own template, replacing template
+  language: string | null; // null writes in the spoken language
+  model?: string; // Defaults to OPENROUTER_MODEL
+  referentInfluences?: ReferentInfluences; // Defaults to the user's saved blend
+  translationOf?: string; // Generation being translated; an existing translation is reused
+}
+
+export interface RepurposeContentJobPayload {
+  contentId: string; // Version of the article whose text is repurposed
+  repurposedFrom: string; // Original version of that article, which outputs are linked to
+  format: RepurposeFormat;
+}
+
+export interface LearnFromRefinementJobPayload {
+  contentId: string; // Version the accepted changes were stored as
+  instruction: string;
+  edits: Array<{ before: string; after: string }>; // Accepted hunks
+}
+
+export interface LearnFromEditsJobPayload {
+  contentId: string; // Version the user edited by hand
+  before: string; // Its content as generated, before any hand edit
+  after: string;
+}
+
+export interface JobPayloads {
+  transcribe: TranscribeJobPayload;
+  analyze_session: AnalyzeSessionJobPayload;
+  generate_questions: GenerateQuestionsJobPayload;
+  generate_content: GenerateContentJobPayload;
+  repurpose_content: RepurposeContentJobPayload;
+  learn_from_refinement: LearnFromRefinementJobPayload;
+  learn_from_edits: LearnFromEditsJobPayload;
+}
+
+export interface AnalyzeSessionJobResult {
+  summary: {
+    strengths: string[];
+    characteristics: string[];
+    calibrationLevel: "low" | "medium" | "high";
+  };
+  enthusiasmAnalysis: EnthusiasmAnalysis;
+  isNewProfile: boolean;
+  calibrationScoreChange: number;
+}
+
+export interface GenerateQuestionsJobResult {
+  questions: FollowUpQuestion[];
+}
+
+export interface GenerateContentJobResult {
+  contentId: string;
+  title: string;
+  wordCount: number;
+  readTimeMinutes: number;
+  language: string | null;
+  generationTimeMs: number;
+  alreadyGenerated: boolean;
+}
+
+export interface RepurposeContentJobResult {
+  contentId: string;
+  format: RepurposeFormat;
+  title: string;
+  wordCount: number;
+}
+
+/**
+ * A preference a learning job picked up, with the proposal it was recorded on
+ */
+export interface LearnedRuleReport {
+  proposalId: string;
+  type: LearnedRule["type"];
+  content: string;
+  status: LearnedRuleProposalStatus;
+}
+
+export interface LearnFromRefinementJobResult {
+  rules: LearnedRuleReport[]; // Preferences the refinement showed
+}
+
+export interface LearnFromEditsJobResult {
+  rules: LearnedRuleReport[]; // Preferences the edits showed
+  writtenPatterns: Partial<WrittenPatterns>; // Fields of the Voice DNA the edits changed
+}
+
+/**
+ * A job as returned by /api/jobs/[id]
+ */
+export interface JobView {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  sessionId: string | null;
+  attempts: number;
+  maxAttempts: number;
+  result: unknown;
+  error: string | null;
+  errorCode: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -8,6 +8,8 @@ import type { WordTimestamp } from "./voice";
 
 export type SessionMode = "quick" | "guided";
 
+export type SessionSource = "recording" | "import";
+
 export type SessionStatus =
   | "recording"
   | "transcribing"
@@ -22,7 +24,16 @@ export interface EnthusiasmSegment {
   endTime: number;
   text: string;
   energyScore: number; // 0-1
-  indicators: ("pace_increase" | "dense_speech" | "emphasis_words" | "repetition")[];
+  indicators: (
+    | "pace_increase"
+    | "dense_speech"
+    | "emphasis_words"
+    | "repetition"
+    // Acoustic indicators (only when the session has AcousticFeatures)
+    | "volume_increase"
+    | "pitch_variation"
+    | "short_pauses"
+  )[];
 }
 
 export interface PeakMoment {
@@ -72,10 +83,14 @@ export interface VoiceSession {
   id: string;
   userId: string;
   mode: SessionMode;
+  source: SessionSource;
   status: SessionStatus;
   transcript: string | null;
   durationSeconds: number | null;
   wordTimestamps: WordTimestamp[] | null;
+  ownerSpeaker: string | null;
+  language: string | null; // ISO-639-1 code detected by transcription
+  audioUrl: string | null; // Playback URL of the retained recording
   enthusiasmAnalysis: EnthusiasmAnalysis | null;
   contentOutline: ContentOutline | null;
   followUpQuestions: FollowUpQuestion[];
@@ -86,3 +101,29 @@ export interface VoiceSession {
   createdAt: Date;
   updatedAt: Date;
 }
+
+export type TransitionActor = "user" | "worker" | "reconciler";
+
+/**
+ * One entry of a session's status history (see lib/sessionTransitions.ts)
+ */
+export interface SessionTransition {
+  id: string;
+  fromStatus: SessionStatus | null; // Null for the status the session was created in
+  toStatus: SessionStatus;
+  actor: TransitionActor;
+  reason: string;
+  createdAt: Date;
+}
+
+/**
+ * Live updates pushed by /api/session/[id]/events. Status events mirror every
+ * SessionStatus transition; the rest report progress within a step.
+ */
+export type SessionEvent =
+  | { type: "status"; status: SessionStatus; errorMessage: string | null }
+  | { type: "transcription_progress"; percent: number }
+  | { type: "analysis_complete" }
+  | { type: "questions_ready"; count: number }
+  | { type: "generation_delta"; text: string } // Markdown written since the last delta
+  | { type: "generation_complete"; contentId: string };
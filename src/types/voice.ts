@@ -7,13 +7,56 @@ export interface WordTimestamp {
   start: number;
   end: number;
   confidence: number;
+  confidenceSource?: "word" | "segment"; // "segment" when only the segment's average was available
+  speaker?: string; // Diarization label (e.g. "A", "B") for multi-person recordings
+  estimated?: boolean; // Timing interpolated, not measured (diarizing models only time segments)
+}
+
+/**
+ * A user correction to a single transcribed word, addressed by its index
+ * in the WordTimestamp array
+ */
+export interface WordCorrection {
+  index: number;
+  word: string;
+}
+
+/**
+ * Frame-level acoustic measurements of a recording, used as enthusiasm
+ * signals alongside the word timestamps. Frame i covers
+ * [i * frameDuration, (i + 1) * frameDuration).
+ */
+export interface AcousticFeatures {
+  frameDuration: number; // seconds
+  loudness: number[]; // RMS level in dBFS
+  pitch: (number | null)[]; // Fundamental frequency in Hz, null when unvoiced
 }
 
 export interface TranscribeResponse {
   transcript: string;
   durationSeconds: number;
   wordTimestamps: WordTimestamp[];
-  language: string;
+  language: string; // ISO-639-1 code, or "und" when the engine doesn't report it
+  recordingKey?: string; // Held copy for /api/session/create to retain (attachToSession only)
+}
+
+/**
+ * Transcript of a recording in progress, built from short windows of audio
+ * (see lib/transcription/live.ts). Superseded by the full transcription.
+ */
+export interface LiveTranscript {
+  transcript: string;
+  wordTimestamps: WordTimestamp[];
+  durationSeconds: number;
+}
+
+/**
+ * A recording stored by /api/voice/upload, ready to be transcribed
+ */
+export interface UploadedAudio {
+  uploadId: string;
+  url: string;
+  fileSizeBytes: number;
 }
 
 export interface RecordingState {
@@ -29,6 +72,7 @@ export interface VoiceRecorderProps {
   mode: RecordingMode;
   maxDuration: number; // seconds
   prompt?: string;
-  onComplete: (audioBlob: Blob, duration: number) => void;
+  resumable?: boolean;
+  onComplete: (audioBlob: Blob, duration: number, upload?: UploadedAudio) => void;
   onCancel: () => void;
 }
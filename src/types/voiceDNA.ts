@@ -5,6 +5,16 @@
  * and writing samples that define their unique "Voice DNA".
  */
 
+/**
+ * How fast a speaker normally talks: statistics of the words-per-second of
+ * their transcript segments (measured timings only) across sessions
+ */
+export interface PaceBaseline {
+  mean: number; // words per second
+  stdDev: number;
+  sampleCount: number; // segments measured so far
+}
+
 export interface SpokenPatterns {
   vocabulary: {
     frequentWords: string[];
@@ -25,7 +35,8 @@ export interface SpokenPatterns {
   enthusiasm: {
     topicsThatExcite: string[];
     emphasisPatterns: string[];
-    energyBaseline: number; // 0-1
+    energyBaseline: number; // 0-1, typical overall energy as scored by the enthusiasm detector
+    paceBaseline?: PaceBaseline; // Missing on profiles built before pace was tracked
   };
 }
 
@@ -64,8 +75,36 @@ export interface LearnedRule {
   sourceCount: number;
 }
 
+export type LearnedRuleProposalStatus = "pending" | "confirmed" | "dismissed";
+
+/**
+ * A voice preference mined from the user's refinements and edits, proposed as a
+ * LearnedRule for them to confirm or dismiss
+ */
+export interface LearnedRuleProposal {
+  id: string;
+  type: LearnedRule["type"];
+  content: string;
+  confidence: number; // 0-1, grows with the pieces it came up in
+  sourceCount: number; // Pieces of content it came up in
+  examples: string[]; // Instructions it was mined from, latest last
+  status: LearnedRuleProposalStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A custom vocabulary entry used to bias and correct transcription
+ * (product names, jargon, people's names)
+ */
+export interface GlossaryTerm {
+  term: string; // Correct spelling
+  misspellings: string[]; // Variants the transcriber tends to produce instead
+}
+
 export interface VoiceDNA {
-  spokenPatterns: SpokenPatterns | null;
+  spokenPatterns: SpokenPatterns | null; // Across every language the user has recorded in
+  spokenPatternsByLanguage?: Record<string, SpokenPatterns>; // Keyed by ISO-639-1 code
   writtenPatterns: WrittenPatterns | null;
   tonalAttributes: TonalAttributes | null;
   referentInfluences: ReferentInfluences | null;